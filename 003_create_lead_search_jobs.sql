@@ -0,0 +1,25 @@
+create table if not exists public.lead_search_jobs (
+    job_id text primary key,
+    user_id text not null,
+    status text not null check (status in ('queued', 'in_progress', 'completed', 'failed')),
+    phase text not null default 'queued' check (phase in ('queued', 'companies', 'hydration', 'people', 'persist', 'done')),
+    batch_run_id text not null,
+    filters_hash text,
+    request_payload jsonb not null default '{}'::jsonb,
+    company_pages_fetched integer not null default 0,
+    people_pages_fetched integer not null default 0,
+    companies_found integer not null default 0,
+    leads_saved integer not null default 0,
+    errors jsonb not null default '[]'::jsonb,
+    result jsonb,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    started_at timestamptz,
+    completed_at timestamptz
+);
+
+create index if not exists idx_lead_search_jobs_status_created
+    on public.lead_search_jobs (status, created_at asc);
+
+create index if not exists idx_lead_search_jobs_user_created
+    on public.lead_search_jobs (user_id, created_at desc);
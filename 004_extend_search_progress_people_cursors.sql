@@ -0,0 +1,8 @@
+alter table if exists public.search_progress
+    add column if not exists companies_exhausted boolean not null default false,
+    add column if not exists people_cursors jsonb not null default '{}'::jsonb,
+    add column if not exists exhausted boolean not null default false,
+    add column if not exists exhausted_at timestamptz;
+
+create index if not exists idx_search_progress_exhausted
+    on public.search_progress (user_id, exhausted);
@@ -0,0 +1,34 @@
+create table if not exists public.lead_contacts (
+    contact_id text primary key,
+    canonical_source_table text not null check (canonical_source_table in ('people_search_leads', 'enriched_leads')),
+    canonical_source_id text not null,
+    merged_into_contact_id text references public.lead_contacts(contact_id) on delete set null,
+    merge_history jsonb not null default '[]'::jsonb,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+create table if not exists public.lead_identities (
+    source_table text not null check (source_table in ('people_search_leads', 'enriched_leads')),
+    source_id text not null,
+    contact_id text not null references public.lead_contacts(contact_id) on delete cascade,
+    linkedin_key text,
+    email_key text,
+    name_domain_key text,
+    matched_on jsonb not null default '[]'::jsonb,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    primary key (source_table, source_id)
+);
+
+create index if not exists idx_lead_identities_contact_id
+    on public.lead_identities (contact_id);
+
+create index if not exists idx_lead_identities_linkedin_key
+    on public.lead_identities (linkedin_key) where linkedin_key is not null;
+
+create index if not exists idx_lead_identities_email_key
+    on public.lead_identities (email_key) where email_key is not null;
+
+create index if not exists idx_lead_identities_name_domain_key
+    on public.lead_identities (name_domain_key) where name_domain_key is not null;
@@ -0,0 +1,22 @@
+create table if not exists public.icp_profiles (
+    profile_id text primary key,
+    owner_type text not null check (owner_type in ('user', 'org')),
+    owner_id text not null,
+    name text not null default 'Default ICP',
+    criteria jsonb not null default '{}'::jsonb,
+    weights jsonb not null default '{}'::jsonb,
+    is_active boolean not null default true,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_icp_profiles_owner
+    on public.icp_profiles (owner_type, owner_id, updated_at desc);
+
+alter table if exists public.people_search_leads
+    add column if not exists icp_score integer,
+    add column if not exists icp_reasons jsonb,
+    add column if not exists icp_profile_id text;
+
+create index if not exists idx_people_search_leads_icp_score
+    on public.people_search_leads (batch_run_id, icp_score desc);
@@ -0,0 +1,44 @@
+create table if not exists public.saved_searches (
+    saved_search_id text primary key,
+    user_id text not null,
+    org_id text,
+    name text not null,
+    filters jsonb not null default '{}'::jsonb,
+    filters_hash text not null,
+    max_results integer not null default 50,
+    schedule text not null default 'weekly' check (schedule in ('manual', 'daily', 'weekly', 'monthly')),
+    is_active boolean not null default true,
+    next_run_at timestamptz,
+    last_run_at timestamptz,
+    last_run_id text,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_saved_searches_user_created
+    on public.saved_searches (user_id, created_at desc);
+
+create index if not exists idx_saved_searches_due
+    on public.saved_searches (next_run_at asc) where is_active and schedule <> 'manual';
+
+create table if not exists public.saved_search_runs (
+    run_id text primary key,
+    saved_search_id text not null references public.saved_searches(saved_search_id) on delete cascade,
+    batch_run_id text not null,
+    status text not null check (status in ('in_progress', 'completed', 'failed')),
+    trigger text not null default 'schedule' check (trigger in ('schedule', 'manual')),
+    leads_count integer not null default 0,
+    new_count integer not null default 0,
+    changed_count integer not null default 0,
+    unchanged_count integer not null default 0,
+    new_lead_ids jsonb not null default '[]'::jsonb,
+    changed_lead_ids jsonb not null default '[]'::jsonb,
+    lead_fingerprints jsonb not null default '{}'::jsonb,
+    previous_run_id text,
+    error text,
+    started_at timestamptz not null default now(),
+    completed_at timestamptz
+);
+
+create index if not exists idx_saved_search_runs_search_started
+    on public.saved_search_runs (saved_search_id, started_at desc);
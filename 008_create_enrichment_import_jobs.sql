@@ -0,0 +1,25 @@
+create table if not exists public.enrichment_import_jobs (
+    job_id text primary key,
+    user_id text,
+    status text not null check (status in ('queued', 'in_progress', 'completed', 'failed')),
+    table_name text not null check (table_name in ('people_search_leads', 'enriched_leads')),
+    base_url text not null,
+    reveal_preferences jsonb not null default '{}'::jsonb,
+    column_mapping jsonb not null default '{}'::jsonb,
+    concurrency integer not null default 3,
+    rows jsonb not null default '[]'::jsonb,
+    total_rows integer not null default 0,
+    queued_count integer not null default 0,
+    matched_count integer not null default 0,
+    pending_webhook_count integer not null default 0,
+    failed_count integer not null default 0,
+    skipped_count integer not null default 0,
+    error text,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    started_at timestamptz,
+    completed_at timestamptz
+);
+
+create index if not exists idx_enrichment_import_jobs_status_created
+    on public.enrichment_import_jobs (status, created_at asc);
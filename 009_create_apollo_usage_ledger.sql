@@ -0,0 +1,24 @@
+create table if not exists public.apollo_usage_ledger (
+    entry_id text primary key,
+    user_id text,
+    org_id text,
+    source text not null,
+    endpoint text not null,
+    label text not null,
+    reveal_email boolean not null default false,
+    reveal_phone boolean not null default false,
+    status_code integer,
+    matched boolean not null default false,
+    matched_count integer not null default 0,
+    estimated_credits numeric not null default 0,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists idx_apollo_usage_ledger_created
+    on public.apollo_usage_ledger (created_at asc);
+
+create index if not exists idx_apollo_usage_ledger_user_created
+    on public.apollo_usage_ledger (user_id, created_at asc);
+
+create index if not exists idx_apollo_usage_ledger_org_created
+    on public.apollo_usage_ledger (org_id, created_at asc);
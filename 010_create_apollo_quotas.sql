@@ -0,0 +1,15 @@
+create table if not exists public.apollo_quotas (
+    owner_type text not null check (owner_type in ('user', 'org')),
+    owner_id text not null,
+    max_email_reveals_per_day integer check (max_email_reveals_per_day >= 0),
+    max_phone_reveals_per_month integer check (max_phone_reveals_per_month >= 0),
+    max_search_pages_per_run integer check (max_search_pages_per_run >= 0),
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    primary key (owner_type, owner_id)
+);
+
+-- Reveal quotas count matched reveal calls in the ledger since the start of the day/month.
+create index if not exists idx_apollo_usage_ledger_reveals
+    on public.apollo_usage_ledger (created_at)
+    where matched and (reveal_email or reveal_phone);
@@ -0,0 +1,20 @@
+create table if not exists public.api_keys (
+    key_id text primary key,
+    org_id text not null,
+    user_id text not null,
+    name text not null default 'API key',
+    key_prefix text not null,
+    key_hash text not null unique,
+    scopes text[] not null default '{}',
+    allowed_origins text[] not null default '{}',
+    created_at timestamptz not null default now(),
+    last_used_at timestamptz,
+    expires_at timestamptz,
+    revoked_at timestamptz
+);
+
+create index if not exists idx_api_keys_org_created
+    on public.api_keys (org_id, created_at desc);
+
+create index if not exists idx_api_keys_allowed_origins
+    on public.api_keys using gin (allowed_origins);
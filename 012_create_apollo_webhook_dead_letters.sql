@@ -0,0 +1,24 @@
+create table if not exists public.apollo_webhook_dead_letters (
+    dead_letter_id text primary key,
+    record_id text not null,
+    table_name text not null check (table_name in ('people_search_leads', 'enriched_leads')),
+    status text not null default 'pending' check (status in ('pending', 'replayed', 'discarded')),
+    reveal_email boolean not null default false,
+    reveal_phone boolean not null default false,
+    updates jsonb not null default '{}'::jsonb,
+    apollo_data jsonb,
+    received_count integer not null default 1,
+    attempts integer not null default 0,
+    last_error text,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    last_attempt_at timestamptz,
+    replayed_at timestamptz,
+    discarded_at timestamptz,
+    unique (table_name, record_id)
+);
+
+-- The reconciliation job picks pending dead letters, least recently attempted first.
+create index if not exists idx_apollo_webhook_dead_letters_pending
+    on public.apollo_webhook_dead_letters (last_attempt_at asc nulls first, created_at asc)
+    where status = 'pending';
@@ -0,0 +1,21 @@
+-- Enrichment state machine: requested -> pending -> completed | failed | stale.
+alter table if exists public.people_search_leads
+    add column if not exists enrichment_status_at timestamptz,
+    add column if not exists enrichment_attempts integer not null default 0,
+    add column if not exists enrichment_error text,
+    add column if not exists enrichment_request jsonb;
+
+alter table if exists public.enriched_leads
+    add column if not exists enrichment_status_at timestamptz,
+    add column if not exists enrichment_attempts integer not null default 0,
+    add column if not exists enrichment_error text,
+    add column if not exists enrichment_request jsonb;
+
+-- The sweep only looks at enrichments that are not final yet.
+create index if not exists idx_people_search_leads_enrichment_open
+    on public.people_search_leads (enrichment_status, enrichment_status_at)
+    where enrichment_status in ('requested', 'pending', 'stale');
+
+create index if not exists idx_enriched_leads_enrichment_open
+    on public.enriched_leads (enrichment_status, enrichment_status_at)
+    where enrichment_status in ('requested', 'pending', 'stale');
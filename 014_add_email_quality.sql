@@ -0,0 +1,11 @@
+-- Offline email classification written when leads are saved or enriched:
+-- { email, grade, syntax_valid, domain, domain_type, is_role_based, matches_organization_domain, flags }
+alter table if exists public.people_search_leads
+    add column if not exists email_quality jsonb;
+
+alter table if exists public.enriched_leads
+    add column if not exists email_quality jsonb;
+
+-- Lets callers filter out invalid, disposable and role-based addresses.
+create index if not exists idx_people_search_leads_email_quality_grade
+    on public.people_search_leads ((email_quality->>'grade'));
@@ -0,0 +1,40 @@
+-- Hydrated Apollo organizations, reused by lead search until they are older than
+-- ORGANIZATION_CACHE_TTL_HOURS (default 168).
+create table if not exists public.organizations (
+    organization_id text primary key,
+    name text not null,
+    primary_domain text,
+    website_url text,
+    linkedin_url text,
+    industry text,
+    estimated_num_employees integer,
+    city text,
+    state text,
+    country text,
+    owned_by_organization_id text,
+    owned_by_organization_name text,
+    owned_by_organization_domain text,
+    hydrated_at timestamptz not null default now(),
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_organizations_primary_domain
+    on public.organizations (primary_domain);
+
+create index if not exists idx_organizations_hydrated_at
+    on public.organizations (hydrated_at);
+
+-- Leads reference organizations by Apollo organization id. No foreign key: a lead can point
+-- at an organization that was never hydrated.
+alter table if exists public.people_search_leads
+    add column if not exists organization_id text;
+
+alter table if exists public.enriched_leads
+    add column if not exists organization_id text;
+
+create index if not exists idx_people_search_leads_organization_id
+    on public.people_search_leads (organization_id);
+
+create index if not exists idx_enriched_leads_organization_id
+    on public.enriched_leads (organization_id);
@@ -0,0 +1,39 @@
+-- Companies found by batch and companies_only lead searches, one row per owner and Apollo
+-- organization. Re-runs update the row and tag it with the latest batch run.
+create table if not exists public.accounts (
+    owner_type text not null check (owner_type in ('user', 'org')),
+    owner_id text not null,
+    organization_id text not null,
+    name text not null,
+    primary_domain text,
+    website_url text,
+    linkedin_url text,
+    industry text,
+    estimated_num_employees integer,
+    city text,
+    state text,
+    country text,
+    naics_codes text[] not null default '{}',
+    sic_codes text[] not null default '{}',
+    owned_by_organization_id text,
+    owned_by_organization_name text,
+    batch_run_id text not null,
+    filters_hash text not null,
+    first_seen_at timestamptz not null default now(),
+    last_seen_at timestamptz not null default now(),
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    primary key (owner_type, owner_id, organization_id)
+);
+
+create index if not exists idx_accounts_owner_last_seen
+    on public.accounts (owner_type, owner_id, last_seen_at desc);
+
+create index if not exists idx_accounts_batch_run
+    on public.accounts (batch_run_id);
+
+create index if not exists idx_accounts_owner_filters_hash
+    on public.accounts (owner_type, owner_id, filters_hash);
+
+create index if not exists idx_accounts_owner_domain
+    on public.accounts (owner_type, owner_id, primary_domain);
@@ -0,0 +1,10 @@
+-- Parent-subsidiary links come from Apollo's owned_by_organization and are stored as
+-- owned_by_organization_id on organizations and accounts. These indexes serve the
+-- children and sibling lookups of GET /api/accounts/{id}/family.
+create index if not exists idx_organizations_owned_by
+    on public.organizations (owned_by_organization_id)
+    where owned_by_organization_id is not null;
+
+create index if not exists idx_accounts_owner_owned_by
+    on public.accounts (owner_type, owner_id, owned_by_organization_id)
+    where owned_by_organization_id is not null;
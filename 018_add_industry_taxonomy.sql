@@ -0,0 +1,25 @@
+-- Place in the bundled industry taxonomy (src/lib/industries/taxonomy.ts), classified from
+-- NAICS codes, then SIC codes, then Apollo's industry label. industry_path holds the codes
+-- from the top-level sector down, e.g. {technology,technology.software}.
+alter table if exists public.people_search_leads
+    add column if not exists industry_code text,
+    add column if not exists industry_path text[];
+
+alter table if exists public.enriched_leads
+    add column if not exists industry_code text,
+    add column if not exists industry_path text[];
+
+alter table if exists public.organizations
+    add column if not exists industry_code text,
+    add column if not exists industry_path text[];
+
+alter table if exists public.accounts
+    add column if not exists industry_code text,
+    add column if not exists industry_path text[];
+
+create index if not exists idx_people_search_leads_industry_code
+    on public.people_search_leads (industry_code);
+
+-- GET /api/accounts?industry_code= matches a code and everything below it.
+create index if not exists idx_accounts_industry_path
+    on public.accounts using gin (industry_path);
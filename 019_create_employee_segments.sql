@@ -0,0 +1,9 @@
+-- Named company size bands of an org (e.g. its own "SMB" or "mid_market"), matched against
+-- employee_ranges in lead searches on top of the defaults in src/lib/employee-ranges/segments.ts.
+-- segments: [{ name, min_employees, max_employees, aliases }]
+create table if not exists public.employee_segments (
+    org_id text primary key,
+    segments jsonb not null default '[]'::jsonb,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
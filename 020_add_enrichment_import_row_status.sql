@@ -0,0 +1,74 @@
+create index if not exists idx_enrichment_import_jobs_rows
+    on public.enrichment_import_jobs using gin (rows jsonb_path_ops);
+
+create index if not exists idx_enrichment_import_jobs_status_updated
+    on public.enrichment_import_jobs (status, updated_at asc);
+
+-- Moves the import row created for p_record_id to p_status when it is still in one of
+-- p_from_statuses, and recomputes the job counts. The import worker, the Apollo webhook and
+-- the enrichment sweep all update rows through here, so none of them overwrites the others.
+-- Returns the number of jobs changed.
+create or replace function public.set_enrichment_import_row_status(
+    p_record_id text,
+    p_from_statuses text[],
+    p_status text,
+    p_reason text default null,
+    p_job_id text default null
+) returns integer
+language plpgsql
+as $$
+declare
+    changed_jobs text[];
+begin
+    with changed as (
+        update public.enrichment_import_jobs as jobs
+        set rows = (
+                select jsonb_agg(
+                    case
+                        when entry->>'record_id' = p_record_id and entry->>'status' = any(p_from_statuses)
+                            then entry || jsonb_build_object('status', p_status, 'reason', p_reason)
+                        else entry
+                    end
+                    order by position
+                )
+                from jsonb_array_elements(jobs.rows) with ordinality as entries(entry, position)
+            ),
+            updated_at = now()
+        where jobs.rows @> jsonb_build_array(jsonb_build_object('record_id', p_record_id))
+          and (p_job_id is null or jobs.job_id = p_job_id)
+          and exists (
+              select 1
+              from jsonb_array_elements(jobs.rows) as entry
+              where entry->>'record_id' = p_record_id and entry->>'status' = any(p_from_statuses)
+          )
+        returning jobs.job_id
+    )
+    select array_agg(job_id) into changed_jobs from changed;
+
+    if changed_jobs is null then
+        return 0;
+    end if;
+
+    update public.enrichment_import_jobs as jobs
+    set queued_count = counts.queued_count,
+        matched_count = counts.matched_count,
+        pending_webhook_count = counts.pending_webhook_count,
+        failed_count = counts.failed_count,
+        skipped_count = counts.skipped_count
+    from (
+        select
+            job_id,
+            count(*) filter (where entry->>'status' = 'queued') as queued_count,
+            count(*) filter (where entry->>'status' = 'matched') as matched_count,
+            count(*) filter (where entry->>'status' = 'pending_webhook') as pending_webhook_count,
+            count(*) filter (where entry->>'status' = 'failed') as failed_count,
+            count(*) filter (where entry->>'status' = 'skipped') as skipped_count
+        from public.enrichment_import_jobs, jsonb_array_elements(rows) as entry
+        where job_id = any(changed_jobs)
+        group by job_id
+    ) as counts
+    where jobs.job_id = counts.job_id;
+
+    return array_length(changed_jobs, 1);
+end;
+$$;
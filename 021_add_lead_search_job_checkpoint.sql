@@ -0,0 +1,5 @@
+alter table if exists public.lead_search_jobs
+    add column if not exists search_checkpoint jsonb;
+
+create index if not exists idx_lead_search_jobs_status_updated
+    on public.lead_search_jobs (status, updated_at asc);
@@ -0,0 +1,5 @@
+alter table if exists public.people_search_leads
+    add column if not exists org_id text;
+
+create index if not exists idx_people_search_leads_org_batch
+    on public.people_search_leads (org_id, batch_run_id);
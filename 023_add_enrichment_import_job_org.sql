@@ -0,0 +1,5 @@
+alter table if exists public.enrichment_import_jobs
+    add column if not exists org_id text;
+
+create index if not exists idx_enrichment_import_jobs_org_created
+    on public.enrichment_import_jobs (org_id, created_at desc);
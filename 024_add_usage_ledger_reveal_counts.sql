@@ -0,0 +1,19 @@
+alter table if exists public.apollo_usage_ledger
+    add column if not exists emails_revealed integer not null default 0,
+    add column if not exists phones_revealed integer not null default 0;
+
+create index if not exists idx_apollo_usage_ledger_user_email_reveals
+    on public.apollo_usage_ledger (user_id, created_at asc)
+    where emails_revealed > 0;
+
+create index if not exists idx_apollo_usage_ledger_user_phone_reveals
+    on public.apollo_usage_ledger (user_id, created_at asc)
+    where phones_revealed > 0;
+
+create index if not exists idx_apollo_usage_ledger_org_email_reveals
+    on public.apollo_usage_ledger (org_id, created_at asc)
+    where emails_revealed > 0;
+
+create index if not exists idx_apollo_usage_ledger_org_phone_reveals
+    on public.apollo_usage_ledger (org_id, created_at asc)
+    where phones_revealed > 0;
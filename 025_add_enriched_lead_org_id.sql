@@ -0,0 +1,5 @@
+alter table if exists public.enriched_leads
+    add column if not exists org_id text;
+
+create index if not exists idx_enriched_leads_org
+    on public.enriched_leads (org_id);
@@ -1,24 +1,5 @@
 import type {NextConfig} from 'next';
 
-const leadSearchCorsHeaders = [
-  {
-    key: 'Access-Control-Allow-Origin',
-    value: '*',
-  },
-  {
-    key: 'Access-Control-Allow-Methods',
-    value: 'GET, POST, OPTIONS',
-  },
-  {
-    key: 'Access-Control-Allow-Headers',
-    value: 'Content-Type, Authorization',
-  },
-  {
-    key: 'Access-Control-Max-Age',
-    value: '86400',
-  },
-];
-
 const nextConfig: NextConfig = {
   /* config options here */
   typescript: {
@@ -49,18 +30,6 @@ const nextConfig: NextConfig = {
       },
     ],
   },
-  async headers() {
-    return [
-      {
-        source: '/api/lead-search',
-        headers: leadSearchCorsHeaders,
-      },
-      {
-        source: '/api/leads/search',
-        headers: leadSearchCorsHeaders,
-      },
-    ];
-  },
 };
 
 export default nextConfig;
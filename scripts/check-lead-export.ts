@@ -0,0 +1,46 @@
+// Checks the CSV escaping and header presets of lead exports: npm run check:export
+import assert from 'node:assert/strict';
+import {
+    buildLeadExportCsvLine,
+    buildLeadExportRow,
+    escapeCsvCell,
+    resolveLeadExportColumns,
+} from '../src/lib/lead-search/export';
+
+// Phones are exported as written, formulas are neutralized.
+assert.equal(escapeCsvCell('+56912345678'), '+56912345678');
+assert.equal(escapeCsvCell('+56912345678; +5622345678'), '+56912345678; +5622345678');
+assert.equal(escapeCsvCell('=HYPERLINK("http://x")'), `"'=HYPERLINK(""http://x"")"`);
+assert.equal(escapeCsvCell('+SUM(A1:A2)'), "'+SUM(A1:A2)");
+assert.equal(escapeCsvCell('@cmd'), "'@cmd");
+assert.equal(escapeCsvCell('-1+1'), "'-1+1");
+assert.equal(escapeCsvCell('Pérez, Ana'), '"Pérez, Ana"');
+assert.equal(escapeCsvCell(null), '');
+assert.equal(escapeCsvCell(120), '120');
+
+// A preset picks its CRM's headers and default columns.
+const hubspot = resolveLeadExportColumns({ columns: [], preset: 'hubspot' });
+assert.deepEqual(hubspot.unknown, []);
+assert.deepEqual(
+    hubspot.columns.slice(0, 5).map((column) => column.header),
+    ['First Name', 'Last Name', 'Email', 'Job Title', 'Phone Number']
+);
+
+const custom = resolveLeadExportColumns({
+    columns: ['email', 'primary_phone', 'nickname'],
+    preset: 'salesforce',
+    headers: { email: 'Work Email' },
+});
+assert.deepEqual(custom.unknown, ['nickname']);
+assert.deepEqual(custom.columns, [
+    { key: 'email', header: 'Work Email' },
+    { key: 'primary_phone', header: 'Phone' },
+]);
+
+const line = buildLeadExportCsvLine(buildLeadExportRow(
+    { first_name: 'Ana', last_name: 'Pérez', email: 'ana@acme.cl', title: null, primary_phone: '+56912345678' },
+    hubspot.columns.slice(0, 5)
+));
+assert.equal(line, 'Ana,Pérez,ana@acme.cl,,+56912345678\r\n');
+
+console.log('Lead export checks passed.');
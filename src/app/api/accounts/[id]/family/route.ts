@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { applyApiKeyCors, buildApiKeyPreflightResponse, requireApiKey } from '@/lib/api-keys/auth';
+import { isMissingAccountStorageError, resolveAccountOwner } from '@/lib/accounts/persistence';
+import { loadCorporateFamily } from '@/lib/organizations/family';
+import { isMissingOrganizationStorageError } from '@/lib/organizations/persistence';
+
+export const runtime = 'nodejs';
+
+type RouteContext = {
+    params: Promise<{
+        id: string;
+    }>;
+};
+
+export async function OPTIONS(req: Request) {
+    return buildApiKeyPreflightResponse(req, 'GET, OPTIONS');
+}
+
+export async function GET(req: Request, context: RouteContext) {
+    const auth = await requireApiKey(req, 'search');
+    if (auth.response) return auth.response;
+
+    const { id: organizationId } = await context.params;
+
+    try {
+        const family = await loadCorporateFamily({
+            organizationId,
+            owner: resolveAccountOwner({ userId: auth.principal.user_id, orgId: auth.principal.org_id }),
+        });
+
+        if (!family) {
+            return NextResponse.json(
+                {
+                    error: 'ACCOUNT_NOT_FOUND',
+                    message: `No account or organization was found for id ${organizationId}`,
+                },
+                { status: 404 }
+            );
+        }
+
+        return applyApiKeyCors(req, NextResponse.json(family, { status: 200 }), auth.principal);
+    } catch (error: any) {
+        if (isMissingAccountStorageError(error) || isMissingOrganizationStorageError(error)) {
+            return NextResponse.json(
+                {
+                    error: 'ACCOUNT_STORAGE_UNAVAILABLE',
+                    message: 'Corporate families require the organizations and accounts tables. Run 015_create_organizations.sql, 016_create_accounts.sql and 017_index_corporate_family.sql first.',
+                },
+                { status: 500 }
+            );
+        }
+
+        return NextResponse.json(
+            { error: 'ACCOUNTS_REQUEST_FAILED', message: error?.message || 'Failed to load the corporate family' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,100 @@
+import { NextResponse } from 'next/server';
+import { applyApiKeyCors, buildApiKeyPreflightResponse, requireApiKey } from '@/lib/api-keys/auth';
+import { isMissingAccountStorageError, listAccounts, resolveAccountOwner } from '@/lib/accounts/persistence';
+import { AccountListFilters } from '@/lib/accounts/types';
+import { normalizeDomain } from '@/lib/lead-search/normalize';
+
+export const runtime = 'nodejs';
+
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+
+function invalidRequest(message: string) {
+    return NextResponse.json({ error: 'INVALID_ACCOUNTS_REQUEST', message }, { status: 400 });
+}
+
+// Undefined when absent, null when not a non-negative integer.
+function parseNonNegativeInteger(value: string | null): number | null | undefined {
+    if (!value?.trim()) return undefined;
+
+    const parsed = Number(value.trim());
+    return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+}
+
+export async function OPTIONS(req: Request) {
+    return buildApiKeyPreflightResponse(req, 'GET, OPTIONS');
+}
+
+export async function GET(req: Request) {
+    const auth = await requireApiKey(req, 'search');
+    if (auth.response) return auth.response;
+
+    const searchParams = new URL(req.url).searchParams;
+    const readParam = (name: string) => searchParams.get(name)?.trim() || null;
+
+    const limit = parseNonNegativeInteger(searchParams.get('limit'));
+    const offset = parseNonNegativeInteger(searchParams.get('offset'));
+    const minEmployees = parseNonNegativeInteger(searchParams.get('min_employees'));
+    const maxEmployees = parseNonNegativeInteger(searchParams.get('max_employees'));
+
+    if (limit === null || limit === 0) return invalidRequest('limit must be a positive integer.');
+    if (offset === null) return invalidRequest('offset must be a non-negative integer.');
+    if (minEmployees === null || maxEmployees === null) {
+        return invalidRequest('min_employees and max_employees must be non-negative integers.');
+    }
+    if (minEmployees !== undefined && maxEmployees !== undefined && minEmployees > maxEmployees) {
+        return invalidRequest('min_employees cannot be greater than max_employees.');
+    }
+
+    const domain = readParam('domain');
+    const filters: AccountListFilters = {
+        batch_run_id: readParam('batch_run_id'),
+        filters_hash: readParam('filters_hash'),
+        name: readParam('name'),
+        domain: domain ? normalizeDomain(domain) || null : null,
+        industry: readParam('industry'),
+        industry_code: readParam('industry_code')?.toLowerCase() || null,
+        country: readParam('country'),
+        min_employees: minEmployees ?? null,
+        max_employees: maxEmployees ?? null,
+    };
+    const resolvedLimit = Math.min(limit ?? DEFAULT_LIST_LIMIT, MAX_LIST_LIMIT);
+    const resolvedOffset = offset ?? 0;
+
+    try {
+        const { accounts, total } = await listAccounts({
+            owner: resolveAccountOwner({ userId: auth.principal.user_id, orgId: auth.principal.org_id }),
+            filters,
+            limit: resolvedLimit,
+            offset: resolvedOffset,
+        });
+
+        const response = NextResponse.json(
+            {
+                accounts,
+                total,
+                limit: resolvedLimit,
+                offset: resolvedOffset,
+                has_more: resolvedOffset + accounts.length < total,
+                filters,
+            },
+            { status: 200 }
+        );
+        return applyApiKeyCors(req, response, auth.principal);
+    } catch (error: any) {
+        if (isMissingAccountStorageError(error)) {
+            return NextResponse.json(
+                {
+                    error: 'ACCOUNT_STORAGE_UNAVAILABLE',
+                    message: 'Accounts require the accounts table. Run 016_create_accounts.sql first.',
+                },
+                { status: 500 }
+            );
+        }
+
+        return NextResponse.json(
+            { error: 'ACCOUNTS_REQUEST_FAILED', message: error?.message || 'Failed to list accounts' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { requireApiKeyAdmin } from '@/lib/api-keys/admin';
+import { getApiKey, isMissingApiKeyStorageError, revokeApiKey } from '@/lib/api-keys/persistence';
+
+export const runtime = 'nodejs';
+
+type RouteContext = {
+    params: Promise<{
+        keyId: string;
+    }>;
+};
+
+export async function POST(req: Request, context: RouteContext) {
+    const access = await requireApiKeyAdmin(req);
+    if (access.response) return access.response;
+
+    const { keyId } = await context.params;
+
+    try {
+        const existing = await getApiKey(keyId);
+        if (!existing || (access.orgId && existing.org_id !== access.orgId)) {
+            return NextResponse.json(
+                { error: 'API_KEY_NOT_FOUND', message: `No API key was found for id ${keyId}` },
+                { status: 404 }
+            );
+        }
+
+        if (existing.revoked_at) {
+            return NextResponse.json(existing, { status: 200 });
+        }
+
+        const revoked = await revokeApiKey(keyId);
+        return NextResponse.json(revoked || (await getApiKey(keyId)), { status: 200 });
+    } catch (error: any) {
+        if (isMissingApiKeyStorageError(error)) {
+            return NextResponse.json(
+                {
+                    error: 'API_KEY_STORAGE_UNAVAILABLE',
+                    message: 'API keys require the api_keys table. Run 011_create_api_keys.sql first.',
+                },
+                { status: 500 }
+            );
+        }
+        return NextResponse.json(
+            { error: 'API_KEY_REQUEST_FAILED', message: error?.message || 'Failed to revoke API key' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { requireApiKeyAdmin } from '@/lib/api-keys/admin';
+import { generateApiKey, normalizeAllowedOrigins, normalizeScopes } from '@/lib/api-keys/keys';
+import { createApiKeyRecord, isMissingApiKeyStorageError, listApiKeys } from '@/lib/api-keys/persistence';
+import { normalizeOptionalString } from '@/lib/lead-search/normalize';
+
+export const runtime = 'nodejs';
+
+function storageUnavailableResponse() {
+    return NextResponse.json(
+        {
+            error: 'API_KEY_STORAGE_UNAVAILABLE',
+            message: 'API keys require the api_keys table. Run 011_create_api_keys.sql first.',
+        },
+        { status: 500 }
+    );
+}
+
+function invalidRequest(message: string) {
+    return NextResponse.json({ error: 'INVALID_API_KEY_REQUEST', message }, { status: 400 });
+}
+
+export async function GET(req: Request) {
+    const access = await requireApiKeyAdmin(req);
+    if (access.response) return access.response;
+
+    const orgId = access.orgId || new URL(req.url).searchParams.get('org_id')?.trim() || '';
+    if (!orgId) return invalidRequest('Missing org_id');
+
+    try {
+        const keys = await listApiKeys(orgId);
+        return NextResponse.json({ api_keys: keys }, { status: 200 });
+    } catch (error: any) {
+        if (isMissingApiKeyStorageError(error)) return storageUnavailableResponse();
+        return NextResponse.json(
+            { error: 'API_KEY_REQUEST_FAILED', message: error?.message || 'Failed to list API keys' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(req: Request) {
+    const access = await requireApiKeyAdmin(req);
+    if (access.response) return access.response;
+
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== 'object') return invalidRequest('Invalid JSON body');
+
+    const orgId = access.orgId || normalizeOptionalString(body.org_id);
+    const userId = normalizeOptionalString(body.user_id);
+    if (!orgId || !userId) return invalidRequest('Missing org_id or user_id');
+
+    let scopes;
+    let allowedOrigins;
+    try {
+        scopes = normalizeScopes(body.scopes);
+        allowedOrigins = normalizeAllowedOrigins(body.allowed_origins);
+    } catch (error: any) {
+        return invalidRequest(error?.message || 'Invalid API key settings');
+    }
+
+    const expiresAtRaw = normalizeOptionalString(body.expires_at);
+    const expiresAt = expiresAtRaw ? new Date(expiresAtRaw) : null;
+    if (expiresAt && (Number.isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now())) {
+        return invalidRequest('expires_at must be a future ISO date');
+    }
+
+    try {
+        const generated = generateApiKey();
+        const record = await createApiKeyRecord({
+            keyId: uuidv4(),
+            orgId,
+            userId,
+            name: normalizeOptionalString(body.name) || 'API key',
+            keyPrefix: generated.prefix,
+            keyHash: generated.hash,
+            scopes,
+            allowedOrigins,
+            expiresAt: expiresAt ? expiresAt.toISOString() : null,
+        });
+
+        // The plaintext key is only returned here; it cannot be recovered later.
+        return NextResponse.json({ ...record, api_key: generated.key }, { status: 201 });
+    } catch (error: any) {
+        if (isMissingApiKeyStorageError(error)) return storageUnavailableResponse();
+        return NextResponse.json(
+            { error: 'API_KEY_REQUEST_FAILED', message: error?.message || 'Failed to create API key' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { hasValidSecret } from '@/lib/auth/secrets';
+import {
+    discardWebhookDeadLetter,
+    getWebhookDeadLetter,
+    isMissingDeadLetterStorageError,
+} from '@/lib/enrich/webhook-dead-letters';
+
+export const runtime = 'nodejs';
+
+type RouteContext = {
+    params: Promise<{
+        deadLetterId: string;
+    }>;
+};
+
+export async function POST(req: Request, context: RouteContext) {
+    if (!hasValidSecret(req, 'API_SECRET_KEY')) {
+        return NextResponse.json(
+            { error: 'UNAUTHORIZED', message: 'Missing or invalid API secret key.' },
+            { status: 401 }
+        );
+    }
+
+    const { deadLetterId } = await context.params;
+
+    try {
+        const existing = await getWebhookDeadLetter(deadLetterId);
+        if (!existing) {
+            return NextResponse.json(
+                { error: 'DEAD_LETTER_NOT_FOUND', message: `No dead letter was found for id ${deadLetterId}` },
+                { status: 404 }
+            );
+        }
+
+        if (existing.status === 'discarded') {
+            return NextResponse.json(existing, { status: 200 });
+        }
+
+        if (existing.status !== 'pending') {
+            return NextResponse.json(
+                {
+                    error: 'DEAD_LETTER_NOT_PENDING',
+                    message: `Dead letter is already ${existing.status}.`,
+                    dead_letter: existing,
+                },
+                { status: 409 }
+            );
+        }
+
+        const discarded = await discardWebhookDeadLetter(deadLetterId);
+        return NextResponse.json(discarded || (await getWebhookDeadLetter(deadLetterId)), { status: 200 });
+    } catch (error: any) {
+        if (isMissingDeadLetterStorageError(error)) {
+            return NextResponse.json(
+                {
+                    error: 'DEAD_LETTER_STORAGE_UNAVAILABLE',
+                    message: 'Webhook dead letters require the apollo_webhook_dead_letters table. Run 012_create_apollo_webhook_dead_letters.sql first.',
+                },
+                { status: 500 }
+            );
+        }
+        return NextResponse.json(
+            { error: 'DEAD_LETTER_REQUEST_FAILED', message: error?.message || 'Failed to discard dead letter' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { hasValidSecret } from '@/lib/auth/secrets';
+import { getWebhookDeadLetter, isMissingDeadLetterStorageError } from '@/lib/enrich/webhook-dead-letters';
+import { replayWebhookDeadLetter } from '@/lib/enrich/webhook-reconcile';
+
+export const runtime = 'nodejs';
+
+type RouteContext = {
+    params: Promise<{
+        deadLetterId: string;
+    }>;
+};
+
+export async function POST(req: Request, context: RouteContext) {
+    if (!hasValidSecret(req, 'API_SECRET_KEY')) {
+        return NextResponse.json(
+            { error: 'UNAUTHORIZED', message: 'Missing or invalid API secret key.' },
+            { status: 401 }
+        );
+    }
+
+    const { deadLetterId } = await context.params;
+
+    try {
+        const deadLetter = await getWebhookDeadLetter(deadLetterId);
+        if (!deadLetter) {
+            return NextResponse.json(
+                { error: 'DEAD_LETTER_NOT_FOUND', message: `No dead letter was found for id ${deadLetterId}` },
+                { status: 404 }
+            );
+        }
+
+        if (deadLetter.status !== 'pending') {
+            return NextResponse.json(
+                {
+                    error: 'DEAD_LETTER_NOT_PENDING',
+                    message: `Dead letter is already ${deadLetter.status}.`,
+                    dead_letter: deadLetter,
+                },
+                { status: 409 }
+            );
+        }
+
+        const result = await replayWebhookDeadLetter(deadLetter, (msg, data) => {
+            console.log(`[webhook-dead-letter ${deadLetterId}] ${msg}`, data ? JSON.stringify(data) : '');
+        });
+
+        if (!result.replayed) {
+            return NextResponse.json(
+                {
+                    error: 'DEAD_LETTER_REPLAY_FAILED',
+                    message: result.error || 'The dead letter could not be applied.',
+                    dead_letter: result.dead_letter,
+                },
+                { status: 409 }
+            );
+        }
+
+        return NextResponse.json(result, { status: 200 });
+    } catch (error: any) {
+        if (isMissingDeadLetterStorageError(error)) {
+            return NextResponse.json(
+                {
+                    error: 'DEAD_LETTER_STORAGE_UNAVAILABLE',
+                    message: 'Webhook dead letters require the apollo_webhook_dead_letters table. Run 012_create_apollo_webhook_dead_letters.sql first.',
+                },
+                { status: 500 }
+            );
+        }
+        return NextResponse.json(
+            { error: 'DEAD_LETTER_REQUEST_FAILED', message: error?.message || 'Failed to replay dead letter' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { hasValidSecret } from '@/lib/auth/secrets';
+import { isAllowedWebhookTable } from '@/lib/apollo/webhook-signature';
+import {
+    WEBHOOK_DEAD_LETTER_STATUSES,
+    isMissingDeadLetterStorageError,
+    isWebhookDeadLetterStatus,
+    listWebhookDeadLetters,
+} from '@/lib/enrich/webhook-dead-letters';
+
+export const runtime = 'nodejs';
+
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+
+export async function GET(req: Request) {
+    if (!hasValidSecret(req, 'API_SECRET_KEY')) {
+        return NextResponse.json(
+            { error: 'UNAUTHORIZED', message: 'Missing or invalid API secret key.' },
+            { status: 401 }
+        );
+    }
+
+    const url = new URL(req.url);
+    const status = url.searchParams.get('status')?.trim() || 'pending';
+    const tableName = url.searchParams.get('table_name')?.trim() || null;
+    const recordId = url.searchParams.get('record_id')?.trim() || null;
+    const requestedLimit = Number(url.searchParams.get('limit'));
+    const limit = Number.isFinite(requestedLimit) && requestedLimit > 0
+        ? Math.min(Math.floor(requestedLimit), MAX_LIST_LIMIT)
+        : DEFAULT_LIST_LIMIT;
+
+    if (status !== 'all' && !isWebhookDeadLetterStatus(status)) {
+        return NextResponse.json(
+            {
+                error: 'INVALID_DEAD_LETTER_REQUEST',
+                message: `status must be one of: all, ${WEBHOOK_DEAD_LETTER_STATUSES.join(', ')}`,
+            },
+            { status: 400 }
+        );
+    }
+
+    if (tableName && !isAllowedWebhookTable(tableName)) {
+        return NextResponse.json(
+            { error: 'INVALID_DEAD_LETTER_REQUEST', message: `Invalid table_name: ${tableName}` },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const deadLetters = await listWebhookDeadLetters({
+            status: status === 'all' ? null : status,
+            tableName: tableName && isAllowedWebhookTable(tableName) ? tableName : null,
+            recordId,
+            limit,
+        });
+        return NextResponse.json({ dead_letters: deadLetters }, { status: 200 });
+    } catch (error: any) {
+        if (isMissingDeadLetterStorageError(error)) {
+            return NextResponse.json(
+                {
+                    error: 'DEAD_LETTER_STORAGE_UNAVAILABLE',
+                    message: 'Webhook dead letters require the apollo_webhook_dead_letters table. Run 012_create_apollo_webhook_dead_letters.sql first.',
+                },
+                { status: 500 }
+            );
+        }
+        return NextResponse.json(
+            { error: 'DEAD_LETTER_REQUEST_FAILED', message: error?.message || 'Failed to list dead letters' },
+            { status: 500 }
+        );
+    }
+}
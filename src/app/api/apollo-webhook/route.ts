@@ -1,89 +1,18 @@
 import { NextResponse } from 'next/server';
 import { getServiceSupabase } from '@/lib/supabase';
+import { verifyApolloWebhookUrl } from '@/lib/apollo/webhook-signature';
+import { classifyEmail } from '@/lib/email-quality/classify';
+import { classifyIndustry } from '@/lib/industries/classify';
+import { resolveLeadIdentities } from '@/lib/lead-identity/resolve';
+import { resolveApolloPersonPhones } from '@/lib/phones/normalize';
+import { updateRowWithSchemaFallback } from '@/lib/enrich/apollo';
+import { syncEnrichImportRow } from '@/lib/enrich/import';
+import { buildEnrichmentStateUpdates } from '@/lib/enrich/state';
+import { saveWebhookDeadLetter } from '@/lib/enrich/webhook-dead-letters';
+import { recordApolloPhoneReveal } from '@/lib/usage/ledger';
 
 const EMAIL_PLACEHOLDER = 'email_not_unlocked@apollo.io';
 
-function parseBooleanQueryValue(value?: string | null): boolean | null {
-    if (typeof value !== 'string') return null;
-
-    const normalized = value.trim().toLowerCase();
-    if (normalized === 'true' || normalized === '1' || normalized === 'yes') return true;
-    if (normalized === 'false' || normalized === '0' || normalized === 'no') return false;
-
-    return null;
-}
-
-function extractMissingColumnFromError(message?: string | null): string | null {
-    if (!message) return null;
-    const match = message.match(/Could not find the '([^']+)' column/i);
-    return match ? match[1] : null;
-}
-
-async function updateRowWithSchemaFallback(
-    supabaseAdmin: any,
-    tableName: string,
-    recordId: string,
-    updates: Record<string, any>
-) {
-    const safeUpdates: Record<string, any> = { ...updates };
-    const removedColumns: string[] = [];
-    const maxAttempts = 20;
-    let attempts = 0;
-
-    while (attempts < maxAttempts) {
-        attempts++;
-
-        const { error, data } = await supabaseAdmin
-            .from(tableName)
-            .update(safeUpdates)
-            .eq('id', recordId)
-            .select();
-
-        if (!error) {
-            return {
-                error: null,
-                data,
-                removedColumns,
-                finalUpdates: safeUpdates,
-            };
-        }
-
-        const missingColumn = extractMissingColumnFromError(error.message);
-        if (!missingColumn || !(missingColumn in safeUpdates)) {
-            return {
-                error,
-                data,
-                removedColumns,
-                finalUpdates: safeUpdates,
-            };
-        }
-
-        delete safeUpdates[missingColumn];
-        removedColumns.push(missingColumn);
-        console.warn(`Webhook schema fallback: removed missing column '${missingColumn}' for table '${tableName}'.`);
-
-        if (Object.keys(safeUpdates).length === 0) {
-            return {
-                error: {
-                    message: `Database update failed: No valid columns remain after schema fallback for table ${tableName}`,
-                },
-                data: null,
-                removedColumns,
-                finalUpdates: safeUpdates,
-            };
-        }
-    }
-
-    return {
-        error: {
-            message: `Database update failed: Exceeded schema fallback attempts for table ${tableName}`,
-        },
-        data: null,
-        removedColumns,
-        finalUpdates: safeUpdates,
-    };
-}
-
 function looksLikePerson(candidate: any) {
     if (!candidate || typeof candidate !== 'object' || Array.isArray(candidate)) return false;
 
@@ -143,48 +72,27 @@ function resolveEmail(person: any): string | null {
     return null;
 }
 
-function resolvePhoneNumbers(person: any): any[] {
-    if (!Array.isArray(person?.phone_numbers)) return [];
-    return person.phone_numbers.filter(Boolean);
-}
-
-function resolvePrimaryPhone(phoneNumbers: any[]): string | null {
-    if (!Array.isArray(phoneNumbers) || phoneNumbers.length === 0) return null;
-
-    const mobile = phoneNumbers.find((phone: any) => {
-        const type = (phone?.type || phone?.type_cd || '').toString().toLowerCase();
-        return type.includes('mobile');
-    });
-
-    const selected = mobile || phoneNumbers[0];
-    const rawValue = selected?.sanitized_number || selected?.number || selected?.raw_number || null;
-
-    if (typeof rawValue !== 'string') return null;
-    const value = rawValue.trim();
-    return value || null;
-}
-
 export async function POST(req: Request) {
     console.log('--- Incoming Apollo Webhook ---');
 
     try {
-        const url = new URL(req.url);
-        const record_id = url.searchParams.get('record_id')?.trim();
-        const table_name = url.searchParams.get('table_name')?.trim();
-        const revealEmail =
-            parseBooleanQueryValue(url.searchParams.get('reveal_email')) ??
-            parseBooleanQueryValue(url.searchParams.get('revealEmail')) ??
-            true;
-        const revealPhone =
-            parseBooleanQueryValue(url.searchParams.get('reveal_phone')) ??
-            parseBooleanQueryValue(url.searchParams.get('revealPhone')) ??
-            true;
-
-        if (!record_id || !table_name) {
-            console.error('Webhook Error: Missing record_id or table_name in query params');
-            return NextResponse.json({ error: 'Missing query params' }, { status: 400 });
+        const verification = verifyApolloWebhookUrl(new URL(req.url));
+
+        if (!verification.ok) {
+            console.error(`Webhook Error: ${verification.message}`);
+            return NextResponse.json(
+                { error: verification.error, message: verification.message },
+                { status: verification.status }
+            );
         }
 
+        const {
+            recordId: record_id,
+            tableName: table_name,
+            revealEmail,
+            revealPhone,
+        } = verification.claims;
+
         const body = await req.json();
         const person = resolvePersonFromWebhook(body);
 
@@ -194,15 +102,15 @@ export async function POST(req: Request) {
         }
 
         const resolvedEmail = resolveEmail(person);
-        const phoneNumbers = resolvePhoneNumbers(person);
+        const phones = resolveApolloPersonPhones(person, person.country);
 
         console.log(
-            `Webhook Processing: Record ${record_id} for ${table_name}. Email: ${resolvedEmail || 'none'}, Phones: ${phoneNumbers.length}, reveal_email=${revealEmail}, reveal_phone=${revealPhone}`
+            `Webhook Processing: Record ${record_id} for ${table_name}. Email: ${resolvedEmail || 'none'}, Phones: ${phones?.phone_numbers.length || 0}, reveal_email=${revealEmail}, reveal_phone=${revealPhone}`
         );
 
         // Prepare updates
         const updates: any = {
-            enrichment_status: 'completed',
+            ...buildEnrichmentStateUpdates('completed'),
             updated_at: new Date().toISOString(),
         };
 
@@ -224,33 +132,36 @@ export async function POST(req: Request) {
         if (person.departments && person.departments.length > 0) updates.departments = person.departments;
 
         // Organization Data
+        if (person.organization?.id || person.organization_id) updates.organization_id = person.organization?.id || person.organization_id;
         if (person.organization?.name) updates.organization_name = person.organization.name;
         if (person.organization?.primary_domain) updates.organization_domain = person.organization.primary_domain;
         if (person.organization?.industry) updates.organization_industry = person.organization.industry;
         if (person.organization?.estimated_num_employees) updates.organization_size = person.organization.estimated_num_employees;
 
+        const industryClassification = classifyIndustry({
+            naics_codes: person.organization?.naics_codes,
+            sic_codes: person.organization?.sic_codes,
+            industry: person.organization?.industry,
+        });
+        if (industryClassification) {
+            updates.industry_code = industryClassification.industry_code;
+            updates.industry_path = industryClassification.industry_path;
+        }
+
         // Email Data
         if (revealEmail && resolvedEmail) {
             updates.email = resolvedEmail;
             updates.email_status = person.email_status || 'verified';
+            updates.email_quality = classifyEmail(resolvedEmail, person.organization?.primary_domain);
         } else if (!revealEmail) {
             console.log('Webhook: Email reveal disabled by request. Skipping email updates.');
         }
 
-        // Phone Data
+        // Phone Data (falls back to the organization HQ phone)
         if (revealPhone) {
-            if (phoneNumbers.length > 0) {
-                updates.phone_numbers = phoneNumbers;
-                const primaryPhone = resolvePrimaryPhone(phoneNumbers);
-                if (primaryPhone) updates.primary_phone = primaryPhone;
-            } else if (person.organization && (person.organization.sanitized_phone || person.organization.phone)) {
-                // FALLBACK: Use Organization Phone
-                updates.primary_phone = person.organization.sanitized_phone || person.organization.phone;
-                updates.phone_numbers = [{
-                    type: 'work_headquarters',
-                    sanitized_number: updates.primary_phone,
-                    number: person.organization.phone
-                }];
+            if (phones) {
+                updates.phone_numbers = phones.phone_numbers;
+                if (phones.primary_phone) updates.primary_phone = phones.primary_phone;
             }
         } else {
             console.log('Webhook: Phone reveal disabled by request. Skipping phone updates.');
@@ -261,6 +172,7 @@ export async function POST(req: Request) {
 
         // Retry Logic for Race Condition
         let rowExists = false;
+        let previousStatus: string | null = null;
         let attempts = 0;
         const maxAttempts = 3;
 
@@ -268,12 +180,13 @@ export async function POST(req: Request) {
             attempts++;
             const { data: checkData } = await supabaseAdmin
                 .from(table_name)
-                .select('id')
+                .select('id, enrichment_status')
                 .eq('id', record_id)
                 .single();
 
             if (checkData) {
                 rowExists = true;
+                previousStatus = checkData.enrichment_status ?? null;
                 console.log(`Webhook: Row found on attempt ${attempts}`);
             } else {
                 console.log(`Webhook: Attempt ${attempts}: Row ${record_id} not found yet. Waiting...`);
@@ -283,6 +196,43 @@ export async function POST(req: Request) {
 
         console.log(`Webhook Debug: Row exists? ${rowExists}`);
 
+        // Updating a missing row would touch zero rows and lose the data, so park it
+        // in the dead-letter table until the reconciliation job finds the row.
+        if (!rowExists) {
+            const deadLetter = await saveWebhookDeadLetter({
+                recordId: record_id,
+                tableName: table_name,
+                revealEmail,
+                revealPhone,
+                updates,
+                apolloData: person,
+                error: 'Row not found after retries',
+            });
+            console.warn(`Webhook: Row ${record_id} not found in ${table_name}. Saved dead letter ${deadLetter.dead_letter_id}.`);
+
+            await supabaseAdmin.from('enrichment_logs').insert({
+                record_id,
+                table_name,
+                status: 'webhook_dead_lettered',
+                details: {
+                    source: 'webhook',
+                    dead_letter_id: deadLetter.dead_letter_id,
+                    requested_reveal: {
+                        email: revealEmail,
+                        phone: revealPhone,
+                    },
+                    check_error: 'Row not found after retries',
+                },
+            });
+
+            return NextResponse.json({
+                received: true,
+                processed: false,
+                dead_lettered: true,
+                dead_letter_id: deadLetter.dead_letter_id,
+            });
+        }
+
         const {
             error: updateError,
             data: updatedData,
@@ -310,17 +260,22 @@ export async function POST(req: Request) {
         const updatedCount = Array.isArray(updatedData) ? updatedData.length : 0;
         console.log(`Webhook: Updated ${updatedCount} rows in ${table_name}`);
 
-        // Log success
-        const keyPrefix = process.env.SUPABASE_SERVICE_ROLE_KEY?.substring(0, 5) || 'NONE';
-        console.log(`Debug: Using Service Key starting with: ${keyPrefix}...`);
+        if (updatedCount > 0) {
+            await resolveLeadIdentities(table_name, updatedData, (msg, data) => console.log(`Webhook: ${msg}`, data ?? ''));
+            await syncEnrichImportRow(record_id, 'completed');
+            if (revealPhone) {
+                await recordApolloPhoneReveal(finalUpdates.phone_numbers, updatedData[0]?.enrichment_request, 'apollo-webhook');
+            }
+        }
 
+        // Log success
         await supabaseAdmin.from('enrichment_logs').insert({
             record_id,
             table_name,
             status: 'webhook_received',
             details: {
                 source: 'webhook',
-                key_prefix: keyPrefix, // EXPOSE THE KEY PREFIX
+                transition: { from: previousStatus, to: 'completed' },
                 requested_reveal: {
                     email: revealEmail,
                     phone: revealPhone,
@@ -330,7 +285,6 @@ export async function POST(req: Request) {
                 db_update_count: updatedCount,
                 row_check_found: rowExists,
                 removed_columns: removedColumns,
-                check_error: !rowExists ? 'Row not found after retries' : null,
                 post_update_db_state: updatedData,
                 supabase_data: finalUpdates,
                 apollo_data: person
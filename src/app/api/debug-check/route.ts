@@ -1,19 +1,27 @@
 import { NextResponse } from 'next/server';
+import { hasValidSecret } from '@/lib/auth/secrets';
 import { getServiceSupabase } from '@/lib/supabase';
 
 // FORCE DYNAMIC to avoid caching static builds
 export const dynamic = 'force-dynamic';
 
-export async function GET() {
+export async function GET(req: Request) {
+    if (!hasValidSecret(req, 'API_SECRET_KEY')) {
+        return NextResponse.json(
+            { error: 'UNAUTHORIZED', message: 'Missing or invalid API secret key.' },
+            { status: 401 }
+        );
+    }
+
     try {
         const supabase = getServiceSupabase();
         const TEST_ID = '8c09adb0-0525-4811-925d-6678fa1a8cb8'; // User provided ID
 
         // Debug info
-        const keySuffix = process.env.SUPABASE_SERVICE_ROLE_KEY?.slice(-5) || 'NONE';
+        const keyConfigured = Boolean(process.env.SUPABASE_SERVICE_ROLE_KEY);
         const url = process.env.NEXT_PUBLIC_SUPABASE_URL || 'NONE';
 
-        console.log(`Debug Check: Querying ID ${TEST_ID} with KeyEnding: ${keySuffix} at URL: ${url}`);
+        console.log(`Debug Check: Querying ID ${TEST_ID} with key configured: ${keyConfigured} at URL: ${url}`);
 
         const { data, error } = await supabase
             .from('enriched_leads')
@@ -28,7 +36,7 @@ export async function GET() {
             error: error ? error.message : null,
             debug_info: {
                 target_id: TEST_ID,
-                key_suffix: keySuffix,
+                key_configured: keyConfigured,
                 supabase_url: url
             }
         });
@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server';
+import { hasValidSecret } from '@/lib/auth/secrets';
+import {
+    getEmployeeSegments,
+    isMissingEmployeeSegmentStorageError,
+    saveEmployeeSegments,
+} from '@/lib/employee-ranges/persistence';
+import { DEFAULT_EMPLOYEE_SEGMENTS, mergeEmployeeSegments, normalizeEmployeeSegments } from '@/lib/employee-ranges/segments';
+import { EmployeeSegment } from '@/lib/employee-ranges/types';
+
+export const runtime = 'nodejs';
+
+function unauthorizedResponse() {
+    return NextResponse.json(
+        { error: 'UNAUTHORIZED', message: 'Missing or invalid API secret key.' },
+        { status: 401 }
+    );
+}
+
+function storageUnavailableResponse() {
+    return NextResponse.json(
+        {
+            error: 'EMPLOYEE_SEGMENT_STORAGE_UNAVAILABLE',
+            message: 'Employee segments require the employee_segments table. Run 019_create_employee_segments.sql first.',
+        },
+        { status: 500 }
+    );
+}
+
+function missingOrgResponse() {
+    return NextResponse.json(
+        { error: 'INVALID_EMPLOYEE_SEGMENT_REQUEST', message: 'Missing org_id' },
+        { status: 400 }
+    );
+}
+
+function buildSegmentsResponse(orgId: string, segments: EmployeeSegment[] | null) {
+    return {
+        org_id: orgId,
+        segments: segments || [],
+        // What size expressions of the org are matched against.
+        effective_segments: mergeEmployeeSegments(DEFAULT_EMPLOYEE_SEGMENTS, segments || []),
+    };
+}
+
+export async function GET(req: Request) {
+    if (!hasValidSecret(req, 'API_SECRET_KEY')) return unauthorizedResponse();
+
+    const orgId = new URL(req.url).searchParams.get('org_id')?.trim() || '';
+    if (!orgId) return missingOrgResponse();
+
+    try {
+        const segments = await getEmployeeSegments(orgId);
+        return NextResponse.json(buildSegmentsResponse(orgId, segments), { status: 200 });
+    } catch (error: any) {
+        if (isMissingEmployeeSegmentStorageError(error)) return storageUnavailableResponse();
+        return NextResponse.json(
+            { error: 'EMPLOYEE_SEGMENT_REQUEST_FAILED', message: error?.message || 'Failed to load employee segments' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(req: Request) {
+    if (!hasValidSecret(req, 'API_SECRET_KEY')) return unauthorizedResponse();
+
+    const body = await req.json().catch(() => null);
+    const orgId = typeof body?.org_id === 'string' ? body.org_id.trim() : '';
+    if (!orgId) return missingOrgResponse();
+
+    let segments: EmployeeSegment[];
+    try {
+        segments = normalizeEmployeeSegments(body.segments);
+    } catch (error: any) {
+        return NextResponse.json(
+            { error: 'INVALID_EMPLOYEE_SEGMENT_REQUEST', message: error?.message || 'Invalid segments' },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const saved = await saveEmployeeSegments(orgId, segments);
+        return NextResponse.json(buildSegmentsResponse(orgId, saved), { status: 200 });
+    } catch (error: any) {
+        if (isMissingEmployeeSegmentStorageError(error)) return storageUnavailableResponse();
+        return NextResponse.json(
+            { error: 'EMPLOYEE_SEGMENT_REQUEST_FAILED', message: error?.message || 'Failed to save employee segments' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,6 +1,14 @@
 import { NextResponse } from 'next/server';
+import { hasValidSecret } from '@/lib/auth/secrets';
 
 export async function GET(req: Request) {
+    if (!hasValidSecret(req, 'API_SECRET_KEY')) {
+        return NextResponse.json(
+            { error: 'UNAUTHORIZED', message: 'Missing or invalid API secret key.' },
+            { status: 401 }
+        );
+    }
+
     return NextResponse.json({
         status: 'ok',
         message: 'Enrichment endpoint is reachable',
@@ -10,6 +18,13 @@ export async function GET(req: Request) {
 }
 
 export async function POST(req: Request) {
+    if (!hasValidSecret(req, 'API_SECRET_KEY')) {
+        return NextResponse.json(
+            { error: 'UNAUTHORIZED', message: 'Missing or invalid API secret key.' },
+            { status: 401 }
+        );
+    }
+
     const body = await req.json().catch(() => ({}));
 
     return NextResponse.json({
@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { applyApiKeyCors, buildApiKeyPreflightResponse, requireApiKey } from '@/lib/api-keys/auth';
+import { ApiKeyPrincipal } from '@/lib/api-keys/types';
+import { getEnrichImportJob } from '@/lib/enrich/import-jobs';
+import { parseBooleanFlag } from '@/lib/lead-search/normalize';
+
+export const runtime = 'nodejs';
+
+const ENRICH_IMPORT_JOB_CORS_METHODS = 'GET, OPTIONS';
+
+type RouteContext = {
+    params: Promise<{
+        jobId: string;
+    }>;
+};
+
+export async function OPTIONS(req: Request) {
+    return buildApiKeyPreflightResponse(req, ENRICH_IMPORT_JOB_CORS_METHODS);
+}
+
+export async function GET(req: Request, context: RouteContext) {
+    const auth = await requireApiKey(req, 'enrich');
+    if (auth.response) return auth.response;
+
+    return applyApiKeyCors(req, await getImportJob(req, context, auth.principal), auth.principal);
+}
+
+async function getImportJob(req: Request, context: RouteContext, principal: ApiKeyPrincipal) {
+    const { jobId } = await context.params;
+    const url = new URL(req.url);
+    const includeRows = parseBooleanFlag(url.searchParams.get('include_rows')) === true;
+
+    try {
+        const job = await getEnrichImportJob(jobId);
+        // Jobs of another org read as missing.
+        if (!job || job.org_id !== principal.org_id) {
+            return NextResponse.json(
+                {
+                    error: 'ENRICH_IMPORT_JOB_NOT_FOUND',
+                    message: `No enrichment import job was found for id ${jobId}`,
+                },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json(
+            {
+                job_id: job.job_id,
+                status: job.status,
+                table_name: job.table_name,
+                total_rows: job.total_rows,
+                queued_count: job.queued_count,
+                matched_count: job.matched_count,
+                pending_webhook_count: job.pending_webhook_count,
+                failed_count: job.failed_count,
+                skipped_count: job.skipped_count,
+                column_mapping: job.column_mapping,
+                concurrency: job.concurrency,
+                error: job.error,
+                created_at: job.created_at,
+                started_at: job.started_at,
+                completed_at: job.completed_at,
+                ...(includeRows ? { rows: job.rows } : {}),
+            },
+            {
+                headers: {
+                    'Cache-Control': 'no-store',
+                },
+            }
+        );
+    } catch (error: any) {
+        return NextResponse.json(
+            {
+                error: 'ENRICH_IMPORT_JOB_ERROR',
+                message: error?.message || 'Failed to load enrichment import job',
+            },
+            { status: 500 }
+        );
+    }
+}
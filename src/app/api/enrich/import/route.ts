@@ -0,0 +1,183 @@
+import { NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { applyApiKeyCors, buildApiKeyPreflightResponse, requireApiKey } from '@/lib/api-keys/auth';
+import { ApiKeyPrincipal } from '@/lib/api-keys/types';
+import { APOLLO_WEBHOOK_TABLES, isAllowedWebhookTable } from '@/lib/apollo/webhook-signature';
+import { resolveBaseUrl, resolveRevealPreferences } from '@/lib/enrich/apollo';
+import { EnrichImportColumnMapping, ENRICH_IMPORT_FIELDS, isEnrichImportField, parseCsv, resolveImportColumns } from '@/lib/enrich/csv';
+import {
+    DEFAULT_ENRICH_IMPORT_CONCURRENCY,
+    MAX_ENRICH_IMPORT_CONCURRENCY,
+    MAX_ENRICH_IMPORT_ROWS,
+    buildEnrichImportRows,
+    createEnrichImportRecords,
+} from '@/lib/enrich/import';
+import { createEnrichImportJob } from '@/lib/enrich/import-jobs';
+import { normalizeOptionalString, parseOptionalNumberish } from '@/lib/lead-search/normalize';
+
+export const runtime = 'nodejs';
+
+const MAX_CSV_BYTES = 5 * 1024 * 1024;
+const ENRICH_IMPORT_CORS_METHODS = 'POST, OPTIONS';
+
+function parseColumnMapping(value: unknown): EnrichImportColumnMapping | null {
+    let parsed = value;
+    if (typeof value === 'string') {
+        if (!value.trim()) return {};
+        try {
+            parsed = JSON.parse(value);
+        } catch {
+            return null;
+        }
+    }
+
+    if (parsed === undefined || parsed === null) return {};
+    if (typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+
+    const mapping: EnrichImportColumnMapping = {};
+    for (const [field, header] of Object.entries(parsed as Record<string, unknown>)) {
+        if (!isEnrichImportField(field)) return null;
+        const headerName = normalizeOptionalString(header);
+        if (headerName) mapping[field] = headerName;
+    }
+
+    return mapping;
+}
+
+// Accepts multipart/form-data with a `file` field, a raw text/csv body, or JSON with `csv`.
+async function readImportRequest(req: Request): Promise<{ csv: string; options: Record<string, any> }> {
+    const contentType = (req.headers.get('content-type') || '').toLowerCase();
+    const url = new URL(req.url);
+    const queryOptions = Object.fromEntries(url.searchParams.entries());
+
+    if (contentType.includes('multipart/form-data')) {
+        const form = await req.formData();
+        const file = form.get('file');
+        const options: Record<string, any> = { ...queryOptions };
+        form.forEach((value, key) => {
+            if (key !== 'file' && typeof value === 'string') options[key] = value;
+        });
+
+        return {
+            csv: file && typeof file !== 'string' ? await file.text() : typeof file === 'string' ? file : '',
+            options,
+        };
+    }
+
+    if (contentType.includes('application/json')) {
+        const body = await req.json().catch(() => ({}));
+        return { csv: typeof body?.csv === 'string' ? body.csv : '', options: { ...queryOptions, ...body } };
+    }
+
+    return { csv: await req.text(), options: queryOptions };
+}
+
+export async function OPTIONS(req: Request) {
+    return buildApiKeyPreflightResponse(req, ENRICH_IMPORT_CORS_METHODS);
+}
+
+export async function POST(req: Request) {
+    const auth = await requireApiKey(req, 'enrich');
+    if (auth.response) return auth.response;
+
+    return applyApiKeyCors(req, await createImport(req, auth.principal), auth.principal);
+}
+
+async function createImport(req: Request, principal: ApiKeyPrincipal) {
+    try {
+        const { csv, options } = await readImportRequest(req);
+        const tableName = normalizeOptionalString(options.table_name) || 'enriched_leads';
+
+        if (!csv.trim()) {
+            return NextResponse.json({ error: 'Missing CSV upload. Send a `file` field, a text/csv body or `csv` in JSON.' }, { status: 400 });
+        }
+
+        if (Buffer.byteLength(csv, 'utf8') > MAX_CSV_BYTES) {
+            return NextResponse.json({ error: `CSV is larger than ${MAX_CSV_BYTES / (1024 * 1024)} MB` }, { status: 413 });
+        }
+
+        if (!isAllowedWebhookTable(tableName)) {
+            return NextResponse.json(
+                { error: `Invalid table_name. Allowed values: ${APOLLO_WEBHOOK_TABLES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const columnMapping = parseColumnMapping(options.column_mapping ?? options.columnMapping);
+        if (!columnMapping) {
+            return NextResponse.json(
+                { error: `Invalid column_mapping. Use an object of lead field to CSV header; fields: ${ENRICH_IMPORT_FIELDS.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const [headers = [], ...records] = parseCsv(csv);
+        if (records.length === 0) {
+            return NextResponse.json({ error: 'CSV has no data rows' }, { status: 400 });
+        }
+        if (records.length > MAX_ENRICH_IMPORT_ROWS) {
+            return NextResponse.json({ error: `CSV has more than ${MAX_ENRICH_IMPORT_ROWS} rows` }, { status: 413 });
+        }
+
+        const { columns, unknownHeaders } = resolveImportColumns(headers, columnMapping);
+        if (unknownHeaders.length > 0) {
+            return NextResponse.json({ error: `column_mapping headers not found in CSV: ${unknownHeaders.join(', ')}` }, { status: 400 });
+        }
+
+        const jobId = uuidv4();
+        const rows = buildEnrichImportRows(records, columns);
+        // The job belongs to the key's user and org; user_id / org_id options are ignored.
+        const userId = principal.user_id;
+        const orgId = principal.org_id;
+        const baseUrl = resolveBaseUrl(req);
+        const revealPreferences = resolveRevealPreferences(options);
+        const removedColumns = await createEnrichImportRecords({
+            jobId,
+            tableName,
+            rows,
+            userId,
+            orgId,
+            baseUrl,
+            revealPreferences,
+        });
+        const requestedConcurrency = parseOptionalNumberish(options.concurrency);
+        const resolvedMapping: EnrichImportColumnMapping = {};
+        for (const [field, index] of Object.entries(columns)) {
+            if (isEnrichImportField(field) && typeof index === 'number') resolvedMapping[field] = headers[index];
+        }
+
+        const job = await createEnrichImportJob({
+            jobId,
+            userId,
+            orgId,
+            tableName,
+            baseUrl,
+            revealPreferences,
+            columnMapping: resolvedMapping,
+            concurrency: requestedConcurrency === null
+                ? DEFAULT_ENRICH_IMPORT_CONCURRENCY
+                : Math.min(Math.max(Math.floor(requestedConcurrency), 1), MAX_ENRICH_IMPORT_CONCURRENCY),
+            rows,
+        });
+
+        console.log(`Queued enrichment import job ${job.job_id}: ${job.queued_count} rows queued, ${job.skipped_count} skipped`);
+
+        return NextResponse.json(
+            {
+                job_id: job.job_id,
+                status: job.status,
+                table_name: job.table_name,
+                total_rows: job.total_rows,
+                queued_count: job.queued_count,
+                skipped_count: job.skipped_count,
+                column_mapping: job.column_mapping,
+                removed_columns: removedColumns,
+                status_url: `/api/enrich/import/${job.job_id}`,
+            },
+            { status: 202 }
+        );
+    } catch (error: any) {
+        console.error('Enrichment import error:', error);
+        return NextResponse.json({ error: error?.message || 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { applyApiKeyCors, buildApiKeyPreflightResponse, requireApiKey } from '@/lib/api-keys/auth';
+import { ApiKeyPrincipal } from '@/lib/api-keys/types';
+import { normalizeIcpProfileInput } from '@/lib/icp/normalize';
+import { isMissingIcpStorageError, listIcpProfiles, saveIcpProfile } from '@/lib/icp/persistence';
+
+export const runtime = 'nodejs';
+
+const ICP_PROFILES_CORS_METHODS = 'GET, POST, OPTIONS';
+
+function storageUnavailableResponse() {
+    return NextResponse.json(
+        {
+            error: 'ICP_STORAGE_UNAVAILABLE',
+            message: 'ICP profiles require the icp_profiles table. Run 006_create_icp_profiles.sql first.',
+        },
+        { status: 500 }
+    );
+}
+
+export async function OPTIONS(req: Request) {
+    return buildApiKeyPreflightResponse(req, ICP_PROFILES_CORS_METHODS);
+}
+
+// Profiles of the key's user and org; user_id / org_id query params are ignored.
+export async function GET(req: Request) {
+    const auth = await requireApiKey(req, 'search');
+    if (auth.response) return auth.response;
+
+    return applyApiKeyCors(req, await listProfiles(auth.principal), auth.principal);
+}
+
+async function listProfiles(principal: ApiKeyPrincipal) {
+    try {
+        const profiles = await listIcpProfiles({ userId: principal.user_id, orgId: principal.org_id });
+        return NextResponse.json({ profiles }, { status: 200 });
+    } catch (error: any) {
+        if (isMissingIcpStorageError(error)) return storageUnavailableResponse();
+        return NextResponse.json(
+            { error: 'ICP_REQUEST_FAILED', message: error?.message || 'Failed to list ICP profiles' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(req: Request) {
+    const auth = await requireApiKey(req, 'search');
+    if (auth.response) return auth.response;
+
+    return applyApiKeyCors(req, await saveProfile(req, auth.principal), auth.principal);
+}
+
+async function saveProfile(req: Request, principal: ApiKeyPrincipal) {
+    let input;
+    try {
+        const body = await req.json();
+        input = normalizeIcpProfileInput(body, { userId: principal.user_id, orgId: principal.org_id });
+    } catch (error: any) {
+        return NextResponse.json(
+            { error: 'INVALID_ICP_REQUEST', message: error?.message || 'Invalid ICP profile' },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const profile = await saveIcpProfile(input, { userId: principal.user_id, orgId: principal.org_id });
+        if (!profile) {
+            return NextResponse.json(
+                { error: 'ICP_PROFILE_NOT_FOUND', message: `No ICP profile was found for id ${input.profile_id}` },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json(profile, { status: input.profile_id ? 200 : 201 });
+    } catch (error: any) {
+        if (isMissingIcpStorageError(error)) return storageUnavailableResponse();
+        return NextResponse.json(
+            { error: 'ICP_REQUEST_FAILED', message: error?.message || 'Failed to save ICP profile' },
+            { status: 500 }
+        );
+    }
+}
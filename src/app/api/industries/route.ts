@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { applyApiKeyCors, buildApiKeyPreflightResponse, requireApiKey } from '@/lib/api-keys/auth';
+import { describeIndustry } from '@/lib/industries/classify';
+import { INDUSTRY_TAXONOMY } from '@/lib/industries/taxonomy';
+import { INDUSTRY_LANGUAGES, IndustryLanguage } from '@/lib/industries/types';
+
+export const runtime = 'nodejs';
+
+export async function OPTIONS(req: Request) {
+    return buildApiKeyPreflightResponse(req, 'GET, OPTIONS');
+}
+
+export async function GET(req: Request) {
+    const auth = await requireApiKey(req, 'search');
+    if (auth.response) return auth.response;
+
+    const lang = new URL(req.url).searchParams.get('lang')?.trim().toLowerCase() || 'es';
+    if (!(INDUSTRY_LANGUAGES as string[]).includes(lang)) {
+        return NextResponse.json(
+            {
+                error: 'INVALID_INDUSTRIES_REQUEST',
+                message: `Invalid lang. Allowed values: ${INDUSTRY_LANGUAGES.join(', ')}`,
+            },
+            { status: 400 }
+        );
+    }
+    const language = lang as IndustryLanguage;
+
+    const industries = INDUSTRY_TAXONOMY.map((node) => ({
+        code: node.code,
+        parent_code: node.code.includes('.') ? node.code.slice(0, node.code.lastIndexOf('.')) : null,
+        name: node.labels[language],
+        full_name: describeIndustry(node.code, language),
+        labels: node.labels,
+        naics: node.naics,
+        sic: node.sic,
+        apollo_industries: node.apollo_industries,
+        keyword_tags: node.keyword_tags,
+    }));
+
+    const response = NextResponse.json({ lang: language, industries }, { status: 200 });
+    return applyApiKeyCors(req, response, auth.principal);
+}
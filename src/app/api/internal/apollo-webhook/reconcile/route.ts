@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { hasValidSecret } from '@/lib/auth/secrets';
+import { isMissingDeadLetterStorageError } from '@/lib/enrich/webhook-dead-letters';
+import { DEFAULT_RECONCILE_LIMIT, MAX_RECONCILE_LIMIT, reconcileWebhookDeadLetters } from '@/lib/enrich/webhook-reconcile';
+
+export const runtime = 'nodejs';
+
+export async function POST(req: Request) {
+    if (!hasValidSecret(req, 'WEBHOOK_RECONCILE_WORKER_SECRET')) {
+        return NextResponse.json(
+            {
+                error: 'UNAUTHORIZED_WORKER',
+                message: 'Missing or invalid webhook reconcile worker secret.',
+            },
+            { status: 401 }
+        );
+    }
+
+    try {
+        const body = await req.json().catch(() => ({}));
+        const requestedLimit = Number(body?.limit);
+        const limit = Number.isFinite(requestedLimit) && requestedLimit > 0
+            ? Math.min(Math.floor(requestedLimit), MAX_RECONCILE_LIMIT)
+            : DEFAULT_RECONCILE_LIMIT;
+
+        const log = (msg: string, data?: any) => {
+            console.log(`[webhook-reconcile] ${msg}`, data ? JSON.stringify(data) : '');
+        };
+
+        const summary = await reconcileWebhookDeadLetters(limit, log);
+        return NextResponse.json(
+            {
+                status: summary.checked > 0 ? 'completed' : 'idle',
+                ...summary,
+            },
+            { status: 200 }
+        );
+    } catch (error: any) {
+        if (isMissingDeadLetterStorageError(error)) {
+            return NextResponse.json(
+                {
+                    error: 'DEAD_LETTER_STORAGE_UNAVAILABLE',
+                    message: 'Webhook dead letters require the apollo_webhook_dead_letters table. Run 012_create_apollo_webhook_dead_letters.sql first.',
+                },
+                { status: 500 }
+            );
+        }
+
+        return NextResponse.json(
+            {
+                error: 'WEBHOOK_RECONCILE_FAILED',
+                message: error?.message || 'Unexpected webhook reconcile worker error',
+            },
+            { status: 500 }
+        );
+    }
+}
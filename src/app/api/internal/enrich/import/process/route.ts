@@ -0,0 +1,142 @@
+import { NextResponse } from 'next/server';
+import { hasValidSecret } from '@/lib/auth/secrets';
+import { resolveEnrichImportRowsPerRun, runEnrichImportJob } from '@/lib/enrich/import';
+import {
+    claimEnrichImportJob,
+    completeEnrichImportJob,
+    countEnrichImportRows,
+    failEnrichImportJob,
+    getEnrichImportJob,
+    getNextQueuedEnrichImportJob,
+    isEnrichImportJobClaimable,
+    releaseEnrichImportJob,
+} from '@/lib/enrich/import-jobs';
+import { withApolloUsageContext } from '@/lib/usage/ledger';
+
+export const runtime = 'nodejs';
+
+export async function POST(req: Request) {
+    if (!hasValidSecret(req, 'ENRICH_IMPORT_WORKER_SECRET')) {
+        return NextResponse.json(
+            {
+                error: 'UNAUTHORIZED_WORKER',
+                message: 'Missing or invalid enrichment import worker secret.',
+            },
+            { status: 401 }
+        );
+    }
+
+    const apiKey = process.env.APOLLO_API_KEY;
+    if (!apiKey) {
+        return NextResponse.json(
+            {
+                error: 'ENRICH_IMPORT_WORKER_MISCONFIGURED',
+                message: 'Missing APOLLO_API_KEY',
+            },
+            { status: 500 }
+        );
+    }
+
+    try {
+        const body = await req.json().catch(() => ({}));
+        const requestedId = typeof body?.job_id === 'string' ? body.job_id.trim() : '';
+
+        const record = requestedId
+            ? await getEnrichImportJob(requestedId)
+            : await getNextQueuedEnrichImportJob();
+
+        if (!record) {
+            return NextResponse.json(
+                {
+                    status: 'idle',
+                    processed: false,
+                    message: 'No queued enrichment import jobs were found.',
+                },
+                { status: 200 }
+            );
+        }
+
+        if (!isEnrichImportJobClaimable(record)) {
+            return NextResponse.json(
+                {
+                    job_id: record.job_id,
+                    status: record.status,
+                    processed: false,
+                    message: `Enrichment import job is already ${record.status}.`,
+                },
+                { status: 200 }
+            );
+        }
+
+        const job = await claimEnrichImportJob(record);
+        if (!job) {
+            return NextResponse.json(
+                {
+                    job_id: record.job_id,
+                    status: 'in_progress',
+                    processed: false,
+                    message: 'Enrichment import job was claimed by another worker.',
+                },
+                { status: 200 }
+            );
+        }
+
+        const log = (msg: string, data?: any) => {
+            console.log(`[enrich-import-job ${job.job_id}] ${msg}`, data ? JSON.stringify(data) : '');
+        };
+
+        try {
+            const { rows, remaining, rows_saved } = await withApolloUsageContext(
+                { userId: job.user_id, orgId: job.org_id, source: 'enrich-import' },
+                () => runEnrichImportJob(job, { apiKey, maxRows: resolveEnrichImportRowsPerRun(), log })
+            );
+            const rowsToSave = rows_saved ? null : rows;
+
+            if (remaining > 0) {
+                await releaseEnrichImportJob(job.job_id, rowsToSave);
+                return NextResponse.json(
+                    {
+                        job_id: job.job_id,
+                        status: 'queued',
+                        processed: true,
+                        ...countEnrichImportRows(rows),
+                    },
+                    { status: 200 }
+                );
+            }
+
+            await completeEnrichImportJob(job.job_id, rowsToSave);
+
+            return NextResponse.json(
+                {
+                    job_id: job.job_id,
+                    status: 'completed',
+                    processed: true,
+                    ...countEnrichImportRows(rows),
+                },
+                { status: 200 }
+            );
+        } catch (error: any) {
+            const message = error?.message || 'Enrichment import worker failed';
+            // Row outcomes saved so far stay on the job.
+            await failEnrichImportJob(job.job_id, null, message);
+
+            return NextResponse.json(
+                {
+                    error: 'ENRICH_IMPORT_JOB_FAILED',
+                    message,
+                    job_id: job.job_id,
+                },
+                { status: 502 }
+            );
+        }
+    } catch (error: any) {
+        return NextResponse.json(
+            {
+                error: 'ENRICH_IMPORT_JOB_FAILED',
+                message: error?.message || 'Unexpected enrichment import worker error',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { hasValidSecret } from '@/lib/auth/secrets';
+import { isMissingEnrichmentStateColumnError } from '@/lib/enrich/state';
+import { DEFAULT_SWEEP_LIMIT, MAX_SWEEP_LIMIT, sweepEnrichments } from '@/lib/enrich/sweep';
+
+export const runtime = 'nodejs';
+
+export async function POST(req: Request) {
+    if (!hasValidSecret(req, 'ENRICHMENT_SWEEP_WORKER_SECRET')) {
+        return NextResponse.json(
+            {
+                error: 'UNAUTHORIZED_WORKER',
+                message: 'Missing or invalid enrichment sweep worker secret.',
+            },
+            { status: 401 }
+        );
+    }
+
+    const apiKey = process.env.APOLLO_API_KEY;
+    if (!apiKey) {
+        return NextResponse.json(
+            {
+                error: 'ENRICHMENT_SWEEP_MISCONFIGURED',
+                message: 'Missing APOLLO_API_KEY',
+            },
+            { status: 500 }
+        );
+    }
+
+    try {
+        const body = await req.json().catch(() => ({}));
+        const requestedLimit = Number(body?.limit);
+        const limit = Number.isFinite(requestedLimit) && requestedLimit > 0
+            ? Math.min(Math.floor(requestedLimit), MAX_SWEEP_LIMIT)
+            : DEFAULT_SWEEP_LIMIT;
+
+        const log = (msg: string, data?: any) => {
+            console.log(`[enrichment-sweep] ${msg}`, data ? JSON.stringify(data) : '');
+        };
+
+        const summary = await sweepEnrichments({ apiKey, limit, log });
+        return NextResponse.json(
+            {
+                status: summary.results.length > 0 ? 'completed' : 'idle',
+                ...summary,
+            },
+            { status: 200 }
+        );
+    } catch (error: any) {
+        if (isMissingEnrichmentStateColumnError(error)) {
+            return NextResponse.json(
+                {
+                    error: 'ENRICHMENT_STATE_STORAGE_UNAVAILABLE',
+                    message: 'The enrichment sweep requires the enrichment state columns. Run 013_add_enrichment_state.sql first.',
+                },
+                { status: 500 }
+            );
+        }
+
+        return NextResponse.json(
+            {
+                error: 'ENRICHMENT_SWEEP_FAILED',
+                message: error?.message || 'Unexpected enrichment sweep error',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server';
+import { hasValidSecret } from '@/lib/auth/secrets';
 import { runLeadResearch } from '@/lib/lead-research/engine';
 import {
     getNextQueuedDeepReport,
@@ -10,21 +11,8 @@ import {
 
 export const runtime = 'nodejs';
 
-function isAuthorized(req: Request): boolean {
-    const secret = process.env.LEAD_RESEARCH_WORKER_SECRET?.trim();
-    if (!secret) return false;
-
-    const headerSecret = req.headers.get('x-worker-secret')?.trim();
-    if (headerSecret && headerSecret === secret) return true;
-
-    const authHeader = req.headers.get('authorization')?.trim();
-    if (authHeader === `Bearer ${secret}`) return true;
-
-    return false;
-}
-
 export async function POST(req: Request) {
-    if (!isAuthorized(req)) {
+    if (!hasValidSecret(req, 'LEAD_RESEARCH_WORKER_SECRET')) {
         return NextResponse.json(
             {
                 error: 'UNAUTHORIZED_WORKER',
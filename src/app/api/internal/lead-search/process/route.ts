@@ -0,0 +1,236 @@
+import { NextResponse } from 'next/server';
+import { hasValidSecret } from '@/lib/auth/secrets';
+import { createApolloDiagnostics, withApolloDiagnostics } from '@/lib/apollo/client';
+import { withApolloUsageContext } from '@/lib/usage/ledger';
+import { resolveSearchPageLimit } from '@/lib/usage/quotas';
+import { resolveIcpProfile } from '@/lib/icp/persistence';
+import { runBatchLeadSearch } from '@/lib/lead-search/batch';
+import {
+    LEAD_SEARCH_JOB_INTERRUPTED_MESSAGE,
+    LeadSearchJobProgress,
+    claimLeadSearchJob,
+    completeLeadSearchJob,
+    countLeadSearchJobInterruptions,
+    failLeadSearchJob,
+    getLeadSearchJob,
+    getNextQueuedLeadSearchJob,
+    isLeadSearchJobClaimable,
+    saveLeadSearchJobCheckpoint,
+    updateLeadSearchJobProgress,
+} from '@/lib/lead-search/jobs';
+import { getServerSupabase } from '@/lib/lead-search/persistence';
+
+export const runtime = 'nodejs';
+
+// Claims of a job whose worker stopped before it is failed instead of resumed.
+const MAX_JOB_INTERRUPTIONS = 3;
+
+export async function POST(req: Request) {
+    if (!hasValidSecret(req, 'LEAD_SEARCH_WORKER_SECRET')) {
+        return NextResponse.json(
+            {
+                error: 'UNAUTHORIZED_WORKER',
+                message: 'Missing or invalid lead search worker secret.',
+            },
+            { status: 401 }
+        );
+    }
+
+    const apiKey = process.env.APOLLO_API_KEY;
+    if (!apiKey) {
+        return NextResponse.json(
+            {
+                error: 'LEAD_SEARCH_WORKER_MISCONFIGURED',
+                message: 'Missing APOLLO_API_KEY',
+            },
+            { status: 500 }
+        );
+    }
+
+    try {
+        const body = await req.json().catch(() => ({}));
+        const requestedId = typeof body?.job_id === 'string' ? body.job_id.trim() : '';
+
+        const record = requestedId
+            ? await getLeadSearchJob(requestedId)
+            : await getNextQueuedLeadSearchJob();
+
+        if (!record) {
+            return NextResponse.json(
+                {
+                    status: 'idle',
+                    processed: false,
+                    message: 'No queued lead search jobs were found.',
+                },
+                { status: 200 }
+            );
+        }
+
+        if (!isLeadSearchJobClaimable(record)) {
+            return NextResponse.json(
+                {
+                    job_id: record.job_id,
+                    status: record.status,
+                    phase: record.phase,
+                    processed: false,
+                    message: `Lead search job is already ${record.status}.`,
+                },
+                { status: 200 }
+            );
+        }
+
+        const job = await claimLeadSearchJob(record);
+        if (!job) {
+            return NextResponse.json(
+                {
+                    job_id: record.job_id,
+                    status: 'in_progress',
+                    processed: false,
+                    message: 'Lead search job was claimed by another worker.',
+                },
+                { status: 200 }
+            );
+        }
+
+        // A job claimed while in progress lost its worker; it continues from the saved
+        // counters and checkpoint instead of starting over.
+        const interrupted = record.status === 'in_progress';
+        const progress: LeadSearchJobProgress = {
+            phase: interrupted ? job.phase : 'queued',
+            company_pages_fetched: interrupted ? job.company_pages_fetched : 0,
+            people_pages_fetched: interrupted ? job.people_pages_fetched : 0,
+            companies_found: interrupted ? job.companies_found : 0,
+            leads_saved: interrupted ? job.leads_saved : 0,
+            errors: interrupted ? [...job.errors] : [],
+        };
+        const log = (msg: string, data?: any) => {
+            console.log(`[lead-search-job ${job.job_id}] ${msg}`, data ? JSON.stringify(data) : '');
+        };
+        const saveProgress = async () => {
+            try {
+                await updateLeadSearchJobProgress(job.job_id, progress);
+            } catch (error: any) {
+                log('Warning: Failed to update job progress', { error: error?.message });
+            }
+        };
+
+        if (interrupted) {
+            progress.errors.push({ phase: progress.phase, message: LEAD_SEARCH_JOB_INTERRUPTED_MESSAGE, at: new Date().toISOString() });
+
+            if (countLeadSearchJobInterruptions(progress) >= MAX_JOB_INTERRUPTIONS) {
+                await failLeadSearchJob(job.job_id, progress);
+                return NextResponse.json(
+                    {
+                        error: 'LEAD_SEARCH_JOB_FAILED',
+                        message: `Lead search job was interrupted ${MAX_JOB_INTERRUPTIONS} times.`,
+                        job_id: job.job_id,
+                    },
+                    { status: 502 }
+                );
+            }
+
+            log(`Resuming interrupted job from phase ${progress.phase}`, { leads_saved: progress.leads_saved });
+            await saveProgress();
+        }
+
+        try {
+            const request = job.request_payload;
+            const icpProfile = await resolveIcpProfile({
+                userId: request.user_id,
+                orgId: request.org_id,
+                profileId: request.icp_profile_id,
+            });
+            const searchPageLimit = await resolveSearchPageLimit({ userId: request.user_id, orgId: request.org_id });
+            // The page quota and max_results cover the whole job, not each of its runs.
+            const maxSearchPages = searchPageLimit === null
+                ? null
+                : Math.max(0, searchPageLimit - progress.company_pages_fetched - progress.people_pages_fetched);
+            const apolloDiagnostics = createApolloDiagnostics();
+            const usageOwner = { userId: request.user_id, orgId: request.org_id, source: 'lead-search-job' };
+            const result = await withApolloUsageContext(usageOwner, () => withApolloDiagnostics(apolloDiagnostics, () => runBatchLeadSearch({
+                apiKey,
+                dbClient: getServerSupabase(),
+                userId: request.user_id,
+                orgId: request.org_id,
+                batchRunId: job.batch_run_id,
+                filters: request.filters,
+                maxResults: Math.max(0, request.max_results - progress.leads_saved),
+                companiesOnly: request.companies_only,
+                resumeSearchProgress: request.resume_search_progress,
+                icpProfile,
+                maxSearchPages,
+                initialSearchProgress: interrupted ? job.search_checkpoint : null,
+                log,
+                hooks: {
+                    onPhase: async (phase) => {
+                        if (progress.phase === phase) return;
+                        progress.phase = phase;
+                        await saveProgress();
+                    },
+                    onCompanyPage: async ({ companies }) => {
+                        progress.company_pages_fetched++;
+                        progress.companies_found += companies.length;
+                        await saveProgress();
+                    },
+                    onPeoplePage: async () => {
+                        progress.people_pages_fetched++;
+                        await saveProgress();
+                    },
+                    onLeadsSaved: async (leads) => {
+                        progress.leads_saved += leads.length;
+                        await saveProgress();
+                    },
+                    onError: async ({ phase, message }) => {
+                        progress.errors.push({ phase, message, at: new Date().toISOString() });
+                        await saveProgress();
+                    },
+                    onCheckpoint: (state) => saveLeadSearchJobCheckpoint(job.job_id, state, log),
+                },
+            })));
+
+            progress.phase = 'done';
+            await completeLeadSearchJob(job.job_id, progress, {
+                filters_hash: result.filters_hash,
+                companies: result.companies,
+                accounts_saved: result.accounts_saved,
+                leads_count: progress.leads_saved,
+                sparse_lead_summary: result.sparse_lead_summary,
+                search_progress: result.search_progress,
+                search_page_limit: result.search_page_limit,
+                search_page_limit_reached: result.search_page_limit_reached,
+                apollo_diagnostics: apolloDiagnostics,
+            });
+
+            return NextResponse.json(
+                {
+                    job_id: job.job_id,
+                    status: 'completed',
+                    processed: true,
+                    leads_saved: progress.leads_saved,
+                },
+                { status: 200 }
+            );
+        } catch (error: any) {
+            const message = error?.message || 'Lead search worker failed';
+            progress.errors.push({ phase: progress.phase, message, at: new Date().toISOString() });
+            await failLeadSearchJob(job.job_id, progress);
+
+            return NextResponse.json(
+                {
+                    error: 'LEAD_SEARCH_JOB_FAILED',
+                    message,
+                    job_id: job.job_id,
+                },
+                { status: 502 }
+            );
+        }
+    } catch (error: any) {
+        return NextResponse.json(
+            {
+                error: 'LEAD_SEARCH_JOB_FAILED',
+                message: error?.message || 'Unexpected lead search worker error',
+            },
+            { status: 500 }
+        );
+    }
+}
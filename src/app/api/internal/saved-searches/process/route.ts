@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server';
+import { hasValidSecret } from '@/lib/auth/secrets';
+import { getSavedSearch, listDueSavedSearches } from '@/lib/saved-searches/persistence';
+import { runDueSavedSearch, runSavedSearch } from '@/lib/saved-searches/runner';
+import { SavedSearchRunRecord } from '@/lib/saved-searches/types';
+
+export const runtime = 'nodejs';
+
+const DEFAULT_DUE_LIMIT = 3;
+const MAX_DUE_LIMIT = 10;
+
+function summarizeRun(run: SavedSearchRunRecord) {
+    return {
+        run_id: run.run_id,
+        saved_search_id: run.saved_search_id,
+        batch_run_id: run.batch_run_id,
+        status: run.status,
+        leads_count: run.leads_count,
+        new_count: run.new_count,
+        changed_count: run.changed_count,
+        unchanged_count: run.unchanged_count,
+        error: run.error,
+    };
+}
+
+export async function POST(req: Request) {
+    if (!hasValidSecret(req, 'LEAD_SEARCH_WORKER_SECRET')) {
+        return NextResponse.json(
+            {
+                error: 'UNAUTHORIZED_WORKER',
+                message: 'Missing or invalid lead search worker secret.',
+            },
+            { status: 401 }
+        );
+    }
+
+    const apiKey = process.env.APOLLO_API_KEY;
+    if (!apiKey) {
+        return NextResponse.json(
+            {
+                error: 'SAVED_SEARCH_WORKER_MISCONFIGURED',
+                message: 'Missing APOLLO_API_KEY',
+            },
+            { status: 500 }
+        );
+    }
+
+    const log = (msg: string, data?: any) => {
+        console.log(`[saved-searches] ${msg}`, data ? JSON.stringify(data) : '');
+    };
+
+    try {
+        const body = await req.json().catch(() => ({}));
+        const requestedId = typeof body?.saved_search_id === 'string' ? body.saved_search_id.trim() : '';
+
+        // An explicit id runs that search now, regardless of its schedule.
+        if (requestedId) {
+            const savedSearch = await getSavedSearch(requestedId);
+            if (!savedSearch) {
+                return NextResponse.json(
+                    { error: 'SAVED_SEARCH_NOT_FOUND', message: `No saved search was found for id ${requestedId}` },
+                    { status: 404 }
+                );
+            }
+
+            const run = await runSavedSearch(savedSearch, { apiKey, trigger: 'manual', log });
+            return NextResponse.json({ processed: 1, runs: [summarizeRun(run)] }, { status: 200 });
+        }
+
+        const requestedLimit = Number(body?.limit ?? DEFAULT_DUE_LIMIT);
+        const limit = Number.isFinite(requestedLimit) && requestedLimit > 0
+            ? Math.min(Math.floor(requestedLimit), MAX_DUE_LIMIT)
+            : DEFAULT_DUE_LIMIT;
+        const dueSearches = await listDueSavedSearches(limit);
+
+        if (dueSearches.length === 0) {
+            return NextResponse.json(
+                {
+                    status: 'idle',
+                    processed: 0,
+                    message: 'No saved searches are due.',
+                },
+                { status: 200 }
+            );
+        }
+
+        const runs: SavedSearchRunRecord[] = [];
+        for (const savedSearch of dueSearches) {
+            const run = await runDueSavedSearch(savedSearch, { apiKey, log });
+            if (run) runs.push(run);
+        }
+
+        return NextResponse.json(
+            {
+                processed: runs.length,
+                runs: runs.map(summarizeRun),
+            },
+            { status: 200 }
+        );
+    } catch (error: any) {
+        return NextResponse.json(
+            {
+                error: 'SAVED_SEARCH_WORKER_FAILED',
+                message: error?.message || 'Unexpected saved search worker error',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server';
+import { requireApiKey } from '@/lib/api-keys/auth';
 import { getReportById } from '@/lib/lead-research/persistence';
 import { buildPendingResearchResponse } from '@/lib/lead-research/response';
 
@@ -10,11 +11,15 @@ type RouteContext = {
     }>;
 };
 
-export async function GET(_: Request, context: RouteContext) {
+export async function GET(req: Request, context: RouteContext) {
+    const auth = await requireApiKey(req, 'research');
+    if (auth.response) return auth.response;
+
     const { reportId } = await context.params;
 
     const report = await getReportById(reportId);
-    if (!report) {
+    // Reports of other organizations are reported as missing.
+    if (!report || report.request_payload?.organization_id !== auth.principal.org_id) {
         return NextResponse.json(
             {
                 error: 'LEAD_RESEARCH_NOT_FOUND',
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
+import { requireApiKey } from '@/lib/api-keys/auth';
 import { runLeadResearch } from '@/lib/lead-research/engine';
 import {
     createQueuedDeepReport,
@@ -25,9 +26,15 @@ function withCacheHit(response: LeadResearchApiResponse): LeadResearchApiRespons
 }
 
 export async function POST(req: Request) {
+    const auth = await requireApiKey(req, 'research');
+    if (auth.response) return auth.response;
+
     try {
         const body = await req.json();
         const normalizedInput = normalizeLeadResearchRequest(body);
+        // The caller's identity comes from the API key, not the body.
+        normalizedInput.user_id = auth.principal.user_id;
+        normalizedInput.organization_id = auth.principal.org_id;
         const cacheKey = hashCacheKey(createCacheFingerprint(normalizedInput, true));
         const baseCacheKey = hashCacheKey(createCacheFingerprint(normalizedInput, false));
 
@@ -0,0 +1,147 @@
+import { NextResponse } from 'next/server';
+import { applyApiKeyCors, buildApiKeyPreflightResponse, requireApiKey } from '@/lib/api-keys/auth';
+import { ApiKeyPrincipal } from '@/lib/api-keys/types';
+import {
+    LEAD_EXPORT_FORMATS,
+    LeadExportHeaderPreset,
+    buildLeadExportWorkbook,
+    createLeadExportStream,
+    isLeadExportFormat,
+    isLeadExportHeaderPreset,
+    resolveLeadExportColumns,
+} from '@/lib/lead-search/export';
+import { normalizeFlexibleStringArray } from '@/lib/lead-search/normalize';
+import { getServerSupabase } from '@/lib/lead-search/persistence';
+
+export const runtime = 'nodejs';
+
+const LEAD_EXPORT_CORS_METHODS = 'GET, OPTIONS';
+
+const CONTENT_TYPES = {
+    csv: 'text/csv; charset=utf-8',
+    jsonl: 'application/x-ndjson; charset=utf-8',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// `header_mapping` is either a preset name or a JSON object of column -> header.
+function parseHeaderMapping(value: string | null): {
+    preset: LeadExportHeaderPreset;
+    headers: Record<string, string>;
+} | null {
+    const trimmed = value?.trim() || '';
+    if (!trimmed) return { preset: 'default', headers: {} };
+
+    const preset = trimmed.toLowerCase();
+    if (isLeadExportHeaderPreset(preset)) return { preset, headers: {} };
+
+    try {
+        const parsed = JSON.parse(trimmed);
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+
+        const headers: Record<string, string> = {};
+        for (const [key, header] of Object.entries(parsed)) {
+            if (typeof header === 'string' && header.trim()) headers[key] = header.trim();
+        }
+        return { preset: 'default', headers };
+    } catch {
+        return null;
+    }
+}
+
+export async function OPTIONS(req: Request) {
+    return buildApiKeyPreflightResponse(req, LEAD_EXPORT_CORS_METHODS);
+}
+
+export async function GET(req: Request) {
+    const auth = await requireApiKey(req, 'search');
+    if (auth.response) return auth.response;
+
+    return applyApiKeyCors(req, await exportLeads(req, auth.principal), auth.principal);
+}
+
+async function exportLeads(req: Request, principal: ApiKeyPrincipal) {
+    const log = (msg: string, data?: any) => {
+        const timestamp = new Date().toISOString();
+        const message = data ? `${msg} ${JSON.stringify(data, null, 2)}` : msg;
+        console.log(`[${timestamp}] ${message}`);
+    };
+
+    const url = new URL(req.url);
+    const batchRunId =
+        url.searchParams.get('batch_run_id')?.trim() ||
+        url.searchParams.get('batchRunId')?.trim() ||
+        '';
+    const format = (url.searchParams.get('format') || 'csv').trim().toLowerCase();
+
+    if (!batchRunId) {
+        return NextResponse.json({ error: 'Missing batch_run_id' }, { status: 400 });
+    }
+
+    if (!isLeadExportFormat(format)) {
+        return NextResponse.json(
+            { error: `Invalid format. Use one of: ${LEAD_EXPORT_FORMATS.join(', ')}` },
+            { status: 400 }
+        );
+    }
+
+    const headerMapping = parseHeaderMapping(url.searchParams.get('header_mapping') || url.searchParams.get('crm'));
+    if (!headerMapping) {
+        return NextResponse.json(
+            { error: 'Invalid header_mapping. Use hubspot, salesforce, pipedrive, default or a JSON object of column to header.' },
+            { status: 400 }
+        );
+    }
+
+    const { columns, unknown } = resolveLeadExportColumns({
+        columns: url.searchParams.getAll('columns').flatMap((value) => normalizeFlexibleStringArray(value)),
+        preset: headerMapping.preset,
+        headers: headerMapping.headers,
+    });
+
+    if (unknown.length > 0) {
+        return NextResponse.json({ error: `Unknown export columns: ${unknown.join(', ')}` }, { status: 400 });
+    }
+
+    const fileName = `leads-${batchRunId.replace(/[^a-zA-Z0-9_-]/g, '')}.${format}`;
+    const headers = {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+    };
+
+    try {
+        const dbClient = getServerSupabase(log);
+
+        if (format === 'xlsx') {
+            const { workbook, rowCount } = await buildLeadExportWorkbook({
+                dbClient,
+                batchRunId,
+                orgId: principal.org_id,
+                columns,
+            });
+            if (rowCount === 0) {
+                return NextResponse.json({ error: 'No leads found for batch_run_id' }, { status: 404 });
+            }
+
+            return new Response(new Uint8Array(workbook), { headers });
+        }
+
+        const { stream, empty } = await createLeadExportStream({
+            dbClient,
+            batchRunId,
+            orgId: principal.org_id,
+            format,
+            columns,
+            log,
+        });
+        if (empty) {
+            await stream.cancel();
+            return NextResponse.json({ error: 'No leads found for batch_run_id' }, { status: 404 });
+        }
+
+        return new Response(stream, { headers });
+    } catch (error: any) {
+        log('Lead export failed.', { batch_run_id: batchRunId, error: error?.message || String(error) });
+        return NextResponse.json({ error: error?.message || 'Lead export failed' }, { status: 500 });
+    }
+}
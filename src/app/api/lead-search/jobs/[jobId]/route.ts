@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { requireApiKey } from '@/lib/api-keys/auth';
+import { resolveIcpSortOrder, sortLeadsByIcpScore } from '@/lib/icp/scoring';
+import { getLeadSearchJob } from '@/lib/lead-search/jobs';
+import { fetchLeadsByBatchRunId, getServerSupabase } from '@/lib/lead-search/persistence';
+
+export const runtime = 'nodejs';
+
+type RouteContext = {
+    params: Promise<{
+        jobId: string;
+    }>;
+};
+
+export async function GET(req: Request, context: RouteContext) {
+    const auth = await requireApiKey(req, 'search');
+    if (auth.response) return auth.response;
+
+    const { jobId } = await context.params;
+    const url = new URL(req.url);
+    const icpSortOrder = resolveIcpSortOrder(url.searchParams.get('sort_by'), url.searchParams.get('sort_order'));
+
+    try {
+        const job = await getLeadSearchJob(jobId);
+        // Jobs of other organizations are reported as missing.
+        if (!job || job.request_payload.org_id !== auth.principal.org_id) {
+            return NextResponse.json(
+                {
+                    error: 'LEAD_SEARCH_JOB_NOT_FOUND',
+                    message: `No lead search job was found for id ${jobId}`,
+                },
+                { status: 404 }
+            );
+        }
+
+        // Leads are persisted chunk by chunk, so partial results are readable while the job runs.
+        const savedLeads = job.leads_saved > 0
+            ? await fetchLeadsByBatchRunId(getServerSupabase(), job.batch_run_id, job.request_payload.max_results)
+            : [];
+        const leads = icpSortOrder ? sortLeadsByIcpScore(savedLeads, icpSortOrder) : savedLeads;
+
+        return NextResponse.json(
+            {
+                job_id: job.job_id,
+                status: job.status,
+                phase: job.phase,
+                batch_run_id: job.batch_run_id,
+                search_mode: 'batch',
+                progress: {
+                    company_pages_fetched: job.company_pages_fetched,
+                    people_pages_fetched: job.people_pages_fetched,
+                    companies_found: job.companies_found,
+                    leads_saved: job.leads_saved,
+                },
+                errors: job.errors,
+                leads,
+                result: job.result,
+                created_at: job.created_at,
+                updated_at: job.updated_at,
+                started_at: job.started_at,
+                completed_at: job.completed_at,
+            },
+            { status: 200 }
+        );
+    } catch (error: any) {
+        return NextResponse.json(
+            {
+                error: 'LEAD_SEARCH_JOB_ERROR',
+                message: error?.message || 'Failed to load lead search job',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { isAllowedWebhookTable } from '@/lib/apollo/webhook-signature';
+import { hasValidSecret } from '@/lib/auth/secrets';
+import { isMissingIdentityStorageError } from '@/lib/lead-identity/persistence';
+import { findLeadDuplicates } from '@/lib/lead-identity/resolve';
+
+export const runtime = 'nodejs';
+
+type RouteContext = {
+    params: Promise<{
+        id: string;
+    }>;
+};
+
+// Duplicates can belong to other orgs, so the lookup is limited to the API_SECRET_KEY holder.
+export async function GET(req: Request, context: RouteContext) {
+    if (!hasValidSecret(req, 'API_SECRET_KEY')) {
+        return NextResponse.json(
+            { error: 'UNAUTHORIZED', message: 'Missing or invalid API secret key.' },
+            { status: 401 }
+        );
+    }
+
+    const { id } = await context.params;
+    const tableName = new URL(req.url).searchParams.get('table_name')?.trim() || 'people_search_leads';
+
+    if (!isAllowedWebhookTable(tableName)) {
+        return NextResponse.json(
+            { error: 'INVALID_TABLE_NAME', message: `Unsupported table_name: ${tableName}` },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const result = await findLeadDuplicates({ table_name: tableName, id });
+        if (!result) {
+            return NextResponse.json(
+                { error: 'LEAD_NOT_FOUND', message: `No lead was found for ${tableName}/${id}` },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json(
+            {
+                id,
+                table_name: tableName,
+                contact_id: result.contact?.contact_id || result.identity.contact_id,
+                canonical: result.contact
+                    ? { table_name: result.contact.canonical_table_name, id: result.contact.canonical_lead_id }
+                    : null,
+                identity_keys: {
+                    linkedin_key: result.identity.linkedin_key,
+                    email_key: result.identity.email_key,
+                    name_domain_key: result.identity.name_domain_key,
+                },
+                duplicates_count: result.duplicates.length,
+                duplicates: result.duplicates,
+                merge_history: result.contact?.merge_history || [],
+            },
+            { status: 200 }
+        );
+    } catch (error: any) {
+        const storageUnavailable = isMissingIdentityStorageError(error);
+        return NextResponse.json(
+            {
+                error: storageUnavailable ? 'LEAD_IDENTITY_STORAGE_UNAVAILABLE' : 'LEAD_DUPLICATES_FAILED',
+                message: storageUnavailable
+                    ? 'Duplicate lookup requires the lead_contacts and lead_identities tables.'
+                    : error?.message || 'Failed to load lead duplicates',
+            },
+            { status: 500 }
+        );
+    }
+}
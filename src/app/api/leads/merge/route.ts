@@ -0,0 +1,121 @@
+import { NextResponse } from 'next/server';
+import { isAllowedWebhookTable } from '@/lib/apollo/webhook-signature';
+import { hasValidSecret } from '@/lib/auth/secrets';
+import { isMissingIdentityStorageError } from '@/lib/lead-identity/persistence';
+import { mergeLeads } from '@/lib/lead-identity/resolve';
+import { LeadSourceRef, LeadSourceTable } from '@/lib/lead-identity/types';
+import { normalizeOptionalString } from '@/lib/lead-search/normalize';
+
+export const runtime = 'nodejs';
+
+const DEFAULT_TABLE_NAME: LeadSourceTable = 'people_search_leads';
+
+function toSourceRef(value: unknown, defaultTable: LeadSourceTable): LeadSourceRef | null {
+    if (typeof value === 'string') {
+        const id = value.trim();
+        return id ? { table_name: defaultTable, id } : null;
+    }
+
+    if (!value || typeof value !== 'object') return null;
+
+    const raw = value as Record<string, unknown>;
+    const id = normalizeOptionalString(raw.id);
+    const tableName = raw.table_name ?? defaultTable;
+    if (!id || !isAllowedWebhookTable(tableName)) return null;
+
+    return { table_name: tableName, id };
+}
+
+// Lead identities span every org and both lead tables, so merging is an operator task.
+export async function POST(req: Request) {
+    if (!hasValidSecret(req, 'API_SECRET_KEY')) {
+        return NextResponse.json(
+            { error: 'UNAUTHORIZED', message: 'Missing or invalid API secret key.' },
+            { status: 401 }
+        );
+    }
+
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+        return NextResponse.json(
+            { error: 'INVALID_MERGE_REQUEST', message: 'Request body must be a JSON object.' },
+            { status: 400 }
+        );
+    }
+
+    const tableName = body.table_name ?? DEFAULT_TABLE_NAME;
+    if (!isAllowedWebhookTable(tableName)) {
+        return NextResponse.json(
+            { error: 'INVALID_MERGE_REQUEST', message: `Unsupported table_name: ${tableName}` },
+            { status: 400 }
+        );
+    }
+
+    const primary = toSourceRef(body.primary ?? body.primary_id ?? body.lead_id, tableName);
+    const rawDuplicates = Array.isArray(body.duplicates)
+        ? body.duplicates
+        : Array.isArray(body.duplicate_ids)
+            ? body.duplicate_ids
+            : [];
+    const duplicates = rawDuplicates.map((value: unknown) => toSourceRef(value, tableName));
+
+    if (!primary) {
+        return NextResponse.json(
+            { error: 'INVALID_MERGE_REQUEST', message: 'Missing primary lead (primary_id or primary: { id, table_name }).' },
+            { status: 400 }
+        );
+    }
+
+    if (duplicates.length === 0 || duplicates.some((ref: LeadSourceRef | null) => !ref)) {
+        return NextResponse.json(
+            { error: 'INVALID_MERGE_REQUEST', message: 'duplicates must be a non-empty list of lead ids or { id, table_name } objects.' },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const result = await mergeLeads({
+            primary,
+            duplicates: duplicates as LeadSourceRef[],
+            reason: normalizeOptionalString(body.reason),
+            mergedBy: normalizeOptionalString(body.merged_by ?? body.user_id),
+        });
+
+        if (!result) {
+            return NextResponse.json(
+                { error: 'LEAD_NOT_FOUND', message: `No lead was found for ${primary.table_name}/${primary.id}` },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json(
+            {
+                contact_id: result.contact.contact_id,
+                canonical: {
+                    table_name: result.contact.canonical_table_name,
+                    id: result.contact.canonical_lead_id,
+                },
+                canonical_profile: result.canonical_profile,
+                members: result.members.map((member) => ({
+                    table_name: member.table_name,
+                    id: member.id,
+                    matched_on: member.matched_on,
+                })),
+                merge_history: result.contact.merge_history,
+                missing_duplicates: result.missing,
+            },
+            { status: 200 }
+        );
+    } catch (error: any) {
+        const storageUnavailable = isMissingIdentityStorageError(error);
+        return NextResponse.json(
+            {
+                error: storageUnavailable ? 'LEAD_IDENTITY_STORAGE_UNAVAILABLE' : 'LEAD_MERGE_FAILED',
+                message: storageUnavailable
+                    ? 'Lead merging requires the lead_contacts and lead_identities tables.'
+                    : error?.message || 'Failed to merge leads',
+            },
+            { status: 500 }
+        );
+    }
+}
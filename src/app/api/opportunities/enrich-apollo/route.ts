@@ -1,3 +1,3 @@
 export const runtime = 'nodejs';
 
-export { POST } from '@/app/api/enrich/route';
+export { OPTIONS, POST } from '@/app/api/enrich/route';
@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { applyApiKeyCors, buildApiKeyPreflightResponse, requireApiKey } from '@/lib/api-keys/auth';
+import { ApiKeyPrincipal } from '@/lib/api-keys/types';
+import { getSavedSearch, isMissingSavedSearchStorageError, listSavedSearchRuns } from '@/lib/saved-searches/persistence';
+
+export const runtime = 'nodejs';
+
+const DEFAULT_RUNS_LIMIT = 20;
+const MAX_RUNS_LIMIT = 100;
+const SAVED_SEARCH_RUNS_CORS_METHODS = 'GET, OPTIONS';
+
+type RouteContext = {
+    params: Promise<{
+        id: string;
+    }>;
+};
+
+export async function OPTIONS(req: Request) {
+    return buildApiKeyPreflightResponse(req, SAVED_SEARCH_RUNS_CORS_METHODS);
+}
+
+export async function GET(req: Request, context: RouteContext) {
+    const auth = await requireApiKey(req, 'search');
+    if (auth.response) return auth.response;
+
+    return applyApiKeyCors(req, await listRuns(req, context, auth.principal), auth.principal);
+}
+
+async function listRuns(req: Request, context: RouteContext, principal: ApiKeyPrincipal) {
+    const { id } = await context.params;
+    const url = new URL(req.url);
+    const requestedLimit = Number(url.searchParams.get('limit') || DEFAULT_RUNS_LIMIT);
+    const limit = Number.isFinite(requestedLimit) && requestedLimit > 0
+        ? Math.min(Math.floor(requestedLimit), MAX_RUNS_LIMIT)
+        : DEFAULT_RUNS_LIMIT;
+    const includeLeadIds = url.searchParams.get('include_lead_ids') === 'true';
+
+    try {
+        const savedSearch = await getSavedSearch(id);
+        // Searches of another user read as missing.
+        if (!savedSearch || savedSearch.user_id !== principal.user_id) {
+            return NextResponse.json(
+                { error: 'SAVED_SEARCH_NOT_FOUND', message: `No saved search was found for id ${id}` },
+                { status: 404 }
+            );
+        }
+
+        const runs = await listSavedSearchRuns(id, limit);
+
+        return NextResponse.json(
+            {
+                saved_search_id: savedSearch.saved_search_id,
+                name: savedSearch.name,
+                schedule: savedSearch.schedule,
+                next_run_at: savedSearch.next_run_at,
+                last_run_at: savedSearch.last_run_at,
+                runs: runs.map(({ lead_fingerprints, new_lead_ids, changed_lead_ids, ...run }) => ({
+                    ...run,
+                    ...(includeLeadIds ? { new_lead_ids, changed_lead_ids } : {}),
+                })),
+            },
+            { status: 200 }
+        );
+    } catch (error: any) {
+        if (isMissingSavedSearchStorageError(error)) {
+            return NextResponse.json(
+                {
+                    error: 'SAVED_SEARCH_STORAGE_UNAVAILABLE',
+                    message: 'Saved searches require the saved_searches and saved_search_runs tables.',
+                },
+                { status: 500 }
+            );
+        }
+
+        return NextResponse.json(
+            { error: 'SAVED_SEARCH_REQUEST_FAILED', message: error?.message || 'Failed to list saved search runs' },
+            { status: 500 }
+        );
+    }
+}
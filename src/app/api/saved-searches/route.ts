@@ -0,0 +1,129 @@
+import { NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { applyApiKeyCors, buildApiKeyPreflightResponse, requireApiKey } from '@/lib/api-keys/auth';
+import { ApiKeyPrincipal } from '@/lib/api-keys/types';
+import { loadEmployeeSegments } from '@/lib/employee-ranges/persistence';
+import {
+    computeFiltersHash,
+    resolveBatchEmployeeRanges,
+    resolveBatchIndustryCodes,
+    resolveBatchLeadSearchFilters,
+} from '@/lib/lead-search/batch';
+import { MAX_ASYNC_LEAD_SEARCH_RESULTS, normalizeOptionalString, resolveMaxResults } from '@/lib/lead-search/normalize';
+import { LeadSearchRequest } from '@/lib/lead-search/types';
+import { createSavedSearch, isMissingSavedSearchStorageError, listSavedSearches } from '@/lib/saved-searches/persistence';
+import { SAVED_SEARCH_SCHEDULES, isSavedSearchSchedule } from '@/lib/saved-searches/runner';
+
+export const runtime = 'nodejs';
+
+const SAVED_SEARCHES_CORS_METHODS = 'GET, POST, OPTIONS';
+
+function storageUnavailableResponse() {
+    return NextResponse.json(
+        {
+            error: 'SAVED_SEARCH_STORAGE_UNAVAILABLE',
+            message: 'Saved searches require the saved_searches and saved_search_runs tables.',
+        },
+        { status: 500 }
+    );
+}
+
+export async function OPTIONS(req: Request) {
+    return buildApiKeyPreflightResponse(req, SAVED_SEARCHES_CORS_METHODS);
+}
+
+// Saved searches of the key's user; a user_id query param is ignored.
+export async function GET(req: Request) {
+    const auth = await requireApiKey(req, 'search');
+    if (auth.response) return auth.response;
+
+    return applyApiKeyCors(req, await listSearches(auth.principal), auth.principal);
+}
+
+async function listSearches(principal: ApiKeyPrincipal) {
+    try {
+        const savedSearches = await listSavedSearches(principal.user_id);
+        return NextResponse.json({ saved_searches: savedSearches }, { status: 200 });
+    } catch (error: any) {
+        if (isMissingSavedSearchStorageError(error)) return storageUnavailableResponse();
+        return NextResponse.json(
+            { error: 'SAVED_SEARCH_REQUEST_FAILED', message: error?.message || 'Failed to list saved searches' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(req: Request) {
+    const auth = await requireApiKey(req, 'search');
+    if (auth.response) return auth.response;
+
+    return applyApiKeyCors(req, await createSearch(req, auth.principal), auth.principal);
+}
+
+// The search belongs to the key's user and org; user_id / org_id in the body are ignored.
+async function createSearch(req: Request, principal: ApiKeyPrincipal) {
+    const body: (LeadSearchRequest & Record<string, any>) | null = await req.json().catch(() => null);
+    const userId = principal.user_id;
+    const name = normalizeOptionalString(body?.name);
+
+    if (!body || !name) {
+        return NextResponse.json(
+            { error: 'INVALID_SAVED_SEARCH_REQUEST', message: 'Missing name' },
+            { status: 400 }
+        );
+    }
+
+    const schedule = body.schedule ?? 'weekly';
+    if (!isSavedSearchSchedule(schedule)) {
+        return NextResponse.json(
+            {
+                error: 'INVALID_SAVED_SEARCH_REQUEST',
+                message: `Invalid schedule. Allowed values: ${SAVED_SEARCH_SCHEDULES.join(', ')}`,
+            },
+            { status: 400 }
+        );
+    }
+
+    const unknownIndustryCodes = resolveBatchIndustryCodes(body).unknown;
+    if (unknownIndustryCodes.length > 0) {
+        return NextResponse.json(
+            {
+                error: 'INVALID_SAVED_SEARCH_REQUEST',
+                message: `Unknown industry_codes: ${unknownIndustryCodes.join(', ')}`,
+            },
+            { status: 400 }
+        );
+    }
+
+    const orgId = principal.org_id;
+    const employeeSegments = await loadEmployeeSegments(orgId, console.warn);
+    const filters = resolveBatchLeadSearchFilters(body, employeeSegments);
+    const filterWarnings = resolveBatchEmployeeRanges(body, employeeSegments).warnings;
+
+    try {
+        const savedSearch = await createSavedSearch({
+            saved_search_id: uuidv4(),
+            user_id: userId,
+            org_id: orgId,
+            name,
+            filters,
+            filters_hash: computeFiltersHash(filters),
+            max_results: resolveMaxResults(body.max_results, MAX_ASYNC_LEAD_SEARCH_RESULTS),
+            schedule,
+            is_active: body.is_active !== false,
+            // The first scheduled run records the baseline that later runs are diffed against.
+            next_run_at: schedule === 'manual' ? null : new Date().toISOString(),
+        });
+
+        return NextResponse.json(
+            filterWarnings.length > 0 ? { ...savedSearch, filter_warnings: filterWarnings } : savedSearch,
+            { status: 201 }
+        );
+    } catch (error: any) {
+        if (isMissingSavedSearchStorageError(error)) return storageUnavailableResponse();
+        return NextResponse.json(
+            { error: 'SAVED_SEARCH_REQUEST_FAILED', message: error?.message || 'Failed to save search' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,105 @@
+import { NextResponse } from 'next/server';
+import { hasValidSecret } from '@/lib/auth/secrets';
+import { getApolloQuota, isMissingUsageStorageError, saveApolloQuota } from '@/lib/usage/persistence';
+import { getApolloRevealUsage, normalizeApolloQuotaLimits } from '@/lib/usage/quotas';
+import { ApolloQuotaOwnerType } from '@/lib/usage/types';
+
+export const runtime = 'nodejs';
+
+function unauthorizedResponse() {
+    return NextResponse.json(
+        { error: 'UNAUTHORIZED', message: 'Missing or invalid API secret key.' },
+        { status: 401 }
+    );
+}
+
+function storageUnavailableResponse() {
+    return NextResponse.json(
+        {
+            error: 'USAGE_STORAGE_UNAVAILABLE',
+            message: 'Quotas require the apollo_quotas table. Run 010_create_apollo_quotas.sql first.',
+        },
+        { status: 500 }
+    );
+}
+
+function parseOwner(value: { owner_type?: unknown; owner_id?: unknown }): { ownerType: ApolloQuotaOwnerType; ownerId: string } | null {
+    const ownerType = typeof value.owner_type === 'string' ? value.owner_type.trim() : '';
+    const ownerId = typeof value.owner_id === 'string' ? value.owner_id.trim() : '';
+    if ((ownerType !== 'user' && ownerType !== 'org') || !ownerId) return null;
+
+    return { ownerType, ownerId };
+}
+
+export async function GET(req: Request) {
+    if (!hasValidSecret(req, 'API_SECRET_KEY')) return unauthorizedResponse();
+
+    const searchParams = new URL(req.url).searchParams;
+    const owner = parseOwner({
+        owner_type: searchParams.get('owner_type'),
+        owner_id: searchParams.get('owner_id'),
+    });
+    if (!owner) {
+        return NextResponse.json(
+            { error: 'INVALID_QUOTA_REQUEST', message: 'owner_type (user | org) and owner_id are required' },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const [quota, usage] = await Promise.all([
+            getApolloQuota(owner.ownerType, owner.ownerId),
+            getApolloRevealUsage(owner.ownerType, owner.ownerId),
+        ]);
+
+        return NextResponse.json(
+            {
+                owner_type: owner.ownerType,
+                owner_id: owner.ownerId,
+                quota,
+                usage,
+            },
+            { status: 200 }
+        );
+    } catch (error: any) {
+        if (isMissingUsageStorageError(error)) return storageUnavailableResponse();
+        return NextResponse.json(
+            { error: 'QUOTA_REQUEST_FAILED', message: error?.message || 'Failed to load quota' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(req: Request) {
+    if (!hasValidSecret(req, 'API_SECRET_KEY')) return unauthorizedResponse();
+
+    const body = await req.json().catch(() => null);
+    const owner = body ? parseOwner(body) : null;
+    if (!owner) {
+        return NextResponse.json(
+            { error: 'INVALID_QUOTA_REQUEST', message: 'owner_type (user | org) and owner_id are required' },
+            { status: 400 }
+        );
+    }
+
+    let limits;
+    try {
+        limits = normalizeApolloQuotaLimits(body);
+    } catch (error: any) {
+        return NextResponse.json(
+            { error: 'INVALID_QUOTA_REQUEST', message: error?.message || 'Invalid quota limits' },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const quota = await saveApolloQuota(owner.ownerType, owner.ownerId, limits);
+        return NextResponse.json(quota, { status: 200 });
+    } catch (error: any) {
+        if (isMissingUsageStorageError(error)) return storageUnavailableResponse();
+        return NextResponse.json(
+            { error: 'QUOTA_REQUEST_FAILED', message: error?.message || 'Failed to save quota' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import { hasValidSecret } from '@/lib/auth/secrets';
+import { isMissingUsageStorageError, listApolloUsageEntries } from '@/lib/usage/persistence';
+import { USAGE_PERIODS, buildUsageRollups, isUsagePeriod, summarizeUsage } from '@/lib/usage/rollups';
+
+export const runtime = 'nodejs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+
+function parseDate(value: string | null): Date | null | undefined {
+    if (!value?.trim()) return undefined;
+
+    const date = new Date(value.trim());
+    return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function invalidRequest(message: string) {
+    return NextResponse.json({ error: 'INVALID_USAGE_REQUEST', message }, { status: 400 });
+}
+
+export async function GET(req: Request) {
+    if (!hasValidSecret(req, 'API_SECRET_KEY')) {
+        return NextResponse.json(
+            { error: 'UNAUTHORIZED', message: 'Missing or invalid API secret key.' },
+            { status: 401 }
+        );
+    }
+
+    const searchParams = new URL(req.url).searchParams;
+    const userId = searchParams.get('user_id')?.trim() || null;
+    const orgId = searchParams.get('org_id')?.trim() || null;
+    const period = searchParams.get('period')?.trim() || 'daily';
+
+    if (!isUsagePeriod(period)) {
+        return invalidRequest(`Invalid period. Allowed values: ${USAGE_PERIODS.join(', ')}`);
+    }
+
+    const toRaw = searchParams.get('to')?.trim() || '';
+    const to = parseDate(toRaw);
+    const from = parseDate(searchParams.get('from'));
+    if (to === null || from === null) {
+        return invalidRequest('from and to must be ISO dates.');
+    }
+
+    // A bare `to` date covers that whole day.
+    const rangeEnd = !to
+        ? new Date()
+        : /^\d{4}-\d{2}-\d{2}$/.test(toRaw) ? new Date(to.getTime() + DAY_MS) : to;
+    const rangeStart = from || new Date(rangeEnd.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+
+    if (rangeStart >= rangeEnd) {
+        return invalidRequest('from must be before to.');
+    }
+    if (rangeEnd.getTime() - rangeStart.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+        return invalidRequest(`The requested range cannot exceed ${MAX_RANGE_DAYS} days.`);
+    }
+
+    try {
+        const entries = await listApolloUsageEntries({
+            from: rangeStart.toISOString(),
+            to: rangeEnd.toISOString(),
+            userId,
+            orgId,
+        });
+        const rollups = buildUsageRollups(entries, period);
+
+        return NextResponse.json(
+            {
+                period,
+                from: rangeStart.toISOString(),
+                to: rangeEnd.toISOString(),
+                filters: { user_id: userId, org_id: orgId },
+                totals: summarizeUsage(rollups),
+                rollups,
+            },
+            { status: 200 }
+        );
+    } catch (error: any) {
+        if (isMissingUsageStorageError(error)) {
+            return NextResponse.json(
+                {
+                    error: 'USAGE_STORAGE_UNAVAILABLE',
+                    message: 'Usage reporting requires the apollo_usage_ledger table.',
+                },
+                { status: 500 }
+            );
+        }
+
+        return NextResponse.json(
+            { error: 'USAGE_REQUEST_FAILED', message: error?.message || 'Failed to load usage' },
+            { status: 500 }
+        );
+    }
+}
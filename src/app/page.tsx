@@ -25,7 +25,11 @@ interface OrganizationCandidate {
   website_url?: string | null;
   industry?: string | null;
   estimated_num_employees?: number | null;
+  country?: string | null;
   match_score?: number;
+  match_breakdown?: {
+    name?: { similarity?: number };
+  } | null;
 }
 
 type LinkedInPhoneSyncState = 'idle' | 'pending' | 'success' | 'warning';
@@ -65,6 +69,31 @@ function leadHasPhone(lead: any): boolean {
   return resolvePrimaryPhone(lead) !== 'N/A';
 }
 
+async function readLeadSearchStream(res: Response, onEvent: (event: any) => void) {
+  if (!res.body) throw new Error('Streaming is not supported by this browser');
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    let newlineIndex = buffer.indexOf('\n');
+    while (newlineIndex >= 0) {
+      const line = buffer.slice(0, newlineIndex).trim();
+      buffer = buffer.slice(newlineIndex + 1);
+      if (line) onEvent(JSON.parse(line));
+      newlineIndex = buffer.indexOf('\n');
+    }
+
+    if (done) break;
+  }
+
+  if (buffer.trim()) onEvent(JSON.parse(buffer));
+}
+
 export default function Home() {
   const [loading, setLoading] = useState(false);
   const [runs, setRuns] = useState<BatchRun[]>([]);
@@ -78,7 +107,7 @@ export default function Home() {
   const [linkedInPhoneSyncMessage, setLinkedInPhoneSyncMessage] = useState('');
 
   // Form State
-  const [userId, setUserId] = useState('test-user-1');
+  const [apiKey, setApiKey] = useState('');
   const [searchMode, setSearchMode] = useState<SearchMode>('batch');
   const [linkedinUrl, setLinkedinUrl] = useState('');
   const [companyName, setCompanyName] = useState('');
@@ -116,6 +145,9 @@ export default function Home() {
       try {
         const res = await fetch(`/api/lead-search?record_id=${encodeURIComponent(pendingLinkedInLeadId)}`, {
           cache: 'no-store',
+          headers: {
+            Authorization: `Bearer ${apiKey}`,
+          },
         });
 
         if (!res.ok) {
@@ -144,7 +176,10 @@ export default function Home() {
           return;
         }
 
-        if (enrichmentStatus && !enrichmentStatus.startsWith('pending')) {
+        const enrichmentInProgress = enrichmentStatus.startsWith('pending')
+          || enrichmentStatus === 'requested'
+          || enrichmentStatus === 'stale';
+        if (enrichmentStatus && !enrichmentInProgress) {
           setLinkedInPhoneSyncState('warning');
           setLinkedInPhoneSyncMessage('Apollo finished the enrichment, but it did not return a phone number for this profile.');
           setPendingLinkedInLeadId(null);
@@ -183,7 +218,7 @@ export default function Home() {
         clearTimeout(timeoutId);
       }
     };
-  }, [pendingLinkedInLeadId]);
+  }, [pendingLinkedInLeadId, apiKey]);
 
   const fetchRuns = async () => {
     const { data, error } = await supabase
@@ -230,7 +265,6 @@ export default function Home() {
 
     try {
       const payload: Record<string, any> = {
-        user_id: userId,
         search_mode: searchMode,
       };
 
@@ -263,16 +297,53 @@ export default function Home() {
         payload.company_location = parseCommaList(locations);
         payload.titles = parseCommaList(titles);
         payload.max_results = Number(maxResults);
+        payload.stream = true;
       }
 
       const res = await fetch('/api/lead-search', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          Authorization: `Bearer ${apiKey}`,
         },
         body: JSON.stringify(payload),
       });
 
+      if (res.ok && res.headers.get('content-type')?.includes('application/x-ndjson')) {
+        let summary: any = null;
+        let companiesFound = 0;
+
+        await readLeadSearchStream(res, (event) => {
+          if (event.type === 'company_page') {
+            companiesFound += event.companies_count || 0;
+            setStatus(`Fetched company page ${event.page}. ${companiesFound} companies so far...`);
+          } else if (event.type === 'leads') {
+            const chunk = Array.isArray(event.leads) ? event.leads : [];
+            setLeads((currentLeads) => [...currentLeads, ...chunk]);
+            setStatus(`Found ${event.leads_count} leads so far...`);
+          } else if (event.type === 'warning') {
+            setDebugLogs((currentLogs) => [...currentLogs, `[${event.phase}] ${event.message}`]);
+          } else if (event.type === 'summary') {
+            summary = event;
+          } else if (event.type === 'error') {
+            throw new Error(event.message || 'Search failed');
+          }
+        });
+
+        if (!summary) throw new Error('Search stream ended before completing');
+
+        setStatus(`Success! Found ${summary.leads_count ?? 0} leads. Batch ID: ${summary.batch_run_id}`);
+        if (summary.debug_logs) {
+          setDebugLogs(summary.debug_logs);
+        }
+        if (Array.isArray(summary.leads)) {
+          setLeads(summary.leads);
+        }
+
+        fetchRuns(); // Refresh logs
+        return;
+      }
+
       const data = await res.json();
 
       if (!res.ok) {
@@ -385,12 +456,13 @@ export default function Home() {
           <CardContent>
             <form onSubmit={handleSearch} className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="userId">User ID (for pagination testing)</Label>
+                <Label htmlFor="apiKey">API Key (search scope)</Label>
                 <Input
-                  id="userId"
-                  placeholder="e.g. user-123"
-                  value={userId}
-                  onChange={(e) => setUserId(e.target.value)}
+                  id="apiKey"
+                  type="password"
+                  placeholder="lsk_..."
+                  value={apiKey}
+                  onChange={(e) => setApiKey(e.target.value)}
                   required
                 />
               </div>
@@ -478,6 +550,10 @@ export default function Home() {
                           <option key={candidate.id} value={candidate.id}>
                             {candidate.name}
                             {candidate.primary_domain ? ` (${candidate.primary_domain})` : ''}
+                            {candidate.country ? ` · ${candidate.country}` : ''}
+                            {typeof candidate.match_breakdown?.name?.similarity === 'number'
+                              ? ` · ${Math.round(candidate.match_breakdown.name.similarity * 100)}% name match`
+                              : ''}
                           </option>
                         ))}
                       </select>
@@ -796,11 +872,11 @@ function EnrichmentTester() {
     setResult(null);
 
     try {
-      const res = await fetch(`/api/enrich?secret_key=${encodeURIComponent(secretKey)}`, {
+      const res = await fetch('/api/enrich', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'x-api-secret-key': secretKey
+          Authorization: `Bearer ${secretKey}`
         },
         body: JSON.stringify({
           table_name: tableName,
@@ -836,8 +912,8 @@ function EnrichmentTester() {
       <CardContent>
         <form onSubmit={runTest} className="space-y-4">
           <div className="space-y-2">
-            <Label>API Secret Key (Required)</Label>
-            <Input type="password" value={secretKey} onChange={e => setSecretKey(e.target.value)} placeholder="Enter valid x-api-secret-key" required />
+            <Label>API Key (enrich scope)</Label>
+            <Input type="password" value={secretKey} onChange={e => setSecretKey(e.target.value)} placeholder="lsk_..." required />
           </div>
 
           <div className="grid grid-cols-2 gap-2">
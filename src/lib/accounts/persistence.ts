@@ -0,0 +1,208 @@
+import { getServiceSupabase } from '@/lib/supabase';
+import type { ApolloCompany } from '@/lib/lead-search/types';
+import { normalizeDomain, normalizeOptionalNumber, normalizeOptionalString } from '@/lib/lead-search/normalize';
+import { classifyIndustry } from '@/lib/industries/classify';
+import { AccountListFilters, AccountOwner, AccountRecord } from './types';
+
+const TABLE_NAME = 'accounts';
+
+type AccountRow = Record<string, any>;
+
+export function isMissingAccountStorageError(error: any): boolean {
+    const text = [error?.message, error?.details, error?.hint].filter(Boolean).join(' ').toLowerCase();
+    if (text.includes('supabase_service_role_key')) return true;
+
+    return text.includes(TABLE_NAME) && (
+        text.includes('does not exist') ||
+        text.includes('not found') ||
+        text.includes('schema cache') ||
+        text.includes('could not find the table')
+    );
+}
+
+/**
+ * Accounts belong to the org when the search ran for one, so every key of the org sees them.
+ */
+export function resolveAccountOwner(owner: { userId: string; orgId?: string | null }): AccountOwner {
+    return owner.orgId
+        ? { owner_type: 'org', owner_id: owner.orgId }
+        : { owner_type: 'user', owner_id: owner.userId };
+}
+
+function normalizeCodes(value: unknown): string[] {
+    if (!Array.isArray(value)) return [];
+    return value.map((code) => String(code ?? '').trim()).filter(Boolean);
+}
+
+function mapRow(row: AccountRow): AccountRecord {
+    return {
+        owner_type: row.owner_type,
+        owner_id: row.owner_id,
+        organization_id: row.organization_id,
+        name: row.name,
+        primary_domain: row.primary_domain ?? null,
+        website_url: row.website_url ?? null,
+        linkedin_url: row.linkedin_url ?? null,
+        industry: row.industry ?? null,
+        industry_code: row.industry_code ?? null,
+        industry_path: Array.isArray(row.industry_path) ? row.industry_path : [],
+        estimated_num_employees: normalizeOptionalNumber(row.estimated_num_employees),
+        city: row.city ?? null,
+        state: row.state ?? null,
+        country: row.country ?? null,
+        naics_codes: normalizeCodes(row.naics_codes),
+        sic_codes: normalizeCodes(row.sic_codes),
+        owned_by_organization_id: row.owned_by_organization_id ?? null,
+        owned_by_organization_name: row.owned_by_organization_name ?? null,
+        batch_run_id: row.batch_run_id,
+        filters_hash: row.filters_hash,
+        first_seen_at: row.first_seen_at,
+        last_seen_at: row.last_seen_at,
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+    };
+}
+
+function toRow(
+    owner: AccountOwner,
+    company: ApolloCompany,
+    run: { batchRunId: string; filtersHash: string },
+    now: string
+): AccountRow {
+    const industryClassification = company.industry_code
+        ? null
+        : classifyIndustry({ naics_codes: company.naics_codes, sic_codes: company.sic_codes, industry: company.industry });
+
+    return {
+        owner_type: owner.owner_type,
+        owner_id: owner.owner_id,
+        organization_id: company.id,
+        name: company.name,
+        primary_domain: normalizeDomain(company.primary_domain || company.website_url || '') || null,
+        website_url: normalizeOptionalString(company.website_url),
+        linkedin_url: normalizeOptionalString(company.linkedin_url),
+        industry: normalizeOptionalString(company.industry),
+        industry_code: company.industry_code || industryClassification?.industry_code || null,
+        industry_path: company.industry_code ? company.industry_path || [] : industryClassification?.industry_path || [],
+        estimated_num_employees: normalizeOptionalNumber(company.estimated_num_employees),
+        city: normalizeOptionalString(company.city),
+        state: normalizeOptionalString(company.state),
+        country: normalizeOptionalString(company.country),
+        naics_codes: normalizeCodes(company.naics_codes),
+        sic_codes: normalizeCodes(company.sic_codes),
+        owned_by_organization_id: normalizeOptionalString(
+            company.owned_by_organization_id || company.owned_by_organization?.id
+        ),
+        owned_by_organization_name: normalizeOptionalString(company.owned_by_organization?.name),
+        batch_run_id: run.batchRunId,
+        filters_hash: run.filtersHash,
+        // first_seen_at and created_at keep their defaults from the first insert.
+        last_seen_at: now,
+        updated_at: now,
+    };
+}
+
+/**
+ * Upserts the companies of a batch run as accounts of `owner`, tagging them with the run.
+ * Returns the number of accounts written.
+ */
+export async function upsertAccounts(
+    owner: AccountOwner,
+    companies: ApolloCompany[],
+    run: { batchRunId: string; filtersHash: string }
+): Promise<number> {
+    const now = new Date().toISOString();
+    const rows = new Map<string, AccountRow>();
+    for (const company of companies) {
+        if (company?.id && company.name) rows.set(company.id, toRow(owner, company, run, now));
+    }
+    if (rows.size === 0) return 0;
+
+    const { error } = await getServiceSupabase()
+        .from(TABLE_NAME)
+        .upsert(Array.from(rows.values()), { onConflict: 'owner_type,owner_id,organization_id' });
+
+    if (error) throw error;
+    return rows.size;
+}
+
+// `%` and `_` in user input are matched literally.
+function escapeLikePattern(value: string): string {
+    return value.replace(/[\\%_]/g, (character) => `\\${character}`);
+}
+
+/**
+ * Accounts of `owner`, most recently seen first.
+ */
+export async function listAccounts(params: {
+    owner: AccountOwner;
+    filters: AccountListFilters;
+    limit: number;
+    offset: number;
+}): Promise<{ accounts: AccountRecord[]; total: number }> {
+    const { owner, filters } = params;
+    let query = getServiceSupabase()
+        .from(TABLE_NAME)
+        .select('*', { count: 'exact' })
+        .eq('owner_type', owner.owner_type)
+        .eq('owner_id', owner.owner_id);
+
+    if (filters.batch_run_id) query = query.eq('batch_run_id', filters.batch_run_id);
+    if (filters.filters_hash) query = query.eq('filters_hash', filters.filters_hash);
+    if (filters.domain) query = query.eq('primary_domain', filters.domain);
+    if (filters.name) query = query.ilike('name', `%${escapeLikePattern(filters.name)}%`);
+    if (filters.industry) query = query.ilike('industry', `%${escapeLikePattern(filters.industry)}%`);
+    if (filters.industry_code) query = query.contains('industry_path', [filters.industry_code]);
+    if (filters.country) query = query.ilike('country', escapeLikePattern(filters.country));
+    if (filters.min_employees !== null && filters.min_employees !== undefined) {
+        query = query.gte('estimated_num_employees', filters.min_employees);
+    }
+    if (filters.max_employees !== null && filters.max_employees !== undefined) {
+        query = query.lte('estimated_num_employees', filters.max_employees);
+    }
+
+    const { data, error, count } = await query
+        .order('last_seen_at', { ascending: false })
+        .order('organization_id', { ascending: true })
+        .range(params.offset, params.offset + params.limit - 1);
+
+    if (error) throw error;
+    return { accounts: (data || []).map(mapRow), total: count ?? 0 };
+}
+
+export async function listAccountsByOrganizationIds(
+    owner: AccountOwner,
+    organizationIds: string[]
+): Promise<AccountRecord[]> {
+    const ids = Array.from(new Set(organizationIds.filter(Boolean)));
+    if (ids.length === 0) return [];
+
+    const { data, error } = await getServiceSupabase()
+        .from(TABLE_NAME)
+        .select('*')
+        .eq('owner_type', owner.owner_type)
+        .eq('owner_id', owner.owner_id)
+        .in('organization_id', ids);
+
+    if (error) throw error;
+    return (data || []).map(mapRow);
+}
+
+/**
+ * Accounts of `owner` whose `owned_by_organization_id` is one of `parentIds`.
+ */
+export async function listAccountsOwnedBy(owner: AccountOwner, parentIds: string[]): Promise<AccountRecord[]> {
+    const ids = Array.from(new Set(parentIds.filter(Boolean)));
+    if (ids.length === 0) return [];
+
+    const { data, error } = await getServiceSupabase()
+        .from(TABLE_NAME)
+        .select('*')
+        .eq('owner_type', owner.owner_type)
+        .eq('owner_id', owner.owner_id)
+        .in('owned_by_organization_id', ids)
+        .order('name', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(mapRow);
+}
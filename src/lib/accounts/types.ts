@@ -0,0 +1,46 @@
+export type AccountOwnerType = 'user' | 'org';
+
+export type AccountOwner = {
+    owner_type: AccountOwnerType;
+    owner_id: string;
+};
+
+// A company found by a batch or companies_only search, one per owner and Apollo organization.
+export type AccountRecord = AccountOwner & {
+    organization_id: string;
+    name: string;
+    primary_domain: string | null;
+    website_url: string | null;
+    linkedin_url: string | null;
+    industry: string | null;
+    industry_code: string | null;
+    industry_path: string[];
+    estimated_num_employees: number | null;
+    city: string | null;
+    state: string | null;
+    country: string | null;
+    naics_codes: string[];
+    sic_codes: string[];
+    owned_by_organization_id: string | null;
+    owned_by_organization_name: string | null;
+    // The latest run that found the account.
+    batch_run_id: string;
+    filters_hash: string;
+    first_seen_at: string;
+    last_seen_at: string;
+    created_at: string;
+    updated_at: string;
+};
+
+export type AccountListFilters = {
+    batch_run_id?: string | null;
+    filters_hash?: string | null;
+    name?: string | null;
+    domain?: string | null;
+    industry?: string | null;
+    // Taxonomy code; also matches every code below it.
+    industry_code?: string | null;
+    country?: string | null;
+    min_employees?: number | null;
+    max_employees?: number | null;
+};
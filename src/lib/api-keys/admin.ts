@@ -0,0 +1,20 @@
+import { hasValidSecret } from '@/lib/auth/secrets';
+import { requireApiKey } from './auth';
+
+export type ApiKeyAdminAccess =
+    // `orgId` null means the API_SECRET_KEY holder, who may manage keys of any org.
+    | { orgId: string | null; response?: undefined }
+    | { orgId?: undefined; response: Response };
+
+/**
+ * Key management accepts the server API_SECRET_KEY (to create the first keys) or a key
+ * with the `admin` scope, which is limited to its own organization.
+ */
+export async function requireApiKeyAdmin(req: Request): Promise<ApiKeyAdminAccess> {
+    if (hasValidSecret(req, 'API_SECRET_KEY')) return { orgId: null };
+
+    const auth = await requireApiKey(req, 'admin');
+    if (auth.response) return { response: auth.response };
+
+    return { orgId: auth.principal.org_id };
+}
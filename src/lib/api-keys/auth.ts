@@ -0,0 +1,149 @@
+import { NextResponse } from 'next/server';
+import { hashApiKey } from './keys';
+import { findApiKeyByHash, isMissingApiKeyStorageError, isOriginAllowedByAnyApiKey, touchApiKeyLastUsed } from './persistence';
+import { ApiKeyPrincipal, ApiKeyScope } from './types';
+
+const CORS_ALLOWED_HEADERS = 'Content-Type, Authorization, X-API-Key';
+const CORS_MAX_AGE_SECONDS = '86400';
+
+export type ApiKeyAuthResult =
+    | { principal: ApiKeyPrincipal; response?: undefined }
+    | { principal?: undefined; response: NextResponse };
+
+function errorResponse(error: string, message: string, status: number) {
+    return NextResponse.json({ error, message }, { status });
+}
+
+function readApiKey(req: Request): string | null {
+    const headerKey = req.headers.get('x-api-key')?.trim();
+    if (headerKey) return headerKey;
+
+    const authHeader = req.headers.get('authorization')?.trim() || '';
+    if (authHeader.toLowerCase().startsWith('bearer ')) {
+        return authHeader.slice(7).trim() || null;
+    }
+
+    return null;
+}
+
+// The dashboard served by this app calls the API from its own origin.
+function isSameOrigin(req: Request, origin: string): boolean {
+    let originHost: string;
+    try {
+        originHost = new URL(origin).host;
+    } catch {
+        return false;
+    }
+
+    const host = req.headers.get('x-forwarded-host')?.split(',')[0]?.trim()
+        || req.headers.get('host')?.trim()
+        || new URL(req.url).host;
+
+    return originHost === host;
+}
+
+export function isOriginAllowedForKey(principal: Pick<ApiKeyPrincipal, 'allowed_origins'>, origin: string): boolean {
+    return principal.allowed_origins.includes('*') || principal.allowed_origins.includes(origin);
+}
+
+export function hasApiKeyScope(principal: Pick<ApiKeyPrincipal, 'scopes'>, scope: ApiKeyScope): boolean {
+    return principal.scopes.includes(scope) || principal.scopes.includes('admin');
+}
+
+/**
+ * Authenticates the API key sent as `Authorization: Bearer <key>` or `x-api-key` and
+ * checks its scope (`admin` implies every scope) and, for browser calls, the request
+ * `Origin` against the key's allowed origins. On failure `response` is ready to return.
+ */
+export async function requireApiKey(req: Request, scope: ApiKeyScope): Promise<ApiKeyAuthResult> {
+    const key = readApiKey(req);
+    if (!key) {
+        return { response: errorResponse('MISSING_API_KEY', 'Send an API key as Authorization: Bearer <key> or x-api-key.', 401) };
+    }
+
+    let record;
+    try {
+        record = await findApiKeyByHash(hashApiKey(key));
+    } catch (error: any) {
+        if (isMissingApiKeyStorageError(error)) {
+            return {
+                response: errorResponse(
+                    'API_KEY_STORAGE_UNAVAILABLE',
+                    'API keys require the api_keys table. Run 011_create_api_keys.sql first.',
+                    500
+                ),
+            };
+        }
+        throw error;
+    }
+
+    const expired = record?.expires_at ? Date.parse(record.expires_at) <= Date.now() : false;
+    if (!record || record.revoked_at || expired) {
+        return { response: errorResponse('INVALID_API_KEY', 'The API key is invalid, revoked or expired.', 401) };
+    }
+
+    const principal: ApiKeyPrincipal = {
+        key_id: record.key_id,
+        org_id: record.org_id,
+        user_id: record.user_id,
+        scopes: record.scopes,
+        allowed_origins: record.allowed_origins,
+    };
+
+    if (!hasApiKeyScope(principal, scope)) {
+        const response = errorResponse('INSUFFICIENT_SCOPE', `The API key does not have the "${scope}" scope.`, 403);
+        return { response: applyApiKeyCors(req, response, principal) };
+    }
+
+    const origin = req.headers.get('origin');
+    if (origin && !isSameOrigin(req, origin) && !isOriginAllowedForKey(principal, origin)) {
+        return { response: errorResponse('ORIGIN_NOT_ALLOWED', `Origin ${origin} is not allowed for this API key.`, 403) };
+    }
+
+    try {
+        await touchApiKeyLastUsed(principal.key_id);
+    } catch (error: any) {
+        console.warn('[api-keys] Failed to update last_used_at', error?.message || error);
+    }
+
+    return { principal };
+}
+
+/**
+ * Adds CORS headers for the request origin when the key allows it. Other origins get no
+ * CORS headers, so browsers block them.
+ */
+export function applyApiKeyCors<T extends Response>(req: Request, response: T, principal: ApiKeyPrincipal): T {
+    const origin = req.headers.get('origin');
+    if (!origin || !isOriginAllowedForKey(principal, origin)) return response;
+
+    response.headers.set('Access-Control-Allow-Origin', origin);
+    response.headers.append('Vary', 'Origin');
+    return response;
+}
+
+/**
+ * Answers a CORS preflight. Preflights carry no credentials, so the origin is allowed when
+ * any active key lists it; the real request is then checked against its own key.
+ */
+export async function buildApiKeyPreflightResponse(req: Request, methods: string): Promise<NextResponse> {
+    const response = new NextResponse(null, { status: 204 });
+    response.headers.set('Vary', 'Origin');
+
+    const origin = req.headers.get('origin');
+    if (!origin) return response;
+
+    let allowed = false;
+    try {
+        allowed = await isOriginAllowedByAnyApiKey(origin);
+    } catch (error: any) {
+        console.warn('[api-keys] Failed to check preflight origin', error?.message || error);
+    }
+    if (!allowed) return response;
+
+    response.headers.set('Access-Control-Allow-Origin', origin);
+    response.headers.set('Access-Control-Allow-Methods', methods);
+    response.headers.set('Access-Control-Allow-Headers', CORS_ALLOWED_HEADERS);
+    response.headers.set('Access-Control-Max-Age', CORS_MAX_AGE_SECONDS);
+    return response;
+}
@@ -0,0 +1,76 @@
+import crypto from 'crypto';
+import { ApiKeyScope } from './types';
+
+const KEY_PREFIX = 'lsk_';
+const PREFIX_LENGTH = 12;
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['search', 'enrich', 'research', 'admin'];
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+    return typeof value === 'string' && (API_KEY_SCOPES as string[]).includes(value);
+}
+
+/**
+ * Only the SHA-256 hash is stored. Keys are 32 random bytes, so a plain hash is enough;
+ * there is nothing to brute-force the way there would be with passwords.
+ */
+export function hashApiKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+    const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    return { key, prefix: key.slice(0, PREFIX_LENGTH), hash: hashApiKey(key) };
+}
+
+/**
+ * Normalizes configured CORS origins to `scheme://host[:port]`. Throws on anything that
+ * is not an origin, so a typo does not silently lock a browser client out.
+ */
+export function normalizeAllowedOrigins(value: unknown): string[] {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) throw new Error('allowed_origins must be an array of origins');
+
+    const origins = new Set<string>();
+    for (const entry of value) {
+        if (typeof entry !== 'string' || !entry.trim()) {
+            throw new Error('allowed_origins must be an array of origins');
+        }
+
+        const trimmed = entry.trim();
+        if (trimmed === '*') {
+            origins.add('*');
+            continue;
+        }
+
+        let parsed: URL;
+        try {
+            parsed = new URL(trimmed);
+        } catch {
+            throw new Error(`Invalid origin in allowed_origins: ${trimmed}`);
+        }
+        if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+            throw new Error(`Invalid origin in allowed_origins: ${trimmed}`);
+        }
+        origins.add(parsed.origin);
+    }
+
+    return Array.from(origins);
+}
+
+export function normalizeScopes(value: unknown): ApiKeyScope[] {
+    if (!Array.isArray(value) || value.length === 0) {
+        throw new Error(`scopes must be a non-empty array of: ${API_KEY_SCOPES.join(', ')}`);
+    }
+
+    const scopes = new Set<ApiKeyScope>();
+    for (const entry of value) {
+        const scope = typeof entry === 'string' ? entry.trim().toLowerCase() : entry;
+        if (!isApiKeyScope(scope)) {
+            throw new Error(`Invalid scope: ${String(entry)}. Allowed values: ${API_KEY_SCOPES.join(', ')}`);
+        }
+        scopes.add(scope);
+    }
+
+    return Array.from(scopes);
+}
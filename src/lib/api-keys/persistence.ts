@@ -0,0 +1,145 @@
+import { getServiceSupabase } from '@/lib/supabase';
+import { isApiKeyScope } from './keys';
+import { ApiKeyRecord, ApiKeyScope } from './types';
+
+const TABLE_NAME = 'api_keys';
+
+type KeyRow = Record<string, any>;
+
+export function isMissingApiKeyStorageError(error: any): boolean {
+    const text = [error?.message, error?.details, error?.hint].filter(Boolean).join(' ').toLowerCase();
+    if (text.includes('supabase_service_role_key')) return true;
+
+    return text.includes(TABLE_NAME) && (
+        text.includes('does not exist') ||
+        text.includes('not found') ||
+        text.includes('schema cache') ||
+        text.includes('could not find the table')
+    );
+}
+
+function mapRow(row: KeyRow): ApiKeyRecord {
+    return {
+        key_id: row.key_id,
+        org_id: row.org_id,
+        user_id: row.user_id,
+        name: row.name,
+        key_prefix: row.key_prefix,
+        scopes: (Array.isArray(row.scopes) ? row.scopes : []).filter(isApiKeyScope),
+        allowed_origins: Array.isArray(row.allowed_origins) ? row.allowed_origins : [],
+        created_at: row.created_at,
+        last_used_at: row.last_used_at ?? null,
+        expires_at: row.expires_at ?? null,
+        revoked_at: row.revoked_at ?? null,
+    };
+}
+
+export async function createApiKeyRecord(params: {
+    keyId: string;
+    orgId: string;
+    userId: string;
+    name: string;
+    keyPrefix: string;
+    keyHash: string;
+    scopes: ApiKeyScope[];
+    allowedOrigins: string[];
+    expiresAt: string | null;
+}): Promise<ApiKeyRecord> {
+    const supabase = getServiceSupabase();
+    const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .insert({
+            key_id: params.keyId,
+            org_id: params.orgId,
+            user_id: params.userId,
+            name: params.name,
+            key_prefix: params.keyPrefix,
+            key_hash: params.keyHash,
+            scopes: params.scopes,
+            allowed_origins: params.allowedOrigins,
+            expires_at: params.expiresAt,
+        })
+        .select('*')
+        .single();
+
+    if (error) throw error;
+    return mapRow(data);
+}
+
+export async function findApiKeyByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    const supabase = getServiceSupabase();
+    const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .select('*')
+        .eq('key_hash', keyHash)
+        .maybeSingle();
+
+    if (error) throw error;
+    return data ? mapRow(data) : null;
+}
+
+export async function getApiKey(keyId: string): Promise<ApiKeyRecord | null> {
+    const supabase = getServiceSupabase();
+    const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .select('*')
+        .eq('key_id', keyId)
+        .maybeSingle();
+
+    if (error) throw error;
+    return data ? mapRow(data) : null;
+}
+
+export async function listApiKeys(orgId: string): Promise<ApiKeyRecord[]> {
+    const supabase = getServiceSupabase();
+    const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .select('*')
+        .eq('org_id', orgId)
+        .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(mapRow);
+}
+
+export async function revokeApiKey(keyId: string): Promise<ApiKeyRecord | null> {
+    const supabase = getServiceSupabase();
+    const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('key_id', keyId)
+        .is('revoked_at', null)
+        .select('*')
+        .maybeSingle();
+
+    if (error) throw error;
+    return data ? mapRow(data) : null;
+}
+
+export async function touchApiKeyLastUsed(keyId: string): Promise<void> {
+    const supabase = getServiceSupabase();
+    const { error } = await supabase
+        .from(TABLE_NAME)
+        .update({ last_used_at: new Date().toISOString() })
+        .eq('key_id', keyId);
+
+    if (error) throw error;
+}
+
+/**
+ * Whether any active key lists `origin`. Used for CORS preflights, which never carry the key.
+ */
+export async function isOriginAllowedByAnyApiKey(origin: string): Promise<boolean> {
+    const supabase = getServiceSupabase();
+    const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .select('key_id, expires_at')
+        .is('revoked_at', null)
+        .overlaps('allowed_origins', [origin, '*'])
+        .limit(50);
+
+    if (error) throw error;
+
+    const now = Date.now();
+    return (data || []).some((row: KeyRow) => !row.expires_at || Date.parse(row.expires_at) > now);
+}
@@ -0,0 +1,26 @@
+export type ApiKeyScope = 'search' | 'enrich' | 'research' | 'admin';
+
+export type ApiKeyRecord = {
+    key_id: string;
+    org_id: string;
+    user_id: string;
+    name: string;
+    // First characters of the key, kept so a key can be recognized without storing it.
+    key_prefix: string;
+    scopes: ApiKeyScope[];
+    // Browser origins allowed to call with this key; '*' allows any origin.
+    allowed_origins: string[];
+    created_at: string;
+    last_used_at: string | null;
+    expires_at: string | null;
+    revoked_at: string | null;
+};
+
+// The caller identity resolved from a valid key.
+export type ApiKeyPrincipal = {
+    key_id: string;
+    org_id: string;
+    user_id: string;
+    scopes: ApiKeyScope[];
+    allowed_origins: string[];
+};
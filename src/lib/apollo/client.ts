@@ -0,0 +1,303 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { recordApolloUsage } from '@/lib/usage/ledger';
+
+const APOLLO_API_BASE_URL = 'https://api.apollo.io/api/v1';
+const DEFAULT_REQUESTS_PER_MINUTE = 60;
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30_000;
+// A longer Retry-After is returned to the caller instead of holding the request open.
+const MAX_RETRY_AFTER_MS = 60_000;
+const RETRYABLE_SERVER_STATUSES = new Set([500, 502, 503, 504]);
+
+export type ApolloRateLimitSnapshot = {
+    minute_limit: number | null;
+    minute_remaining: number | null;
+    hourly_remaining: number | null;
+    daily_remaining: number | null;
+    observed_at: string;
+};
+
+export type ApolloDiagnostics = {
+    requests: number;
+    retries: number;
+    throttled_responses: number;
+    rate_limit_wait_ms: number;
+    backoff_wait_ms: number;
+    last_retry_after_ms: number | null;
+    rate_limit: ApolloRateLimitSnapshot | null;
+};
+
+export type ApolloRequestOptions = {
+    apiKey: string;
+    path: string;
+    method?: 'GET' | 'POST';
+    params?: URLSearchParams;
+    body?: unknown;
+    // Searches and lookups can be retried after server errors; reveal/match calls only after 429s.
+    idempotent?: boolean;
+    label: string;
+    log?: (msg: string, data?: any) => void;
+    maxRetries?: number;
+};
+
+type TokenBucketState = {
+    requestsPerMinute: number;
+    capacity: number;
+    tokens: number;
+    lastRefillAt: number;
+    pausedUntil: number;
+};
+
+const diagnosticsStorage = new AsyncLocalStorage<ApolloDiagnostics>();
+
+// Process-wide: every Apollo call in this instance shares one bucket.
+const bucket: TokenBucketState = {
+    requestsPerMinute: 0,
+    capacity: 0,
+    tokens: 0,
+    lastRefillAt: 0,
+    pausedUntil: 0,
+};
+let bucketQueue: Promise<unknown> = Promise.resolve();
+let apolloMinuteLimit: number | null = null;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function createApolloDiagnostics(): ApolloDiagnostics {
+    return {
+        requests: 0,
+        retries: 0,
+        throttled_responses: 0,
+        rate_limit_wait_ms: 0,
+        backoff_wait_ms: 0,
+        last_retry_after_ms: null,
+        rate_limit: null,
+    };
+}
+
+/**
+ * Runs `fn` with `diagnostics` collecting every Apollo request made inside it, so a
+ * route can return throttling details without threading a collector through each call.
+ */
+export function withApolloDiagnostics<T>(diagnostics: ApolloDiagnostics, fn: () => Promise<T>): Promise<T> {
+    return diagnosticsStorage.run(diagnostics, fn);
+}
+
+function resolveRequestsPerMinute(): number {
+    const configured = Number(process.env.APOLLO_REQUESTS_PER_MINUTE);
+    const requestsPerMinute = Number.isFinite(configured) && configured > 0
+        ? Math.floor(configured)
+        : DEFAULT_REQUESTS_PER_MINUTE;
+
+    return apolloMinuteLimit ? Math.min(requestsPerMinute, apolloMinuteLimit) : requestsPerMinute;
+}
+
+function refillBucket(now: number) {
+    const requestsPerMinute = resolveRequestsPerMinute();
+    if (requestsPerMinute !== bucket.requestsPerMinute) {
+        bucket.requestsPerMinute = requestsPerMinute;
+        // Allow short bursts of up to ~6 seconds worth of requests.
+        bucket.capacity = Math.max(1, Math.ceil(requestsPerMinute / 10));
+        bucket.tokens = Math.min(bucket.tokens, bucket.capacity);
+        if (bucket.lastRefillAt === 0) bucket.tokens = bucket.capacity;
+    }
+
+    const elapsed = Math.max(0, now - bucket.lastRefillAt);
+    bucket.tokens = Math.min(bucket.capacity, bucket.tokens + (elapsed * bucket.requestsPerMinute) / 60_000);
+    bucket.lastRefillAt = now;
+}
+
+async function takeToken(): Promise<number> {
+    const startedAt = Date.now();
+
+    // Waiters are served in arrival order.
+    const turn = bucketQueue.then(async () => {
+        for (;;) {
+            const now = Date.now();
+            if (bucket.pausedUntil > now) {
+                await delay(bucket.pausedUntil - now);
+                continue;
+            }
+
+            refillBucket(now);
+            if (bucket.tokens >= 1) {
+                bucket.tokens -= 1;
+                return;
+            }
+
+            await delay(Math.ceil(((1 - bucket.tokens) * 60_000) / bucket.requestsPerMinute));
+        }
+    });
+    bucketQueue = turn.catch(() => undefined);
+    await turn;
+
+    return Date.now() - startedAt;
+}
+
+function pauseBucket(ms: number) {
+    bucket.pausedUntil = Math.max(bucket.pausedUntil, Date.now() + ms);
+    bucket.tokens = 0;
+}
+
+function parseHeaderNumber(headers: Headers, ...names: string[]): number | null {
+    for (const name of names) {
+        const value = headers.get(name);
+        if (value === null || value.trim() === '') continue;
+
+        const parsed = Number(value);
+        if (Number.isFinite(parsed)) return parsed;
+    }
+
+    return null;
+}
+
+function parseRetryAfterMs(headers: Headers): number | null {
+    const value = headers.get('retry-after')?.trim();
+    if (!value) return null;
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function readRateLimitHeaders(headers: Headers): ApolloRateLimitSnapshot | null {
+    const snapshot: ApolloRateLimitSnapshot = {
+        minute_limit: parseHeaderNumber(headers, 'x-rate-limit-minute', 'x-ratelimit-limit'),
+        minute_remaining: parseHeaderNumber(headers, 'x-minute-requests-left', 'x-ratelimit-remaining'),
+        hourly_remaining: parseHeaderNumber(headers, 'x-hourly-requests-left'),
+        daily_remaining: parseHeaderNumber(headers, 'x-24-hour-requests-left'),
+        observed_at: new Date().toISOString(),
+    };
+
+    const hasValues = snapshot.minute_limit !== null
+        || snapshot.minute_remaining !== null
+        || snapshot.hourly_remaining !== null
+        || snapshot.daily_remaining !== null;
+
+    return hasValues ? snapshot : null;
+}
+
+function msUntilNextMinute(): number {
+    return 60_000 - (Date.now() % 60_000);
+}
+
+function backoffMs(attempt: number): number {
+    const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+    // Jitter between half and the whole ceiling keeps parallel workers from retrying in lockstep.
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+function buildRequest(options: ApolloRequestOptions): { url: string; init: RequestInit } {
+    const method = options.method || 'POST';
+    const query = options.params?.toString();
+    const url = `${APOLLO_API_BASE_URL}${options.path}${query ? `?${query}` : ''}`;
+    const init: RequestInit = {
+        method,
+        headers: {
+            'Content-Type': 'application/json',
+            'Cache-Control': 'no-cache',
+            'accept': 'application/json',
+            'x-api-key': options.apiKey,
+        },
+    };
+
+    if (method === 'POST') {
+        init.body = typeof options.body === 'string' ? options.body : JSON.stringify(options.body ?? {});
+    }
+
+    return { url, init };
+}
+
+/**
+ * Sends a request to the Apollo API through the shared rate limiter. 429s are retried
+ * after `Retry-After` (or a jittered backoff); server errors and network failures are
+ * retried only for idempotent requests. The last response is returned as-is, so callers
+ * keep their own `response.ok` handling. Each call writes one entry to the usage ledger.
+ */
+export async function apolloFetch(options: ApolloRequestOptions): Promise<Response> {
+    let response: Response;
+    try {
+        response = await fetchWithRetries(options);
+    } catch (error) {
+        await recordApolloUsage(options, null);
+        throw error;
+    }
+
+    await recordApolloUsage(options, response);
+    return response;
+}
+
+async function fetchWithRetries(options: ApolloRequestOptions): Promise<Response> {
+    const diagnostics = diagnosticsStorage.getStore();
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const { url, init } = buildRequest(options);
+
+    for (let attempt = 0; ; attempt++) {
+        const waitedMs = await takeToken();
+        if (diagnostics) {
+            diagnostics.requests++;
+            diagnostics.rate_limit_wait_ms += waitedMs;
+        }
+
+        let response: Response;
+        try {
+            response = await fetch(url, init);
+        } catch (error: any) {
+            if (!options.idempotent || attempt >= maxRetries) throw error;
+
+            const waitMs = backoffMs(attempt);
+            options.log?.(`Apollo request failed (${options.label}). Retrying in ${waitMs}ms...`, {
+                error: error?.message || String(error),
+            });
+            if (diagnostics) {
+                diagnostics.retries++;
+                diagnostics.backoff_wait_ms += waitMs;
+            }
+            await delay(waitMs);
+            continue;
+        }
+
+        const rateLimit = readRateLimitHeaders(response.headers);
+        if (rateLimit) {
+            if (rateLimit.minute_limit && rateLimit.minute_limit > 0) apolloMinuteLimit = rateLimit.minute_limit;
+            if (rateLimit.minute_remaining === 0) pauseBucket(msUntilNextMinute());
+            if (diagnostics) diagnostics.rate_limit = rateLimit;
+        }
+
+        const throttled = response.status === 429;
+        const retryableServerError = Boolean(options.idempotent) && RETRYABLE_SERVER_STATUSES.has(response.status);
+        if (!throttled && !retryableServerError) return response;
+
+        const retryAfterMs = parseRetryAfterMs(response.headers);
+        const waitMs = retryAfterMs ?? backoffMs(attempt);
+        if (throttled) {
+            if (diagnostics) {
+                diagnostics.throttled_responses++;
+                diagnostics.last_retry_after_ms = retryAfterMs;
+            }
+            // Every caller in this instance waits, not just the one that was throttled.
+            pauseBucket(Math.min(waitMs, MAX_RETRY_AFTER_MS));
+        }
+
+        if (attempt >= maxRetries || (retryAfterMs !== null && retryAfterMs > MAX_RETRY_AFTER_MS)) {
+            options.log?.(`Apollo request gave up after ${attempt + 1} attempt(s) (${options.label}).`, {
+                status: response.status,
+                retry_after_ms: retryAfterMs,
+            });
+            return response;
+        }
+
+        options.log?.(`Apollo ${throttled ? 'rate limit' : 'server error'} (${response.status}) for ${options.label}. Retrying in ${waitMs}ms...`);
+        if (diagnostics) {
+            diagnostics.retries++;
+            diagnostics.backoff_wait_ms += waitMs;
+        }
+
+        // Drain the body so the connection can be reused.
+        await response.text().catch(() => undefined);
+        await delay(waitMs);
+    }
+}
@@ -0,0 +1,193 @@
+import crypto from 'crypto';
+
+export const APOLLO_WEBHOOK_TABLES = ['people_search_leads', 'enriched_leads'] as const;
+
+export type ApolloWebhookTable = (typeof APOLLO_WEBHOOK_TABLES)[number];
+
+export type ApolloWebhookClaims = {
+    recordId: string;
+    tableName: ApolloWebhookTable;
+    revealEmail: boolean;
+    revealPhone: boolean;
+};
+
+export type ApolloWebhookVerification =
+    | {
+        ok: true;
+        claims: ApolloWebhookClaims;
+        expiresAt: string;
+    }
+    | {
+        ok: false;
+        status: 400 | 401 | 500;
+        error: string;
+        message: string;
+    };
+
+const SIGNATURE_VERSION = 'v1';
+const DEFAULT_TOKEN_TTL_HOURS = 72;
+
+function getSigningSecret(): string | null {
+    const secret = process.env.APOLLO_WEBHOOK_SIGNING_SECRET?.trim();
+    return secret || null;
+}
+
+function getTokenTtlMs(): number {
+    const hours = Number(process.env.APOLLO_WEBHOOK_TOKEN_TTL_HOURS || DEFAULT_TOKEN_TTL_HOURS);
+    const safeHours = Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_TOKEN_TTL_HOURS;
+    return safeHours * 60 * 60 * 1000;
+}
+
+function computeSignature(
+    secret: string,
+    params: {
+        recordId: string;
+        tableName: string;
+        revealEmail: string;
+        revealPhone: string;
+        expires: string;
+    }
+): string {
+    const payload = [
+        SIGNATURE_VERSION,
+        params.recordId,
+        params.tableName,
+        params.revealEmail,
+        params.revealPhone,
+        params.expires,
+    ].join('\n');
+
+    return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+function signaturesMatch(expected: string, provided: string): boolean {
+    const expectedBuffer = Buffer.from(expected, 'utf8');
+    const providedBuffer = Buffer.from(provided, 'utf8');
+    if (expectedBuffer.length !== providedBuffer.length) return false;
+    return crypto.timingSafeEqual(expectedBuffer, providedBuffer);
+}
+
+export function isAllowedWebhookTable(value: unknown): value is ApolloWebhookTable {
+    return typeof value === 'string' && (APOLLO_WEBHOOK_TABLES as readonly string[]).includes(value);
+}
+
+export function isApolloWebhookSigningConfigured(): boolean {
+    return Boolean(getSigningSecret());
+}
+
+/**
+ * Writes the record/table/reveal claims onto an `/api/apollo-webhook` URL together
+ * with an expiry and an HMAC signature, so the receiver can trust them.
+ */
+export function signApolloWebhookUrl(url: URL, claims: ApolloWebhookClaims): URL {
+    const secret = getSigningSecret();
+    if (!secret) {
+        throw new Error('Missing APOLLO_WEBHOOK_SIGNING_SECRET. Apollo webhook URLs cannot be signed.');
+    }
+
+    if (!isAllowedWebhookTable(claims.tableName)) {
+        throw new Error(`Table ${claims.tableName} is not allowed as an Apollo webhook target`);
+    }
+
+    const signed = new URL(url.toString());
+    const params = {
+        recordId: claims.recordId,
+        tableName: claims.tableName,
+        revealEmail: String(claims.revealEmail),
+        revealPhone: String(claims.revealPhone),
+        expires: String(Date.now() + getTokenTtlMs()),
+    };
+
+    signed.searchParams.set('record_id', params.recordId);
+    signed.searchParams.set('table_name', params.tableName);
+    signed.searchParams.set('reveal_email', params.revealEmail);
+    signed.searchParams.set('reveal_phone', params.revealPhone);
+    signed.searchParams.set('expires', params.expires);
+    signed.searchParams.set('signature', computeSignature(secret, params));
+
+    return signed;
+}
+
+export function verifyApolloWebhookUrl(url: URL): ApolloWebhookVerification {
+    const secret = getSigningSecret();
+    if (!secret) {
+        return {
+            ok: false,
+            status: 500,
+            error: 'WEBHOOK_SIGNING_NOT_CONFIGURED',
+            message: 'Server misconfiguration: Missing APOLLO_WEBHOOK_SIGNING_SECRET',
+        };
+    }
+
+    const recordId = url.searchParams.get('record_id')?.trim() || '';
+    const tableName = url.searchParams.get('table_name')?.trim() || '';
+    const revealEmail = url.searchParams.get('reveal_email')?.trim() || '';
+    const revealPhone = url.searchParams.get('reveal_phone')?.trim() || '';
+    const expires = url.searchParams.get('expires')?.trim() || '';
+    const signature = url.searchParams.get('signature')?.trim() || '';
+
+    if (!recordId || !tableName) {
+        return {
+            ok: false,
+            status: 400,
+            error: 'WEBHOOK_MISSING_PARAMS',
+            message: 'Missing record_id or table_name in query params',
+        };
+    }
+
+    if (!isAllowedWebhookTable(tableName)) {
+        return {
+            ok: false,
+            status: 400,
+            error: 'WEBHOOK_TABLE_NOT_ALLOWED',
+            message: `Table ${tableName} is not an allowed Apollo webhook target`,
+        };
+    }
+
+    if (!signature || !expires) {
+        return {
+            ok: false,
+            status: 401,
+            error: 'WEBHOOK_UNSIGNED',
+            message: 'Missing webhook signature or expiry',
+        };
+    }
+
+    const expiresAt = Number(expires);
+    if (!Number.isFinite(expiresAt) || expiresAt < Date.now()) {
+        return {
+            ok: false,
+            status: 401,
+            error: 'WEBHOOK_SIGNATURE_EXPIRED',
+            message: 'Webhook signature has expired',
+        };
+    }
+
+    const expected = computeSignature(secret, {
+        recordId,
+        tableName,
+        revealEmail,
+        revealPhone,
+        expires,
+    });
+
+    if (!signaturesMatch(expected, signature)) {
+        return {
+            ok: false,
+            status: 401,
+            error: 'WEBHOOK_SIGNATURE_INVALID',
+            message: 'Webhook signature does not match its parameters',
+        };
+    }
+
+    return {
+        ok: true,
+        claims: {
+            recordId,
+            tableName,
+            revealEmail: revealEmail !== 'false',
+            revealPhone: revealPhone !== 'false',
+        },
+        expiresAt: new Date(expiresAt).toISOString(),
+    };
+}
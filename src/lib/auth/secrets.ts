@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+
+export type SharedSecretName =
+    | 'API_SECRET_KEY'
+    | 'LEAD_SEARCH_WORKER_SECRET'
+    | 'LEAD_RESEARCH_WORKER_SECRET'
+    | 'ENRICH_IMPORT_WORKER_SECRET'
+    | 'WEBHOOK_RECONCILE_WORKER_SECRET'
+    | 'ENRICHMENT_SWEEP_WORKER_SECRET';
+
+type RotatedSecret = {
+    secret: string;
+    expires_at: string | null;
+};
+
+// Headers each secret may arrive in, besides `Authorization: Bearer`. Query strings and
+// bodies are never read: they end up in access logs, proxies and browser history.
+const SECRET_HEADERS: Record<SharedSecretName, string[]> = {
+    API_SECRET_KEY: ['x-api-secret-key', 'x-api-key'],
+    LEAD_SEARCH_WORKER_SECRET: ['x-worker-secret'],
+    LEAD_RESEARCH_WORKER_SECRET: ['x-worker-secret'],
+    ENRICH_IMPORT_WORKER_SECRET: ['x-worker-secret'],
+    WEBHOOK_RECONCILE_WORKER_SECRET: ['x-worker-secret'],
+    ENRICHMENT_SWEEP_WORKER_SECRET: ['x-worker-secret'],
+};
+
+const QUERY_SECRET_PARAMS = ['secret_key', 'api_secret_key', 'api_key', 'worker_secret'];
+
+const warnedInvalidRotation = new Set<SharedSecretName>();
+
+/**
+ * Compares two secrets in constant time. Both sides are hashed first so the comparison
+ * does not leak the expected length either.
+ */
+export function constantTimeEqual(expected: string, provided: string): boolean {
+    const expectedDigest = crypto.createHash('sha256').update(expected, 'utf8').digest();
+    const providedDigest = crypto.createHash('sha256').update(provided, 'utf8').digest();
+    return crypto.timingSafeEqual(expectedDigest, providedDigest);
+}
+
+function parseRotatedSecrets(name: SharedSecretName): RotatedSecret[] {
+    const raw = process.env[`${name}S`]?.trim();
+    if (!raw) return [];
+
+    try {
+        const parsed = JSON.parse(raw);
+        if (!Array.isArray(parsed)) throw new Error('not an array');
+
+        return parsed.flatMap((entry): RotatedSecret[] => {
+            if (typeof entry === 'string') {
+                return entry.trim() ? [{ secret: entry.trim(), expires_at: null }] : [];
+            }
+            const secret = typeof entry?.secret === 'string' ? entry.secret.trim() : '';
+            if (!secret) return [];
+            const expiresAt = typeof entry.expires_at === 'string' ? entry.expires_at.trim() : '';
+            return [{ secret, expires_at: expiresAt || null }];
+        });
+    } catch {
+        // Only the variable name is logged, never its value.
+        if (!warnedInvalidRotation.has(name)) {
+            warnedInvalidRotation.add(name);
+            console.warn(`[auth] Ignoring ${name}S: expected a JSON array of secrets`);
+        }
+        return [];
+    }
+}
+
+/**
+ * Secrets currently accepted for `name`: the plain env variable plus every unexpired entry
+ * of its `<NAME>S` rotation list, e.g.
+ * `API_SECRET_KEYS='[{"secret":"new"},{"secret":"old","expires_at":"2026-11-01T00:00:00Z"}]'`.
+ * An entry whose `expires_at` does not parse is treated as expired.
+ */
+export function getActiveSecrets(name: SharedSecretName, now = Date.now()): string[] {
+    const secrets = new Set<string>();
+
+    const current = process.env[name]?.trim();
+    if (current) secrets.add(current);
+
+    for (const entry of parseRotatedSecrets(name)) {
+        if (entry.expires_at) {
+            const expiresAt = Date.parse(entry.expires_at);
+            if (!Number.isFinite(expiresAt) || expiresAt <= now) continue;
+        }
+        secrets.add(entry.secret);
+    }
+
+    return Array.from(secrets);
+}
+
+export function isSharedSecretConfigured(name: SharedSecretName): boolean {
+    return getActiveSecrets(name).length > 0;
+}
+
+/**
+ * Every credential the request presents for `name`, from its headers and bearer token.
+ */
+export function readProvidedSecrets(req: Request, name: SharedSecretName): string[] {
+    const provided: string[] = [];
+
+    for (const header of SECRET_HEADERS[name]) {
+        const value = req.headers.get(header)?.trim();
+        if (value) provided.push(value);
+    }
+
+    const authHeader = req.headers.get('authorization')?.trim() || '';
+    if (authHeader.toLowerCase().startsWith('bearer ')) {
+        const token = authHeader.slice(7).trim();
+        if (token) provided.push(token);
+    }
+
+    return provided;
+}
+
+export function hasValidSecret(req: Request, name: SharedSecretName): boolean {
+    const secrets = getActiveSecrets(name);
+    if (secrets.length === 0) return false;
+
+    let matched = false;
+    for (const provided of readProvidedSecrets(req, name)) {
+        for (const secret of secrets) {
+            // No early exit, so the time taken does not depend on which secret matched.
+            if (constantTimeEqual(secret, provided)) matched = true;
+        }
+    }
+    return matched;
+}
+
+/**
+ * Whether the caller tried to pass a secret in the query string, which is no longer
+ * accepted. Lets routes return a clearer error to old clients.
+ */
+export function hasSecretInQueryString(req: Request): boolean {
+    const params = new URL(req.url).searchParams;
+    return QUERY_SECRET_PARAMS.some((param) => params.has(param));
+}
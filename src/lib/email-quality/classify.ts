@@ -0,0 +1,118 @@
+import { normalizeDomain, normalizeEmail } from '@/lib/lead-search/normalize';
+import { DISPOSABLE_EMAIL_DOMAINS, PERSONAL_EMAIL_DOMAINS, ROLE_EMAIL_LOCAL_PARTS } from './domains';
+import { EmailDomainType, EmailQuality, EmailQualityFlag, EmailQualityGrade } from './types';
+
+const LOCAL_PART_PATTERN = /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*$/;
+const DOMAIN_LABEL_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/;
+
+function splitEmail(email: string): { localPart: string; domain: string } | null {
+    const at = email.lastIndexOf('@');
+    if (at <= 0 || at === email.length - 1) return null;
+
+    return {
+        localPart: email.slice(0, at).toLowerCase(),
+        domain: email.slice(at + 1).toLowerCase(),
+    };
+}
+
+function isValidSyntax(email: string, localPart: string, domain: string): boolean {
+    if (email.length > 254 || localPart.length > 64) return false;
+    if (!LOCAL_PART_PATTERN.test(localPart)) return false;
+
+    const labels = domain.split('.');
+    if (labels.length < 2) return false;
+    if (!labels.every((label) => DOMAIN_LABEL_PATTERN.test(label))) return false;
+
+    return /^[a-z]{2,}$/.test(labels[labels.length - 1]);
+}
+
+// Also matches subdomains, e.g. `mail.yopmail.com`.
+function isListedDomain(domain: string, list: Set<string>): boolean {
+    const labels = domain.split('.');
+    for (let i = 0; i < labels.length - 1; i++) {
+        if (list.has(labels.slice(i).join('.'))) return true;
+    }
+    return false;
+}
+
+function isRoleLocalPart(localPart: string): boolean {
+    // `ventas+web@` and `ventas.mx@` are still the sales mailbox.
+    const base = localPart.split('+')[0];
+    if (ROLE_EMAIL_LOCAL_PARTS.has(base)) return true;
+
+    const firstToken = base.split(/[._-]/)[0];
+    return ROLE_EMAIL_LOCAL_PARTS.has(firstToken);
+}
+
+function classifyDomain(domain: string): EmailDomainType {
+    if (isListedDomain(domain, DISPOSABLE_EMAIL_DOMAINS)) return 'disposable';
+    if (isListedDomain(domain, PERSONAL_EMAIL_DOMAINS)) return 'personal';
+    return 'corporate';
+}
+
+function domainsMatch(emailDomain: string, organizationDomain: string): boolean {
+    return emailDomain === organizationDomain ||
+        emailDomain.endsWith(`.${organizationDomain}`) ||
+        organizationDomain.endsWith(`.${emailDomain}`);
+}
+
+function resolveGrade(quality: Omit<EmailQuality, 'grade'>): EmailQualityGrade {
+    if (!quality.syntax_valid) return 'invalid';
+    if (quality.domain_type === 'disposable' || quality.is_role_based) return 'low';
+    if (quality.domain_type === 'corporate' && quality.matches_organization_domain === true) return 'high';
+    return 'medium';
+}
+
+/**
+ * Offline checks for a lead's email: syntax, shared (role) mailboxes, personal or disposable
+ * providers from the bundled lists, and whether the domain belongs to the lead's company.
+ * Returns null when there is no usable email. Nothing here contacts a mail server.
+ */
+export function classifyEmail(value: unknown, organizationDomain?: unknown): EmailQuality | null {
+    const email = normalizeEmail(value);
+    if (!email) return null;
+
+    const parts = splitEmail(email);
+    const flags: EmailQualityFlag[] = [];
+
+    if (!parts || !isValidSyntax(email, parts.localPart, parts.domain)) {
+        flags.push('invalid_syntax');
+        return {
+            email,
+            grade: 'invalid',
+            syntax_valid: false,
+            domain: parts?.domain || null,
+            domain_type: null,
+            is_role_based: false,
+            matches_organization_domain: null,
+            flags,
+        };
+    }
+
+    const domainType = classifyDomain(parts.domain);
+    const isRoleBased = isRoleLocalPart(parts.localPart);
+    if (isRoleBased) flags.push('role_based');
+    if (domainType === 'personal') flags.push('personal_domain');
+    if (domainType === 'disposable') flags.push('disposable_domain');
+
+    const normalizedOrganizationDomain = typeof organizationDomain === 'string'
+        ? normalizeDomain(organizationDomain)
+        : '';
+    let matchesOrganizationDomain: boolean | null = null;
+    if (normalizedOrganizationDomain) {
+        matchesOrganizationDomain = domainsMatch(parts.domain, normalizedOrganizationDomain);
+        flags.push(matchesOrganizationDomain ? 'organization_domain_match' : 'organization_domain_mismatch');
+    }
+
+    const quality = {
+        email,
+        syntax_valid: true,
+        domain: parts.domain,
+        domain_type: domainType,
+        is_role_based: isRoleBased,
+        matches_organization_domain: matchesOrganizationDomain,
+        flags,
+    };
+
+    return { ...quality, grade: resolveGrade(quality) };
+}
@@ -0,0 +1,174 @@
+// Bundled lists used for offline classification. They cover the common providers seen in
+// Apollo data for LATAM, Spain and the US, not every domain that exists.
+
+export const PERSONAL_EMAIL_DOMAINS = new Set([
+    'gmail.com',
+    'googlemail.com',
+    'yahoo.com',
+    'yahoo.es',
+    'yahoo.com.ar',
+    'yahoo.com.br',
+    'yahoo.com.mx',
+    'yahoo.com.co',
+    'yahoo.cl',
+    'ymail.com',
+    'rocketmail.com',
+    'hotmail.com',
+    'hotmail.es',
+    'hotmail.com.ar',
+    'hotmail.com.br',
+    'hotmail.com.mx',
+    'hotmail.cl',
+    'outlook.com',
+    'outlook.es',
+    'outlook.com.ar',
+    'outlook.com.br',
+    'live.com',
+    'live.com.ar',
+    'live.com.mx',
+    'live.cl',
+    'msn.com',
+    'icloud.com',
+    'me.com',
+    'mac.com',
+    'aol.com',
+    'protonmail.com',
+    'proton.me',
+    'pm.me',
+    'gmx.com',
+    'gmx.net',
+    'gmx.es',
+    'mail.com',
+    'yandex.com',
+    'yandex.ru',
+    'mail.ru',
+    'zoho.com',
+    'tutanota.com',
+    'fastmail.com',
+    'bol.com.br',
+    'uol.com.br',
+    'terra.com.br',
+    'terra.com.mx',
+    'terra.es',
+    'ig.com.br',
+    'prodigy.net.mx',
+    'telefonica.net',
+    'movistar.es',
+    'speedy.com.ar',
+    'fibertel.com.ar',
+    'arnet.com.ar',
+    'une.net.co',
+    'vtr.net',
+    'comcast.net',
+    'att.net',
+    'verizon.net',
+    'sbcglobal.net',
+]);
+
+export const DISPOSABLE_EMAIL_DOMAINS = new Set([
+    '10minutemail.com',
+    '10minutemail.net',
+    '20minutemail.com',
+    'anonaddy.me',
+    'burnermail.io',
+    'discard.email',
+    'dispostable.com',
+    'dropmail.me',
+    'emailondeck.com',
+    'fakeinbox.com',
+    'fakemail.net',
+    'getairmail.com',
+    'getnada.com',
+    'guerrillamail.com',
+    'guerrillamail.net',
+    'guerrillamail.org',
+    'guerrillamailblock.com',
+    'harakirimail.com',
+    'inboxkitten.com',
+    'incognitomail.org',
+    'jetable.org',
+    'mailcatch.com',
+    'maildrop.cc',
+    'mailinator.com',
+    'mailinator.net',
+    'mailnesia.com',
+    'mailpoof.com',
+    'mintemail.com',
+    'moakt.com',
+    'mohmal.com',
+    'mytemp.email',
+    'nada.email',
+    'sharklasers.com',
+    'spam4.me',
+    'spambox.us',
+    'spamgourmet.com',
+    'temp-mail.org',
+    'temp-mail.io',
+    'tempail.com',
+    'tempmail.com',
+    'tempmail.net',
+    'tempmailo.com',
+    'tempr.email',
+    'throwawaymail.com',
+    'trashmail.com',
+    'trashmail.de',
+    'trashmail.net',
+    'yopmail.com',
+    'yopmail.fr',
+    'yopmail.net',
+]);
+
+// Local parts of shared mailboxes, in English and Spanish/Portuguese.
+export const ROLE_EMAIL_LOCAL_PARTS = new Set([
+    'admin',
+    'administracion',
+    'atencion',
+    'atencionalcliente',
+    'billing',
+    'careers',
+    'comercial',
+    'compras',
+    'contabilidad',
+    'contact',
+    'contacto',
+    'contato',
+    'customerservice',
+    'direccion',
+    'empleo',
+    'empleos',
+    'equipo',
+    'facturacion',
+    'finance',
+    'finanzas',
+    'gerencia',
+    'hello',
+    'help',
+    'hola',
+    'hr',
+    'info',
+    'informacion',
+    'jobs',
+    'legal',
+    'mail',
+    'marketing',
+    'noreply',
+    'no-reply',
+    'office',
+    'oficina',
+    'orders',
+    'pedidos',
+    'postmaster',
+    'prensa',
+    'press',
+    'recepcion',
+    'rrhh',
+    'sales',
+    'servicioalcliente',
+    'soporte',
+    'suporte',
+    'support',
+    'team',
+    'vendas',
+    'ventas',
+    'webmaster',
+]);
@@ -0,0 +1,23 @@
+export type EmailDomainType = 'corporate' | 'personal' | 'disposable';
+
+export type EmailQualityGrade = 'high' | 'medium' | 'low' | 'invalid';
+
+export type EmailQualityFlag =
+    | 'invalid_syntax'
+    | 'role_based'
+    | 'personal_domain'
+    | 'disposable_domain'
+    | 'organization_domain_match'
+    | 'organization_domain_mismatch';
+
+export type EmailQuality = {
+    email: string;
+    grade: EmailQualityGrade;
+    syntax_valid: boolean;
+    domain: string | null;
+    domain_type: EmailDomainType | null;
+    is_role_based: boolean;
+    // null when the lead has no organization domain to compare against.
+    matches_organization_domain: boolean | null;
+    flags: EmailQualityFlag[];
+};
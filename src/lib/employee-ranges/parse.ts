@@ -0,0 +1,198 @@
+import { foldText } from '@/lib/lead-search/normalize';
+import { DEFAULT_EMPLOYEE_SEGMENTS } from './segments';
+import { EmployeeRangeResolution, EmployeeSegment, ResolvedEmployeeRange } from './types';
+
+// The size buckets Apollo's company filters use; the last one has no upper bound.
+export const APOLLO_EMPLOYEE_RANGE_BUCKETS: Array<[number, number | null]> = [
+    [1, 10],
+    [11, 20],
+    [21, 50],
+    [51, 100],
+    [101, 200],
+    [201, 500],
+    [501, 1000],
+    [1001, 2000],
+    [2001, 5000],
+    [5001, 10000],
+    [10001, null],
+];
+
+// "50", "1.000", "1,000", "1k", "1.5k", "10 mil".
+const COUNT = '(\\d+(?:[.,]\\d+)*(?:\\s*(?:k|mil))?)';
+
+const BETWEEN_PATTERN = new RegExp(`^(?:entre|between|from|desde|de)?\\s*${COUNT}\\s*(?:-|to|al|a|hasta|y|and|\\.\\.)\\s*${COUNT}$`);
+const AT_LEAST_PATTERNS = [
+    new RegExp(`^${COUNT}\\s*(?:\\+|or more|and up|plus|o mas|y mas)$`),
+    new RegExp(`^(?:>=|at least|al menos|minimo|min|desde|from)\\s*${COUNT}$`),
+];
+const MORE_THAN_PATTERN = new RegExp(`^(?:>|more than|greater than|over|above|mas de|mayor a|mayor que|sobre)\\s*${COUNT}$`);
+const AT_MOST_PATTERN = new RegExp(`^(?:<=|up to|at most|hasta|maximo|max)\\s*${COUNT}$`);
+const LESS_THAN_PATTERN = new RegExp(`^(?:<|less than|fewer than|under|below|menos de|menor a|menor que)\\s*${COUNT}$`);
+const SINGLE_PATTERN = new RegExp(`^${COUNT}$`);
+
+function normalizeExpression(value: string): string {
+    return value
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[\u2012-\u2015]/g, '-')
+        .replace(/\b(employees?|empleados?|trabajadores|colaboradores|funcionarios|people|personas|staff|headcount)\b/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function parseCount(token: string): number | null {
+    const match = token.replace(/\s+/g, '').match(/^(\d+(?:[.,]\d+)*)(k|mil)?$/);
+    if (!match) return null;
+
+    const [, digits, suffix] = match;
+    if (suffix) {
+        if (/[.,].*[.,]/.test(digits)) return null;
+        return Math.round(Number(digits.replace(',', '.')) * 1000);
+    }
+    if (/^\d+$/.test(digits)) return Number(digits);
+    // Thousands separators: "1.000" and "1,000" are one thousand, "1.5" is not a headcount.
+    if (/^\d{1,3}([.,]\d{3})+$/.test(digits)) return Number(digits.replace(/[.,]/g, ''));
+    return null;
+}
+
+// Buckets a range only touches at one of its ends are skipped: "50-200" means 51,100 and
+// 101,200, not also 21,50.
+function toApolloRanges(min: number, max: number | null): string[] {
+    const overlapping = APOLLO_EMPLOYEE_RANGE_BUCKETS.filter(([bucketMin, bucketMax]) =>
+        (max === null || bucketMin <= max) && (bucketMax === null || bucketMax >= min)
+    );
+    const inner = overlapping.filter(([bucketMin, bucketMax]) => bucketMax !== min && bucketMin !== max);
+    const buckets = min === max || inner.length === 0 ? overlapping : inner;
+
+    return buckets.map(([bucketMin, bucketMax]) => `${bucketMin},${bucketMax ?? ''}`);
+}
+
+function parseBounds(expression: string): { min: number; max: number | null } | null {
+    const between = expression.match(BETWEEN_PATTERN);
+    if (between) {
+        const first = parseCount(between[1]);
+        const second = parseCount(between[2]);
+        if (first === null || second === null) return null;
+        return { min: Math.min(first, second), max: Math.max(first, second) };
+    }
+
+    for (const pattern of AT_LEAST_PATTERNS) {
+        const atLeast = expression.match(pattern);
+        if (atLeast) {
+            const count = parseCount(atLeast[1]);
+            return count === null ? null : { min: count, max: null };
+        }
+    }
+
+    const moreThan = expression.match(MORE_THAN_PATTERN);
+    if (moreThan) {
+        const count = parseCount(moreThan[1]);
+        return count === null ? null : { min: count + 1, max: null };
+    }
+
+    const atMost = expression.match(AT_MOST_PATTERN);
+    if (atMost) {
+        const count = parseCount(atMost[1]);
+        return count === null ? null : { min: 1, max: count };
+    }
+
+    const lessThan = expression.match(LESS_THAN_PATTERN);
+    if (lessThan) {
+        const count = parseCount(lessThan[1]);
+        return count === null ? null : { min: 1, max: count - 1 };
+    }
+
+    const single = expression.match(SINGLE_PATTERN);
+    if (single) {
+        const count = parseCount(single[1]);
+        return count === null ? null : { min: count, max: count };
+    }
+
+    return null;
+}
+
+function findSegment(input: string, segments: EmployeeSegment[]): EmployeeSegment | null {
+    const key = foldText(input);
+    if (!key) return null;
+
+    return segments.find((segment) =>
+        foldText(segment.name) === key || segment.aliases.some((alias) => foldText(alias) === key)
+    ) || null;
+}
+
+/**
+ * Parses one size expression into Apollo ranges. Apollo's own "min,max" form (e.g. "51,200"
+ * or "10001,") is passed through unchanged; anything else is mapped to every Apollo bucket it
+ * overlaps. Null when the expression cannot be parsed.
+ */
+export function parseEmployeeRange(
+    input: string,
+    segments: EmployeeSegment[] = DEFAULT_EMPLOYEE_SEGMENTS
+): ResolvedEmployeeRange | null {
+    const trimmed = input.trim();
+    if (!trimmed) return null;
+
+    const apolloRange = trimmed.replace(/\s+/g, '').match(/^(\d+),(\d*)$/);
+    if (apolloRange) {
+        const min = Number(apolloRange[1]);
+        const max = apolloRange[2] ? Number(apolloRange[2]) : null;
+        // "1,000" is a thousand, not a range from 1 to 0.
+        if (min >= 1 && (max === null || max >= min)) {
+            return { input: trimmed, min_employees: min, max_employees: max, segment: null, ranges: [`${min},${max ?? ''}`] };
+        }
+    }
+
+    const segment = findSegment(trimmed, segments);
+    if (segment) {
+        return {
+            input: trimmed,
+            min_employees: segment.min_employees,
+            max_employees: segment.max_employees,
+            segment: segment.name,
+            ranges: toApolloRanges(segment.min_employees, segment.max_employees),
+        };
+    }
+
+    const bounds = parseBounds(normalizeExpression(trimmed));
+    if (!bounds) return null;
+
+    const min = Math.max(bounds.min, 1);
+    if (bounds.max !== null && bounds.max < min) return null;
+
+    return {
+        input: trimmed,
+        min_employees: min,
+        max_employees: bounds.max,
+        segment: null,
+        ranges: toApolloRanges(min, bounds.max),
+    };
+}
+
+/**
+ * Parses every size expression of a request. Unparseable inputs are dropped and reported in
+ * `warnings`.
+ */
+export function resolveEmployeeRangeExpressions(
+    inputs: string[],
+    segments: EmployeeSegment[] = DEFAULT_EMPLOYEE_SEGMENTS
+): EmployeeRangeResolution {
+    const ranges = new Set<string>();
+    const resolved: ResolvedEmployeeRange[] = [];
+    const warnings: string[] = [];
+
+    for (const input of inputs) {
+        const parsed = parseEmployeeRange(input, segments);
+        if (!parsed) {
+            warnings.push(
+                `Could not parse employee range "${input}". Use a range such as "50-200" or "1k+", or a segment: ${segments.map((segment) => segment.name).join(', ')}.`
+            );
+            continue;
+        }
+
+        resolved.push(parsed);
+        for (const range of parsed.ranges) ranges.add(range);
+    }
+
+    return { ranges: Array.from(ranges), resolved, warnings };
+}
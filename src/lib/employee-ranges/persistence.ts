@@ -0,0 +1,73 @@
+import { getServiceSupabase } from '@/lib/supabase';
+import { DEFAULT_EMPLOYEE_SEGMENTS, mergeEmployeeSegments, normalizeEmployeeSegments } from './segments';
+import { EmployeeSegment } from './types';
+
+const TABLE_NAME = 'employee_segments';
+
+let storageWarningLogged = false;
+
+export function isMissingEmployeeSegmentStorageError(error: any): boolean {
+    const text = [error?.message, error?.details, error?.hint].filter(Boolean).join(' ').toLowerCase();
+    if (text.includes('supabase_service_role_key')) return true;
+
+    return text.includes(TABLE_NAME) && (
+        text.includes('does not exist') ||
+        text.includes('not found') ||
+        text.includes('schema cache') ||
+        text.includes('could not find the table')
+    );
+}
+
+export async function getEmployeeSegments(orgId: string): Promise<EmployeeSegment[] | null> {
+    const { data, error } = await getServiceSupabase()
+        .from(TABLE_NAME)
+        .select('segments')
+        .eq('org_id', orgId)
+        .maybeSingle();
+
+    if (error) throw error;
+    return data ? normalizeEmployeeSegments(data.segments) : null;
+}
+
+/**
+ * Replaces every segment of `orgId`.
+ */
+export async function saveEmployeeSegments(orgId: string, segments: EmployeeSegment[]): Promise<EmployeeSegment[]> {
+    const { data, error } = await getServiceSupabase()
+        .from(TABLE_NAME)
+        .upsert({ org_id: orgId, segments, updated_at: new Date().toISOString() }, { onConflict: 'org_id' })
+        .select('segments')
+        .single();
+
+    if (error) throw error;
+    return normalizeEmployeeSegments(data.segments);
+}
+
+/**
+ * The segments size expressions are matched against for `orgId`: the defaults plus the org's
+ * own. Falls back to the defaults when the org has none or the table is unavailable.
+ */
+export async function loadEmployeeSegments(
+    orgId: string | null | undefined,
+    log: (msg: string, data?: any) => void
+): Promise<EmployeeSegment[]> {
+    if (!orgId) return DEFAULT_EMPLOYEE_SEGMENTS;
+
+    try {
+        const segments = await getEmployeeSegments(orgId);
+        return segments ? mergeEmployeeSegments(DEFAULT_EMPLOYEE_SEGMENTS, segments) : DEFAULT_EMPLOYEE_SEGMENTS;
+    } catch (error: any) {
+        if (isMissingEmployeeSegmentStorageError(error)) {
+            if (!storageWarningLogged) {
+                storageWarningLogged = true;
+                log('Warning: employee_segments table unavailable. Run 019_create_employee_segments.sql to configure segments per org.');
+            }
+        } else {
+            log('Warning: Failed to load employee segments. Using the default segments.', {
+                org_id: orgId,
+                error: error?.message || String(error),
+            });
+        }
+        return DEFAULT_EMPLOYEE_SEGMENTS;
+    }
+}
@@ -0,0 +1,72 @@
+import { foldText } from '@/lib/lead-search/normalize';
+import { EmployeeSegment } from './types';
+
+export const DEFAULT_EMPLOYEE_SEGMENTS: EmployeeSegment[] = [
+    {
+        name: 'smb',
+        min_employees: 1,
+        max_employees: 200,
+        aliases: ['sme', 'small business', 'small', 'pyme', 'pymes', 'pequena empresa', 'pequenas empresas'],
+    },
+    {
+        name: 'mid_market',
+        min_employees: 201,
+        max_employees: 1000,
+        aliases: ['mid market', 'midmarket', 'mid', 'mediana empresa', 'medianas empresas', 'mediana'],
+    },
+    {
+        name: 'enterprise',
+        min_employees: 1001,
+        max_employees: null,
+        aliases: ['large', 'corporate', 'corporativo', 'gran empresa', 'grandes empresas', 'grande'],
+    },
+];
+
+/**
+ * Validates the segments an org saves. Names and aliases must be unique across the list once
+ * case and accents are folded, since that is how inputs are matched against them.
+ */
+export function normalizeEmployeeSegments(input: unknown): EmployeeSegment[] {
+    if (!Array.isArray(input)) throw new Error('segments must be an array');
+
+    const seenKeys = new Set<string>();
+    return input.map((value: any, index) => {
+        const name = typeof value?.name === 'string' ? value.name.trim() : '';
+        if (!name) throw new Error(`segments[${index}].name is required`);
+
+        const min = Number(value.min_employees);
+        if (!Number.isInteger(min) || min < 1) {
+            throw new Error(`segments[${index}].min_employees must be a positive integer`);
+        }
+
+        const rawMax = value.max_employees;
+        const max = rawMax === undefined || rawMax === null || rawMax === '' ? null : Number(rawMax);
+        if (max !== null && (!Number.isInteger(max) || max < min)) {
+            throw new Error(`segments[${index}].max_employees must be null or an integer not below min_employees`);
+        }
+
+        const aliases = Array.isArray(value.aliases)
+            ? value.aliases.filter((alias: unknown): alias is string => typeof alias === 'string' && alias.trim() !== '')
+                .map((alias: string) => alias.trim())
+            : [];
+
+        for (const key of [name, ...aliases].map(foldText)) {
+            if (seenKeys.has(key)) throw new Error(`Segment name or alias "${key}" is used more than once`);
+            seenKeys.add(key);
+        }
+
+        return { name, min_employees: min, max_employees: max, aliases };
+    });
+}
+
+/**
+ * The default segments with an org's own segments applied: a segment with the name of a
+ * default replaces it, any other is added.
+ */
+export function mergeEmployeeSegments(defaults: EmployeeSegment[], overrides: EmployeeSegment[]): EmployeeSegment[] {
+    const overrideKeys = new Set(overrides.map((segment) => foldText(segment.name)));
+    return [
+        ...defaults.filter((segment) => !overrideKeys.has(foldText(segment.name))),
+        ...overrides,
+    ];
+}
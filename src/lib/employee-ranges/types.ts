@@ -0,0 +1,26 @@
+// A named company size band such as "SMB". `max_employees` null means no upper bound.
+export type EmployeeSegment = {
+    name: string;
+    min_employees: number;
+    max_employees: number | null;
+    // Other spellings matched case- and accent-insensitively ("pyme", "mid market").
+    aliases: string[];
+};
+
+export type ResolvedEmployeeRange = {
+    input: string;
+    min_employees: number;
+    max_employees: number | null;
+    // Segment name when the input named one.
+    segment: string | null;
+    // Apollo `organization_num_employees_ranges[]` values for this input.
+    ranges: string[];
+};
+
+export type EmployeeRangeResolution = {
+    // Deduplicated Apollo ranges across every parsed input.
+    ranges: string[];
+    resolved: ResolvedEmployeeRange[];
+    // One entry per input that could not be parsed; those inputs are dropped.
+    warnings: string[];
+};
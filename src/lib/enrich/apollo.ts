@@ -0,0 +1,657 @@
+import { getServiceSupabase } from '@/lib/supabase';
+import { apolloFetch } from '@/lib/apollo/client';
+import { ApolloWebhookTable, signApolloWebhookUrl } from '@/lib/apollo/webhook-signature';
+import { classifyEmail } from '@/lib/email-quality/classify';
+import { classifyIndustry } from '@/lib/industries/classify';
+import { EmailQuality } from '@/lib/email-quality/types';
+import { resolveLeadIdentities } from '@/lib/lead-identity/resolve';
+import { resolveApolloPersonPhones } from '@/lib/phones/normalize';
+import { buildEnrichmentStateUpdates, canTransitionEnrichment } from './state';
+
+function firstHeaderValue(value?: string | null): string | null {
+    if (typeof value !== 'string') return null;
+    const first = value.split(',')[0]?.trim();
+    return first || null;
+}
+
+function isLikelyPublicHttpsOrigin(origin: string): boolean {
+    try {
+        const url = new URL(origin);
+        if (url.protocol !== 'https:') return false;
+        const hostname = url.hostname.toLowerCase();
+        if (!hostname || hostname === 'localhost' || hostname === '0.0.0.0' || hostname === '127.0.0.1') {
+            return false;
+        }
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+export function resolveBaseUrl(req: Request): string {
+    const envCandidates = [
+        process.env.APOLLO_WEBHOOK_BASE_URL,
+        process.env.APP_URL,
+        process.env.NEXT_PUBLIC_APP_URL,
+    ];
+
+    for (const candidate of envCandidates) {
+        if (typeof candidate === 'string' && isLikelyPublicHttpsOrigin(candidate.trim())) {
+            return candidate.trim().replace(/\/+$/, '');
+        }
+    }
+
+    const forwardedHost = firstHeaderValue(req.headers.get('x-forwarded-host'));
+    const forwardedProto = firstHeaderValue(req.headers.get('x-forwarded-proto')) || 'https';
+    if (forwardedHost) {
+        const candidate = `${forwardedProto}://${forwardedHost}`;
+        if (isLikelyPublicHttpsOrigin(candidate)) {
+            return candidate.replace(/\/+$/, '');
+        }
+    }
+
+    try {
+        const origin = new URL(req.url).origin;
+        if (isLikelyPublicHttpsOrigin(origin)) {
+            return origin.replace(/\/+$/, '');
+        }
+    } catch {
+        // ignore malformed req.url
+    }
+
+    throw new Error('Missing public base URL for Apollo webhook. Set APOLLO_WEBHOOK_BASE_URL or APP_URL.');
+}
+
+export type RevealPreferences = {
+    revealEmail: boolean;
+    revealPhone: boolean;
+    enrichmentLevel: 'basic' | 'deep' | null;
+    requestedFields: string[];
+};
+
+function parseBooleanFlag(value: unknown): boolean | null {
+    if (typeof value === 'boolean') return value;
+
+    if (typeof value === 'number') {
+        if (value === 1) return true;
+        if (value === 0) return false;
+        return null;
+    }
+
+    if (typeof value === 'string') {
+        const normalized = value.trim().toLowerCase();
+        if (normalized === 'true' || normalized === '1' || normalized === 'yes') return true;
+        if (normalized === 'false' || normalized === '0' || normalized === 'no') return false;
+    }
+
+    return null;
+}
+
+function firstBoolean(...values: unknown[]): boolean | null {
+    for (const value of values) {
+        const parsed = parseBooleanFlag(value);
+        if (parsed !== null) return parsed;
+    }
+
+    return null;
+}
+
+function normalizeRequestedFields(value: unknown): string[] {
+    if (!Array.isArray(value)) return [];
+
+    return value
+        .filter((entry): entry is string => typeof entry === 'string')
+        .map((entry) => entry.trim().toLowerCase())
+        .filter(Boolean);
+}
+
+export function resolveRevealPreferences(body: any): RevealPreferences {
+    const config = body?.config && typeof body.config === 'object' ? body.config : {};
+    const requestedData = body?.requested_data && typeof body.requested_data === 'object'
+        ? body.requested_data
+        : body?.requestedData && typeof body.requestedData === 'object'
+            ? body.requestedData
+            : config?.requested_data && typeof config.requested_data === 'object'
+                ? config.requested_data
+                : config?.requestedData && typeof config.requestedData === 'object'
+                    ? config.requestedData
+                    : {};
+
+    const requestedFields = normalizeRequestedFields(
+        body?.requested_fields ??
+        body?.requestedFields ??
+        config?.requested_fields ??
+        config?.requestedFields
+    );
+
+    const levelCandidate =
+        (typeof body?.enrichment_level === 'string' && body.enrichment_level) ||
+        (typeof body?.enrichmentLevel === 'string' && body.enrichmentLevel) ||
+        (typeof config?.enrichment_level === 'string' && config.enrichment_level) ||
+        (typeof config?.enrichmentLevel === 'string' && config.enrichmentLevel) ||
+        '';
+
+    const normalizedLevel = levelCandidate.trim().toLowerCase();
+    const enrichmentLevel: RevealPreferences['enrichmentLevel'] =
+        normalizedLevel === 'basic' || normalizedLevel === 'deep'
+            ? normalizedLevel
+            : null;
+
+    const revealEmailFromFields = requestedFields.length > 0 ? requestedFields.includes('email') : null;
+    const revealPhoneFromFields = requestedFields.length > 0 ? requestedFields.includes('phone') : null;
+
+    const revealEmail = firstBoolean(
+        body?.reveal_email,
+        body?.revealEmail,
+        config?.reveal_email,
+        config?.revealEmail,
+        requestedData?.email,
+        revealEmailFromFields,
+        enrichmentLevel === 'basic' || enrichmentLevel === 'deep' ? true : null
+    ) ?? true;
+
+    const revealPhone = firstBoolean(
+        body?.reveal_phone,
+        body?.revealPhone,
+        config?.reveal_phone,
+        config?.revealPhone,
+        requestedData?.phone,
+        revealPhoneFromFields,
+        enrichmentLevel === 'basic' ? false : enrichmentLevel === 'deep' ? true : null
+    ) ?? true;
+
+    return {
+        revealEmail,
+        revealPhone,
+        enrichmentLevel,
+        requestedFields,
+    };
+}
+
+function buildWebhookUrl(baseUrl: string, recordId: string, tableName: ApolloWebhookTable, revealPreferences: Pick<RevealPreferences, 'revealEmail' | 'revealPhone'>): string {
+    const webhookUrl = signApolloWebhookUrl(new URL(`${baseUrl}/api/apollo-webhook`), {
+        recordId,
+        tableName,
+        revealEmail: revealPreferences.revealEmail,
+        revealPhone: revealPreferences.revealPhone,
+    });
+    return webhookUrl.toString();
+}
+
+function extractMissingColumnFromError(message?: string | null): string | null {
+    if (!message) return null;
+    const match = message.match(/Could not find the '([^']+)' column/i);
+    return match ? match[1] : null;
+}
+
+export async function updateRowWithSchemaFallback(
+    supabaseAdmin: any,
+    tableName: string,
+    recordId: string,
+    updates: Record<string, any>
+) {
+    const safeUpdates: Record<string, any> = { ...updates };
+    const removedColumns: string[] = [];
+    const maxAttempts = 20;
+    let attempts = 0;
+
+    while (attempts < maxAttempts) {
+        attempts++;
+
+        const { error, data } = await supabaseAdmin
+            .from(tableName)
+            .update(safeUpdates)
+            .eq('id', recordId)
+            .select();
+
+        if (!error) {
+            return {
+                error: null,
+                data,
+                removedColumns,
+                finalUpdates: safeUpdates,
+            };
+        }
+
+        const missingColumn = extractMissingColumnFromError(error.message);
+        if (!missingColumn || !(missingColumn in safeUpdates)) {
+            return {
+                error,
+                data,
+                removedColumns,
+                finalUpdates: safeUpdates,
+            };
+        }
+
+        delete safeUpdates[missingColumn];
+        removedColumns.push(missingColumn);
+        console.warn(`Schema fallback: removed missing column '${missingColumn}' for table '${tableName}'.`);
+
+        if (Object.keys(safeUpdates).length === 0) {
+            return {
+                error: {
+                    message: `Database update failed: No valid columns remain after schema fallback for table ${tableName}`,
+                },
+                data: null,
+                removedColumns,
+                finalUpdates: safeUpdates,
+            };
+        }
+    }
+
+    return {
+        error: {
+            message: `Database update failed: Exceeded schema fallback attempts for table ${tableName}`,
+        },
+        data: null,
+        removedColumns,
+        finalUpdates: safeUpdates,
+    };
+}
+
+/**
+ * Inserts rows, dropping columns the target table does not have, the same way
+ * updateRowWithSchemaFallback does for updates.
+ */
+export async function insertRowsWithSchemaFallback(
+    supabaseAdmin: any,
+    tableName: string,
+    rows: Array<Record<string, any>>
+): Promise<{ error: { message: string } | null; removedColumns: string[] }> {
+    let safeRows = rows.map((row) => ({ ...row }));
+    const removedColumns: string[] = [];
+    const maxAttempts = 20;
+
+    for (let attempts = 1; attempts <= maxAttempts; attempts++) {
+        const { error } = await supabaseAdmin.from(tableName).insert(safeRows);
+        if (!error) return { error: null, removedColumns };
+
+        const missingColumn = extractMissingColumnFromError(error.message);
+        if (!missingColumn || missingColumn === 'id' || !(missingColumn in safeRows[0])) {
+            return { error, removedColumns };
+        }
+
+        safeRows = safeRows.map(({ [missingColumn]: _removed, ...row }) => row);
+        removedColumns.push(missingColumn);
+        console.warn(`Schema fallback: removed missing column '${missingColumn}' for table '${tableName}'.`);
+    }
+
+    return {
+        error: { message: `Database insert failed: Exceeded schema fallback attempts for table ${tableName}` },
+        removedColumns,
+    };
+}
+
+function extractPersonFromApolloResponse(response: any): any | null {
+    if (response?.person && typeof response.person === 'object') return response.person;
+
+    if (Array.isArray(response?.matches)) {
+        const match = response.matches.find((entry: any) => entry && typeof entry === 'object');
+        if (match) return match;
+    }
+
+    if (Array.isArray(response?.people)) {
+        const person = response.people.find((entry: any) => entry && typeof entry === 'object');
+        if (person) return person;
+    }
+
+    return null;
+}
+
+export type EnrichLeadRecordResult = {
+    enrichment_status: 'pending' | 'completed' | 'failed';
+    match_response: any;
+    matched_person: any | null;
+    final_updates: Record<string, any>;
+    removed_columns: string[];
+    update_error: { message: string } | null;
+    db_update_count: number;
+    email_quality: EmailQuality | null;
+};
+
+/**
+ * Runs one lead through Apollo (by Apollo id when known, otherwise people/match), writes
+ * the result to its row and records the attempt in `enrichment_logs`. Phones requested
+ * from Apollo arrive later through the signed webhook.
+ */
+export async function enrichLeadRecord(params: {
+    apiKey: string;
+    recordId: string;
+    tableName: ApolloWebhookTable;
+    lead: any;
+    revealPreferences: RevealPreferences;
+    baseUrl: string;
+    userId?: string | null;
+    orgId?: string | null;
+    // 1 for a new enrichment; the sweep passes the retry number when it re-queues one.
+    attempt?: number;
+}): Promise<EnrichLeadRecordResult> {
+    const { apiKey, lead, revealPreferences, baseUrl } = params;
+    const record_id = params.recordId;
+    const table_name = params.tableName;
+    const apolloPersonId = (lead?.apollo_id || lead?.id || '').toString().trim();
+
+    // 1. Call Apollo API (Match or Enrich by ID)
+    let matchResponse;
+    if (apolloPersonId) {
+        console.log(`Enriching via Apollo ID: ${apolloPersonId}`);
+        matchResponse = await enrichWithApolloId(apiKey, apolloPersonId, record_id, table_name, revealPreferences, baseUrl);
+    } else {
+        console.log('Enrichment: Enriching via Search/Match');
+        matchResponse = await enrichWithApollo(apiKey, lead, record_id, table_name, revealPreferences, baseUrl);
+    }
+
+    const matchedPerson = extractPersonFromApolloResponse(matchResponse);
+
+    console.log(`Apollo response for ${table_name}/${record_id}: person ${matchedPerson?.id || 'none'}`);
+
+    // 2. Process Results
+    // Even with webhook, Apollo might return immediate results if cached.
+    let updates: any = {
+        enrichment_status: 'pending', // Default to pending since we expect webhook
+        updated_at: new Date().toISOString(),
+    };
+
+    if (matchedPerson) {
+        const p = matchedPerson;
+        updates.enrichment_status = 'completed'; // If we got data immediately, mark completed
+
+        // Basic Fields - Fill if available
+        if (p.first_name) updates.first_name = p.first_name;
+        if (p.last_name) updates.last_name = p.last_name;
+        if (p.linkedin_url) updates.linkedin_url = p.linkedin_url;
+        if (p.title) updates.title = p.title;
+
+        // Location Data
+        if (p.city) updates.city = p.city;
+        if (p.state) updates.state = p.state;
+        if (p.country) updates.country = p.country;
+
+        // Professional Info
+        if (p.headline) updates.headline = p.headline;
+        if (p.photo_url) updates.photo_url = p.photo_url;
+        if (p.seniority) updates.seniority = p.seniority;
+        if (p.departments && p.departments.length > 0) updates.departments = p.departments;
+
+        // Organization Data
+        if (p.organization?.id || p.organization_id) updates.organization_id = p.organization?.id || p.organization_id;
+        if (p.organization?.name) updates.organization_name = p.organization.name;
+        if (p.organization?.primary_domain) updates.organization_domain = p.organization.primary_domain;
+        if (p.organization?.industry) updates.organization_industry = p.organization.industry;
+        if (p.organization?.estimated_num_employees) updates.organization_size = p.organization.estimated_num_employees;
+
+        const industryClassification = classifyIndustry({
+            naics_codes: p.organization?.naics_codes,
+            sic_codes: p.organization?.sic_codes,
+            industry: p.organization?.industry,
+        });
+        if (industryClassification) {
+            updates.industry_code = industryClassification.industry_code;
+            updates.industry_path = industryClassification.industry_path;
+        }
+
+        // Phone Numbers Logic
+        if (revealPreferences.revealPhone) {
+            const phones = resolveApolloPersonPhones(p, p.country || lead?.country);
+            if (phones) {
+                if (phones.phone_numbers[0].source === 'apollo_organization') {
+                    console.log('No direct phone found. Using Organization Phone fallback.');
+                }
+                updates.phone_numbers = phones.phone_numbers;
+                if (phones.primary_phone) updates.primary_phone = phones.primary_phone;
+            }
+        } else {
+            console.log('Phone reveal disabled by request. Skipping phone updates.');
+        }
+
+        // Email Logic
+        if (!revealPreferences.revealEmail) {
+            console.log('Email reveal disabled by request. Skipping email updates.');
+        } else if (p.email && p.email !== 'email_not_unlocked@apollo.io') {
+            updates.email = p.email;
+            updates.email_status = p.email_status || 'verified';
+        } else {
+            console.log('Apollo did not return a revealed email. Keeping original.');
+        }
+
+        console.log(`Match Found! Email: ${p.email ? 'yes' : 'no'}, Phones: ${p.phone_numbers?.length || 0}, Location: ${p.city}, ${p.state}, ${p.country}`);
+    } else {
+        console.log('No match found in Apollo (or async pending).');
+    }
+
+    // If we got a specific error from our wrapper
+    if (matchResponse?.error) {
+        updates.enrichment_status = 'failed';
+    } else if (!matchedPerson) {
+        updates.enrichment_status = 'failed';
+    } else if (revealPreferences.revealPhone && !updates.phone_numbers) {
+        // Matched, but the requested phones only arrive through the webhook.
+        updates.enrichment_status = 'pending';
+    }
+
+    // Classified on every run, so a lead whose email did not change still gets a result.
+    const emailQuality = classifyEmail(
+        updates.email || lead?.email,
+        updates.organization_domain || lead?.organization_domain
+    );
+    if (emailQuality) updates.email_quality = emailQuality;
+
+    const failureReason = updates.enrichment_status === 'failed'
+        ? matchResponse?.error || 'no_apollo_match'
+        : null;
+    Object.assign(updates, buildEnrichmentStateUpdates(updates.enrichment_status, {
+        reason: failureReason,
+        attempts: params.attempt ?? 1,
+        request: {
+            lead,
+            reveal_preferences: revealPreferences,
+            base_url: baseUrl,
+            user_id: params.userId ?? null,
+            org_id: params.orgId ?? null,
+        },
+    }));
+
+    // 3. Update Supabase
+    const supabaseAdmin = getServiceSupabase();
+
+    // 3.1 Retry Logic: Wait for row to exist (Race Condition Fix)
+    let rowExists = false;
+    let previousStatus: string | null = null;
+    let attempts = 0;
+    const maxAttempts = 3;
+
+    while (attempts < maxAttempts && !rowExists) {
+        attempts++;
+        const { data: checkData } = await supabaseAdmin
+            .from(table_name)
+            .select('id, enrichment_status')
+            .eq('id', record_id)
+            .single();
+
+        if (checkData) {
+            rowExists = true;
+            previousStatus = checkData.enrichment_status ?? null;
+            console.log(`Row found on attempt ${attempts}`);
+        } else {
+            console.log(`Attempt ${attempts}: Row ${record_id} not found yet. Waiting...`);
+            if (attempts < maxAttempts) await new Promise(res => setTimeout(res, 2000)); // Wait 2s
+        }
+    }
+
+    console.log(`Debug Check: Row ${record_id} exists? ${rowExists} after ${attempts} attempts`);
+
+    const {
+        error: updateError,
+        data: updatedData,
+        removedColumns,
+        finalUpdates,
+    } = await updateRowWithSchemaFallback(
+        supabaseAdmin,
+        table_name,
+        record_id,
+        updates
+    );
+
+    if (removedColumns.length > 0) {
+        console.warn(`Schema fallback removed columns for ${table_name}: ${removedColumns.join(', ')}`);
+    }
+
+    let finalStatus = updates.enrichment_status;
+    let errorMessage = null;
+
+    if (updateError) {
+        console.error('Supabase Update Error:', updateError);
+        finalStatus = 'failed';
+        errorMessage = updateError.message;
+    }
+
+    if (!canTransitionEnrichment(previousStatus, updates.enrichment_status)) {
+        console.warn(`Unexpected enrichment transition ${previousStatus} -> ${updates.enrichment_status} for ${table_name}/${record_id}`);
+    }
+
+    const dbUpdateCount = Array.isArray(updatedData) ? updatedData.length : 0;
+
+    if (dbUpdateCount > 0) {
+        await resolveLeadIdentities(table_name, updatedData, (msg, data) => console.log(msg, data ?? ''));
+    }
+
+    // 4. Insert into Logs
+    await supabaseAdmin.from('enrichment_logs').insert({
+        record_id,
+        table_name,
+        status: finalStatus,
+        details: {
+            transition: { from: previousStatus, to: finalStatus },
+            attempt: params.attempt ?? 1,
+            match_method: apolloPersonId ? 'apollo_id' : 'people_match',
+            match_found: !!(matchedPerson && !matchResponse.error),
+            is_async: true,
+            requested_reveal: {
+                email: revealPreferences.revealEmail,
+                phone: revealPreferences.revealPhone,
+                enrichment_level: revealPreferences.enrichmentLevel,
+                requested_fields: revealPreferences.requestedFields,
+            },
+            email_found: finalUpdates.email || null,
+            phone_count: finalUpdates.phone_numbers?.length || 0,
+            db_update_count: dbUpdateCount,
+            row_check_found: rowExists,
+            removed_columns: removedColumns,
+            check_error: !rowExists ? 'Row not found after retries' : null,
+            post_update_db_state: updatedData,
+            error: errorMessage || matchResponse?.error,
+            supabase_data: finalUpdates,
+            apollo_data: matchedPerson || null
+        }
+    });
+
+    return {
+        enrichment_status: updates.enrichment_status,
+        match_response: matchResponse,
+        matched_person: matchedPerson || null,
+        final_updates: finalUpdates,
+        removed_columns: removedColumns,
+        update_error: updateError || null,
+        db_update_count: dbUpdateCount,
+        email_quality: emailQuality,
+    };
+}
+
+async function enrichWithApolloId(
+    apiKey: string,
+    apolloId: string,
+    recordId: string,
+    tableName: ApolloWebhookTable,
+    revealPreferences: RevealPreferences,
+    baseUrl: string,
+    retries = 2
+): Promise<any> {
+    // Construct Webhook URL
+    const webhookUrl = buildWebhookUrl(baseUrl, recordId, tableName, revealPreferences);
+
+    const params = new URLSearchParams();
+    params.set('reveal_personal_emails', String(revealPreferences.revealEmail));
+    params.set('reveal_phone_number', String(revealPreferences.revealPhone));
+    params.set('webhook_url', webhookUrl);
+
+    const payload = {
+        details: [{ id: apolloId }],
+    };
+
+    try {
+        const response = await apolloFetch({
+            apiKey,
+            path: '/people/bulk_match',
+            params,
+            body: payload,
+            label: 'bulk match by Apollo id',
+            log: (msg) => console.warn(msg),
+            maxRetries: retries,
+        });
+
+        if (!response.ok) {
+            const txt = await response.text();
+            console.error(`Apollo API Error (${response.status}): ${txt}`);
+            return { error: `Apollo API Error (${response.status})`, details: txt };
+        }
+
+        return await response.json();
+
+    } catch (error: any) {
+        console.error('Apollo Fetch Error (Enrich by ID):', error);
+        return { error: error.message || 'Unknown Fetch Error' };
+    }
+}
+
+async function enrichWithApollo(
+    apiKey: string,
+    lead: any,
+    recordId: string,
+    tableName: ApolloWebhookTable,
+    revealPreferences: RevealPreferences,
+    baseUrl: string,
+    retries = 2
+): Promise<any> {
+    // Construct Webhook URL
+    const webhookUrl = buildWebhookUrl(baseUrl, recordId, tableName, revealPreferences);
+
+    const params = new URLSearchParams();
+    params.set('reveal_personal_emails', String(revealPreferences.revealEmail));
+    params.set('reveal_phone_number', String(revealPreferences.revealPhone));
+    params.set('webhook_url', webhookUrl);
+
+    if (lead.first_name) params.set('first_name', lead.first_name);
+    if (lead.last_name) params.set('last_name', lead.last_name);
+    if (lead.email) params.set('email', lead.email);
+    if (lead.organization_name) params.set('organization_name', lead.organization_name);
+
+    // Cleanup domain input
+    if (lead.organization_domain) {
+        params.set('domain', lead.organization_domain.replace(/^https?:\/\//, '').replace(/\/$/, ''));
+    }
+
+    if (lead.linkedin_url) params.set('linkedin_url', lead.linkedin_url);
+
+    try {
+        const response = await apolloFetch({
+            apiKey,
+            path: '/people/match',
+            params,
+            label: 'people match',
+            log: (msg) => console.warn(msg),
+            maxRetries: retries,
+        });
+
+        if (!response.ok) {
+            const txt = await response.text();
+            console.error(`Apollo API Error (${response.status}): ${txt}`);
+            return { error: `Apollo API Error (${response.status})`, details: txt };
+        }
+
+        return await response.json();
+
+    } catch (error: any) {
+        console.error('Apollo Fetch Error:', error);
+        return { error: error.message || 'Unknown Fetch Error' };
+    }
+}
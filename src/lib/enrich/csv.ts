@@ -0,0 +1,129 @@
+import { foldText } from '@/lib/lead-search/normalize';
+
+export const ENRICH_IMPORT_FIELDS = [
+    'first_name',
+    'last_name',
+    'name',
+    'email',
+    'linkedin_url',
+    'title',
+    'organization_name',
+    'organization_domain',
+    'apollo_id',
+    'city',
+    'state',
+    'country',
+    'phone',
+] as const;
+
+export type EnrichImportField = (typeof ENRICH_IMPORT_FIELDS)[number];
+
+export type EnrichImportColumnMapping = Partial<Record<EnrichImportField, string>>;
+
+// Header spellings seen in event attendee exports and CRM dumps, compared after foldText.
+const FIELD_ALIASES: Record<EnrichImportField, string[]> = {
+    first_name: ['first name', 'firstname', 'given name', 'nombre', 'nombres', 'primer nombre'],
+    last_name: ['last name', 'lastname', 'surname', 'family name', 'apellido', 'apellidos'],
+    name: ['name', 'full name', 'fullname', 'contact name', 'nombre completo', 'person name'],
+    email: ['email', 'e mail', 'email address', 'work email', 'business email', 'correo', 'correo electronico', 'mail'],
+    linkedin_url: ['linkedin', 'linkedin url', 'linkedin profile', 'linkedin profile url', 'person linkedin url', 'perfil linkedin'],
+    title: ['title', 'job title', 'position', 'role', 'cargo', 'puesto'],
+    organization_name: ['company', 'company name', 'organization', 'organization name', 'account name', 'empresa', 'compania', 'organizacion'],
+    organization_domain: ['domain', 'company domain', 'website', 'company website', 'organization domain', 'sitio web', 'dominio'],
+    apollo_id: ['apollo id', 'apollo person id', 'person id'],
+    city: ['city', 'ciudad'],
+    state: ['state', 'region', 'state region', 'province', 'estado', 'provincia'],
+    country: ['country', 'country region', 'pais'],
+    phone: ['phone', 'phone number', 'mobile', 'mobile phone', 'telefono', 'celular', 'movil'],
+};
+
+/**
+ * Parses RFC 4180 CSV (quoted fields, escaped quotes, CRLF). The delimiter is `,` unless
+ * the header line has more `;`, which is what spreadsheet apps export in es/pt locales.
+ */
+export function parseCsv(text: string): string[][] {
+    const input = text.replace(/^\uFEFF/, '');
+    const firstLine = input.split(/\r?\n/, 1)[0] || '';
+    const delimiter = (firstLine.match(/;/g)?.length || 0) > (firstLine.match(/,/g)?.length || 0) ? ';' : ',';
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows.filter((entry) => entry.some((value) => value.trim()));
+}
+
+export function isEnrichImportField(value: unknown): value is EnrichImportField {
+    return typeof value === 'string' && (ENRICH_IMPORT_FIELDS as readonly string[]).includes(value);
+}
+
+/**
+ * Maps lead fields to header positions. Explicit mappings (field -> header name) win;
+ * remaining fields are matched against the alias list.
+ */
+export function resolveImportColumns(
+    headers: string[],
+    mapping: EnrichImportColumnMapping = {}
+): { columns: Partial<Record<EnrichImportField, number>>; unknownHeaders: string[] } {
+    const foldedHeaders = headers.map((header) => foldText(header));
+    const columns: Partial<Record<EnrichImportField, number>> = {};
+    const unknownHeaders: string[] = [];
+
+    for (const field of ENRICH_IMPORT_FIELDS) {
+        const explicit = mapping[field];
+        if (!explicit) continue;
+
+        const index = foldedHeaders.indexOf(foldText(explicit));
+        if (index >= 0) {
+            columns[field] = index;
+        } else {
+            unknownHeaders.push(explicit);
+        }
+    }
+
+    for (const field of ENRICH_IMPORT_FIELDS) {
+        if (mapping[field]) continue;
+
+        const index = foldedHeaders.findIndex((header) => header === foldText(field) || FIELD_ALIASES[field].includes(header));
+        if (index >= 0 && !Object.values(columns).includes(index)) columns[field] = index;
+    }
+
+    return { columns, unknownHeaders };
+}
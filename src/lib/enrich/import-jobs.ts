@@ -0,0 +1,315 @@
+import { getServiceSupabase } from '@/lib/supabase';
+import { ApolloWebhookTable } from '@/lib/apollo/webhook-signature';
+import { RevealPreferences } from './apollo';
+import { EnrichImportColumnMapping } from './csv';
+
+const TABLE_NAME = 'enrichment_import_jobs';
+const ROW_STATUS_FUNCTION = 'set_enrichment_import_row_status';
+const DEFAULT_JOB_TIMEOUT_MINUTES = 10;
+
+export type EnrichImportJobStatus = 'queued' | 'in_progress' | 'completed' | 'failed';
+
+export type EnrichImportRowStatus = 'queued' | 'matched' | 'pending_webhook' | 'failed' | 'skipped';
+
+export type EnrichImportRow = {
+    row_number: number;
+    record_id: string | null;
+    lead: Record<string, string>;
+    status: EnrichImportRowStatus;
+    reason: string | null;
+};
+
+export type EnrichImportCounts = {
+    total_rows: number;
+    queued_count: number;
+    matched_count: number;
+    pending_webhook_count: number;
+    failed_count: number;
+    skipped_count: number;
+};
+
+export type EnrichImportJobRecord = EnrichImportCounts & {
+    job_id: string;
+    user_id: string | null;
+    org_id: string | null;
+    status: EnrichImportJobStatus;
+    table_name: ApolloWebhookTable;
+    base_url: string;
+    reveal_preferences: RevealPreferences;
+    column_mapping: EnrichImportColumnMapping;
+    concurrency: number;
+    rows: EnrichImportRow[];
+    error: string | null;
+    created_at: string;
+    updated_at: string;
+    started_at: string | null;
+    completed_at: string | null;
+};
+
+type JobRow = Record<string, any>;
+
+function mapRow(row: JobRow): EnrichImportJobRecord {
+    return {
+        job_id: row.job_id,
+        user_id: row.user_id ?? null,
+        org_id: row.org_id ?? null,
+        status: row.status,
+        table_name: row.table_name,
+        base_url: row.base_url,
+        reveal_preferences: row.reveal_preferences,
+        column_mapping: row.column_mapping || {},
+        concurrency: Number(row.concurrency) || 1,
+        rows: Array.isArray(row.rows) ? row.rows : [],
+        total_rows: Number(row.total_rows) || 0,
+        queued_count: Number(row.queued_count) || 0,
+        matched_count: Number(row.matched_count) || 0,
+        pending_webhook_count: Number(row.pending_webhook_count) || 0,
+        failed_count: Number(row.failed_count) || 0,
+        skipped_count: Number(row.skipped_count) || 0,
+        error: row.error ?? null,
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+        started_at: row.started_at ?? null,
+        completed_at: row.completed_at ?? null,
+    };
+}
+
+export function isMissingEnrichImportRowFunctionError(error: any): boolean {
+    const text = [error?.message, error?.details, error?.hint].filter(Boolean).join(' ').toLowerCase();
+    if (text.includes('supabase_service_role_key')) return true;
+
+    return text.includes(ROW_STATUS_FUNCTION) && (
+        text.includes('does not exist') ||
+        text.includes('schema cache') ||
+        text.includes('could not find the function')
+    );
+}
+
+/**
+ * How long an `in_progress` job may go without an update before another worker may claim it
+ * again. Every saved row outcome counts as an update.
+ */
+export function resolveEnrichImportJobTimeoutMs(): number {
+    const minutes = Number(process.env.ENRICH_IMPORT_JOB_TIMEOUT_MINUTES);
+    return (Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_JOB_TIMEOUT_MINUTES) * 60 * 1000;
+}
+
+function claimableJobFilter(): string {
+    const cutoff = new Date(Date.now() - resolveEnrichImportJobTimeoutMs()).toISOString();
+    return `status.eq.queued,and(status.eq.in_progress,updated_at.lt.${cutoff})`;
+}
+
+/**
+ * Queued jobs, and `in_progress` jobs whose worker stopped updating them (timed out or
+ * killed), can be claimed.
+ */
+export function isEnrichImportJobClaimable(job: Pick<EnrichImportJobRecord, 'status' | 'updated_at'>): boolean {
+    if (job.status === 'queued') return true;
+    if (job.status !== 'in_progress') return false;
+
+    const updatedAt = Date.parse(job.updated_at);
+    return Number.isFinite(updatedAt) && updatedAt < Date.now() - resolveEnrichImportJobTimeoutMs();
+}
+
+export function countEnrichImportRows(rows: EnrichImportRow[]): EnrichImportCounts {
+    const counts: EnrichImportCounts = {
+        total_rows: rows.length,
+        queued_count: 0,
+        matched_count: 0,
+        pending_webhook_count: 0,
+        failed_count: 0,
+        skipped_count: 0,
+    };
+
+    for (const row of rows) {
+        counts[`${row.status}_count`]++;
+    }
+
+    return counts;
+}
+
+export async function createEnrichImportJob(params: {
+    jobId: string;
+    userId: string | null;
+    orgId: string | null;
+    tableName: ApolloWebhookTable;
+    baseUrl: string;
+    revealPreferences: RevealPreferences;
+    columnMapping: EnrichImportColumnMapping;
+    concurrency: number;
+    rows: EnrichImportRow[];
+}): Promise<EnrichImportJobRecord> {
+    const supabase = getServiceSupabase();
+    const now = new Date().toISOString();
+    const hasQueuedRows = params.rows.some((row) => row.status === 'queued');
+
+    const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .insert({
+            job_id: params.jobId,
+            user_id: params.userId,
+            org_id: params.orgId,
+            status: hasQueuedRows ? 'queued' : 'completed',
+            table_name: params.tableName,
+            base_url: params.baseUrl,
+            reveal_preferences: params.revealPreferences,
+            column_mapping: params.columnMapping,
+            concurrency: params.concurrency,
+            rows: params.rows,
+            ...countEnrichImportRows(params.rows),
+            error: null,
+            created_at: now,
+            updated_at: now,
+            started_at: null,
+            completed_at: hasQueuedRows ? null : now,
+        })
+        .select('*')
+        .single();
+
+    if (error) throw error;
+    return mapRow(data);
+}
+
+export async function getEnrichImportJob(jobId: string): Promise<EnrichImportJobRecord | null> {
+    const supabase = getServiceSupabase();
+    const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .select('*')
+        .eq('job_id', jobId)
+        .maybeSingle();
+
+    if (error) throw error;
+    return data ? mapRow(data) : null;
+}
+
+export async function getNextQueuedEnrichImportJob(): Promise<EnrichImportJobRecord | null> {
+    const supabase = getServiceSupabase();
+    const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .select('*')
+        .or(claimableJobFilter())
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+    if (error) throw error;
+    return data ? mapRow(data) : null;
+}
+
+/**
+ * Moves a claimable job to `in_progress`. Returns null when another worker claimed it first.
+ */
+export async function claimEnrichImportJob(job: EnrichImportJobRecord): Promise<EnrichImportJobRecord | null> {
+    const supabase = getServiceSupabase();
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .update({
+            status: 'in_progress',
+            // A job processed over several runs keeps the start of the first one.
+            started_at: job.started_at || now,
+            updated_at: now,
+        })
+        .eq('job_id', job.job_id)
+        .or(claimableJobFilter())
+        .select('*')
+        .maybeSingle();
+
+    if (error) throw error;
+    return data ? mapRow(data) : null;
+}
+
+/**
+ * Moves the import row created for `recordId` to `status` if it is still in one of `from`,
+ * and recomputes the job counts, in one statement. Returns false when no row was in `from`.
+ */
+export async function setEnrichImportRowStatus(params: {
+    recordId: string;
+    from: EnrichImportRowStatus[];
+    status: EnrichImportRowStatus;
+    reason: string | null;
+    jobId?: string | null;
+}): Promise<boolean> {
+    const supabase = getServiceSupabase();
+    const { data, error } = await supabase.rpc(ROW_STATUS_FUNCTION, {
+        p_record_id: params.recordId,
+        p_from_statuses: params.from,
+        p_status: params.status,
+        p_reason: params.reason,
+        p_job_id: params.jobId ?? null,
+    });
+
+    if (error) throw error;
+    return Number(data) > 0;
+}
+
+export async function updateEnrichImportJobRows(jobId: string, rows: EnrichImportRow[]): Promise<void> {
+    const supabase = getServiceSupabase();
+    const { error } = await supabase
+        .from(TABLE_NAME)
+        .update({
+            rows,
+            ...countEnrichImportRows(rows),
+            updated_at: new Date().toISOString(),
+        })
+        .eq('job_id', jobId);
+
+    if (error) throw error;
+}
+
+// `rows` is only written by workers saving the whole job; row outcomes saved through
+// `setEnrichImportRowStatus` are already on the job and must not be overwritten.
+function rowUpdates(rows: EnrichImportRow[] | null): Record<string, any> {
+    return rows ? { rows, ...countEnrichImportRows(rows) } : {};
+}
+
+/**
+ * Puts a job with rows left back in the queue after a bounded run, so the next worker call
+ * continues it.
+ */
+export async function releaseEnrichImportJob(jobId: string, rows: EnrichImportRow[] | null): Promise<void> {
+    const supabase = getServiceSupabase();
+    const { error } = await supabase
+        .from(TABLE_NAME)
+        .update({
+            ...rowUpdates(rows),
+            status: 'queued',
+            updated_at: new Date().toISOString(),
+        })
+        .eq('job_id', jobId);
+
+    if (error) throw error;
+}
+
+export async function completeEnrichImportJob(jobId: string, rows: EnrichImportRow[] | null): Promise<void> {
+    const supabase = getServiceSupabase();
+    const now = new Date().toISOString();
+    const { error } = await supabase
+        .from(TABLE_NAME)
+        .update({
+            ...rowUpdates(rows),
+            status: 'completed',
+            updated_at: now,
+            completed_at: now,
+        })
+        .eq('job_id', jobId);
+
+    if (error) throw error;
+}
+
+export async function failEnrichImportJob(jobId: string, rows: EnrichImportRow[] | null, message: string): Promise<void> {
+    const supabase = getServiceSupabase();
+    const now = new Date().toISOString();
+    const { error } = await supabase
+        .from(TABLE_NAME)
+        .update({
+            ...rowUpdates(rows),
+            status: 'failed',
+            error: message,
+            updated_at: now,
+            completed_at: now,
+        })
+        .eq('job_id', jobId);
+
+    if (error) throw error;
+}
@@ -0,0 +1,386 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getServiceSupabase } from '@/lib/supabase';
+import { ApolloWebhookTable } from '@/lib/apollo/webhook-signature';
+import { classifyEmail } from '@/lib/email-quality/classify';
+import { normalizeDomain, normalizeEmail } from '@/lib/lead-search/normalize';
+import { isLeadRecordOwnedByOrg } from '@/lib/lead-search/persistence';
+import { normalizePhoneEntries, selectPrimaryPhone } from '@/lib/phones/normalize';
+import { checkRevealQuota } from '@/lib/usage/quotas';
+import { RevealPreferences, enrichLeadRecord, insertRowsWithSchemaFallback } from './apollo';
+import { EnrichImportField } from './csv';
+import {
+    EnrichImportJobRecord,
+    EnrichImportRow,
+    EnrichImportRowStatus,
+    isMissingEnrichImportRowFunctionError,
+    setEnrichImportRowStatus,
+    updateEnrichImportJobRows,
+} from './import-jobs';
+import {
+    EnrichmentStatus,
+    buildEnrichmentStateUpdates,
+    isMissingEnrichmentStateColumnError,
+    transitionEnrichment,
+} from './state';
+
+export const MAX_ENRICH_IMPORT_ROWS = 5000;
+export const DEFAULT_ENRICH_IMPORT_CONCURRENCY = 3;
+export const MAX_ENRICH_IMPORT_CONCURRENCY = 10;
+export const DEFAULT_ENRICH_IMPORT_ROWS_PER_RUN = 100;
+
+const IMPORT_SOURCE = 'enrich-import';
+const INSERT_CHUNK_SIZE = 500;
+const PROGRESS_SAVE_INTERVAL = 10;
+
+let rowFunctionWarningLogged = false;
+
+export type EnrichImportRunResult = {
+    rows: EnrichImportRow[];
+    // Rows still queued after this run.
+    remaining: number;
+    // False when row outcomes could not be saved one by one and `rows` must be saved whole.
+    rows_saved: boolean;
+};
+
+/**
+ * Queued rows one worker call enriches before putting the job back in the queue, so a run
+ * stays well within the request timeout.
+ */
+export function resolveEnrichImportRowsPerRun(): number {
+    const rows = Number(process.env.ENRICH_IMPORT_ROWS_PER_RUN);
+    return Number.isFinite(rows) && rows >= 1 ? Math.floor(rows) : DEFAULT_ENRICH_IMPORT_ROWS_PER_RUN;
+}
+
+function buildLeadFromCsvRow(values: string[], columns: Partial<Record<EnrichImportField, number>>): Record<string, string> {
+    const lead: Record<string, string> = {};
+
+    for (const [field, index] of Object.entries(columns)) {
+        const value = typeof index === 'number' ? (values[index] || '').trim() : '';
+        if (value) lead[field] = value;
+    }
+
+    if (lead.name && !lead.first_name && !lead.last_name) {
+        const [firstName, ...rest] = lead.name.split(/\s+/);
+        lead.first_name = firstName;
+        if (rest.length > 0) lead.last_name = rest.join(' ');
+    }
+    if (!lead.name && (lead.first_name || lead.last_name)) {
+        lead.name = [lead.first_name, lead.last_name].filter(Boolean).join(' ');
+    }
+
+    const email = normalizeEmail(lead.email);
+    if (email) lead.email = email.toLowerCase();
+    else delete lead.email;
+
+    if (lead.organization_domain) {
+        const domain = normalizeDomain(lead.organization_domain);
+        if (domain) lead.organization_domain = domain;
+        else delete lead.organization_domain;
+    }
+
+    return lead;
+}
+
+function importDedupeKey(lead: Record<string, string>): string | null {
+    if (lead.apollo_id) return `apollo:${lead.apollo_id}`;
+    if (lead.linkedin_url) return `linkedin:${lead.linkedin_url.toLowerCase().replace(/\/+$/, '')}`;
+    if (lead.email) return `email:${lead.email}`;
+
+    const organization = (lead.organization_domain || lead.organization_name || '').toLowerCase();
+    if (lead.first_name && organization) {
+        return `name:${lead.first_name.toLowerCase()}|${(lead.last_name || '').toLowerCase()}|${organization}`;
+    }
+
+    return null;
+}
+
+/**
+ * Turns parsed CSV data rows into import rows. Rows Apollo cannot match (no Apollo id,
+ * LinkedIn URL, email, or name plus company) and repeats of an earlier row are skipped.
+ */
+export function buildEnrichImportRows(
+    records: string[][],
+    columns: Partial<Record<EnrichImportField, number>>
+): EnrichImportRow[] {
+    const seenKeys = new Set<string>();
+
+    return records.map((values, index) => {
+        // Row 1 is the header line.
+        const rowNumber = index + 2;
+        const lead = buildLeadFromCsvRow(values, columns);
+        const key = importDedupeKey(lead);
+
+        if (!key) {
+            return { row_number: rowNumber, record_id: null, lead, status: 'skipped', reason: 'missing_identifiers' };
+        }
+        if (seenKeys.has(key)) {
+            return { row_number: rowNumber, record_id: null, lead, status: 'skipped', reason: 'duplicate_row' };
+        }
+
+        seenKeys.add(key);
+        return { row_number: rowNumber, record_id: null, lead, status: 'queued', reason: null };
+    });
+}
+
+// The imported phone is stored on the row, not sent to Apollo.
+function enrichmentLead(lead: Record<string, string>): Record<string, string> {
+    const { phone: _phone, ...rest } = lead;
+    return rest;
+}
+
+/**
+ * Creates one row in the target table per queued import row, in the `requested`
+ * enrichment state, and stores its id on the import row. Imported rows into
+ * people_search_leads share the job id as batch_run_id.
+ */
+export async function createEnrichImportRecords(params: {
+    jobId: string;
+    tableName: ApolloWebhookTable;
+    rows: EnrichImportRow[];
+    userId: string | null;
+    orgId: string | null;
+    baseUrl: string;
+    revealPreferences: RevealPreferences;
+}): Promise<string[]> {
+    const supabaseAdmin = getServiceSupabase();
+    const now = new Date().toISOString();
+    const queued = params.rows.filter((row) => row.status === 'queued');
+    const removedColumns = new Set<string>();
+
+    for (let start = 0; start < queued.length; start += INSERT_CHUNK_SIZE) {
+        const chunk = queued.slice(start, start + INSERT_CHUNK_SIZE);
+        const records = chunk.map((row) => {
+            row.record_id = uuidv4();
+            const { lead } = row;
+            const phoneNumbers = normalizePhoneEntries([lead.phone], { country: lead.country, source: 'csv_import' });
+
+            return {
+                id: row.record_id,
+                name: lead.name || null,
+                first_name: lead.first_name || null,
+                last_name: lead.last_name || null,
+                email: lead.email || null,
+                linkedin_url: lead.linkedin_url || null,
+                title: lead.title || null,
+                organization_name: lead.organization_name || null,
+                organization_domain: lead.organization_domain || null,
+                city: lead.city || null,
+                state: lead.state || null,
+                country: lead.country || null,
+                phone_numbers: phoneNumbers.length > 0 ? phoneNumbers : null,
+                primary_phone: selectPrimaryPhone(phoneNumbers),
+                email_quality: classifyEmail(lead.email, lead.organization_domain),
+                ...buildEnrichmentStateUpdates('requested', {
+                    attempts: 0,
+                    request: {
+                        lead: enrichmentLead(lead),
+                        reveal_preferences: params.revealPreferences,
+                        base_url: params.baseUrl,
+                        user_id: params.userId,
+                        org_id: params.orgId,
+                    },
+                }),
+                updated_at: now,
+                org_id: params.orgId,
+                ...(params.tableName === 'people_search_leads' ? { batch_run_id: params.jobId } : {}),
+            };
+        });
+
+        const { error, removedColumns: removed } = await insertRowsWithSchemaFallback(supabaseAdmin, params.tableName, records);
+        removed.forEach((column) => removedColumns.add(column));
+        if (error) throw new Error(`Failed to create import rows: ${error.message}`);
+    }
+
+    return Array.from(removedColumns);
+}
+
+async function claimImportRecord(job: EnrichImportJobRecord, recordId: string): Promise<boolean> {
+    try {
+        return await transitionEnrichment(getServiceSupabase(), {
+            tableName: job.table_name,
+            recordId,
+            from: 'requested',
+            to: 'pending',
+            source: IMPORT_SOURCE,
+            attempts: 1,
+        });
+    } catch (error: any) {
+        // Without 013_add_enrichment_state.sql there is no sweep to race with.
+        if (isMissingEnrichmentStateColumnError(error)) return true;
+        throw error;
+    }
+}
+
+async function enrichImportRow(
+    job: EnrichImportJobRecord,
+    row: EnrichImportRow,
+    apiKey: string
+): Promise<Pick<EnrichImportRow, 'status' | 'reason'>> {
+    if (!row.record_id) return { status: 'skipped', reason: 'missing_record' };
+    if (!job.org_id || !(await isLeadRecordOwnedByOrg(job.table_name, row.record_id, job.org_id))) {
+        return { status: 'failed', reason: 'record_not_owned' };
+    }
+
+    const quotaExceeded = await checkRevealQuota({
+        userId: job.user_id,
+        orgId: job.org_id,
+        revealEmail: job.reveal_preferences.revealEmail,
+        revealPhone: job.reveal_preferences.revealPhone,
+    });
+    if (quotaExceeded) return { status: 'failed', reason: quotaExceeded.error };
+
+    // Rows wait in `requested` until the job reaches them. The sweep re-queues the ones that
+    // time out first, and a run that was killed may have claimed some already; whoever moves
+    // the row out of `requested` is the only one calling Apollo for it.
+    if (!(await claimImportRecord(job, row.record_id))) {
+        return { status: 'pending_webhook', reason: 'already_claimed' };
+    }
+
+    const result = await enrichLeadRecord({
+        apiKey,
+        recordId: row.record_id,
+        tableName: job.table_name,
+        lead: enrichmentLead(row.lead),
+        revealPreferences: job.reveal_preferences,
+        baseUrl: job.base_url,
+        userId: job.user_id,
+        orgId: job.org_id,
+    });
+
+    if (result.update_error) {
+        return { status: 'failed', reason: result.update_error.message };
+    }
+    if (result.enrichment_status === 'failed') {
+        return { status: 'failed', reason: result.match_response?.error || 'no_apollo_match' };
+    }
+
+    // Requested phones arrive through the Apollo webhook unless the match already had them.
+    const phoneCount = result.final_updates.phone_numbers?.length || 0;
+    if (job.reveal_preferences.revealPhone && phoneCount === 0) {
+        return { status: 'pending_webhook', reason: null };
+    }
+
+    return { status: 'matched', reason: null };
+}
+
+/**
+ * Enriches up to `maxRows` queued rows of an import job, at most `job.concurrency` Apollo
+ * calls at a time. Each row outcome is saved as it finishes, so the status endpoint shows
+ * progress and a killed run loses at most the rows in flight.
+ */
+export async function runEnrichImportJob(
+    job: EnrichImportJobRecord,
+    params: {
+        apiKey: string;
+        maxRows: number;
+        log: (msg: string, data?: any) => void;
+    }
+): Promise<EnrichImportRunResult> {
+    const rows = job.rows.map((row) => ({ ...row }));
+    const pending = rows.filter((row) => row.status === 'queued').slice(0, Math.max(params.maxRows, 1));
+    let nextIndex = 0;
+    let rowsSaved = true;
+    let finishedSinceSave = 0;
+    let saving: Promise<void> = Promise.resolve();
+
+    const saveProgress = () => {
+        saving = saving
+            .then(() => updateEnrichImportJobRows(job.job_id, rows))
+            .catch((error: any) => {
+                params.log('Warning: Failed to update import job progress', { error: error?.message });
+            });
+    };
+
+    const saveRow = async (row: EnrichImportRow) => {
+        if (rowsSaved && row.record_id) {
+            try {
+                // A webhook or the sweep may have settled the row already; theirs is newer.
+                await setEnrichImportRowStatus({
+                    jobId: job.job_id,
+                    recordId: row.record_id,
+                    from: ['queued'],
+                    status: row.status,
+                    reason: row.reason,
+                });
+                return;
+            } catch (error: any) {
+                if (!isMissingEnrichImportRowFunctionError(error)) {
+                    params.log('Warning: Failed to save import row', { row_number: row.row_number, error: error?.message });
+                    return;
+                }
+                params.log('Warning: set_enrichment_import_row_status unavailable. Run 020_add_enrichment_import_row_status.sql; saving the whole job instead.');
+            }
+        }
+
+        rowsSaved = false;
+        finishedSinceSave++;
+        if (finishedSinceSave >= PROGRESS_SAVE_INTERVAL) {
+            finishedSinceSave = 0;
+            saveProgress();
+        }
+    };
+
+    const worker = async () => {
+        while (nextIndex < pending.length) {
+            const row = pending[nextIndex++];
+
+            try {
+                Object.assign(row, await enrichImportRow(job, row, params.apiKey));
+            } catch (error: any) {
+                row.status = 'failed';
+                row.reason = error?.message || 'Enrichment failed';
+            }
+
+            await saveRow(row);
+        }
+    };
+
+    const concurrency = Math.min(Math.max(job.concurrency, 1), MAX_ENRICH_IMPORT_CONCURRENCY);
+    await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, () => worker()));
+    await saving;
+
+    return {
+        rows,
+        remaining: rows.filter((row) => row.status === 'queued').length,
+        rows_saved: rowsSaved,
+    };
+}
+
+// Import row outcome for an enrichment the webhook or the sweep moved on, and the import
+// row states it may replace.
+const IMPORT_ROW_SYNC: Partial<Record<EnrichmentStatus, { from: EnrichImportRowStatus[]; status: EnrichImportRowStatus; reason: string | null }>> = {
+    completed: { from: ['queued', 'pending_webhook'], status: 'matched', reason: null },
+    failed: { from: ['queued', 'pending_webhook'], status: 'failed', reason: null },
+    // Timed out before the job reached it: the sweep calls Apollo for it from now on.
+    stale: { from: ['queued'], status: 'pending_webhook', reason: 'handled_by_sweep' },
+};
+
+/**
+ * Carries an enrichment outcome reached outside the import worker (Apollo webhook, dead
+ * letter replay, sweep) over to the import row created for the lead, if any, and its job
+ * counts. Never throws: the lead itself is already updated.
+ */
+export async function syncEnrichImportRow(
+    recordId: string,
+    enrichmentStatus: EnrichmentStatus,
+    reason: string | null = null
+): Promise<void> {
+    const sync = IMPORT_ROW_SYNC[enrichmentStatus];
+    if (!sync) return;
+
+    try {
+        await setEnrichImportRowStatus({
+            recordId,
+            from: sync.from,
+            status: sync.status,
+            reason: reason ?? sync.reason,
+        });
+    } catch (error: any) {
+        if (!isMissingEnrichImportRowFunctionError(error)) {
+            console.warn(`[enrich-import] Failed to update the import row of ${recordId}`, error?.message || error);
+        } else if (!rowFunctionWarningLogged) {
+            rowFunctionWarningLogged = true;
+            console.warn('[enrich-import] set_enrichment_import_row_status unavailable. Run 020_add_enrichment_import_row_status.sql so imports pick up webhook and sweep outcomes.');
+        }
+    }
+}
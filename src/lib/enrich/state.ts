@@ -0,0 +1,180 @@
+import type { RevealPreferences } from './apollo';
+
+/**
+ * Lifecycle of a lead enrichment:
+ *
+ * - `requested`: the row exists and an Apollo call is due (CSV imports create rows here)
+ * - `pending`: Apollo was called and the signed webhook with the requested phones is awaited
+ * - `completed` / `failed`: final, until the lead is enriched again
+ * - `stale`: `requested` or `pending` for longer than its timeout; the sweep re-queues it or,
+ *   after the last attempt, fails it
+ */
+export type EnrichmentStatus = 'requested' | 'pending' | 'completed' | 'failed' | 'stale';
+
+export const ENRICHMENT_STATUSES: EnrichmentStatus[] = ['requested', 'pending', 'completed', 'failed', 'stale'];
+
+const ENRICHMENT_TRANSITIONS: Record<EnrichmentStatus, EnrichmentStatus[]> = {
+    requested: ['pending', 'completed', 'failed', 'stale'],
+    pending: ['completed', 'failed', 'stale'],
+    // A late webhook can still complete a stale enrichment.
+    stale: ['pending', 'completed', 'failed'],
+    completed: ['requested', 'pending', 'completed'],
+    failed: ['requested', 'pending', 'completed'],
+};
+
+/**
+ * What the sweep needs to call Apollo again for a lead. Saved on the row when the
+ * enrichment is first requested.
+ */
+export type EnrichmentRequest = {
+    lead: Record<string, any>;
+    reveal_preferences: RevealPreferences;
+    base_url: string;
+    user_id: string | null;
+    org_id: string | null;
+};
+
+export type EnrichmentTimeouts = {
+    requestedMs: number;
+    pendingMs: number;
+    maxAttempts: number;
+};
+
+const DEFAULT_REQUESTED_TIMEOUT_MINUTES = 15;
+const DEFAULT_PENDING_TIMEOUT_MINUTES = 60;
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+function readPositiveNumber(value: string | undefined, fallback: number): number {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function isMissingEnrichmentStateColumnError(error: any): boolean {
+    const text = [error?.message, error?.details, error?.hint].filter(Boolean).join(' ').toLowerCase();
+    if (text.includes('supabase_service_role_key')) return true;
+
+    return ['enrichment_status_at', 'enrichment_attempts', 'enrichment_request'].some((column) => text.includes(column)) && (
+        text.includes('does not exist') ||
+        text.includes('schema cache') ||
+        text.includes('could not find')
+    );
+}
+
+export function isEnrichmentStatus(value: unknown): value is EnrichmentStatus {
+    return typeof value === 'string' && (ENRICHMENT_STATUSES as string[]).includes(value);
+}
+
+/**
+ * Unknown or legacy statuses (rows written before the state machine) may move anywhere.
+ */
+export function canTransitionEnrichment(from: unknown, to: EnrichmentStatus): boolean {
+    if (!isEnrichmentStatus(from)) return true;
+    return ENRICHMENT_TRANSITIONS[from].includes(to);
+}
+
+export function resolveEnrichmentTimeouts(): EnrichmentTimeouts {
+    return {
+        requestedMs: readPositiveNumber(process.env.ENRICHMENT_REQUESTED_TIMEOUT_MINUTES, DEFAULT_REQUESTED_TIMEOUT_MINUTES) * 60 * 1000,
+        pendingMs: readPositiveNumber(process.env.ENRICHMENT_PENDING_TIMEOUT_MINUTES, DEFAULT_PENDING_TIMEOUT_MINUTES) * 60 * 1000,
+        maxAttempts: Math.floor(readPositiveNumber(process.env.ENRICHMENT_MAX_ATTEMPTS, DEFAULT_MAX_ATTEMPTS)),
+    };
+}
+
+/**
+ * Row columns for entering `status`. `attempts` and `request` are only written when given,
+ * so a webhook completing the enrichment keeps the attempt count.
+ */
+export function buildEnrichmentStateUpdates(
+    status: EnrichmentStatus,
+    options: { reason?: string | null; attempts?: number; request?: EnrichmentRequest } = {}
+): Record<string, any> {
+    const updates: Record<string, any> = {
+        enrichment_status: status,
+        enrichment_status_at: new Date().toISOString(),
+        enrichment_error: options.reason ?? null,
+    };
+
+    if (options.attempts !== undefined) updates.enrichment_attempts = options.attempts;
+    if (options.request) updates.enrichment_request = options.request;
+
+    return updates;
+}
+
+export async function logEnrichmentTransition(
+    supabaseAdmin: any,
+    params: {
+        recordId: string;
+        tableName: string;
+        from: string | null;
+        to: EnrichmentStatus;
+        source: string;
+        reason?: string | null;
+        attempt?: number | null;
+        details?: Record<string, any>;
+    }
+): Promise<void> {
+    const { error } = await supabaseAdmin.from('enrichment_logs').insert({
+        record_id: params.recordId,
+        table_name: params.tableName,
+        status: params.to,
+        details: {
+            source: params.source,
+            transition: { from: params.from, to: params.to },
+            reason: params.reason ?? null,
+            attempt: params.attempt ?? null,
+            ...params.details,
+        },
+    });
+
+    if (error) {
+        console.warn(`[enrichment-state] Failed to log ${params.from} -> ${params.to} for ${params.tableName}/${params.recordId}`, error.message);
+    }
+}
+
+/**
+ * Moves a row from `from` to `to` only if it is still in `from`, so concurrent sweeps and
+ * webhooks cannot both act on it, and logs the transition. Returns false when the row had
+ * already moved on.
+ */
+export async function transitionEnrichment(
+    supabaseAdmin: any,
+    params: {
+        tableName: string;
+        recordId: string;
+        from: EnrichmentStatus;
+        to: EnrichmentStatus;
+        source: string;
+        reason?: string | null;
+        attempts?: number;
+        details?: Record<string, any>;
+    }
+): Promise<boolean> {
+    if (!canTransitionEnrichment(params.from, params.to)) {
+        throw new Error(`Invalid enrichment transition: ${params.from} -> ${params.to}`);
+    }
+
+    const { data, error } = await supabaseAdmin
+        .from(params.tableName)
+        .update({
+            ...buildEnrichmentStateUpdates(params.to, { reason: params.reason, attempts: params.attempts }),
+            updated_at: new Date().toISOString(),
+        })
+        .eq('id', params.recordId)
+        .eq('enrichment_status', params.from)
+        .select('id');
+
+    if (error) throw error;
+    if (!Array.isArray(data) || data.length === 0) return false;
+
+    await logEnrichmentTransition(supabaseAdmin, {
+        recordId: params.recordId,
+        tableName: params.tableName,
+        from: params.from,
+        to: params.to,
+        source: params.source,
+        reason: params.reason,
+        attempt: params.attempts ?? null,
+        details: params.details,
+    });
+    return true;
+}
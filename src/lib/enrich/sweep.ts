@@ -0,0 +1,206 @@
+import { getServiceSupabase } from '@/lib/supabase';
+import { APOLLO_WEBHOOK_TABLES, ApolloWebhookTable } from '@/lib/apollo/webhook-signature';
+import { withApolloUsageContext } from '@/lib/usage/ledger';
+import { checkRevealQuota } from '@/lib/usage/quotas';
+import { enrichLeadRecord } from './apollo';
+import { syncEnrichImportRow } from './import';
+import { EnrichmentRequest, EnrichmentStatus, resolveEnrichmentTimeouts, transitionEnrichment } from './state';
+
+export const DEFAULT_SWEEP_LIMIT = 20;
+export const MAX_SWEEP_LIMIT = 100;
+
+const SWEEP_SOURCE = 'enrichment-sweep';
+
+export type EnrichmentSweepResult = {
+    table_name: ApolloWebhookTable;
+    record_id: string;
+    from: EnrichmentStatus;
+    to: EnrichmentStatus;
+    attempt: number | null;
+    reason: string | null;
+};
+
+export type EnrichmentSweepSummary = {
+    marked_stale: number;
+    requeued: number;
+    failed: number;
+    results: EnrichmentSweepResult[];
+};
+
+function isEnrichmentRequest(value: any): value is EnrichmentRequest {
+    return Boolean(
+        value &&
+        typeof value === 'object' &&
+        value.lead && typeof value.lead === 'object' &&
+        value.reveal_preferences && typeof value.reveal_preferences === 'object' &&
+        typeof value.base_url === 'string' && value.base_url
+    );
+}
+
+async function markTimedOut(
+    supabaseAdmin: any,
+    tableName: ApolloWebhookTable,
+    from: 'requested' | 'pending',
+    timeoutMs: number,
+    limit: number,
+    summary: EnrichmentSweepSummary
+) {
+    const cutoff = new Date(Date.now() - timeoutMs).toISOString();
+    // Rows written before the state machine have no enrichment_status_at; use updated_at.
+    const { data, error } = await supabaseAdmin
+        .from(tableName)
+        .select('id, enrichment_attempts')
+        .eq('enrichment_status', from)
+        .or(`enrichment_status_at.lt.${cutoff},and(enrichment_status_at.is.null,updated_at.lt.${cutoff})`)
+        .limit(limit);
+
+    if (error) throw error;
+
+    const minutes = Math.round(timeoutMs / 60000);
+    const reason = from === 'requested'
+        ? `Apollo was not called within ${minutes} minutes`
+        : `No Apollo webhook within ${minutes} minutes`;
+
+    for (const row of data || []) {
+        const attempts = Number(row.enrichment_attempts) || 0;
+        const moved = await transitionEnrichment(supabaseAdmin, {
+            tableName,
+            recordId: row.id,
+            from,
+            to: 'stale',
+            source: SWEEP_SOURCE,
+            reason,
+            attempts,
+        });
+        if (!moved) continue;
+
+        if (from === 'requested') await syncEnrichImportRow(row.id, 'stale');
+        summary.marked_stale++;
+        summary.results.push({ table_name: tableName, record_id: row.id, from, to: 'stale', attempt: attempts, reason });
+    }
+}
+
+async function retryStale(
+    supabaseAdmin: any,
+    tableName: ApolloWebhookTable,
+    apiKey: string,
+    maxAttempts: number,
+    limit: number,
+    summary: EnrichmentSweepSummary,
+    log: (msg: string, data?: any) => void
+) {
+    const { data, error } = await supabaseAdmin
+        .from(tableName)
+        .select('id, enrichment_attempts, enrichment_request')
+        .eq('enrichment_status', 'stale')
+        .order('enrichment_status_at', { ascending: true })
+        .limit(limit);
+
+    if (error) throw error;
+
+    for (const row of data || []) {
+        const attempts = Number(row.enrichment_attempts) || 0;
+        const request = row.enrichment_request;
+
+        const fail = async (reason: string) => {
+            const moved = await transitionEnrichment(supabaseAdmin, {
+                tableName,
+                recordId: row.id,
+                from: 'stale',
+                to: 'failed',
+                source: SWEEP_SOURCE,
+                reason,
+                attempts,
+            });
+            if (!moved) return;
+
+            await syncEnrichImportRow(row.id, 'failed', reason);
+            summary.failed++;
+            summary.results.push({ table_name: tableName, record_id: row.id, from: 'stale', to: 'failed', attempt: attempts, reason });
+        };
+
+        if (attempts >= maxAttempts) {
+            await fail(`Timed out after ${attempts} attempts`);
+            continue;
+        }
+        if (!isEnrichmentRequest(request)) {
+            await fail('No saved enrichment request to retry');
+            continue;
+        }
+
+        const quotaExceeded = await checkRevealQuota({
+            userId: request.user_id,
+            orgId: request.org_id,
+            revealEmail: request.reveal_preferences.revealEmail,
+            revealPhone: request.reveal_preferences.revealPhone,
+        });
+        if (quotaExceeded) {
+            await fail(quotaExceeded.error);
+            continue;
+        }
+
+        const attempt = attempts + 1;
+        const claimed = await transitionEnrichment(supabaseAdmin, {
+            tableName,
+            recordId: row.id,
+            from: 'stale',
+            to: 'pending',
+            source: SWEEP_SOURCE,
+            reason: null,
+            attempts: attempt,
+        });
+        if (!claimed) continue;
+
+        summary.requeued++;
+        summary.results.push({ table_name: tableName, record_id: row.id, from: 'stale', to: 'pending', attempt, reason: null });
+
+        try {
+            // enrichLeadRecord writes and logs the outcome (completed, pending or failed).
+            const result = await withApolloUsageContext(
+                { userId: request.user_id, orgId: request.org_id, source: SWEEP_SOURCE },
+                () => enrichLeadRecord({
+                    apiKey,
+                    recordId: row.id,
+                    tableName,
+                    lead: request.lead,
+                    revealPreferences: request.reveal_preferences,
+                    baseUrl: request.base_url,
+                    userId: request.user_id,
+                    orgId: request.org_id,
+                    attempt,
+                })
+            );
+            await syncEnrichImportRow(
+                row.id,
+                result.update_error ? 'failed' : result.enrichment_status,
+                result.update_error?.message || (result.enrichment_status === 'failed' ? result.match_response?.error || 'no_apollo_match' : null)
+            );
+        } catch (retryError: any) {
+            // The row stays pending and times out again on a later sweep.
+            log(`Retry of ${tableName}/${row.id} failed`, { error: retryError?.message || String(retryError) });
+        }
+    }
+}
+
+/**
+ * One sweep over both lead tables: enrichments stuck in `requested` or `pending` past their
+ * timeout become `stale`, then stale ones are queued again with Apollo until they reach
+ * ENRICHMENT_MAX_ATTEMPTS, after which they fail. `limit` applies per table and phase.
+ */
+export async function sweepEnrichments(params: {
+    apiKey: string;
+    limit: number;
+    log: (msg: string, data?: any) => void;
+}): Promise<EnrichmentSweepSummary> {
+    const supabaseAdmin = getServiceSupabase();
+    const timeouts = resolveEnrichmentTimeouts();
+    const summary: EnrichmentSweepSummary = { marked_stale: 0, requeued: 0, failed: 0, results: [] };
+
+    for (const tableName of APOLLO_WEBHOOK_TABLES) {
+        await markTimedOut(supabaseAdmin, tableName, 'requested', timeouts.requestedMs, params.limit, summary);
+        await markTimedOut(supabaseAdmin, tableName, 'pending', timeouts.pendingMs, params.limit, summary);
+        await retryStale(supabaseAdmin, tableName, params.apiKey, timeouts.maxAttempts, params.limit, summary, params.log);
+    }
+
+    return summary;
+}
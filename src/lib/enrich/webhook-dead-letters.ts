@@ -0,0 +1,256 @@
+import { getServiceSupabase } from '@/lib/supabase';
+import { v4 as uuidv4 } from 'uuid';
+import { ApolloWebhookTable } from '@/lib/apollo/webhook-signature';
+
+const TABLE_NAME = 'apollo_webhook_dead_letters';
+
+export type WebhookDeadLetterStatus = 'pending' | 'replayed' | 'discarded';
+
+export const WEBHOOK_DEAD_LETTER_STATUSES: WebhookDeadLetterStatus[] = ['pending', 'replayed', 'discarded'];
+
+export type WebhookDeadLetterRecord = {
+    dead_letter_id: string;
+    record_id: string;
+    table_name: ApolloWebhookTable;
+    status: WebhookDeadLetterStatus;
+    reveal_email: boolean;
+    reveal_phone: boolean;
+    // Column updates computed from the webhook, re-applied as-is once the row exists.
+    updates: Record<string, any>;
+    apollo_data: Record<string, any> | null;
+    received_count: number;
+    attempts: number;
+    last_error: string | null;
+    created_at: string;
+    updated_at: string;
+    last_attempt_at: string | null;
+    replayed_at: string | null;
+    discarded_at: string | null;
+};
+
+type DeadLetterRow = Record<string, any>;
+
+export function isWebhookDeadLetterStatus(value: unknown): value is WebhookDeadLetterStatus {
+    return typeof value === 'string' && (WEBHOOK_DEAD_LETTER_STATUSES as string[]).includes(value);
+}
+
+export function isMissingDeadLetterStorageError(error: any): boolean {
+    const text = [error?.message, error?.details, error?.hint].filter(Boolean).join(' ').toLowerCase();
+    if (text.includes('supabase_service_role_key')) return true;
+
+    return text.includes(TABLE_NAME) && (
+        text.includes('does not exist') ||
+        text.includes('not found') ||
+        text.includes('schema cache') ||
+        text.includes('could not find the table')
+    );
+}
+
+function mapRow(row: DeadLetterRow): WebhookDeadLetterRecord {
+    return {
+        dead_letter_id: row.dead_letter_id,
+        record_id: row.record_id,
+        table_name: row.table_name,
+        status: row.status,
+        reveal_email: Boolean(row.reveal_email),
+        reveal_phone: Boolean(row.reveal_phone),
+        updates: row.updates || {},
+        apollo_data: row.apollo_data ?? null,
+        received_count: Number(row.received_count) || 1,
+        attempts: Number(row.attempts) || 0,
+        last_error: row.last_error ?? null,
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+        last_attempt_at: row.last_attempt_at ?? null,
+        replayed_at: row.replayed_at ?? null,
+        discarded_at: row.discarded_at ?? null,
+    };
+}
+
+/**
+ * Stores a webhook whose target row could not be found. There is one dead letter per
+ * record and table: a later webhook for the same row merges its updates over a pending
+ * one (so an email webhook followed by a phone webhook keeps both), and reopens a
+ * replayed or discarded one.
+ */
+export async function saveWebhookDeadLetter(params: {
+    recordId: string;
+    tableName: ApolloWebhookTable;
+    revealEmail: boolean;
+    revealPhone: boolean;
+    updates: Record<string, any>;
+    apolloData: Record<string, any> | null;
+    error: string;
+}): Promise<WebhookDeadLetterRecord> {
+    const supabase = getServiceSupabase();
+    const now = new Date().toISOString();
+
+    const { data: existing, error: lookupError } = await supabase
+        .from(TABLE_NAME)
+        .select('*')
+        .eq('table_name', params.tableName)
+        .eq('record_id', params.recordId)
+        .maybeSingle();
+
+    if (lookupError) throw lookupError;
+
+    if (existing) {
+        const previous = mapRow(existing);
+        const isPending = previous.status === 'pending';
+        const { data, error } = await supabase
+            .from(TABLE_NAME)
+            .update({
+                status: 'pending',
+                reveal_email: params.revealEmail || (isPending && previous.reveal_email),
+                reveal_phone: params.revealPhone || (isPending && previous.reveal_phone),
+                updates: isPending ? { ...previous.updates, ...params.updates } : params.updates,
+                apollo_data: params.apolloData,
+                received_count: previous.received_count + 1,
+                attempts: isPending ? previous.attempts : 0,
+                last_error: params.error,
+                updated_at: now,
+                replayed_at: null,
+                discarded_at: null,
+            })
+            .eq('dead_letter_id', previous.dead_letter_id)
+            .select('*')
+            .single();
+
+        if (error) throw error;
+        return mapRow(data);
+    }
+
+    const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .insert({
+            dead_letter_id: uuidv4(),
+            record_id: params.recordId,
+            table_name: params.tableName,
+            status: 'pending',
+            reveal_email: params.revealEmail,
+            reveal_phone: params.revealPhone,
+            updates: params.updates,
+            apollo_data: params.apolloData,
+            received_count: 1,
+            attempts: 0,
+            last_error: params.error,
+            created_at: now,
+            updated_at: now,
+        })
+        .select('*')
+        .single();
+
+    if (error) throw error;
+    return mapRow(data);
+}
+
+export async function getWebhookDeadLetter(deadLetterId: string): Promise<WebhookDeadLetterRecord | null> {
+    const supabase = getServiceSupabase();
+    const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .select('*')
+        .eq('dead_letter_id', deadLetterId)
+        .maybeSingle();
+
+    if (error) throw error;
+    return data ? mapRow(data) : null;
+}
+
+export async function listWebhookDeadLetters(params: {
+    status?: WebhookDeadLetterStatus | null;
+    tableName?: ApolloWebhookTable | null;
+    recordId?: string | null;
+    limit: number;
+}): Promise<WebhookDeadLetterRecord[]> {
+    const supabase = getServiceSupabase();
+    let query = supabase
+        .from(TABLE_NAME)
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(params.limit);
+
+    if (params.status) query = query.eq('status', params.status);
+    if (params.tableName) query = query.eq('table_name', params.tableName);
+    if (params.recordId) query = query.eq('record_id', params.recordId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(mapRow);
+}
+
+/**
+ * Pending dead letters for the reconciliation job, least recently attempted first so a
+ * row that never appears does not starve the others.
+ */
+export async function listPendingWebhookDeadLetters(limit: number): Promise<WebhookDeadLetterRecord[]> {
+    const supabase = getServiceSupabase();
+    const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .select('*')
+        .eq('status', 'pending')
+        .order('last_attempt_at', { ascending: true, nullsFirst: true })
+        .order('created_at', { ascending: true })
+        .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(mapRow);
+}
+
+export async function recordWebhookDeadLetterAttempt(deadLetter: WebhookDeadLetterRecord, lastError: string): Promise<WebhookDeadLetterRecord> {
+    const supabase = getServiceSupabase();
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .update({
+            attempts: deadLetter.attempts + 1,
+            last_error: lastError,
+            last_attempt_at: now,
+            updated_at: now,
+        })
+        .eq('dead_letter_id', deadLetter.dead_letter_id)
+        .select('*')
+        .single();
+
+    if (error) throw error;
+    return mapRow(data);
+}
+
+export async function markWebhookDeadLetterReplayed(deadLetter: WebhookDeadLetterRecord): Promise<WebhookDeadLetterRecord> {
+    const supabase = getServiceSupabase();
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .update({
+            status: 'replayed',
+            attempts: deadLetter.attempts + 1,
+            last_error: null,
+            last_attempt_at: now,
+            replayed_at: now,
+            updated_at: now,
+        })
+        .eq('dead_letter_id', deadLetter.dead_letter_id)
+        .select('*')
+        .single();
+
+    if (error) throw error;
+    return mapRow(data);
+}
+
+export async function discardWebhookDeadLetter(deadLetterId: string): Promise<WebhookDeadLetterRecord | null> {
+    const supabase = getServiceSupabase();
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .update({
+            status: 'discarded',
+            discarded_at: now,
+            updated_at: now,
+        })
+        .eq('dead_letter_id', deadLetterId)
+        .eq('status', 'pending')
+        .select('*')
+        .maybeSingle();
+
+    if (error) throw error;
+    return data ? mapRow(data) : null;
+}
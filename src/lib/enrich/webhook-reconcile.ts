@@ -0,0 +1,146 @@
+import { getServiceSupabase } from '@/lib/supabase';
+import { resolveLeadIdentities } from '@/lib/lead-identity/resolve';
+import { recordApolloPhoneReveal } from '@/lib/usage/ledger';
+import { updateRowWithSchemaFallback } from './apollo';
+import { syncEnrichImportRow } from './import';
+import { buildEnrichmentStateUpdates } from './state';
+import {
+    WebhookDeadLetterRecord,
+    listPendingWebhookDeadLetters,
+    markWebhookDeadLetterReplayed,
+    recordWebhookDeadLetterAttempt,
+} from './webhook-dead-letters';
+
+export const DEFAULT_RECONCILE_LIMIT = 25;
+export const MAX_RECONCILE_LIMIT = 100;
+
+export type WebhookReplayResult = {
+    replayed: boolean;
+    dead_letter: WebhookDeadLetterRecord;
+    updated_count: number;
+    removed_columns: string[];
+    error: string | null;
+};
+
+export type WebhookReconcileSummary = {
+    checked: number;
+    replayed: number;
+    still_pending: number;
+    results: Array<{
+        dead_letter_id: string;
+        record_id: string;
+        table_name: string;
+        replayed: boolean;
+        error: string | null;
+    }>;
+};
+
+/**
+ * Re-applies a dead-lettered webhook to its row. When the row still does not exist, or
+ * the update fails, the dead letter stays pending with the attempt and error recorded.
+ */
+export async function replayWebhookDeadLetter(
+    deadLetter: WebhookDeadLetterRecord,
+    log: (msg: string, data?: any) => void
+): Promise<WebhookReplayResult> {
+    const supabaseAdmin = getServiceSupabase();
+
+    const { data: existingRow, error: checkError } = await supabaseAdmin
+        .from(deadLetter.table_name)
+        .select('id, enrichment_status')
+        .eq('id', deadLetter.record_id)
+        .maybeSingle();
+
+    if (checkError || !existingRow) {
+        const message = checkError?.message || 'Row not found';
+        const updated = await recordWebhookDeadLetterAttempt(deadLetter, message);
+        return { replayed: false, dead_letter: updated, updated_count: 0, removed_columns: [], error: message };
+    }
+
+    const {
+        error: updateError,
+        data: updatedData,
+        removedColumns,
+        finalUpdates,
+    } = await updateRowWithSchemaFallback(
+        supabaseAdmin,
+        deadLetter.table_name,
+        deadLetter.record_id,
+        { ...deadLetter.updates, ...buildEnrichmentStateUpdates('completed'), updated_at: new Date().toISOString() }
+    );
+
+    const updatedCount = Array.isArray(updatedData) ? updatedData.length : 0;
+    if (updateError || updatedCount === 0) {
+        const message = updateError ? `Database update failed: ${updateError.message}` : 'Row not found';
+        const updated = await recordWebhookDeadLetterAttempt(deadLetter, message);
+        return { replayed: false, dead_letter: updated, updated_count: 0, removed_columns: removedColumns, error: message };
+    }
+
+    await resolveLeadIdentities(deadLetter.table_name, updatedData, log);
+    await syncEnrichImportRow(deadLetter.record_id, 'completed');
+    if (deadLetter.reveal_phone) {
+        await recordApolloPhoneReveal(finalUpdates.phone_numbers, updatedData[0]?.enrichment_request, 'apollo-webhook-replay');
+    }
+
+    await supabaseAdmin.from('enrichment_logs').insert({
+        record_id: deadLetter.record_id,
+        table_name: deadLetter.table_name,
+        status: 'webhook_replayed',
+        details: {
+            source: 'webhook_dead_letter',
+            dead_letter_id: deadLetter.dead_letter_id,
+            transition: { from: existingRow.enrichment_status ?? null, to: 'completed' },
+            requested_reveal: {
+                email: deadLetter.reveal_email,
+                phone: deadLetter.reveal_phone,
+            },
+            received_count: deadLetter.received_count,
+            attempts: deadLetter.attempts + 1,
+            db_update_count: updatedCount,
+            removed_columns: removedColumns,
+            supabase_data: finalUpdates,
+            apollo_data: deadLetter.apollo_data,
+        },
+    });
+
+    const replayed = await markWebhookDeadLetterReplayed(deadLetter);
+    return { replayed: true, dead_letter: replayed, updated_count: updatedCount, removed_columns: removedColumns, error: null };
+}
+
+/**
+ * One reconciliation pass: tries to re-apply up to `limit` pending dead letters.
+ */
+export async function reconcileWebhookDeadLetters(
+    limit: number,
+    log: (msg: string, data?: any) => void
+): Promise<WebhookReconcileSummary> {
+    const pending = await listPendingWebhookDeadLetters(limit);
+    const summary: WebhookReconcileSummary = { checked: pending.length, replayed: 0, still_pending: 0, results: [] };
+
+    for (const deadLetter of pending) {
+        let replayed = false;
+        let error: string | null = null;
+
+        try {
+            const result = await replayWebhookDeadLetter(deadLetter, log);
+            replayed = result.replayed;
+            error = result.error;
+        } catch (replayError: any) {
+            error = replayError?.message || 'Replay failed';
+            log(`Replay of dead letter ${deadLetter.dead_letter_id} failed`, { error });
+        }
+
+        if (replayed) summary.replayed++;
+        else summary.still_pending++;
+
+        summary.results.push({
+            dead_letter_id: deadLetter.dead_letter_id,
+            record_id: deadLetter.record_id,
+            table_name: deadLetter.table_name,
+            replayed,
+            error,
+        });
+    }
+
+    return summary;
+}
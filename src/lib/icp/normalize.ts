@@ -0,0 +1,61 @@
+import {
+    normalizeFlexibleStringArray,
+    normalizeOptionalString,
+    normalizeStringArray,
+} from '@/lib/lead-search/normalize';
+import { DEFAULT_ICP_WEIGHTS } from './scoring';
+import { IcpCriteria, IcpCriterion, IcpOwnerType, IcpWeights } from './types';
+
+export type IcpProfileInput = {
+    profile_id: string | null;
+    owner_type: IcpOwnerType;
+    owner_id: string;
+    name: string;
+    criteria: IcpCriteria;
+    weights: IcpWeights;
+    is_active: boolean;
+};
+
+export function normalizeIcpCriteria(value: any): IcpCriteria {
+    return {
+        titles: normalizeFlexibleStringArray(value?.titles),
+        seniorities: normalizeFlexibleStringArray(value?.seniorities).map((seniority) => seniority.toLowerCase()),
+        industries: normalizeFlexibleStringArray(value?.industries),
+        employee_ranges: normalizeStringArray(value?.employee_ranges),
+        countries: normalizeFlexibleStringArray(value?.countries),
+    };
+}
+
+export function normalizeIcpWeights(value: any): IcpWeights {
+    const weights: IcpWeights = { ...DEFAULT_ICP_WEIGHTS };
+
+    for (const criterion of Object.keys(DEFAULT_ICP_WEIGHTS) as IcpCriterion[]) {
+        const raw = Number(value?.[criterion]);
+        if (Number.isFinite(raw) && raw >= 0) weights[criterion] = raw;
+    }
+
+    return weights;
+}
+
+/**
+ * The owner comes from the caller's API key: the key's user, or its org when the body asks
+ * for `owner_type: "org"`.
+ */
+export function normalizeIcpProfileInput(body: any, owner: { userId: string; orgId: string }): IcpProfileInput {
+    const ownerType: IcpOwnerType = normalizeOptionalString(body?.owner_type)?.toLowerCase() === 'org' ? 'org' : 'user';
+
+    const criteria = normalizeIcpCriteria(body?.criteria ?? body);
+    if (Object.values(criteria).every((targets) => targets.length === 0)) {
+        throw new Error('At least one ICP criterion is required');
+    }
+
+    return {
+        profile_id: normalizeOptionalString(body?.profile_id),
+        owner_type: ownerType,
+        owner_id: ownerType === 'org' ? owner.orgId : owner.userId,
+        name: normalizeOptionalString(body?.name) || 'Default ICP',
+        criteria,
+        weights: normalizeIcpWeights(body?.weights),
+        is_active: body?.is_active !== false,
+    };
+}
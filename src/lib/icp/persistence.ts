@@ -0,0 +1,147 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getServiceSupabase } from '@/lib/supabase';
+import { normalizeIcpCriteria, normalizeIcpWeights, IcpProfileInput } from './normalize';
+import { IcpProfile } from './types';
+
+const TABLE_NAME = 'icp_profiles';
+
+type ProfileRow = Record<string, any>;
+
+export function isMissingIcpStorageError(error: any): boolean {
+    const text = [error?.message, error?.details, error?.hint].filter(Boolean).join(' ').toLowerCase();
+    if (text.includes('supabase_service_role_key')) return true;
+
+    return text.includes(TABLE_NAME) && (
+        text.includes('does not exist') ||
+        text.includes('not found') ||
+        text.includes('schema cache') ||
+        text.includes('could not find the table')
+    );
+}
+
+function mapRow(row: ProfileRow): IcpProfile {
+    return {
+        profile_id: row.profile_id,
+        owner_type: row.owner_type,
+        owner_id: row.owner_id,
+        name: row.name,
+        criteria: normalizeIcpCriteria(row.criteria),
+        weights: normalizeIcpWeights(row.weights),
+        is_active: Boolean(row.is_active),
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+    };
+}
+
+type IcpOwner = { userId?: string | null; orgId?: string | null };
+
+function listOwners(owner: IcpOwner): Array<{ owner_type: string; owner_id: string }> {
+    return [
+        owner.userId ? { owner_type: 'user', owner_id: owner.userId } : null,
+        owner.orgId ? { owner_type: 'org', owner_id: owner.orgId } : null,
+    ].filter((entry): entry is { owner_type: string; owner_id: string } => Boolean(entry));
+}
+
+export async function listIcpProfiles(owner: IcpOwner): Promise<IcpProfile[]> {
+    const supabase = getServiceSupabase();
+    const profiles: IcpProfile[] = [];
+    for (const entry of listOwners(owner)) {
+        const { data, error } = await supabase
+            .from(TABLE_NAME)
+            .select('*')
+            .eq('owner_type', entry.owner_type)
+            .eq('owner_id', entry.owner_id)
+            .order('updated_at', { ascending: false });
+
+        if (error) throw error;
+        profiles.push(...(data || []).map(mapRow));
+    }
+
+    return profiles;
+}
+
+/**
+ * The profile with `profileId` when it belongs to the user or the org; null otherwise.
+ */
+export async function getIcpProfile(profileId: string, owner: IcpOwner): Promise<IcpProfile | null> {
+    const supabase = getServiceSupabase();
+    for (const entry of listOwners(owner)) {
+        const { data, error } = await supabase
+            .from(TABLE_NAME)
+            .select('*')
+            .eq('profile_id', profileId)
+            .eq('owner_type', entry.owner_type)
+            .eq('owner_id', entry.owner_id)
+            .maybeSingle();
+
+        if (error) throw error;
+        if (data) return mapRow(data);
+    }
+
+    return null;
+}
+
+/**
+ * Picks the ICP used to score a search: an explicit profile id wins, then the user's most
+ * recently updated active profile, then the org's. Profiles of other users and orgs are
+ * never used.
+ */
+export async function resolveIcpProfile(params: IcpOwner & { profileId?: string | null }): Promise<IcpProfile | null> {
+    try {
+        if (params.profileId) return await getIcpProfile(params.profileId, params);
+
+        const profiles = (await listIcpProfiles(params)).filter((profile) => profile.is_active);
+        return profiles.find((profile) => profile.owner_type === 'user')
+            || profiles.find((profile) => profile.owner_type === 'org')
+            || null;
+    } catch (error: any) {
+        if (isMissingIcpStorageError(error)) return null;
+        throw error;
+    }
+}
+
+/**
+ * Creates a profile, or updates `input.profile_id` when it belongs to the user or the org.
+ * Returns null when that profile does not exist for them.
+ */
+export async function saveIcpProfile(input: IcpProfileInput, owner: IcpOwner): Promise<IcpProfile | null> {
+    const supabase = getServiceSupabase();
+    const record = {
+        owner_type: input.owner_type,
+        owner_id: input.owner_id,
+        name: input.name,
+        criteria: input.criteria,
+        weights: input.weights,
+        is_active: input.is_active,
+        updated_at: new Date().toISOString(),
+    };
+
+    if (!input.profile_id) {
+        const { data, error } = await supabase
+            .from(TABLE_NAME)
+            .insert({ profile_id: uuidv4(), ...record })
+            .select('*')
+            .single();
+
+        if (error) throw error;
+        return mapRow(data);
+    }
+
+    // Matched on the stored owner, so a profile can move between the user and the org but
+    // never be taken over by another key.
+    for (const entry of listOwners(owner)) {
+        const { data, error } = await supabase
+            .from(TABLE_NAME)
+            .update(record)
+            .eq('profile_id', input.profile_id)
+            .eq('owner_type', entry.owner_type)
+            .eq('owner_id', entry.owner_id)
+            .select('*')
+            .maybeSingle();
+
+        if (error) throw error;
+        if (data) return mapRow(data);
+    }
+
+    return null;
+}
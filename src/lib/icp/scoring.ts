@@ -0,0 +1,180 @@
+import { foldText, normalizeOptionalNumber, normalizeOptionalString } from '@/lib/lead-search/normalize';
+import { IcpCriterion, IcpProfile, IcpReason, IcpScore, IcpWeights } from './types';
+
+export const DEFAULT_ICP_WEIGHTS: IcpWeights = {
+    title: 30,
+    seniority: 20,
+    industry: 20,
+    employee_range: 15,
+    country: 15,
+};
+
+function parseEmployeeRange(value: string): { min: number; max: number } | null {
+    const match = value.trim().match(/^(\d+)\s*[,-]\s*(\d+)?$/);
+    if (!match) return null;
+
+    const min = Number(match[1]);
+    const max = match[2] ? Number(match[2]) : Number.POSITIVE_INFINITY;
+    return min <= max ? { min, max } : null;
+}
+
+function tokenize(value: string): string[] {
+    return foldText(value).split(' ').filter((token) => token.length > 1);
+}
+
+function scoreTitle(title: string | null, targets: string[]): Pick<IcpReason, 'matched' | 'matched_target'> {
+    if (!title) return { matched: 'unknown', matched_target: null };
+
+    const foldedTitle = foldText(title);
+    const exact = targets.find((target) => {
+        const foldedTarget = foldText(target);
+        return Boolean(foldedTarget) && (` ${foldedTitle} `).includes(` ${foldedTarget} `);
+    });
+    if (exact) return { matched: 'full', matched_target: exact };
+
+    // Partial credit when most words of a target title appear, e.g. "Head of Sales Ops" vs "Head of Sales".
+    const titleTokens = new Set(tokenize(title));
+    const partial = targets.find((target) => {
+        const targetTokens = tokenize(target);
+        if (targetTokens.length === 0) return false;
+        const shared = targetTokens.filter((token) => titleTokens.has(token)).length;
+        return shared / targetTokens.length >= 0.5;
+    });
+
+    return partial
+        ? { matched: 'partial', matched_target: partial }
+        : { matched: 'none', matched_target: null };
+}
+
+function scoreExactText(value: string | null, targets: string[]): Pick<IcpReason, 'matched' | 'matched_target'> {
+    if (!value) return { matched: 'unknown', matched_target: null };
+
+    const folded = foldText(value);
+    const match = targets.find((target) => foldText(target) === folded);
+    return match
+        ? { matched: 'full', matched_target: match }
+        : { matched: 'none', matched_target: null };
+}
+
+function scoreIndustry(industry: string | null, targets: string[]): Pick<IcpReason, 'matched' | 'matched_target'> {
+    if (!industry) return { matched: 'unknown', matched_target: null };
+
+    const folded = foldText(industry);
+    const exact = targets.find((target) => foldText(target) === folded);
+    if (exact) return { matched: 'full', matched_target: exact };
+
+    const partial = targets.find((target) => {
+        const foldedTarget = foldText(target);
+        return Boolean(foldedTarget) && (folded.includes(foldedTarget) || foldedTarget.includes(folded));
+    });
+
+    return partial
+        ? { matched: 'partial', matched_target: partial }
+        : { matched: 'none', matched_target: null };
+}
+
+function scoreEmployeeRange(size: number | null, targets: string[]): Pick<IcpReason, 'matched' | 'matched_target'> {
+    if (size === null) return { matched: 'unknown', matched_target: null };
+
+    const match = targets.find((target) => {
+        const range = parseEmployeeRange(target);
+        return Boolean(range) && size >= range!.min && size <= range!.max;
+    });
+
+    return match
+        ? { matched: 'full', matched_target: match }
+        : { matched: 'none', matched_target: null };
+}
+
+const MATCH_POINTS: Record<IcpReason['matched'], number> = {
+    full: 1,
+    partial: 0.5,
+    none: 0,
+    unknown: 0,
+};
+
+/**
+ * Scores a stored lead row (or Apollo person) against an ICP. Only criteria with targets
+ * count; the score is the share of their weight the lead earned, from 0 to 100.
+ */
+export function scoreLeadAgainstIcp(lead: Record<string, any>, profile: IcpProfile): IcpScore | null {
+    const { criteria } = profile;
+    const leadValues: Record<IcpCriterion, string | number | null> = {
+        title: normalizeOptionalString(lead?.title),
+        seniority: normalizeOptionalString(lead?.seniority),
+        industry: normalizeOptionalString(lead?.organization_industry || lead?.industry || lead?.organization?.industry),
+        employee_range: normalizeOptionalNumber(lead?.organization_size ?? lead?.organization?.estimated_num_employees),
+        country: normalizeOptionalString(lead?.country),
+    };
+    const targets: Record<IcpCriterion, string[]> = {
+        title: criteria.titles,
+        seniority: criteria.seniorities,
+        industry: criteria.industries,
+        employee_range: criteria.employee_ranges,
+        country: criteria.countries,
+    };
+
+    const reasons: IcpReason[] = [];
+    let earned = 0;
+    let possible = 0;
+
+    for (const criterion of Object.keys(targets) as IcpCriterion[]) {
+        const weight = profile.weights[criterion] ?? DEFAULT_ICP_WEIGHTS[criterion];
+        if (targets[criterion].length === 0 || weight <= 0) continue;
+
+        const value = leadValues[criterion];
+        const result = criterion === 'title'
+            ? scoreTitle(value as string | null, targets[criterion])
+            : criterion === 'industry'
+                ? scoreIndustry(value as string | null, targets[criterion])
+                : criterion === 'employee_range'
+                    ? scoreEmployeeRange(value as number | null, targets[criterion])
+                    : scoreExactText(value as string | null, targets[criterion]);
+        const points = Math.round(weight * MATCH_POINTS[result.matched] * 100) / 100;
+
+        earned += points;
+        possible += weight;
+        reasons.push({
+            criterion,
+            weight,
+            points,
+            matched: result.matched,
+            lead_value: value,
+            matched_target: result.matched_target,
+        });
+    }
+
+    if (possible === 0) return null;
+
+    return {
+        icp_profile_id: profile.profile_id,
+        icp_score: Math.round((earned / possible) * 100),
+        icp_reasons: reasons,
+    };
+}
+
+export function sortLeadsByIcpScore<T extends Record<string, any>>(leads: T[], order: 'asc' | 'desc' = 'desc'): T[] {
+    const direction = order === 'asc' ? 1 : -1;
+
+    return [...leads].sort((left, right) => {
+        const leftScore = typeof left?.icp_score === 'number' ? left.icp_score : null;
+        const rightScore = typeof right?.icp_score === 'number' ? right.icp_score : null;
+        // Unscored leads always go last.
+        if (leftScore === null && rightScore === null) return 0;
+        if (leftScore === null) return 1;
+        if (rightScore === null) return -1;
+        return (leftScore - rightScore) * direction;
+    });
+}
+
+/**
+ * Returns the requested order when results should be sorted by ICP score, or null to keep
+ * Apollo's order.
+ */
+export function resolveIcpSortOrder(sortBy: unknown, sortOrder: unknown): 'asc' | 'desc' | null {
+    const field = typeof sortBy === 'string' ? sortBy.trim().toLowerCase() : '';
+    if (field !== 'icp_score' && field !== 'score') return null;
+
+    const order = typeof sortOrder === 'string' ? sortOrder.trim().toLowerCase() : '';
+    return order === 'asc' ? 'asc' : 'desc';
+}
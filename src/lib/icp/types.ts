@@ -0,0 +1,40 @@
+export type IcpCriterion = 'title' | 'seniority' | 'industry' | 'employee_range' | 'country';
+
+export type IcpOwnerType = 'user' | 'org';
+
+export type IcpCriteria = {
+    titles: string[];
+    seniorities: string[];
+    industries: string[];
+    employee_ranges: string[];
+    countries: string[];
+};
+
+export type IcpWeights = Record<IcpCriterion, number>;
+
+export type IcpProfile = {
+    profile_id: string;
+    owner_type: IcpOwnerType;
+    owner_id: string;
+    name: string;
+    criteria: IcpCriteria;
+    weights: IcpWeights;
+    is_active: boolean;
+    created_at: string;
+    updated_at: string;
+};
+
+export type IcpReason = {
+    criterion: IcpCriterion;
+    weight: number;
+    points: number;
+    matched: 'full' | 'partial' | 'none' | 'unknown';
+    lead_value: string | number | null;
+    matched_target: string | null;
+};
+
+export type IcpScore = {
+    icp_profile_id: string;
+    icp_score: number;
+    icp_reasons: IcpReason[];
+};
@@ -0,0 +1,143 @@
+import { foldText } from '@/lib/lead-search/normalize';
+import { INDUSTRY_TAXONOMY } from './taxonomy';
+import { IndustryClassification, IndustryLanguage, IndustryNode } from './types';
+
+const NODES_BY_CODE = new Map<string, IndustryNode>();
+const NODES_BY_LABEL = new Map<string, IndustryNode>();
+for (const node of INDUSTRY_TAXONOMY) {
+    NODES_BY_CODE.set(node.code, node);
+}
+// Apollo labels first, so a display name never shadows the Apollo label it shares.
+for (const node of INDUSTRY_TAXONOMY) {
+    for (const label of node.apollo_industries) NODES_BY_LABEL.set(foldText(label), node);
+}
+for (const node of INDUSTRY_TAXONOMY) {
+    for (const label of Object.values(node.labels)) {
+        const key = foldText(label);
+        if (!NODES_BY_LABEL.has(key)) NODES_BY_LABEL.set(key, node);
+    }
+}
+
+export function getIndustryNode(code: string): IndustryNode | null {
+    return NODES_BY_CODE.get(code.trim().toLowerCase()) || null;
+}
+
+/**
+ * Codes from the top-level sector down to `code`: "technology.software" gives
+ * ["technology", "technology.software"].
+ */
+export function resolveIndustryPath(code: string): string[] {
+    const parts = code.split('.');
+    return parts.map((_, index) => parts.slice(0, index + 1).join('.')).filter((entry) => NODES_BY_CODE.has(entry));
+}
+
+/**
+ * Display name of a code in `language`, with its parents: "Tecnología > Software".
+ */
+export function describeIndustry(code: string, language: IndustryLanguage = 'en'): string | null {
+    const path = resolveIndustryPath(code);
+    if (path.length === 0) return null;
+
+    return path.map((entry) => NODES_BY_CODE.get(entry)?.labels[language] || entry).join(' > ');
+}
+
+function normalizeCodes(value: unknown): string[] {
+    if (!Array.isArray(value)) return [];
+    return value.map((code) => String(code ?? '').replace(/\D/g, '')).filter(Boolean);
+}
+
+// Longest prefix wins; on equal length the deeper node does ("20" is both manufacturing and
+// manufacturing.food in SIC).
+function findByCodePrefix(codes: string[], system: 'naics' | 'sic'): { node: IndustryNode; matched: string } | null {
+    for (const code of codes) {
+        let bestNode: IndustryNode | null = null;
+        let bestLength = 0;
+
+        for (const node of INDUSTRY_TAXONOMY) {
+            for (const prefix of node[system]) {
+                if (!code.startsWith(prefix) || prefix.length < bestLength) continue;
+                if (
+                    bestNode &&
+                    prefix.length === bestLength &&
+                    node.code.split('.').length <= bestNode.code.split('.').length
+                ) continue;
+
+                bestNode = node;
+                bestLength = prefix.length;
+            }
+        }
+
+        // Apollo lists the primary code first; later codes only matter when it is unmapped.
+        if (bestNode) return { node: bestNode, matched: code };
+    }
+
+    return null;
+}
+
+function toClassification(
+    node: IndustryNode,
+    source: IndustryClassification['source'],
+    matched: string
+): IndustryClassification {
+    return { industry_code: node.code, industry_path: resolveIndustryPath(node.code), source, matched };
+}
+
+/**
+ * Places a company in the taxonomy from its NAICS codes, else its SIC codes, else its Apollo
+ * `industry` label (or a taxonomy display name in either language). Null when none match.
+ */
+export function classifyIndustry(input: {
+    naics_codes?: unknown;
+    sic_codes?: unknown;
+    industry?: unknown;
+}): IndustryClassification | null {
+    const naics = findByCodePrefix(normalizeCodes(input.naics_codes), 'naics');
+    if (naics) return toClassification(naics.node, 'naics', naics.matched);
+
+    const sic = findByCodePrefix(normalizeCodes(input.sic_codes), 'sic');
+    if (sic) return toClassification(sic.node, 'sic', sic.matched);
+
+    if (typeof input.industry === 'string' && input.industry.trim()) {
+        const node = NODES_BY_LABEL.get(foldText(input.industry));
+        if (node) return toClassification(node, 'apollo_industry', input.industry.trim());
+    }
+
+    return null;
+}
+
+/**
+ * Apollo-style industry text for a classification, used when Apollo sent codes but no
+ * `industry`.
+ */
+export function industryLabelForApollo(code: string): string | null {
+    const node = NODES_BY_CODE.get(code);
+    if (!node) return null;
+
+    return node.apollo_industries[0] || node.labels.en.toLowerCase();
+}
+
+/**
+ * Apollo keyword tags for taxonomy codes, including every descendant of each code.
+ * Codes not in the taxonomy are returned in `unknown`.
+ */
+export function expandIndustryCodes(codes: string[]): { keyword_tags: string[]; unknown: string[] } {
+    const tags = new Set<string>();
+    const unknown: string[] = [];
+
+    for (const rawCode of codes) {
+        const code = rawCode.trim().toLowerCase();
+        if (!code) continue;
+        if (!NODES_BY_CODE.has(code)) {
+            unknown.push(rawCode.trim());
+            continue;
+        }
+
+        for (const node of INDUSTRY_TAXONOMY) {
+            if (node.code === code || node.code.startsWith(`${code}.`)) {
+                for (const tag of node.keyword_tags) tags.add(tag);
+            }
+        }
+    }
+
+    return { keyword_tags: Array.from(tags), unknown };
+}
@@ -0,0 +1,577 @@
+import { IndustryNode } from './types';
+
+// NAICS prefixes cover both the 2017 and 2022 editions where they differ (software
+// publishers moved from 5112 to 5132, broadcasting from 515 to 516). SIC prefixes follow the
+// 1987 major groups. Parents are listed before their children.
+export const INDUSTRY_TAXONOMY: IndustryNode[] = [
+    {
+        code: 'agriculture',
+        labels: { en: 'Agriculture & Fishing', es: 'Agricultura y pesca' },
+        naics: ['11'],
+        sic: ['01', '02', '07', '08', '09'],
+        apollo_industries: ['farming'],
+        keyword_tags: ['agriculture', 'agribusiness'],
+    },
+    {
+        code: 'agriculture.crops',
+        labels: { en: 'Crop Production', es: 'Producción agrícola' },
+        naics: ['111'],
+        sic: ['01'],
+        apollo_industries: [],
+        keyword_tags: ['crop production', 'fruit export'],
+    },
+    {
+        code: 'agriculture.livestock',
+        labels: { en: 'Livestock & Dairy', es: 'Ganadería y lácteos' },
+        naics: ['112'],
+        sic: ['02'],
+        apollo_industries: ['ranching', 'dairy'],
+        keyword_tags: ['livestock', 'dairy'],
+    },
+    {
+        code: 'agriculture.fishing',
+        labels: { en: 'Fishing & Aquaculture', es: 'Pesca y acuicultura' },
+        naics: ['114', '1125'],
+        sic: ['09'],
+        apollo_industries: ['fishery'],
+        keyword_tags: ['fishing', 'aquaculture', 'salmon'],
+    },
+    {
+        code: 'agriculture.forestry',
+        labels: { en: 'Forestry', es: 'Forestal' },
+        naics: ['113'],
+        sic: ['08'],
+        apollo_industries: [],
+        keyword_tags: ['forestry'],
+    },
+    {
+        code: 'mining',
+        labels: { en: 'Mining', es: 'Minería' },
+        naics: ['212', '2131'],
+        sic: ['10', '12', '14'],
+        apollo_industries: ['mining & metals'],
+        keyword_tags: ['mining', 'copper', 'lithium'],
+    },
+    {
+        code: 'energy',
+        labels: { en: 'Energy & Utilities', es: 'Energía y servicios básicos' },
+        naics: [],
+        sic: [],
+        apollo_industries: [],
+        keyword_tags: ['energy'],
+    },
+    {
+        code: 'energy.oil_gas',
+        labels: { en: 'Oil & Gas', es: 'Petróleo y gas' },
+        naics: ['211', '21311', '324'],
+        sic: ['13', '29'],
+        apollo_industries: ['oil & energy'],
+        keyword_tags: ['oil & gas', 'petroleum'],
+    },
+    {
+        code: 'energy.utilities',
+        labels: { en: 'Utilities', es: 'Servicios básicos' },
+        naics: ['221'],
+        sic: ['49'],
+        apollo_industries: ['utilities'],
+        keyword_tags: ['utilities', 'electricity', 'water utility'],
+    },
+    {
+        code: 'energy.renewables',
+        labels: { en: 'Renewable Energy', es: 'Energías renovables' },
+        naics: ['221114', '221115', '221116', '221117', '221118'],
+        sic: [],
+        apollo_industries: ['renewables & environment'],
+        keyword_tags: ['renewable energy', 'solar energy', 'wind energy'],
+    },
+    {
+        code: 'construction',
+        labels: { en: 'Construction', es: 'Construcción' },
+        naics: ['23'],
+        sic: ['15', '16', '17'],
+        apollo_industries: ['construction'],
+        keyword_tags: ['construction'],
+    },
+    {
+        code: 'construction.buildings',
+        labels: { en: 'Building Construction', es: 'Edificación' },
+        naics: ['236'],
+        sic: ['15'],
+        apollo_industries: [],
+        keyword_tags: ['building construction', 'real estate development'],
+    },
+    {
+        code: 'construction.infrastructure',
+        labels: { en: 'Infrastructure & Civil Works', es: 'Infraestructura y obras civiles' },
+        naics: ['237'],
+        sic: ['16'],
+        apollo_industries: ['civil engineering'],
+        keyword_tags: ['infrastructure', 'civil engineering'],
+    },
+    {
+        code: 'construction.specialty',
+        labels: { en: 'Specialty Contractors', es: 'Contratistas especializados' },
+        naics: ['238'],
+        sic: ['17'],
+        apollo_industries: [],
+        keyword_tags: ['contractors', 'electrical contractor', 'hvac'],
+    },
+    {
+        code: 'manufacturing',
+        labels: { en: 'Manufacturing', es: 'Manufactura' },
+        naics: ['31', '32', '33'],
+        sic: [
+            '20', '21', '22', '23', '24', '25', '26', '28', '29', '30',
+            '31', '32', '33', '34', '35', '36', '37', '38', '39',
+        ],
+        apollo_industries: ['industrial automation', 'mechanical or industrial engineering', 'plastics', 'glass, ceramics & concrete', 'building materials'],
+        keyword_tags: ['manufacturing'],
+    },
+    {
+        code: 'manufacturing.food',
+        labels: { en: 'Food & Beverage Production', es: 'Alimentos y bebidas' },
+        naics: ['311', '312'],
+        sic: ['20', '21'],
+        apollo_industries: ['food production', 'food & beverages', 'wine & spirits', 'tobacco'],
+        keyword_tags: ['food manufacturing', 'food & beverage', 'beverages'],
+    },
+    {
+        code: 'manufacturing.textiles',
+        labels: { en: 'Textiles & Apparel', es: 'Textil y vestuario' },
+        naics: ['313', '314', '315', '316'],
+        sic: ['22', '23', '31'],
+        apollo_industries: ['apparel & fashion', 'textiles'],
+        keyword_tags: ['textiles', 'apparel', 'fashion'],
+    },
+    {
+        code: 'manufacturing.paper',
+        labels: { en: 'Paper & Packaging', es: 'Papel y envases' },
+        naics: ['322'],
+        sic: ['26'],
+        apollo_industries: ['paper & forest products', 'packaging & containers'],
+        keyword_tags: ['packaging', 'paper'],
+    },
+    {
+        code: 'manufacturing.chemicals',
+        labels: { en: 'Chemicals', es: 'Química' },
+        naics: ['325'],
+        sic: ['28'],
+        apollo_industries: ['chemicals'],
+        keyword_tags: ['chemicals'],
+    },
+    {
+        code: 'manufacturing.metals',
+        labels: { en: 'Metals & Metalworking', es: 'Metalurgia y metalmecánica' },
+        naics: ['331', '332'],
+        sic: ['33', '34'],
+        apollo_industries: [],
+        keyword_tags: ['steel', 'metalworking'],
+    },
+    {
+        code: 'manufacturing.machinery',
+        labels: { en: 'Machinery & Equipment', es: 'Maquinaria y equipos' },
+        naics: ['333'],
+        sic: ['35'],
+        apollo_industries: ['machinery'],
+        keyword_tags: ['machinery', 'industrial equipment'],
+    },
+    {
+        code: 'manufacturing.electronics',
+        labels: { en: 'Electronics & Electrical Equipment', es: 'Electrónica y equipos eléctricos' },
+        naics: ['334', '335'],
+        sic: ['36'],
+        apollo_industries: ['electrical/electronic manufacturing', 'semiconductors', 'consumer electronics', 'computer hardware'],
+        keyword_tags: ['electronics', 'electrical equipment'],
+    },
+    {
+        code: 'manufacturing.automotive',
+        labels: { en: 'Automotive', es: 'Automotriz' },
+        naics: ['3361', '3362', '3363'],
+        sic: ['371'],
+        apollo_industries: ['automotive'],
+        keyword_tags: ['automotive', 'auto parts'],
+    },
+    {
+        code: 'wholesale',
+        labels: { en: 'Wholesale & Distribution', es: 'Comercio mayorista y distribución' },
+        naics: ['42'],
+        sic: ['50', '51'],
+        apollo_industries: ['wholesale', 'import & export'],
+        keyword_tags: ['wholesale', 'distribution', 'import & export'],
+    },
+    {
+        code: 'retail',
+        labels: { en: 'Retail', es: 'Comercio minorista' },
+        naics: ['44', '45'],
+        sic: ['52', '53', '55', '56', '57', '59'],
+        apollo_industries: ['retail', 'consumer goods', 'luxury goods & jewelry', 'sporting goods', 'cosmetics'],
+        keyword_tags: ['retail'],
+    },
+    {
+        code: 'retail.grocery',
+        labels: { en: 'Supermarkets & Grocery', es: 'Supermercados' },
+        naics: ['445'],
+        sic: ['54'],
+        apollo_industries: ['supermarkets'],
+        keyword_tags: ['supermarkets', 'grocery'],
+    },
+    {
+        code: 'retail.ecommerce',
+        labels: { en: 'E-commerce', es: 'Comercio electrónico' },
+        naics: ['4541'],
+        sic: ['5961'],
+        apollo_industries: [],
+        keyword_tags: ['ecommerce', 'online retail', 'marketplace'],
+    },
+    {
+        code: 'transportation',
+        labels: { en: 'Transportation & Logistics', es: 'Transporte y logística' },
+        naics: ['48', '49'],
+        sic: ['40', '41', '42', '44', '45', '46', '47'],
+        apollo_industries: [],
+        keyword_tags: ['transportation', 'logistics'],
+    },
+    {
+        code: 'transportation.logistics',
+        labels: { en: 'Logistics & Warehousing', es: 'Logística y almacenamiento' },
+        naics: ['4885', '492', '493'],
+        sic: ['422', '4731'],
+        apollo_industries: ['logistics & supply chain', 'warehousing', 'package/freight delivery'],
+        keyword_tags: ['logistics', 'supply chain', 'freight forwarding', 'warehousing'],
+    },
+    {
+        code: 'transportation.ground',
+        labels: { en: 'Ground Transportation', es: 'Transporte terrestre' },
+        naics: ['482', '484', '485'],
+        sic: ['40', '41', '421', '423'],
+        apollo_industries: ['transportation/trucking/railroad'],
+        keyword_tags: ['trucking', 'freight transport', 'railroad'],
+    },
+    {
+        code: 'transportation.air',
+        labels: { en: 'Air Transportation', es: 'Transporte aéreo' },
+        naics: ['481', '4881'],
+        sic: ['45'],
+        apollo_industries: ['airlines/aviation', 'aviation & aerospace'],
+        keyword_tags: ['aviation', 'airlines', 'air cargo'],
+    },
+    {
+        code: 'transportation.maritime',
+        labels: { en: 'Maritime & Ports', es: 'Marítimo y puertos' },
+        naics: ['483', '4883'],
+        sic: ['44'],
+        apollo_industries: ['maritime', 'shipbuilding'],
+        keyword_tags: ['shipping', 'maritime', 'ports'],
+    },
+    {
+        code: 'technology',
+        labels: { en: 'Technology', es: 'Tecnología' },
+        naics: ['51'],
+        sic: ['737'],
+        apollo_industries: [],
+        keyword_tags: ['technology'],
+    },
+    {
+        code: 'technology.software',
+        labels: { en: 'Software', es: 'Software' },
+        naics: ['5112', '5132'],
+        sic: ['7372'],
+        apollo_industries: ['computer software'],
+        keyword_tags: ['software', 'saas'],
+    },
+    {
+        code: 'technology.it_services',
+        labels: { en: 'IT Services', es: 'Servicios de TI' },
+        naics: ['5415', '518'],
+        sic: ['7371', '7373', '7374', '7376', '7379'],
+        apollo_industries: ['information technology & services', 'computer & network security', 'computer networking'],
+        keyword_tags: ['information technology', 'it services', 'cloud computing', 'cybersecurity'],
+    },
+    {
+        code: 'technology.internet',
+        labels: { en: 'Internet', es: 'Internet' },
+        naics: ['519130', '51929'],
+        sic: ['7375'],
+        apollo_industries: ['internet'],
+        keyword_tags: ['internet', 'digital platforms'],
+    },
+    {
+        code: 'telecommunications',
+        labels: { en: 'Telecommunications', es: 'Telecomunicaciones' },
+        naics: ['517'],
+        sic: ['481', '482', '489'],
+        apollo_industries: ['telecommunications', 'wireless'],
+        keyword_tags: ['telecommunications', 'telecom'],
+    },
+    {
+        code: 'media',
+        labels: { en: 'Media & Entertainment', es: 'Medios y entretenimiento' },
+        naics: [],
+        sic: [],
+        apollo_industries: ['online media'],
+        keyword_tags: ['media'],
+    },
+    {
+        code: 'media.publishing',
+        labels: { en: 'Publishing & Printing', es: 'Editorial e imprenta' },
+        naics: ['323', '5111', '5131'],
+        sic: ['27'],
+        apollo_industries: ['publishing', 'newspapers', 'printing'],
+        keyword_tags: ['publishing', 'printing'],
+    },
+    {
+        code: 'media.broadcasting',
+        labels: { en: 'Broadcasting & Film', es: 'Radio, televisión y cine' },
+        naics: ['512', '515', '516'],
+        sic: ['483', '484', '78'],
+        apollo_industries: ['broadcast media', 'media production', 'motion pictures & film', 'music', 'animation'],
+        keyword_tags: ['broadcasting', 'television', 'film production'],
+    },
+    {
+        code: 'media.entertainment',
+        labels: { en: 'Entertainment & Recreation', es: 'Entretenimiento y recreación' },
+        naics: ['71'],
+        sic: ['79', '84'],
+        apollo_industries: ['entertainment', 'sports', 'gambling & casinos', 'recreational facilities & services', 'performing arts'],
+        keyword_tags: ['entertainment', 'recreation'],
+    },
+    {
+        code: 'finance',
+        labels: { en: 'Financial Services', es: 'Servicios financieros' },
+        naics: ['52'],
+        sic: ['60', '61', '62', '63', '64', '67'],
+        apollo_industries: ['financial services'],
+        keyword_tags: ['financial services'],
+    },
+    {
+        code: 'finance.banking',
+        labels: { en: 'Banking & Lending', es: 'Banca y crédito' },
+        naics: ['522'],
+        sic: ['60', '61'],
+        apollo_industries: ['banking'],
+        keyword_tags: ['banking', 'lending', 'fintech'],
+    },
+    {
+        code: 'finance.insurance',
+        labels: { en: 'Insurance', es: 'Seguros' },
+        naics: ['524'],
+        sic: ['63', '64'],
+        apollo_industries: ['insurance'],
+        keyword_tags: ['insurance'],
+    },
+    {
+        code: 'finance.investment',
+        labels: { en: 'Investment & Capital Markets', es: 'Inversiones y mercado de capitales' },
+        naics: ['523', '525'],
+        sic: ['62', '67'],
+        apollo_industries: ['investment management', 'investment banking', 'venture capital & private equity', 'capital markets'],
+        keyword_tags: ['investment management', 'asset management', 'private equity'],
+    },
+    {
+        code: 'real_estate',
+        labels: { en: 'Real Estate', es: 'Inmobiliario' },
+        naics: ['531'],
+        sic: ['65'],
+        apollo_industries: ['real estate', 'commercial real estate'],
+        keyword_tags: ['real estate'],
+    },
+    {
+        code: 'professional_services',
+        labels: { en: 'Professional Services', es: 'Servicios profesionales' },
+        naics: ['54', '55'],
+        sic: ['87'],
+        apollo_industries: ['research'],
+        keyword_tags: ['professional services'],
+    },
+    {
+        code: 'professional_services.legal',
+        labels: { en: 'Legal Services', es: 'Servicios legales' },
+        naics: ['5411'],
+        sic: ['81'],
+        apollo_industries: ['legal services', 'law practice'],
+        keyword_tags: ['legal services', 'law firm'],
+    },
+    {
+        code: 'professional_services.accounting',
+        labels: { en: 'Accounting & Audit', es: 'Contabilidad y auditoría' },
+        naics: ['5412'],
+        sic: ['872'],
+        apollo_industries: ['accounting'],
+        keyword_tags: ['accounting', 'audit', 'tax advisory'],
+    },
+    {
+        code: 'professional_services.engineering',
+        labels: { en: 'Engineering & Architecture', es: 'Ingeniería y arquitectura' },
+        naics: ['5413'],
+        sic: ['871'],
+        apollo_industries: ['architecture & planning'],
+        keyword_tags: ['engineering services', 'architecture'],
+    },
+    {
+        code: 'professional_services.consulting',
+        labels: { en: 'Management Consulting', es: 'Consultoría de gestión' },
+        naics: ['5416'],
+        sic: ['8742', '8748'],
+        apollo_industries: ['management consulting'],
+        keyword_tags: ['consulting', 'management consulting'],
+    },
+    {
+        code: 'professional_services.marketing',
+        labels: { en: 'Marketing & Advertising', es: 'Marketing y publicidad' },
+        naics: ['5418'],
+        sic: ['731'],
+        apollo_industries: ['marketing & advertising', 'public relations & communications', 'market research'],
+        keyword_tags: ['marketing', 'advertising', 'digital marketing'],
+    },
+    {
+        code: 'business_services',
+        labels: { en: 'Business Services & Outsourcing', es: 'Servicios empresariales y outsourcing' },
+        naics: ['56'],
+        sic: ['73'],
+        apollo_industries: ['environmental services'],
+        keyword_tags: ['business services'],
+    },
+    {
+        code: 'business_services.staffing',
+        labels: { en: 'Staffing & Recruiting', es: 'Reclutamiento y servicios temporales' },
+        naics: ['5613'],
+        sic: ['736'],
+        apollo_industries: ['staffing & recruiting', 'human resources'],
+        keyword_tags: ['staffing', 'recruiting', 'human resources'],
+    },
+    {
+        code: 'business_services.outsourcing',
+        labels: { en: 'Outsourcing & Contact Centers', es: 'Outsourcing y contact centers' },
+        naics: ['5611', '5614'],
+        sic: ['7389'],
+        apollo_industries: ['outsourcing/offshoring'],
+        keyword_tags: ['outsourcing', 'bpo', 'call center'],
+    },
+    {
+        code: 'business_services.facilities',
+        labels: { en: 'Facilities & Security', es: 'Facility management y seguridad' },
+        naics: ['5616', '5617'],
+        sic: ['7349', '7381', '7382'],
+        apollo_industries: ['facilities services', 'security & investigations'],
+        keyword_tags: ['facility management', 'cleaning services', 'security services'],
+    },
+    {
+        code: 'education',
+        labels: { en: 'Education', es: 'Educación' },
+        naics: ['61'],
+        sic: ['82'],
+        apollo_industries: ['education management'],
+        keyword_tags: ['education'],
+    },
+    {
+        code: 'education.k12',
+        labels: { en: 'Primary & Secondary Schools', es: 'Colegios' },
+        naics: ['6111'],
+        sic: ['821'],
+        apollo_industries: ['primary/secondary education'],
+        keyword_tags: ['schools', 'k-12'],
+    },
+    {
+        code: 'education.higher',
+        labels: { en: 'Higher Education', es: 'Educación superior' },
+        naics: ['6112', '6113'],
+        sic: ['822'],
+        apollo_industries: ['higher education'],
+        keyword_tags: ['university', 'higher education'],
+    },
+    {
+        code: 'education.training',
+        labels: { en: 'Training & E-learning', es: 'Capacitación y e-learning' },
+        naics: ['6114', '6115', '6116', '6117'],
+        sic: ['824', '829'],
+        apollo_industries: ['e-learning', 'professional training & coaching'],
+        keyword_tags: ['e-learning', 'edtech', 'corporate training'],
+    },
+    {
+        code: 'healthcare',
+        labels: { en: 'Healthcare', es: 'Salud' },
+        naics: ['62'],
+        sic: ['80'],
+        apollo_industries: ['health, wellness & fitness'],
+        keyword_tags: ['healthcare'],
+    },
+    {
+        code: 'healthcare.hospitals',
+        labels: { en: 'Hospitals', es: 'Hospitales y clínicas' },
+        naics: ['622'],
+        sic: ['806'],
+        apollo_industries: ['hospital & health care'],
+        keyword_tags: ['hospitals', 'clinics'],
+    },
+    {
+        code: 'healthcare.providers',
+        labels: { en: 'Medical Practices & Labs', es: 'Centros médicos y laboratorios' },
+        naics: ['621', '623'],
+        sic: ['801', '802', '804', '805', '807', '808', '809'],
+        apollo_industries: ['medical practice', 'mental health care', 'alternative medicine'],
+        keyword_tags: ['medical centers', 'diagnostic laboratories', 'dental clinics'],
+    },
+    {
+        code: 'healthcare.pharmaceuticals',
+        labels: { en: 'Pharmaceuticals & Biotech', es: 'Farmacéutica y biotecnología' },
+        naics: ['3254'],
+        sic: ['283'],
+        apollo_industries: ['pharmaceuticals', 'biotechnology'],
+        keyword_tags: ['pharmaceuticals', 'biotechnology'],
+    },
+    {
+        code: 'healthcare.medical_devices',
+        labels: { en: 'Medical Devices', es: 'Dispositivos médicos' },
+        naics: ['3391', '334510'],
+        sic: ['384'],
+        apollo_industries: ['medical devices'],
+        keyword_tags: ['medical devices', 'medical equipment'],
+    },
+    {
+        code: 'hospitality',
+        labels: { en: 'Hospitality & Tourism', es: 'Hotelería y turismo' },
+        naics: ['72'],
+        sic: ['58', '70'],
+        apollo_industries: [],
+        keyword_tags: ['hospitality'],
+    },
+    {
+        code: 'hospitality.lodging',
+        labels: { en: 'Hotels & Lodging', es: 'Hoteles y alojamiento' },
+        naics: ['721'],
+        sic: ['70'],
+        apollo_industries: ['hospitality'],
+        keyword_tags: ['hotels', 'lodging'],
+    },
+    {
+        code: 'hospitality.food_service',
+        labels: { en: 'Restaurants & Food Service', es: 'Restaurantes y servicios de alimentación' },
+        naics: ['722'],
+        sic: ['58'],
+        apollo_industries: ['restaurants', 'food service'],
+        keyword_tags: ['restaurants', 'food service', 'catering'],
+    },
+    {
+        code: 'hospitality.travel',
+        labels: { en: 'Travel & Tourism', es: 'Viajes y turismo' },
+        naics: ['5615'],
+        sic: ['4724', '4725'],
+        apollo_industries: ['leisure, travel & tourism'],
+        keyword_tags: ['travel', 'tourism', 'travel agency'],
+    },
+    {
+        code: 'public_sector',
+        labels: { en: 'Government & Nonprofit', es: 'Sector público y sin fines de lucro' },
+        naics: ['92', '624', '813'],
+        sic: ['83', '86', '91', '92', '93', '94', '95', '96', '97'],
+        apollo_industries: [
+            'government administration',
+            'public policy',
+            'international affairs',
+            'nonprofit organization management',
+            'civic & social organization',
+            'philanthropy',
+        ],
+        keyword_tags: ['government', 'nonprofit'],
+    },
+];
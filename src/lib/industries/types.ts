@@ -0,0 +1,27 @@
+export type IndustryLanguage = 'es' | 'en';
+
+export const INDUSTRY_LANGUAGES: IndustryLanguage[] = ['es', 'en'];
+
+export type IndustryNode = {
+    // Stable dotted code; the part before the last dot is the parent ("technology.software").
+    code: string;
+    labels: Record<IndustryLanguage, string>;
+    // Code prefixes; the longest matching prefix across the taxonomy wins.
+    naics: string[];
+    sic: string[];
+    // Apollo `industry` values (LinkedIn industries) that belong to this node.
+    apollo_industries: string[];
+    // Apollo organization keyword tags a batch search uses for this node.
+    keyword_tags: string[];
+};
+
+export type IndustryClassificationSource = 'naics' | 'sic' | 'apollo_industry';
+
+export type IndustryClassification = {
+    industry_code: string;
+    // Codes from the top-level sector down to `industry_code`.
+    industry_path: string[];
+    source: IndustryClassificationSource;
+    // The code or label that matched.
+    matched: string;
+};
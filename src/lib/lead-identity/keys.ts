@@ -0,0 +1,91 @@
+import {
+    foldText,
+    isLowSignalOrganizationDomain,
+    normalizeDomain,
+    normalizeEmail,
+    normalizeOptionalString,
+} from '@/lib/lead-search/normalize';
+import { IdentityMatchKey, LeadIdentityKeys } from './types';
+
+// Ordered from strongest to weakest signal.
+export const IDENTITY_MATCH_PRIORITY: IdentityMatchKey[] = ['linkedin_url', 'verified_email', 'name_domain'];
+
+export const IDENTITY_KEY_COLUMNS: Record<IdentityMatchKey, keyof LeadIdentityKeys> = {
+    linkedin_url: 'linkedin_key',
+    verified_email: 'email_key',
+    name_domain: 'name_domain_key',
+};
+
+export function normalizeLinkedInKey(value: unknown): string | null {
+    const raw = normalizeOptionalString(value);
+    if (!raw) return null;
+
+    const withProtocol = /^[a-z]+:\/\//i.test(raw) ? raw : `https://${raw}`;
+
+    try {
+        const parsed = new URL(withProtocol);
+        if (!parsed.hostname.toLowerCase().endsWith('linkedin.com')) return null;
+
+        const match = parsed.pathname.match(/^\/(in|pub)\/([^/]+)/i);
+        if (!match) return null;
+
+        const slug = decodeURIComponent(match[2]).trim().toLowerCase();
+        return slug ? `linkedin.com/${match[1].toLowerCase()}/${slug}` : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Only verified emails identify a person; guessed or catch-all addresses are shared too
+ * often to merge on.
+ */
+export function normalizeVerifiedEmailKey(email: unknown, emailStatus: unknown): string | null {
+    const normalized = normalizeEmail(email);
+    if (!normalized) return null;
+
+    const status = normalizeOptionalString(emailStatus)?.toLowerCase();
+    if (status !== 'verified') return null;
+
+    return normalized.toLowerCase();
+}
+
+export function normalizeNameDomainKey(firstName: unknown, lastName: unknown, domain: unknown): string | null {
+    const first = foldText(normalizeOptionalString(firstName) || '');
+    const lastRaw = normalizeOptionalString(lastName) || '';
+    // Apollo obfuscates last names in search results (e.g. "P***"), which cannot identify anyone.
+    if (lastRaw.includes('*')) return null;
+
+    const last = foldText(lastRaw);
+    const normalizedDomain = normalizeDomain(normalizeOptionalString(domain) || '');
+    if (!first || last.length < 2 || !normalizedDomain || isLowSignalOrganizationDomain(normalizedDomain)) {
+        return null;
+    }
+
+    return `${first} ${last}|${normalizedDomain}`;
+}
+
+export function buildLeadIdentityKeys(row: Record<string, any>): LeadIdentityKeys {
+    const [fallbackFirst, ...fallbackRest] = (normalizeOptionalString(row?.name) || '').split(/\s+/);
+
+    return {
+        linkedin_key: normalizeLinkedInKey(row?.linkedin_url),
+        email_key: normalizeVerifiedEmailKey(row?.email, row?.email_status),
+        name_domain_key: normalizeNameDomainKey(
+            row?.first_name || fallbackFirst,
+            row?.last_name || fallbackRest.join(' '),
+            row?.organization_domain || row?.organization_website || row?.domain
+        ),
+    };
+}
+
+export function listMatchingKeys(left: LeadIdentityKeys, right: LeadIdentityKeys): IdentityMatchKey[] {
+    return IDENTITY_MATCH_PRIORITY.filter((matchKey) => {
+        const column = IDENTITY_KEY_COLUMNS[matchKey];
+        return Boolean(left[column]) && left[column] === right[column];
+    });
+}
+
+export function hasIdentityKeys(keys: LeadIdentityKeys): boolean {
+    return Boolean(keys.linkedin_key || keys.email_key || keys.name_domain_key);
+}
@@ -0,0 +1,299 @@
+import { getServiceSupabase } from '@/lib/supabase';
+import { IDENTITY_KEY_COLUMNS, IDENTITY_MATCH_PRIORITY } from './keys';
+import {
+    IdentityMatchKey,
+    LeadContactRecord,
+    LeadIdentityKeys,
+    LeadIdentityRecord,
+    LeadMergeHistoryEntry,
+    LeadSourceRef,
+} from './types';
+
+const IDENTITIES_TABLE = 'lead_identities';
+const CONTACTS_TABLE = 'lead_contacts';
+const MAX_MERGE_REDIRECTS = 10;
+const MAX_MATCHES_PER_KEY = 50;
+
+type IdentityRow = Record<string, any>;
+type ContactRow = Record<string, any>;
+
+export function isMissingIdentityStorageError(error: any): boolean {
+    const text = [error?.message, error?.details, error?.hint].filter(Boolean).join(' ').toLowerCase();
+    if (text.includes('supabase_service_role_key')) return true;
+
+    return (text.includes(IDENTITIES_TABLE) || text.includes(CONTACTS_TABLE)) && (
+        text.includes('does not exist') ||
+        text.includes('not found') ||
+        text.includes('schema cache') ||
+        text.includes('could not find the table')
+    );
+}
+
+function mapIdentityRow(row: IdentityRow): LeadIdentityRecord {
+    return {
+        table_name: row.source_table,
+        id: row.source_id,
+        contact_id: row.contact_id,
+        linkedin_key: row.linkedin_key ?? null,
+        email_key: row.email_key ?? null,
+        name_domain_key: row.name_domain_key ?? null,
+        matched_on: Array.isArray(row.matched_on) ? row.matched_on : [],
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+    };
+}
+
+function mapContactRow(row: ContactRow): LeadContactRecord {
+    return {
+        contact_id: row.contact_id,
+        canonical_table_name: row.canonical_source_table,
+        canonical_lead_id: row.canonical_source_id,
+        merged_into_contact_id: row.merged_into_contact_id ?? null,
+        merge_history: Array.isArray(row.merge_history) ? row.merge_history : [],
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+    };
+}
+
+/**
+ * Returns every identity sharing at least one key, strongest keys first.
+ */
+export async function findLeadIdentitiesByKeys(keys: LeadIdentityKeys): Promise<LeadIdentityRecord[]> {
+    const supabase = getServiceSupabase();
+    const matches = new Map<string, LeadIdentityRecord>();
+
+    for (const matchKey of IDENTITY_MATCH_PRIORITY) {
+        const column = IDENTITY_KEY_COLUMNS[matchKey];
+        const value = keys[column];
+        if (!value) continue;
+
+        const { data, error } = await supabase
+            .from(IDENTITIES_TABLE)
+            .select('*')
+            .eq(column, value)
+            .limit(MAX_MATCHES_PER_KEY);
+
+        if (error) throw error;
+        for (const row of data || []) {
+            const identity = mapIdentityRow(row);
+            const refKey = `${identity.table_name}:${identity.id}`;
+            if (!matches.has(refKey)) matches.set(refKey, identity);
+        }
+    }
+
+    return Array.from(matches.values());
+}
+
+/**
+ * Loads the identities of many source rows with one query per table.
+ */
+export async function getLeadIdentities(refs: LeadSourceRef[]): Promise<LeadIdentityRecord[]> {
+    const supabase = getServiceSupabase();
+    const idsByTable = new Map<string, string[]>();
+    for (const ref of refs) {
+        idsByTable.set(ref.table_name, [...(idsByTable.get(ref.table_name) || []), ref.id]);
+    }
+
+    const identities: LeadIdentityRecord[] = [];
+    for (const [tableName, ids] of Array.from(idsByTable.entries())) {
+        const { data, error } = await supabase
+            .from(IDENTITIES_TABLE)
+            .select('*')
+            .eq('source_table', tableName)
+            .in('source_id', ids);
+
+        if (error) throw error;
+        identities.push(...(data || []).map(mapIdentityRow));
+    }
+
+    return identities;
+}
+
+/**
+ * Returns every identity sharing a key with any of `keysList`, with one query per key
+ * column instead of one per lead.
+ */
+export async function findLeadIdentitiesByKeyValues(keysList: LeadIdentityKeys[]): Promise<LeadIdentityRecord[]> {
+    const supabase = getServiceSupabase();
+    const matches = new Map<string, LeadIdentityRecord>();
+
+    for (const matchKey of IDENTITY_MATCH_PRIORITY) {
+        const column = IDENTITY_KEY_COLUMNS[matchKey];
+        const values = Array.from(new Set(
+            keysList.map((keys) => keys[column]).filter((value): value is string => Boolean(value))
+        ));
+        if (values.length === 0) continue;
+
+        const { data, error } = await supabase
+            .from(IDENTITIES_TABLE)
+            .select('*')
+            .in(column, values)
+            .limit(values.length * MAX_MATCHES_PER_KEY);
+
+        if (error) throw error;
+        for (const row of data || []) {
+            const identity = mapIdentityRow(row);
+            const refKey = `${identity.table_name}:${identity.id}`;
+            if (!matches.has(refKey)) matches.set(refKey, identity);
+        }
+    }
+
+    return Array.from(matches.values());
+}
+
+export async function listContactIdentities(contactId: string): Promise<LeadIdentityRecord[]> {
+    const supabase = getServiceSupabase();
+    const { data, error } = await supabase
+        .from(IDENTITIES_TABLE)
+        .select('*')
+        .eq('contact_id', contactId)
+        .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(mapIdentityRow);
+}
+
+export async function upsertLeadIdentity(params: {
+    ref: LeadSourceRef;
+    contactId: string;
+    keys: LeadIdentityKeys;
+    matchedOn: IdentityMatchKey[];
+}): Promise<LeadIdentityRecord> {
+    const supabase = getServiceSupabase();
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+        .from(IDENTITIES_TABLE)
+        .upsert({
+            source_table: params.ref.table_name,
+            source_id: params.ref.id,
+            contact_id: params.contactId,
+            ...params.keys,
+            matched_on: params.matchedOn,
+            updated_at: now,
+        }, { onConflict: 'source_table,source_id' })
+        .select('*')
+        .single();
+
+    if (error) throw error;
+    return mapIdentityRow(data);
+}
+
+export async function moveIdentitiesToContact(fromContactId: string, toContactId: string): Promise<LeadSourceRef[]> {
+    const supabase = getServiceSupabase();
+    const { data, error } = await supabase
+        .from(IDENTITIES_TABLE)
+        .update({
+            contact_id: toContactId,
+            updated_at: new Date().toISOString(),
+        })
+        .eq('contact_id', fromContactId)
+        .select('source_table, source_id');
+
+    if (error) throw error;
+    return (data || []).map((row: IdentityRow) => ({ table_name: row.source_table, id: row.source_id }));
+}
+
+export async function createLeadContact(contactId: string, canonical: LeadSourceRef): Promise<LeadContactRecord> {
+    const supabase = getServiceSupabase();
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+        .from(CONTACTS_TABLE)
+        .insert({
+            contact_id: contactId,
+            canonical_source_table: canonical.table_name,
+            canonical_source_id: canonical.id,
+            merged_into_contact_id: null,
+            merge_history: [],
+            created_at: now,
+            updated_at: now,
+        })
+        .select('*')
+        .single();
+
+    if (error) throw error;
+    return mapContactRow(data);
+}
+
+async function getLeadContactRow(contactId: string): Promise<LeadContactRecord | null> {
+    const supabase = getServiceSupabase();
+    const { data, error } = await supabase
+        .from(CONTACTS_TABLE)
+        .select('*')
+        .eq('contact_id', contactId)
+        .maybeSingle();
+
+    if (error) throw error;
+    return data ? mapContactRow(data) : null;
+}
+
+/**
+ * Loads a contact, following `merged_into_contact_id` to the surviving contact.
+ */
+export async function getLeadContact(contactId: string): Promise<LeadContactRecord | null> {
+    let contact = await getLeadContactRow(contactId);
+
+    for (let hops = 0; contact?.merged_into_contact_id && hops < MAX_MERGE_REDIRECTS; hops++) {
+        contact = await getLeadContactRow(contact.merged_into_contact_id);
+    }
+
+    return contact;
+}
+
+export async function markLeadContactMerged(contactId: string, intoContactId: string): Promise<void> {
+    const supabase = getServiceSupabase();
+    const { error } = await supabase
+        .from(CONTACTS_TABLE)
+        .update({
+            merged_into_contact_id: intoContactId,
+            updated_at: new Date().toISOString(),
+        })
+        .eq('contact_id', contactId);
+
+    if (error) throw error;
+}
+
+export async function updateLeadContactAfterMerge(
+    contactId: string,
+    canonical: LeadSourceRef,
+    mergeHistory: LeadMergeHistoryEntry[]
+): Promise<LeadContactRecord> {
+    const supabase = getServiceSupabase();
+    const { data, error } = await supabase
+        .from(CONTACTS_TABLE)
+        .update({
+            canonical_source_table: canonical.table_name,
+            canonical_source_id: canonical.id,
+            merge_history: mergeHistory,
+            updated_at: new Date().toISOString(),
+        })
+        .eq('contact_id', contactId)
+        .select('*')
+        .single();
+
+    if (error) throw error;
+    return mapContactRow(data);
+}
+
+export async function fetchSourceLeads(refs: LeadSourceRef[]): Promise<Map<string, Record<string, any>>> {
+    const supabase = getServiceSupabase();
+    const leadsByRef = new Map<string, Record<string, any>>();
+    const idsByTable = new Map<string, string[]>();
+
+    for (const ref of refs) {
+        idsByTable.set(ref.table_name, [...(idsByTable.get(ref.table_name) || []), ref.id]);
+    }
+
+    for (const [tableName, ids] of Array.from(idsByTable.entries())) {
+        const { data, error } = await supabase
+            .from(tableName)
+            .select('*')
+            .in('id', ids);
+
+        if (error) throw error;
+        for (const row of data || []) {
+            leadsByRef.set(`${tableName}:${row.id}`, row);
+        }
+    }
+
+    return leadsByRef;
+}
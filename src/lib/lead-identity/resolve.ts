@@ -0,0 +1,387 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+    IDENTITY_KEY_COLUMNS,
+    IDENTITY_MATCH_PRIORITY,
+    buildLeadIdentityKeys,
+    hasIdentityKeys,
+    listMatchingKeys,
+} from './keys';
+import {
+    createLeadContact,
+    fetchSourceLeads,
+    findLeadIdentitiesByKeyValues,
+    findLeadIdentitiesByKeys,
+    getLeadContact,
+    getLeadIdentities,
+    isMissingIdentityStorageError,
+    listContactIdentities,
+    markLeadContactMerged,
+    moveIdentitiesToContact,
+    updateLeadContactAfterMerge,
+    upsertLeadIdentity,
+} from './persistence';
+import {
+    LeadContactRecord,
+    LeadDuplicate,
+    LeadIdentityKeys,
+    LeadIdentityRecord,
+    LeadMergeHistoryEntry,
+    LeadSourceRef,
+    LeadSourceTable,
+} from './types';
+
+// Fields copied from other members when the canonical lead is missing them.
+const CANONICAL_PROFILE_FIELDS = [
+    'name',
+    'first_name',
+    'last_name',
+    'email',
+    'email_status',
+    'linkedin_url',
+    'title',
+    'headline',
+    'seniority',
+    'primary_phone',
+    'phone_numbers',
+    'organization_id',
+    'organization_name',
+    'organization_domain',
+    'organization_industry',
+    'organization_size',
+    'city',
+    'state',
+    'country',
+];
+
+function refKey(ref: LeadSourceRef): string {
+    return `${ref.table_name}:${ref.id}`;
+}
+
+function keysChanged(identity: LeadIdentityRecord, keys: LeadIdentityKeys): boolean {
+    return identity.linkedin_key !== keys.linkedin_key
+        || identity.email_key !== keys.email_key
+        || identity.name_domain_key !== keys.name_domain_key;
+}
+
+// Keys the lead has now that its identity did not have (or had with another value).
+function gainedKeys(identity: LeadIdentityRecord, keys: LeadIdentityKeys): LeadIdentityKeys {
+    const gained: LeadIdentityKeys = { linkedin_key: null, email_key: null, name_domain_key: null };
+    for (const column of Object.values(IDENTITY_KEY_COLUMNS)) {
+        if (keys[column] && keys[column] !== identity[column]) gained[column] = keys[column];
+    }
+    return gained;
+}
+
+// Identities and contacts loaded once for a batch of rows, kept current as the rows resolve
+// so leads saved together can match each other.
+type IdentityLookup = {
+    identities: Map<string, LeadIdentityRecord>;
+    contacts: Map<string, LeadContactRecord | null>;
+};
+
+async function loadIdentityLookup(entries: Array<{ ref: LeadSourceRef; keys: LeadIdentityKeys }>): Promise<IdentityLookup> {
+    const identities = new Map<string, LeadIdentityRecord>();
+    const keysList = entries.map((entry) => entry.keys).filter(hasIdentityKeys);
+    const candidates = keysList.length > 0 ? await findLeadIdentitiesByKeyValues(keysList) : [];
+    const existing = await getLeadIdentities(entries.map((entry) => entry.ref));
+
+    for (const identity of [...candidates, ...existing]) identities.set(refKey(identity), identity);
+    return { identities, contacts: new Map() };
+}
+
+async function getCachedContact(lookup: IdentityLookup, contactId: string): Promise<LeadContactRecord | null> {
+    if (!lookup.contacts.has(contactId)) lookup.contacts.set(contactId, await getLeadContact(contactId));
+    return lookup.contacts.get(contactId) || null;
+}
+
+/**
+ * The contact of the strongest identity sharing one of `keys`, other than `ref` itself.
+ */
+async function findMatchingContact(
+    lookup: IdentityLookup,
+    ref: LeadSourceRef,
+    keys: LeadIdentityKeys
+): Promise<{ contact: LeadContactRecord; candidate: LeadIdentityRecord } | null> {
+    const seen = new Set<string>([refKey(ref)]);
+
+    for (const matchKey of IDENTITY_MATCH_PRIORITY) {
+        const column = IDENTITY_KEY_COLUMNS[matchKey];
+        if (!keys[column]) continue;
+
+        for (const candidate of Array.from(lookup.identities.values())) {
+            if (candidate[column] !== keys[column] || seen.has(refKey(candidate))) continue;
+            seen.add(refKey(candidate));
+
+            const contact = await getCachedContact(lookup, candidate.contact_id);
+            if (contact) return { contact, candidate };
+        }
+    }
+
+    return null;
+}
+
+async function updateLeadIdentityKeys(
+    ref: LeadSourceRef,
+    existing: LeadIdentityRecord,
+    keys: LeadIdentityKeys,
+    lookup: IdentityLookup
+): Promise<LeadIdentityRecord> {
+    // A lead that gains a key (a verified email, a LinkedIn URL) may now match another
+    // contact. A lead alone in its contact is linked there, as a new lead would be; a lead
+    // already grouped with others keeps its contact and is listed as a duplicate instead.
+    const gained = gainedKeys(existing, keys);
+    const match = hasIdentityKeys(gained) ? await findMatchingContact(lookup, ref, gained) : null;
+    const currentContact = await getCachedContact(lookup, existing.contact_id);
+    const currentContactId = currentContact?.contact_id || existing.contact_id;
+
+    if (match && match.contact.contact_id !== currentContactId) {
+        const members = await listContactIdentities(currentContactId);
+        if (members.every((member) => refKey(member) === refKey(ref))) {
+            const identity = await upsertLeadIdentity({
+                ref,
+                contactId: match.contact.contact_id,
+                keys,
+                matchedOn: listMatchingKeys(keys, match.candidate),
+            });
+            await markLeadContactMerged(currentContactId, match.contact.contact_id);
+            lookup.contacts.set(currentContactId, match.contact);
+            return identity;
+        }
+    }
+
+    return upsertLeadIdentity({ ref, contactId: existing.contact_id, keys, matchedOn: existing.matched_on });
+}
+
+async function resolveLeadIdentity(
+    ref: LeadSourceRef,
+    row: Record<string, any>,
+    lookup: IdentityLookup
+): Promise<LeadIdentityRecord | null> {
+    const keys = buildLeadIdentityKeys(row);
+    const existing = lookup.identities.get(refKey(ref)) || null;
+    if (existing && !keysChanged(existing, keys)) return existing;
+
+    let identity: LeadIdentityRecord;
+    if (existing) {
+        identity = await updateLeadIdentityKeys(ref, existing, keys, lookup);
+    } else {
+        // Identities are searched strongest key first, so the first match decides the contact.
+        const match = hasIdentityKeys(keys) ? await findMatchingContact(lookup, ref, keys) : null;
+        let contact = match?.contact || null;
+        if (!contact) {
+            contact = await createLeadContact(uuidv4(), ref);
+            lookup.contacts.set(contact.contact_id, contact);
+        }
+
+        identity = await upsertLeadIdentity({
+            ref,
+            contactId: contact.contact_id,
+            keys,
+            matchedOn: match ? listMatchingKeys(keys, match.candidate) : [],
+        });
+    }
+
+    lookup.identities.set(refKey(ref), identity);
+    return identity;
+}
+
+/**
+ * Links persisted lead rows to canonical contacts, looking up the identities of all rows
+ * at once. Identity resolution never fails the caller's write: storage problems are logged
+ * and the rows are left unlinked.
+ */
+export async function resolveLeadIdentities(
+    tableName: LeadSourceTable,
+    rows: Array<Record<string, any>>,
+    log: (msg: string, data?: any) => void
+): Promise<LeadIdentityRecord[]> {
+    const identities: LeadIdentityRecord[] = [];
+    const entries = rows
+        .map((row) => ({ ref: { table_name: tableName, id: typeof row?.id === 'string' ? row.id.trim() : '' }, row }))
+        .filter((entry) => entry.ref.id !== '');
+    if (entries.length === 0) return identities;
+
+    let lookup: IdentityLookup;
+    try {
+        lookup = await loadIdentityLookup(entries.map(({ ref, row }) => ({ ref, keys: buildLeadIdentityKeys(row) })));
+    } catch (error: any) {
+        log(
+            isMissingIdentityStorageError(error)
+                ? 'Lead identity storage is not available. Skipping identity resolution.'
+                : 'Warning: Failed to load lead identities.',
+            { table_name: tableName, error: error?.message || String(error) }
+        );
+        return identities;
+    }
+
+    for (const { ref, row } of entries) {
+        try {
+            const identity = await resolveLeadIdentity(ref, row, lookup);
+            if (identity) identities.push(identity);
+        } catch (error: any) {
+            if (isMissingIdentityStorageError(error)) {
+                log('Lead identity storage is not available. Skipping identity resolution.', {
+                    error: error?.message || String(error),
+                });
+                return identities;
+            }
+
+            log('Warning: Failed to resolve lead identity.', {
+                table_name: tableName,
+                id: ref.id,
+                error: error?.message || String(error),
+            });
+        }
+    }
+
+    return identities;
+}
+
+async function ensureLeadIdentity(ref: LeadSourceRef): Promise<{ identity: LeadIdentityRecord; lead: Record<string, any> } | null> {
+    const leads = await fetchSourceLeads([ref]);
+    const lead = leads.get(refKey(ref));
+    if (!lead) return null;
+
+    const lookup = await loadIdentityLookup([{ ref, keys: buildLeadIdentityKeys(lead) }]);
+    const identity = await resolveLeadIdentity(ref, lead, lookup);
+    return identity ? { identity, lead } : null;
+}
+
+/**
+ * Lists the other leads linked to the same contact plus unlinked leads that share an
+ * identity key with this one.
+ */
+export async function findLeadDuplicates(ref: LeadSourceRef): Promise<{
+    contact: LeadContactRecord | null;
+    identity: LeadIdentityRecord;
+    duplicates: LeadDuplicate[];
+} | null> {
+    const resolved = await ensureLeadIdentity(ref);
+    if (!resolved) return null;
+
+    const { identity } = resolved;
+    const contact = await getLeadContact(identity.contact_id);
+    const contactId = contact?.contact_id || identity.contact_id;
+    const linked = await listContactIdentities(contactId);
+    const candidates = await findLeadIdentitiesByKeys(identity);
+
+    const duplicatesByRef = new Map<string, LeadDuplicate>();
+    for (const member of linked) {
+        if (refKey(member) === refKey(ref)) continue;
+        duplicatesByRef.set(refKey(member), {
+            table_name: member.table_name,
+            id: member.id,
+            contact_id: member.contact_id,
+            linked: true,
+            matched_on: listMatchingKeys(identity, member),
+            lead: null,
+        });
+    }
+
+    for (const candidate of candidates) {
+        if (refKey(candidate) === refKey(ref) || duplicatesByRef.has(refKey(candidate))) continue;
+        duplicatesByRef.set(refKey(candidate), {
+            table_name: candidate.table_name,
+            id: candidate.id,
+            contact_id: candidate.contact_id,
+            linked: false,
+            matched_on: listMatchingKeys(identity, candidate),
+            lead: null,
+        });
+    }
+
+    const duplicates = Array.from(duplicatesByRef.values());
+    const leads = await fetchSourceLeads(duplicates);
+    for (const duplicate of duplicates) {
+        duplicate.lead = leads.get(refKey(duplicate)) || null;
+    }
+
+    return { contact, identity, duplicates };
+}
+
+export function buildCanonicalProfile(
+    canonical: Record<string, any> | null,
+    members: Array<Record<string, any>>
+): Record<string, any> {
+    const profile: Record<string, any> = { ...(canonical || {}) };
+
+    for (const field of CANONICAL_PROFILE_FIELDS) {
+        const current = profile[field];
+        const isEmpty = current === null || current === undefined || current === ''
+            || (Array.isArray(current) && current.length === 0);
+        if (!isEmpty) continue;
+
+        const donor = members.find((member) => {
+            const value = member?.[field];
+            return value !== null && value !== undefined && value !== ''
+                && !(Array.isArray(value) && value.length === 0);
+        });
+        if (donor) profile[field] = donor[field];
+    }
+
+    return profile;
+}
+
+/**
+ * Merges the contacts of `duplicates` into the contact of `primary`. The primary lead
+ * becomes the canonical record; source rows are never modified or deleted.
+ */
+export async function mergeLeads(params: {
+    primary: LeadSourceRef;
+    duplicates: LeadSourceRef[];
+    reason?: string | null;
+    mergedBy?: string | null;
+}): Promise<{
+    contact: LeadContactRecord;
+    members: LeadIdentityRecord[];
+    canonical_profile: Record<string, any>;
+    missing: LeadSourceRef[];
+} | null> {
+    const primary = await ensureLeadIdentity(params.primary);
+    if (!primary) return null;
+
+    const targetContact = await getLeadContact(primary.identity.contact_id);
+    const targetContactId = targetContact?.contact_id || primary.identity.contact_id;
+    const mergeHistory: LeadMergeHistoryEntry[] = [...(targetContact?.merge_history || [])];
+    const missing: LeadSourceRef[] = [];
+    const mergedContactIds = new Set<string>([targetContactId]);
+
+    for (const duplicateRef of params.duplicates) {
+        const duplicate = await ensureLeadIdentity(duplicateRef);
+        if (!duplicate) {
+            missing.push(duplicateRef);
+            continue;
+        }
+
+        const duplicateContact = await getLeadContact(duplicate.identity.contact_id);
+        const duplicateContactId = duplicateContact?.contact_id || duplicate.identity.contact_id;
+        if (mergedContactIds.has(duplicateContactId)) continue;
+        mergedContactIds.add(duplicateContactId);
+
+        const movedSources = await moveIdentitiesToContact(duplicateContactId, targetContactId);
+        await markLeadContactMerged(duplicateContactId, targetContactId);
+
+        mergeHistory.push({
+            at: new Date().toISOString(),
+            merged_contact_id: duplicateContactId,
+            moved_sources: movedSources,
+            reason: params.reason || null,
+            merged_by: params.mergedBy || null,
+        });
+    }
+
+    const contact = await updateLeadContactAfterMerge(targetContactId, params.primary, mergeHistory);
+    const members = await listContactIdentities(targetContactId);
+    const memberLeads = await fetchSourceLeads(members);
+    const otherLeads = members
+        .filter((member) => refKey(member) !== refKey(params.primary))
+        .map((member) => memberLeads.get(refKey(member)))
+        .filter((lead): lead is Record<string, any> => Boolean(lead));
+
+    return {
+        contact,
+        members,
+        canonical_profile: buildCanonicalProfile(primary.lead, otherLeads),
+        missing,
+    };
+}
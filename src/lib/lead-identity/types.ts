@@ -0,0 +1,48 @@
+import { ApolloWebhookTable } from '@/lib/apollo/webhook-signature';
+
+export type LeadSourceTable = ApolloWebhookTable;
+
+export type IdentityMatchKey = 'linkedin_url' | 'verified_email' | 'name_domain';
+
+export type LeadIdentityKeys = {
+    linkedin_key: string | null;
+    email_key: string | null;
+    name_domain_key: string | null;
+};
+
+export type LeadSourceRef = {
+    table_name: LeadSourceTable;
+    id: string;
+};
+
+export type LeadIdentityRecord = LeadSourceRef & LeadIdentityKeys & {
+    contact_id: string;
+    matched_on: IdentityMatchKey[];
+    created_at: string;
+    updated_at: string;
+};
+
+export type LeadMergeHistoryEntry = {
+    at: string;
+    merged_contact_id: string;
+    moved_sources: LeadSourceRef[];
+    reason: string | null;
+    merged_by: string | null;
+};
+
+export type LeadContactRecord = {
+    contact_id: string;
+    canonical_table_name: LeadSourceTable;
+    canonical_lead_id: string;
+    merged_into_contact_id: string | null;
+    merge_history: LeadMergeHistoryEntry[];
+    created_at: string;
+    updated_at: string;
+};
+
+export type LeadDuplicate = LeadSourceRef & {
+    contact_id: string;
+    linked: boolean;
+    matched_on: IdentityMatchKey[];
+    lead: Record<string, any> | null;
+};
@@ -0,0 +1,230 @@
+import { apolloFetch } from '@/lib/apollo/client';
+import { ApolloCompany, ApolloPerson, ApolloSearchPageHooks, PeopleSearchCursor } from './types';
+
+export async function fetchCompanies(
+    apiKey: string,
+    filters: {
+        company_keyword_tags?: string[];
+        company_location?: string[];
+        employee_ranges?: string[];
+        max_results: number;
+        start_page: number;
+        // Page quota for this call; unlimited when omitted.
+        max_pages?: number;
+    },
+    log: (msg: string, data?: any) => void,
+    hooks: ApolloSearchPageHooks<ApolloCompany> = {}
+): Promise<{ companies: ApolloCompany[], lastPageFetched: number, exhausted: boolean, pageLimitReached: boolean }> {
+    let companies: ApolloCompany[] = [];
+    let page = filters.start_page;
+    const perPage = 100;
+    const maxCompanies = filters.max_results || 100;
+    let lastPageFetched = page - 1;
+    let exhausted = false;
+    let pagesRequested = 0;
+    let pageLimitReached = false;
+
+    while (companies.length < maxCompanies) {
+        if (filters.max_pages !== undefined && pagesRequested >= filters.max_pages) {
+            log(`Reached search page quota (${filters.max_pages}) for companies search.`);
+            pageLimitReached = true;
+            break;
+        }
+        pagesRequested++;
+
+        try {
+            const params = new URLSearchParams();
+            params.set('page', String(page));
+            params.set('per_page', String(perPage));
+
+            for (const location of filters.company_location ?? []) {
+                params.append('organization_locations[]', location);
+            }
+
+            for (const keywordTag of filters.company_keyword_tags ?? []) {
+                params.append('q_organization_keyword_tags[]', keywordTag);
+            }
+
+            for (const employeeRange of filters.employee_ranges ?? []) {
+                params.append('organization_num_employees_ranges[]', employeeRange);
+            }
+
+            log(`Fetching Companies (Page ${page}) Params: ${params.toString()}`);
+
+            const response = await apolloFetch({
+                apiKey,
+                path: '/mixed_companies/search',
+                params,
+                idempotent: true,
+                label: 'companies search',
+                log,
+            });
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                log(`Apollo API Error (Companies): ${response.status} - ${errorText}`);
+                await hooks.onError?.(`Apollo API Error (Companies): ${response.status}`);
+                break;
+            }
+
+            const data = await response.json();
+            const newCompanies = data.organizations || [];
+
+            if (newCompanies.length === 0) {
+                log('No companies found in this page.');
+                exhausted = true;
+                break;
+            }
+
+            companies = [...companies, ...newCompanies];
+            lastPageFetched = page;
+            await hooks.onPage?.(page, newCompanies);
+            page++;
+
+            if (newCompanies.length < perPage) {
+                exhausted = true;
+                break;
+            }
+
+            // Safety break to avoid infinite loops, but allow fetching enough pages
+            if (page > filters.start_page + 10) break;
+
+        } catch (error: any) {
+            log('Error fetching companies:', error);
+            await hooks.onError?.(`Error fetching companies: ${error?.message || String(error)}`);
+            break;
+        }
+    }
+
+    return { companies: companies.slice(0, maxCompanies), lastPageFetched, exhausted, pageLimitReached };
+}
+
+/**
+ * Pages through Apollo people search for a set of organizations. The search starts at
+ * `start` (page plus people already consumed from it) and returns the cursor right after
+ * the last person returned, so a later run can continue where this one stopped.
+ */
+export async function fetchPeople(
+    apiKey: string,
+    organizationIds: string[],
+    filters: {
+        titles?: string[];
+        seniorities?: string[];
+        person_locations?: string[];
+        include_similar_titles?: boolean;
+        max_results: number;
+        // Page quota for this call; unlimited when omitted.
+        max_pages?: number;
+    },
+    log: (msg: string, data?: any) => void,
+    hooks: ApolloSearchPageHooks<ApolloPerson> = {},
+    start: Pick<PeopleSearchCursor, 'next_page' | 'offset'> = { next_page: 1, offset: 0 }
+): Promise<{ people: ApolloPerson[], cursor: PeopleSearchCursor, pageLimitReached: boolean }> {
+    let people: ApolloPerson[] = [];
+    let page = Math.max(1, start.next_page);
+    let offset = Math.max(0, start.offset);
+    const perPage = 100;
+    const maxPages = 500;
+    const cursor: PeopleSearchCursor = { next_page: page, offset, exhausted: false };
+    let pagesRequested = 0;
+    let pageLimitReached = false;
+
+    while (people.length < filters.max_results) {
+        // The cursor already points at the next page, so a later run can pick up from here.
+        if (filters.max_pages !== undefined && pagesRequested >= filters.max_pages) {
+            log(`Reached search page quota (${filters.max_pages}) for people search.`);
+            pageLimitReached = true;
+            break;
+        }
+        pagesRequested++;
+
+        try {
+            // Build query params (Apollo docs show arrays using [] in the URL)
+            const params = new URLSearchParams();
+            params.set("page", String(page));
+            params.set("per_page", String(perPage));
+
+            for (const id of organizationIds ?? []) params.append("organization_ids[]", id);
+            for (const t of filters.titles ?? []) params.append("person_titles[]", t);
+            for (const s of filters.seniorities ?? []) params.append("person_seniorities[]", s);
+            for (const location of filters.person_locations ?? []) params.append("person_locations[]", location);
+            if (typeof filters.include_similar_titles === 'boolean') {
+                params.set('include_similar_titles', String(filters.include_similar_titles));
+            }
+
+            // Keep a payload for logging/debug (even if request uses query params)
+            const debugPayload = {
+                organization_ids: organizationIds,
+                page,
+                per_page: perPage,
+                person_titles: filters.titles,
+                person_seniorities: filters.seniorities,
+                person_locations: filters.person_locations,
+                include_similar_titles: filters.include_similar_titles,
+            };
+
+            // Apollo only knows pages; people already consumed from this page are skipped
+            // locally below.
+            log(`Fetching People (Page ${page}, skipping ${offset}) Params: ${params.toString()}`, debugPayload);
+
+            // Apollo allows raw body, but official example uses query params with empty body
+            const response = await apolloFetch({
+                apiKey,
+                path: '/mixed_people/api_search',
+                params,
+                idempotent: true,
+                label: 'people search',
+                log,
+            });
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                log(`Apollo API Error (People): ${response.status} - ${errorText}`);
+                await hooks.onError?.(`Apollo API Error (People): ${response.status}`);
+                break;
+            }
+
+            const data = await response.json();
+            const pagePeople: ApolloPerson[] = data.people || [];
+            const newPeople = pagePeople.slice(offset, offset + filters.max_results - people.length);
+
+            if (pagePeople.length === 0 || (newPeople.length === 0 && pagePeople.length < perPage)) {
+                log("No people found in this page.");
+                cursor.exhausted = true;
+                break;
+            }
+
+            people = people.concat(newPeople);
+            await hooks.onPage?.(page, newPeople);
+
+            const consumed = offset + newPeople.length;
+            if (consumed < pagePeople.length) {
+                cursor.next_page = page;
+                cursor.offset = consumed;
+                break;
+            }
+
+            page++;
+            offset = 0;
+            cursor.next_page = page;
+            cursor.offset = 0;
+
+            if (pagePeople.length < perPage) {
+                cursor.exhausted = true;
+                break;
+            }
+            if (people.length >= filters.max_results) break;
+            if (page > maxPages) {
+                log(`Reached Apollo page limit (${maxPages}) for people search.`);
+                cursor.exhausted = true;
+                break;
+            }
+        } catch (error: any) {
+            log("Error fetching people:", error);
+            await hooks.onError?.(`Error fetching people: ${error?.message || String(error)}`);
+            break;
+        }
+    }
+
+    return { people, cursor, pageLimitReached };
+}
@@ -0,0 +1,458 @@
+import crypto from 'crypto';
+import { isMissingAccountStorageError, resolveAccountOwner, upsertAccounts } from '@/lib/accounts/persistence';
+import { resolveEmployeeRangeExpressions } from '@/lib/employee-ranges/parse';
+import { DEFAULT_EMPLOYEE_SEGMENTS } from '@/lib/employee-ranges/segments';
+import { EmployeeRangeResolution, EmployeeSegment } from '@/lib/employee-ranges/types';
+import { IcpProfile } from '@/lib/icp/types';
+import { expandIndustryCodes } from '@/lib/industries/classify';
+import { resolveLocations } from '@/lib/locations/resolve';
+import { LocationResolution } from '@/lib/locations/types';
+import { StoredOrganization } from '@/lib/organizations/persistence';
+import { fetchCompanies, fetchPeople } from './apollo-search';
+import {
+    applyOrganizationContextToLeads,
+    buildOrganizationFallbackMap,
+    hydrateOrganizationCandidates,
+    mergeApolloCompanyWithCandidate,
+    toOrganizationCandidate,
+} from './organizations';
+import {
+    normalizeDomain,
+    normalizeFlexibleStringArray,
+    normalizeOptionalNumber,
+    normalizeOptionalString,
+    normalizeStringArray,
+    parseBooleanFlag,
+    resolveEmployeeRanges,
+} from './normalize';
+import { saveToSupabase, summarizeSparseLeads } from './persistence';
+import {
+    SearchProgressState,
+    SearchProgressSummary,
+    createEmptySearchProgress,
+    createPeopleCursor,
+    finalizeSearchProgress,
+    loadSearchProgress,
+    peopleCursorKey,
+    saveSearchProgress,
+    summarizeSearchProgress,
+} from './search-progress';
+import {
+    ApolloCompany,
+    ApolloPerson,
+    LeadSearchRequest,
+    OrganizationCandidate,
+    OrganizationFallback,
+    OrganizationHydrationCache,
+    SparseLeadSummary,
+} from './types';
+
+const PEOPLE_CHUNK_SIZE = 25;
+
+export type BatchSearchPhase = 'companies' | 'hydration' | 'people' | 'persist';
+
+export type BatchLeadSearchFilters = {
+    company_keyword_tags?: string[];
+    company_location?: string[];
+    person_locations?: string[];
+    employee_ranges: string[];
+    titles: string[];
+    seniorities: string[];
+    include_similar_titles?: boolean;
+};
+
+export type BatchLeadSearchHooks = {
+    onPhase?: (phase: BatchSearchPhase) => Promise<void> | void;
+    onCompanyPage?: (event: { page: number; companies: ApolloCompany[] }) => Promise<void> | void;
+    onPeoplePage?: (event: { page: number; organization_ids: string[]; people_count: number }) => Promise<void> | void;
+    onLeadsSaved?: (leads: any[]) => Promise<void> | void;
+    onError?: (event: { phase: BatchSearchPhase; message: string }) => Promise<void> | void;
+    // After each company page batch and people chunk is saved; resuming from this state
+    // repeats none of the finished work.
+    onCheckpoint?: (progress: SearchProgressState) => Promise<void> | void;
+};
+
+export type BatchLeadSearchResult = {
+    filters_hash: string;
+    companies: ApolloCompany[];
+    // Companies upserted into `accounts`; 0 when the table is unavailable.
+    accounts_saved: number;
+    leads: any[];
+    sparse_lead_summary: SparseLeadSummary;
+    company_pages_fetched: number;
+    people_pages_fetched: number;
+    search_page_limit: number | null;
+    search_page_limit_reached: boolean;
+    search_progress: SearchProgressSummary | null;
+};
+
+/**
+ * Apollo keyword tags for the taxonomy codes in `industry_codes`. Codes outside the taxonomy
+ * are returned in `unknown` so routes can reject them.
+ */
+export function resolveBatchIndustryCodes(body: LeadSearchRequest): { keyword_tags: string[]; unknown: string[] } {
+    return expandIndustryCodes(normalizeFlexibleStringArray(body.industry_codes ?? body.industryCodes));
+}
+
+// A single string is one location: "Santiago, Chile" is not split on its comma.
+function normalizeLocationInputs(value: unknown): string[] {
+    if (typeof value === 'string') return value.trim() ? [value.trim()] : [];
+    return normalizeStringArray(value);
+}
+
+/**
+ * `company_location` and `person_locations` mapped through the location gazetteer to the form
+ * Apollo expects.
+ */
+export function resolveBatchLocations(body: LeadSearchRequest): {
+    organization: LocationResolution;
+    person: LocationResolution;
+} {
+    return {
+        organization: resolveLocations(normalizeLocationInputs(body.company_location)),
+        person: resolveLocations(normalizeLocationInputs(body.person_locations ?? body.personLocations)),
+    };
+}
+
+/**
+ * Apollo ranges for the size expressions of a request ("50-200", "1k+", "SMB"), matching
+ * segment names against `segments`.
+ */
+export function resolveBatchEmployeeRanges(
+    body: LeadSearchRequest,
+    segments: EmployeeSegment[] = DEFAULT_EMPLOYEE_SEGMENTS
+): EmployeeRangeResolution {
+    return resolveEmployeeRangeExpressions(resolveEmployeeRanges(body), segments);
+}
+
+/**
+ * Normalizes the batch filters of a lead-search request. The result feeds
+ * `computeFiltersHash`, so changes here change every stored hash.
+ */
+export function resolveBatchLeadSearchFilters(
+    body: LeadSearchRequest,
+    employeeSegments: EmployeeSegment[] = DEFAULT_EMPLOYEE_SEGMENTS
+): BatchLeadSearchFilters {
+    const normalizedKeywordTags = (body.company_keyword_tags && body.company_keyword_tags.length > 0
+        ? body.company_keyword_tags
+        : body.industry_keywords
+    )
+        ?.map((tag) => tag?.trim())
+        .filter((tag): tag is string => Boolean(tag));
+    const industryKeywordTags = resolveBatchIndustryCodes(body).keyword_tags;
+    const keywordTags = industryKeywordTags.length > 0
+        ? Array.from(new Set([...(normalizedKeywordTags || []), ...industryKeywordTags]))
+        : normalizedKeywordTags;
+
+    const locations = resolveBatchLocations(body);
+
+    return {
+        company_keyword_tags: keywordTags,
+        company_location: body.company_location ? locations.organization.locations : undefined,
+        // Omitted rather than empty so hashes of searches without it do not change.
+        person_locations: locations.person.locations.length > 0 ? locations.person.locations : undefined,
+        employee_ranges: resolveBatchEmployeeRanges(body, employeeSegments).ranges,
+        titles: normalizeStringArray(body.titles),
+        seniorities: normalizeStringArray(body.seniorities),
+        include_similar_titles: parseBooleanFlag(body.include_similar_titles ?? body.includeSimilarTitles) ?? undefined,
+    };
+}
+
+export function computeFiltersHash(filters: BatchLeadSearchFilters): string {
+    const filtersForHash = {
+        search_mode: 'batch',
+        company_keyword_tags: filters.company_keyword_tags,
+        company_location: filters.company_location,
+        person_locations: filters.person_locations,
+        employee_ranges: filters.employee_ranges,
+        titles: filters.titles,
+        seniorities: filters.seniorities,
+        include_similar_titles: filters.include_similar_titles,
+    };
+
+    return crypto
+        .createHash('md5')
+        .update(JSON.stringify(filtersForHash))
+        .digest('hex');
+}
+
+/**
+ * Runs the batch pipeline: company search, organization hydration, people search per
+ * organization chunk and persistence. Leads are saved chunk by chunk so callers can
+ * observe partial results through the hooks.
+ *
+ * With `resumeSearchProgress`, organizations left unfinished by earlier runs are searched
+ * first from their saved people cursor, and new company pages are only fetched when they
+ * cannot fill `maxResults` on their own.
+ *
+ * `initialSearchProgress` continues an interrupted run from its last `onCheckpoint` state:
+ * pending people chunks first, then company pages after the last one fetched.
+ *
+ * `maxSearchPages` caps the company and people pages requested in this run (the
+ * `max_search_pages_per_run` quota); the run stops early and can be resumed later.
+ *
+ * Hydrated companies are upserted into `accounts` for `orgId` (or `userId` without one),
+ * tagged with the batch run and filters hash.
+ */
+export async function runBatchLeadSearch(params: {
+    apiKey: string;
+    dbClient: any;
+    userId: string;
+    orgId?: string | null;
+    batchRunId: string;
+    filters: BatchLeadSearchFilters;
+    maxResults: number;
+    companiesOnly: boolean;
+    resumeSearchProgress: boolean;
+    icpProfile?: IcpProfile | null;
+    maxSearchPages?: number | null;
+    // Checkpoint of an interrupted run of the same search; takes precedence over the saved
+    // search progress.
+    initialSearchProgress?: SearchProgressState | null;
+    log: (msg: string, data?: any) => void;
+    hooks?: BatchLeadSearchHooks;
+}): Promise<BatchLeadSearchResult> {
+    const { apiKey, dbClient, userId, batchRunId, filters, maxResults, log } = params;
+    const hooks = params.hooks || {};
+    const organizationHydrationCache: OrganizationHydrationCache = {
+        byDomain: new Map<string, OrganizationCandidate | null>(),
+        byId: new Map<string, StoredOrganization | null>(),
+    };
+
+    const filtersHash = computeFiltersHash(filters);
+    log(`Filters Hash: ${filtersHash}`);
+
+    let progress = createEmptySearchProgress();
+    if (params.initialSearchProgress) {
+        progress = params.initialSearchProgress;
+        log('Continuing from the saved checkpoint', summarizeSearchProgress(progress));
+    } else if (params.resumeSearchProgress) {
+        progress = await loadSearchProgress(dbClient, userId, filtersHash, log);
+    } else {
+        log('Search progress resume disabled. Starting from Company Page 1');
+    }
+
+    const result: BatchLeadSearchResult = {
+        filters_hash: filtersHash,
+        companies: [],
+        accounts_saved: 0,
+        leads: [],
+        sparse_lead_summary: summarizeSparseLeads([]),
+        company_pages_fetched: 0,
+        people_pages_fetched: 0,
+        search_page_limit: params.maxSearchPages ?? null,
+        search_page_limit_reached: false,
+        search_progress: params.resumeSearchProgress ? summarizeSearchProgress(progress) : null,
+    };
+
+    const remainingSearchPages = (): number | undefined => {
+        if (result.search_page_limit === null) return undefined;
+        return Math.max(0, result.search_page_limit - result.company_pages_fetched - result.people_pages_fetched);
+    };
+
+    if (params.resumeSearchProgress && progress.exhausted) {
+        log('Search progress is exhausted for these filters. Nothing left to fetch.');
+        return result;
+    }
+
+    let foundLeadsCount = 0;
+
+    const searchPeopleForCursors = async (
+        cursorKeys: string[],
+        candidatesById: Map<string, OrganizationCandidate>
+    ) => {
+        for (const cursorKey of cursorKeys) {
+            if (foundLeadsCount >= maxResults) break;
+            if (remainingSearchPages() === 0) {
+                result.search_page_limit_reached = true;
+                break;
+            }
+
+            await hooks.onPhase?.('people');
+            const startCursor = progress.people_cursors[cursorKey];
+            const chunk = startCursor.organization_ids;
+            const remaining = maxResults - foundLeadsCount;
+            const organizationsById = new Map<string, OrganizationFallback>();
+            for (const organizationId of chunk) {
+                const organization = startCursor.organizations[organizationId];
+                if (organization) organizationsById.set(organizationId, organization);
+            }
+            const chunkOrganizations = chunk
+                .map((organizationId) => candidatesById.get(organizationId))
+                .filter((candidate): candidate is OrganizationCandidate => Boolean(candidate));
+            const { people: leads, cursor, pageLimitReached } = await fetchPeople(apiKey, chunk, {
+                titles: filters.titles,
+                seniorities: filters.seniorities,
+                person_locations: filters.person_locations,
+                include_similar_titles: filters.include_similar_titles,
+                max_results: remaining,
+                max_pages: remainingSearchPages(),
+            }, log, {
+                onPage: async (page, people) => {
+                    result.people_pages_fetched++;
+                    await hooks.onPeoplePage?.({ page, organization_ids: chunk, people_count: people.length });
+                },
+                onError: (message) => hooks.onError?.({ phase: 'people', message }),
+            }, startCursor);
+            if (pageLimitReached) result.search_page_limit_reached = true;
+
+            progress.people_cursors[cursorKey] = { ...startCursor, ...cursor };
+
+            if (leads.length > 0) {
+                foundLeadsCount += leads.length;
+
+                // Step 4: Persist to Supabase
+                await hooks.onPhase?.('persist');
+                const savedLeads = await saveToSupabase(
+                    dbClient,
+                    applyOrganizationContextToLeads(leads, chunkOrganizations),
+                    batchRunId,
+                    log,
+                    { organizationsById, icpProfile: params.icpProfile, orgId: params.orgId }
+                );
+                result.leads.push(...savedLeads);
+                await hooks.onLeadsSaved?.(savedLeads);
+            }
+
+            await hooks.onCheckpoint?.(progress);
+        }
+    };
+
+    // Step 0: Continue organization sets whose people were not exhausted by earlier runs
+    const pendingCursorKeys = Object.keys(progress.people_cursors)
+        .filter((cursorKey) => !progress.people_cursors[cursorKey].exhausted);
+    if (!params.companiesOnly && pendingCursorKeys.length > 0) {
+        log(`Resuming people search for ${summarizeSearchProgress(progress).pending_organizations} organizations from previous runs.`);
+        await searchPeopleForCursors(pendingCursorKeys, new Map());
+    }
+
+    let shouldFetchCompanies = !progress.companies_exhausted
+        && (params.companiesOnly || foundLeadsCount < maxResults);
+    if (shouldFetchCompanies && remainingSearchPages() === 0) {
+        result.search_page_limit_reached = true;
+        shouldFetchCompanies = false;
+    }
+
+    if (shouldFetchCompanies) {
+        const startPage = progress.last_company_page + 1;
+
+        // Step 1: Search Companies
+        await hooks.onPhase?.('companies');
+        const {
+            companies: rawCompanies,
+            lastPageFetched,
+            exhausted: companiesExhausted,
+            pageLimitReached: companyPageLimitReached,
+        } = await fetchCompanies(apiKey, {
+            company_keyword_tags: filters.company_keyword_tags,
+            company_location: filters.company_location,
+            employee_ranges: filters.employee_ranges,
+            max_results: maxResults,
+            start_page: startPage,
+            max_pages: remainingSearchPages(),
+        }, log, {
+            onPage: async (page, companies) => {
+                result.company_pages_fetched++;
+                await hooks.onCompanyPage?.({ page, companies });
+            },
+            onError: (message) => hooks.onError?.({ phase: 'companies', message }),
+        });
+
+        if (lastPageFetched >= startPage) {
+            progress.last_company_page = lastPageFetched;
+        }
+        progress.companies_exhausted = companiesExhausted;
+        if (companyPageLimitReached) result.search_page_limit_reached = true;
+
+        await hooks.onPhase?.('hydration');
+        const companyCandidates = rawCompanies
+            .map((company) => toOrganizationCandidate(company, company.name || ''))
+            .filter((candidate: OrganizationCandidate | null): candidate is OrganizationCandidate => Boolean(candidate));
+        const hydratedCompanyCandidates = await hydrateOrganizationCandidates(
+            apiKey,
+            companyCandidates,
+            log,
+            organizationHydrationCache
+        );
+        const hydratedCompanyCandidatesById = new Map(
+            hydratedCompanyCandidates.map((candidate) => [candidate.id, candidate])
+        );
+        const companies = rawCompanies.map((company) => {
+            const hydratedCandidate = hydratedCompanyCandidatesById.get(company.id);
+            return hydratedCandidate
+                ? mergeApolloCompanyWithCandidate(company, hydratedCandidate)
+                : company;
+        });
+        result.companies = companies;
+
+        try {
+            result.accounts_saved = await upsertAccounts(
+                resolveAccountOwner({ userId, orgId: params.orgId }),
+                companies,
+                { batchRunId, filtersHash }
+            );
+        } catch (error: any) {
+            // Accounts are a by-product of the search and never fail it.
+            log(
+                isMissingAccountStorageError(error)
+                    ? 'Warning: accounts table unavailable. Run 016_create_accounts.sql to persist batch companies.'
+                    : 'Warning: Failed to save accounts.',
+                { error: error?.message || String(error) }
+            );
+        }
+
+        log(`Found ${companies.length} companies.`);
+        log('Hydrated batch organization metadata:', {
+            companies_with_domain: companies.filter((company) => normalizeDomain(company.primary_domain || company.website_url || '')).length,
+            companies_with_industry: companies.filter((company) => normalizeOptionalString(company.industry)).length,
+            companies_with_size: companies.filter((company) => normalizeOptionalNumber(company.estimated_num_employees)).length,
+        });
+
+        // Step 2: Extract Organization IDs
+        const trackedOrgIds = new Set(
+            Object.values(progress.people_cursors).flatMap((cursor) => cursor.organization_ids)
+        );
+        const orgIds = Array.from(
+            new Set(
+                companies
+                    .map((c) => c.id)
+                    .filter((id) => id && id.trim() !== '' && !trackedOrgIds.has(id))
+            )
+        );
+        log(`Extracted ${orgIds.length} unique organization IDs.`);
+
+        const organizationsById = buildOrganizationFallbackMap(companies);
+
+        // New organizations are chunked once and each chunk gets its own open cursor, so the
+        // ones not reached in this run are picked up as the same set by the next resumed run.
+        const cursorKeys: string[] = [];
+        for (let i = 0; i < orgIds.length; i += PEOPLE_CHUNK_SIZE) {
+            const cursor = createPeopleCursor(orgIds.slice(i, i + PEOPLE_CHUNK_SIZE), organizationsById);
+            const cursorKey = peopleCursorKey(cursor.organization_ids);
+            progress.people_cursors[cursorKey] = cursor;
+            cursorKeys.push(cursorKey);
+        }
+
+        await hooks.onCheckpoint?.(progress);
+
+        // Step 3: Search People, persisting each chunk as it arrives
+        if (!params.companiesOnly) {
+            await searchPeopleForCursors(cursorKeys, hydratedCompanyCandidatesById);
+        }
+    }
+
+    log(`Found ${foundLeadsCount} leads.`);
+
+    if (params.resumeSearchProgress) {
+        progress = finalizeSearchProgress(progress);
+        await saveSearchProgress(dbClient, userId, filtersHash, progress, log);
+        result.search_progress = summarizeSearchProgress(progress);
+    }
+
+    result.sparse_lead_summary = summarizeSparseLeads(result.leads);
+    if (result.sparse_lead_summary.warnings.length > 0) {
+        log('Sparse lead warnings', result.sparse_lead_summary);
+    }
+
+    return result;
+}
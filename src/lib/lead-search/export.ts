@@ -0,0 +1,273 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { fetchLeadPageByBatchRunId } from './persistence';
+import { buildXlsxWorkbook } from './xlsx';
+
+export type LeadExportFormat = 'csv' | 'xlsx' | 'jsonl';
+export type LeadExportHeaderPreset = 'default' | 'hubspot' | 'salesforce' | 'pipedrive';
+
+export type LeadExportColumn = {
+    key: string;
+    header: string;
+};
+
+export const LEAD_EXPORT_FORMATS: LeadExportFormat[] = ['csv', 'xlsx', 'jsonl'];
+export const LEAD_EXPORT_PAGE_SIZE = 1000;
+
+// Every column saveToSupabase writes to people_search_leads, in export order.
+export const LEAD_EXPORT_COLUMNS = [
+    'id',
+    'name',
+    'first_name',
+    'last_name',
+    'email',
+    'email_status',
+    'email_quality',
+    'linkedin_url',
+    'title',
+    'headline',
+    'seniority',
+    'departments',
+    'photo_url',
+    'city',
+    'state',
+    'country',
+    'primary_phone',
+    'phone_numbers',
+    'org_name',
+    'organization_id',
+    'organization_name',
+    'organization_website',
+    'organization_domain',
+    'organization_industry',
+    'organization_size',
+    'industry',
+    'industry_code',
+    'industry_path',
+    'enrichment_status',
+    'icp_score',
+    'icp_reasons',
+    'icp_profile_id',
+    'page',
+    'batch_run_id',
+    'updated_at',
+];
+
+// Column headers as the CRM import templates name them. A preset also picks the default
+// column set when the caller does not select columns.
+const HEADER_PRESETS: Record<Exclude<LeadExportHeaderPreset, 'default'>, Record<string, string>> = {
+    hubspot: {
+        first_name: 'First Name',
+        last_name: 'Last Name',
+        email: 'Email',
+        title: 'Job Title',
+        primary_phone: 'Phone Number',
+        linkedin_url: 'LinkedIn URL',
+        city: 'City',
+        state: 'State/Region',
+        country: 'Country/Region',
+        organization_name: 'Company Name',
+        organization_domain: 'Company Domain Name',
+        organization_website: 'Website URL',
+        organization_industry: 'Industry',
+        organization_size: 'Number of Employees',
+    },
+    salesforce: {
+        first_name: 'First Name',
+        last_name: 'Last Name',
+        email: 'Email',
+        title: 'Title',
+        primary_phone: 'Phone',
+        city: 'City',
+        state: 'State/Province',
+        country: 'Country',
+        organization_name: 'Company',
+        organization_website: 'Website',
+        organization_industry: 'Industry',
+        organization_size: 'No. of Employees',
+        enrichment_status: 'Lead Status',
+    },
+    pipedrive: {
+        name: 'Person - Name',
+        first_name: 'Person - First name',
+        last_name: 'Person - Last name',
+        email: 'Person - Email',
+        primary_phone: 'Person - Phone',
+        title: 'Person - Job title',
+        linkedin_url: 'Person - LinkedIn',
+        organization_name: 'Organization - Name',
+        organization_website: 'Organization - Website',
+        organization_industry: 'Organization - Industry',
+        organization_size: 'Organization - Number of employees',
+    },
+};
+
+export function isLeadExportFormat(value: unknown): value is LeadExportFormat {
+    return typeof value === 'string' && (LEAD_EXPORT_FORMATS as string[]).includes(value);
+}
+
+export function isLeadExportHeaderPreset(value: unknown): value is LeadExportHeaderPreset {
+    return value === 'default' || (typeof value === 'string' && value in HEADER_PRESETS);
+}
+
+/**
+ * Resolves the exported columns and their headers. Unknown column names are returned in
+ * `unknown` so the route can reject them instead of exporting empty columns.
+ */
+export function resolveLeadExportColumns(params: {
+    columns: string[];
+    preset: LeadExportHeaderPreset;
+    headers?: Record<string, string>;
+}): { columns: LeadExportColumn[]; unknown: string[] } {
+    const presetHeaders = params.preset === 'default' ? {} : HEADER_PRESETS[params.preset];
+    const requested = params.columns.length > 0
+        ? params.columns
+        : params.preset === 'default'
+            ? LEAD_EXPORT_COLUMNS
+            : Object.keys(presetHeaders);
+
+    const unknown = requested.filter((key) => !LEAD_EXPORT_COLUMNS.includes(key));
+    const columns = Array.from(new Set(requested))
+        .filter((key) => LEAD_EXPORT_COLUMNS.includes(key))
+        .map((key) => ({
+            key,
+            header: params.headers?.[key]?.trim() || presetHeaders[key] || key,
+        }));
+
+    return { columns, unknown };
+}
+
+function formatPhoneNumbers(value: unknown): string {
+    if (!Array.isArray(value)) return '';
+
+    return value
+        .map((phone: any) => {
+            if (typeof phone === 'string') return phone.trim();
+            return (phone?.sanitized_number || phone?.number || phone?.raw_number || '').toString().trim();
+        })
+        .filter(Boolean)
+        .join('; ');
+}
+
+function formatCellValue(key: string, value: unknown): string | number | null {
+    if (value === null || value === undefined) return null;
+    if (key === 'phone_numbers') return formatPhoneNumbers(value) || null;
+    if ((key === 'departments' || key === 'industry_path') && Array.isArray(value)) return value.join('; ');
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value === 'boolean') return value ? 'true' : 'false';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+}
+
+// E.164 phones ("+56912345678", or several joined with "; ") start with "+" but hold no formula.
+const PHONE_CELL_PATTERN = /^\+\d[\d\s;+()\-.]*$/;
+
+export function escapeCsvCell(value: string | number | null): string {
+    if (value === null) return '';
+    if (typeof value === 'number') return String(value);
+
+    // Spreadsheet apps evaluate cells starting with these characters as formulas.
+    const isFormula = /^[=+\-@\t\r]/.test(value) && !PHONE_CELL_PATTERN.test(value);
+    const safeValue = isFormula ? `'${value}` : value;
+    return /[",\r\n]/.test(safeValue) ? `"${safeValue.replace(/"/g, '""')}"` : safeValue;
+}
+
+export function buildLeadExportRow(lead: Record<string, any>, columns: LeadExportColumn[]): Array<string | number | null> {
+    return columns.map((column) => formatCellValue(column.key, lead?.[column.key]));
+}
+
+export function buildLeadExportCsvLine(values: Array<string | number | null>): string {
+    return `${values.map(escapeCsvCell).join(',')}\r\n`;
+}
+
+export function buildLeadExportJsonLine(lead: Record<string, any>, columns: LeadExportColumn[]): string {
+    const record: Record<string, unknown> = {};
+    for (const column of columns) {
+        record[column.header] = lead?.[column.key] ?? null;
+    }
+    return `${JSON.stringify(record)}\n`;
+}
+
+export async function* iterateBatchRunLeads(dbClient: SupabaseClient, batchRunId: string, orgId: string): AsyncGenerator<any[]> {
+    for (let offset = 0; ; offset += LEAD_EXPORT_PAGE_SIZE) {
+        const page = await fetchLeadPageByBatchRunId(dbClient, batchRunId, orgId, offset, LEAD_EXPORT_PAGE_SIZE);
+        if (page.length > 0) yield page;
+        if (page.length < LEAD_EXPORT_PAGE_SIZE) return;
+    }
+}
+
+/**
+ * Streams a batch run as CSV or JSONL, one Supabase page at a time. The first page is read
+ * before the response starts so a failing query still surfaces as a normal error response.
+ */
+export async function createLeadExportStream(params: {
+    dbClient: SupabaseClient;
+    batchRunId: string;
+    orgId: string;
+    format: Exclude<LeadExportFormat, 'xlsx'>;
+    columns: LeadExportColumn[];
+    log: (msg: string, data?: any) => void;
+}): Promise<{ stream: ReadableStream<Uint8Array>; empty: boolean }> {
+    const encoder = new TextEncoder();
+    const pages = iterateBatchRunLeads(params.dbClient, params.batchRunId, params.orgId);
+    const first = await pages.next();
+
+    const encodePage = (leads: any[]) => leads
+        .map((lead) => params.format === 'csv'
+            ? buildLeadExportCsvLine(buildLeadExportRow(lead, params.columns))
+            : buildLeadExportJsonLine(lead, params.columns))
+        .join('');
+
+    let headerSent = params.format !== 'csv';
+    let firstSent = false;
+
+    // Pages are pulled on demand so a slow client never makes the whole run sit in memory.
+    const stream = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            try {
+                if (!headerSent) {
+                    headerSent = true;
+                    // BOM so Excel opens accented names as UTF-8.
+                    controller.enqueue(encoder.encode(`\uFEFF${buildLeadExportCsvLine(params.columns.map((column) => column.header))}`));
+                    return;
+                }
+
+                const next = firstSent ? await pages.next() : first;
+                firstSent = true;
+                if (next.done) {
+                    controller.close();
+                    return;
+                }
+
+                controller.enqueue(encoder.encode(encodePage(next.value)));
+            } catch (error: any) {
+                params.log('Lead export stream failed.', {
+                    batch_run_id: params.batchRunId,
+                    error: error?.message || String(error),
+                });
+                controller.error(error);
+            }
+        },
+        async cancel() {
+            await pages.return(undefined);
+        },
+    });
+
+    return { stream, empty: Boolean(first.done) };
+}
+
+export async function buildLeadExportWorkbook(params: {
+    dbClient: SupabaseClient;
+    batchRunId: string;
+    orgId: string;
+    columns: LeadExportColumn[];
+}): Promise<{ workbook: Buffer; rowCount: number }> {
+    const rows: Array<Array<string | number | null>> = [params.columns.map((column) => column.header)];
+
+    for await (const page of iterateBatchRunLeads(params.dbClient, params.batchRunId, params.orgId)) {
+        for (const lead of page) {
+            rows.push(buildLeadExportRow(lead, params.columns));
+        }
+    }
+
+    return { workbook: buildXlsxWorkbook('Leads', rows), rowCount: rows.length - 1 };
+}
@@ -0,0 +1,279 @@
+import { getServiceSupabase } from '@/lib/supabase';
+import { BatchLeadSearchFilters, BatchSearchPhase } from './batch';
+import { SearchProgressState, parseSearchProgressState } from './search-progress';
+
+const TABLE_NAME = 'lead_search_jobs';
+const DEFAULT_JOB_TIMEOUT_MINUTES = 15;
+
+// Error message recorded each time a job is claimed again after its worker stopped.
+export const LEAD_SEARCH_JOB_INTERRUPTED_MESSAGE = 'Worker stopped before finishing; resumed by another worker.';
+
+export type LeadSearchJobStatus = 'queued' | 'in_progress' | 'completed' | 'failed';
+
+export type LeadSearchJobPhase = 'queued' | BatchSearchPhase | 'done';
+
+export type LeadSearchJobError = {
+    phase: LeadSearchJobPhase;
+    message: string;
+    at: string;
+};
+
+export type LeadSearchJobRequest = {
+    user_id: string;
+    filters: BatchLeadSearchFilters;
+    max_results: number;
+    companies_only: boolean;
+    resume_search_progress: boolean;
+    org_id?: string | null;
+    icp_profile_id?: string | null;
+};
+
+export type LeadSearchJobProgress = {
+    phase: LeadSearchJobPhase;
+    company_pages_fetched: number;
+    people_pages_fetched: number;
+    companies_found: number;
+    leads_saved: number;
+    errors: LeadSearchJobError[];
+};
+
+export type LeadSearchJobRecord = LeadSearchJobProgress & {
+    job_id: string;
+    user_id: string;
+    status: LeadSearchJobStatus;
+    batch_run_id: string;
+    filters_hash: string | null;
+    request_payload: LeadSearchJobRequest;
+    result: Record<string, any> | null;
+    // Search state after the last finished company page or people chunk, so an interrupted
+    // job resumes from there. Null before the first checkpoint or without 021.
+    search_checkpoint: SearchProgressState | null;
+    created_at: string;
+    updated_at: string;
+    started_at: string | null;
+    completed_at: string | null;
+};
+
+type JobRow = Record<string, any>;
+
+let checkpointWarningLogged = false;
+
+function mapRow(row: JobRow): LeadSearchJobRecord {
+    return {
+        job_id: row.job_id,
+        user_id: row.user_id,
+        status: row.status,
+        phase: row.phase,
+        batch_run_id: row.batch_run_id,
+        filters_hash: row.filters_hash ?? null,
+        request_payload: row.request_payload,
+        company_pages_fetched: Number(row.company_pages_fetched) || 0,
+        people_pages_fetched: Number(row.people_pages_fetched) || 0,
+        companies_found: Number(row.companies_found) || 0,
+        leads_saved: Number(row.leads_saved) || 0,
+        errors: Array.isArray(row.errors) ? row.errors : [],
+        result: row.result ?? null,
+        search_checkpoint: parseSearchProgressState(row.search_checkpoint),
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+        started_at: row.started_at ?? null,
+        completed_at: row.completed_at ?? null,
+    };
+}
+
+export async function createLeadSearchJob(params: {
+    jobId: string;
+    batchRunId: string;
+    filtersHash: string;
+    request: LeadSearchJobRequest;
+}): Promise<LeadSearchJobRecord> {
+    const supabase = getServiceSupabase();
+    const now = new Date().toISOString();
+
+    const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .insert({
+            job_id: params.jobId,
+            user_id: params.request.user_id,
+            status: 'queued',
+            phase: 'queued',
+            batch_run_id: params.batchRunId,
+            filters_hash: params.filtersHash,
+            request_payload: params.request,
+            company_pages_fetched: 0,
+            people_pages_fetched: 0,
+            companies_found: 0,
+            leads_saved: 0,
+            errors: [],
+            result: null,
+            created_at: now,
+            updated_at: now,
+            started_at: null,
+            completed_at: null,
+        })
+        .select('*')
+        .single();
+
+    if (error) throw error;
+    return mapRow(data);
+}
+
+export async function getLeadSearchJob(jobId: string): Promise<LeadSearchJobRecord | null> {
+    const supabase = getServiceSupabase();
+    const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .select('*')
+        .eq('job_id', jobId)
+        .maybeSingle();
+
+    if (error) throw error;
+    return data ? mapRow(data) : null;
+}
+
+/**
+ * How long an `in_progress` job may go without a progress update before another worker may
+ * claim it again.
+ */
+export function resolveLeadSearchJobTimeoutMs(): number {
+    const minutes = Number(process.env.LEAD_SEARCH_JOB_TIMEOUT_MINUTES);
+    return (Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_JOB_TIMEOUT_MINUTES) * 60 * 1000;
+}
+
+function claimableJobFilter(): string {
+    const cutoff = new Date(Date.now() - resolveLeadSearchJobTimeoutMs()).toISOString();
+    return `status.eq.queued,and(status.eq.in_progress,updated_at.lt.${cutoff})`;
+}
+
+/**
+ * Queued jobs, and `in_progress` jobs whose worker stopped updating them (timed out or
+ * killed), can be claimed.
+ */
+export function isLeadSearchJobClaimable(job: Pick<LeadSearchJobRecord, 'status' | 'updated_at'>): boolean {
+    if (job.status === 'queued') return true;
+    if (job.status !== 'in_progress') return false;
+
+    const updatedAt = Date.parse(job.updated_at);
+    return Number.isFinite(updatedAt) && updatedAt < Date.now() - resolveLeadSearchJobTimeoutMs();
+}
+
+export function countLeadSearchJobInterruptions(job: Pick<LeadSearchJobRecord, 'errors'>): number {
+    return job.errors.filter((error) => error.message === LEAD_SEARCH_JOB_INTERRUPTED_MESSAGE).length;
+}
+
+export async function getNextQueuedLeadSearchJob(): Promise<LeadSearchJobRecord | null> {
+    const supabase = getServiceSupabase();
+    const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .select('*')
+        .or(claimableJobFilter())
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+    if (error) throw error;
+    return data ? mapRow(data) : null;
+}
+
+/**
+ * Moves a claimable job to `in_progress`. Returns null when another worker claimed it first.
+ */
+export async function claimLeadSearchJob(job: LeadSearchJobRecord): Promise<LeadSearchJobRecord | null> {
+    const supabase = getServiceSupabase();
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .update({
+            status: 'in_progress',
+            // A resumed job keeps the start of its first run.
+            started_at: job.started_at || now,
+            updated_at: now,
+        })
+        .eq('job_id', job.job_id)
+        .or(claimableJobFilter())
+        .select('*')
+        .maybeSingle();
+
+    if (error) throw error;
+    return data ? mapRow(data) : null;
+}
+
+export async function updateLeadSearchJobProgress(jobId: string, progress: LeadSearchJobProgress): Promise<void> {
+    const supabase = getServiceSupabase();
+    const { error } = await supabase
+        .from(TABLE_NAME)
+        .update({
+            ...progress,
+            updated_at: new Date().toISOString(),
+        })
+        .eq('job_id', jobId);
+
+    if (error) throw error;
+}
+
+/**
+ * Saves the search state an interrupted job resumes from. Without 021 jobs start over when
+ * they are claimed again, so this only warns.
+ */
+export async function saveLeadSearchJobCheckpoint(
+    jobId: string,
+    checkpoint: SearchProgressState,
+    log: (msg: string, data?: any) => void
+): Promise<void> {
+    const supabase = getServiceSupabase();
+    const { error } = await supabase
+        .from(TABLE_NAME)
+        .update({
+            search_checkpoint: checkpoint,
+            updated_at: new Date().toISOString(),
+        })
+        .eq('job_id', jobId);
+
+    if (!error) return;
+
+    const text = [error.message, error.details, error.hint].filter(Boolean).join(' ').toLowerCase();
+    if (text.includes('search_checkpoint')) {
+        if (!checkpointWarningLogged) {
+            checkpointWarningLogged = true;
+            log('Warning: lead_search_jobs.search_checkpoint unavailable. Run 021_add_lead_search_job_checkpoint.sql so interrupted jobs resume where they stopped.');
+        }
+        return;
+    }
+    log('Warning: Failed to save job checkpoint', { error: error.message });
+}
+
+export async function completeLeadSearchJob(
+    jobId: string,
+    progress: LeadSearchJobProgress,
+    result: Record<string, any>
+): Promise<void> {
+    const supabase = getServiceSupabase();
+    const now = new Date().toISOString();
+    const { error } = await supabase
+        .from(TABLE_NAME)
+        .update({
+            ...progress,
+            status: 'completed',
+            result,
+            updated_at: now,
+            completed_at: now,
+        })
+        .eq('job_id', jobId);
+
+    if (error) throw error;
+}
+
+export async function failLeadSearchJob(jobId: string, progress: LeadSearchJobProgress): Promise<void> {
+    const supabase = getServiceSupabase();
+    const now = new Date().toISOString();
+    const { error } = await supabase
+        .from(TABLE_NAME)
+        .update({
+            ...progress,
+            status: 'failed',
+            updated_at: now,
+            completed_at: now,
+        })
+        .eq('job_id', jobId);
+
+    if (error) throw error;
+}
@@ -0,0 +1,212 @@
+import { LeadSearchRequest } from './types';
+
+export const MAX_LEAD_SEARCH_RESULTS = 50;
+export const MAX_ASYNC_LEAD_SEARCH_RESULTS = 500;
+
+export function normalizeRequestedMode(value: unknown): string {
+    if (typeof value !== 'string') return '';
+    return value.trim().toLowerCase();
+}
+
+export function parseBooleanFlag(value: unknown): boolean | null {
+    if (typeof value === 'boolean') return value;
+
+    if (typeof value === 'number') {
+        if (value === 1) return true;
+        if (value === 0) return false;
+        return null;
+    }
+
+    if (typeof value === 'string') {
+        const normalized = value.trim().toLowerCase();
+        if (normalized === 'true' || normalized === '1' || normalized === 'yes') return true;
+        if (normalized === 'false' || normalized === '0' || normalized === 'no') return false;
+    }
+
+    return null;
+}
+
+export function normalizeEmail(value: any): string | null {
+    if (typeof value !== 'string') return null;
+
+    const email = value.trim();
+    if (!email) return null;
+    if (email.toLowerCase().startsWith('email_not_unlocked@')) return null;
+
+    return email;
+}
+
+export function normalizeOptionalString(value: unknown): string | null {
+    if (typeof value !== 'string') return null;
+
+    const trimmed = value.trim();
+    return trimmed || null;
+}
+
+export function normalizeOptionalNumber(value: unknown): number | null {
+    return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+export function normalizeStringArray(value: unknown): string[] {
+    if (!Array.isArray(value)) return [];
+
+    return Array.from(
+        new Set(
+            value
+                .filter((entry): entry is string => typeof entry === 'string')
+                .map((entry) => entry.trim())
+                .filter(Boolean)
+        )
+    );
+}
+
+export function normalizeFlexibleStringArray(value: unknown): string[] {
+    const rawValues: string[] = [];
+
+    if (Array.isArray(value)) {
+        for (const entry of value) {
+            if (typeof entry === 'string') {
+                rawValues.push(entry);
+            } else if (typeof entry === 'number' && Number.isFinite(entry)) {
+                rawValues.push(String(entry));
+            }
+        }
+    } else if (typeof value === 'string') {
+        rawValues.push(...value.split(','));
+    } else if (typeof value === 'number' && Number.isFinite(value)) {
+        rawValues.push(String(value));
+    }
+
+    return Array.from(
+        new Set(
+            rawValues
+                .map((entry) => entry.trim())
+                .filter(Boolean)
+        )
+    );
+}
+
+export function parseOptionalNumberish(value: unknown): number | null {
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    if (typeof value !== 'string') return null;
+
+    const trimmed = value.trim();
+    if (!trimmed) return null;
+
+    const parsed = Number(trimmed);
+    return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function resolveMaxResults(value: unknown, cap = MAX_LEAD_SEARCH_RESULTS): number {
+    const parsed = parseOptionalNumberish(value);
+    if (parsed === null) return MAX_LEAD_SEARCH_RESULTS;
+
+    return Math.min(Math.max(Math.floor(parsed), 1), cap);
+}
+
+export function normalizeDomain(value: string): string {
+    const trimmed = value.trim().toLowerCase();
+    if (!trimmed) return '';
+
+    const withProtocol = /^[a-z]+:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+
+    try {
+        const parsed = new URL(withProtocol);
+        return parsed.hostname.replace(/^www\./, '').trim().toLowerCase();
+    } catch {
+        return trimmed
+            .replace(/^https?:\/\//i, '')
+            .split('/')[0]
+            .replace(/^www\./, '')
+            .trim()
+            .toLowerCase();
+    }
+}
+
+export function isLowSignalOrganizationDomain(domain: string): boolean {
+    const normalized = normalizeDomain(domain);
+    if (!normalized) return true;
+
+    const blockedDomains = new Set([
+        'linktr.ee',
+        'linkedin.com',
+        'facebook.com',
+        'instagram.com',
+        'twitter.com',
+        'x.com',
+        'youtube.com',
+        'tiktok.com',
+        'medium.com',
+        'substack.com',
+        'beacons.ai',
+    ]);
+
+    return blockedDomains.has(normalized);
+}
+
+function normalizeDomainArray(value: unknown): string[] {
+    const rawValues: string[] = [];
+
+    if (Array.isArray(value)) {
+        for (const entry of value) {
+            if (typeof entry === 'string') rawValues.push(entry);
+        }
+    } else if (typeof value === 'string') {
+        rawValues.push(...value.split(','));
+    }
+
+    return Array.from(
+        new Set(
+            rawValues
+                .map((entry) => normalizeDomain(entry))
+                .filter(Boolean)
+        )
+    );
+}
+
+export function resolveOrganizationDomains(body: LeadSearchRequest): string[] {
+    const values = [
+        body.organization_domains,
+        body.organizationDomains,
+        body.organization_domain_list,
+        body.organizationDomainList,
+        body.organization_domain,
+        body.organizationDomain,
+        body.company_domain,
+        body.companyDomain,
+    ];
+
+    const domains = values.flatMap((value) => normalizeDomainArray(value));
+    return Array.from(new Set(domains));
+}
+
+// The raw size expressions of a request; `resolveBatchEmployeeRanges` turns them into Apollo ranges.
+export function resolveEmployeeRanges(body: LeadSearchRequest): string[] {
+    const values = [
+        body.employee_ranges,
+        body.employeeRanges,
+        body.employee_range,
+        body.employeeRange,
+    ];
+
+    const ranges = values.flatMap((value) => normalizeFlexibleStringArray(value));
+    return Array.from(new Set(ranges));
+}
+
+export function normalizeCompanyName(value: unknown): string {
+    if (typeof value !== 'string') return '';
+    return value.trim();
+}
+
+export function foldText(value: string): string {
+    return value
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
+
+export function normalizeCompanyToken(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
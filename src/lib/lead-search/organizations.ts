@@ -0,0 +1,638 @@
+import { apolloFetch } from '@/lib/apollo/client';
+import { organizationNameKey } from '@/lib/org-matching/names';
+import { scoreOrganizationMatch, selectOrganizationMatch } from '@/lib/org-matching/score';
+import { classifyIndustry, industryLabelForApollo } from '@/lib/industries/classify';
+import { OrganizationMatchHints, OrganizationSelectionReason } from '@/lib/org-matching/types';
+import {
+    StoredOrganization,
+    loadStoredOrganizationByDomain,
+    loadStoredOrganizationsById,
+    saveStoredOrganizations,
+} from '@/lib/organizations/persistence';
+import {
+    ApolloCompany,
+    ApolloPerson,
+    OrganizationCandidate,
+    OrganizationFallback,
+    OrganizationHydrationCache,
+} from './types';
+import {
+    isLowSignalOrganizationDomain,
+    normalizeDomain,
+    normalizeOptionalNumber,
+    normalizeOptionalString,
+} from './normalize';
+
+export function candidateMatchesAnyDomain(candidate: OrganizationCandidate, domains: string[]): boolean {
+    if (domains.length === 0) return true;
+
+    const primaryDomain = normalizeDomain(candidate.primary_domain || '');
+    const websiteDomain = normalizeDomain(candidate.website_url || '');
+
+    return domains.some((domain) => primaryDomain === domain || websiteDomain === domain);
+}
+
+function toOrganizationFallback(company: ApolloCompany): OrganizationFallback {
+    const industryClassification = company.industry_code
+        ? null
+        : classifyIndustry({ naics_codes: company.naics_codes, sic_codes: company.sic_codes, industry: company.industry });
+
+    return {
+        id: normalizeOptionalString(company.id),
+        name: normalizeOptionalString(company.name),
+        primary_domain: normalizeOptionalString(company.primary_domain),
+        website_url: normalizeOptionalString(company.website_url),
+        industry: normalizeOptionalString(company.industry),
+        industry_code: company.industry_code || industryClassification?.industry_code || null,
+        industry_path: company.industry_code ? company.industry_path || [] : industryClassification?.industry_path || [],
+        estimated_num_employees: normalizeOptionalNumber(company.estimated_num_employees),
+    };
+}
+
+export function toOrganizationFallbackFromCandidate(candidate: OrganizationCandidate): OrganizationFallback {
+    return {
+        id: normalizeOptionalString(candidate.id),
+        name: normalizeOptionalString(candidate.name),
+        primary_domain: normalizeOptionalString(candidate.primary_domain),
+        website_url: normalizeOptionalString(candidate.website_url),
+        industry: normalizeOptionalString(candidate.industry),
+        industry_code: candidate.industry_code,
+        industry_path: candidate.industry_path,
+        estimated_num_employees: normalizeOptionalNumber(candidate.estimated_num_employees),
+    };
+}
+
+export function buildOrganizationFallbackMap(companies: ApolloCompany[]): Map<string, OrganizationFallback> {
+    const map = new Map<string, OrganizationFallback>();
+
+    for (const company of companies) {
+        const fallback = toOrganizationFallback(company);
+        if (!fallback.id) continue;
+        map.set(fallback.id, fallback);
+    }
+
+    return map;
+}
+
+export function mergeOrganizationCandidate(
+    base: OrganizationCandidate,
+    overlay: Partial<OrganizationCandidate> | null | undefined
+): OrganizationCandidate {
+    if (!overlay) return base;
+
+    return {
+        id: overlay.id || base.id,
+        name: overlay.name || base.name,
+        primary_domain: overlay.primary_domain || base.primary_domain,
+        website_url: overlay.website_url || base.website_url,
+        linkedin_url: overlay.linkedin_url || base.linkedin_url,
+        industry: overlay.industry || base.industry,
+        industry_code: overlay.industry_code || base.industry_code,
+        industry_path: overlay.industry_code ? overlay.industry_path || [] : base.industry_path,
+        estimated_num_employees:
+            normalizeOptionalNumber(overlay.estimated_num_employees) ?? base.estimated_num_employees,
+        city: overlay.city || base.city,
+        state: overlay.state || base.state,
+        country: overlay.country || base.country,
+        owned_by_organization_id: overlay.owned_by_organization_id || base.owned_by_organization_id,
+        owned_by_organization_name: overlay.owned_by_organization_name || base.owned_by_organization_name,
+        owned_by_organization_domain: overlay.owned_by_organization_domain || base.owned_by_organization_domain,
+        match_score: Math.max(base.match_score, normalizeOptionalNumber(overlay.match_score) ?? 0),
+        match_breakdown: base.match_breakdown || overlay.match_breakdown || null,
+    };
+}
+
+export function mergeApolloCompanyWithCandidate(
+    company: ApolloCompany,
+    candidate: OrganizationCandidate
+): ApolloCompany {
+    const preferCandidatePrimaryDomain =
+        !normalizeDomain(company.primary_domain || '') ||
+        isLowSignalOrganizationDomain(company.primary_domain || '');
+    const preferCandidateWebsite =
+        !normalizeDomain(company.website_url || '') ||
+        isLowSignalOrganizationDomain(company.website_url || '');
+
+    return {
+        ...company,
+        id: company.id || candidate.id,
+        name: company.name || candidate.name,
+        primary_domain: preferCandidatePrimaryDomain
+            ? candidate.primary_domain || company.primary_domain || ''
+            : company.primary_domain || candidate.primary_domain || '',
+        website_url: preferCandidateWebsite
+            ? candidate.website_url || company.website_url || undefined
+            : company.website_url || candidate.website_url || undefined,
+        linkedin_url: company.linkedin_url || candidate.linkedin_url || undefined,
+        industry: company.industry || candidate.industry || undefined,
+        industry_code: company.industry_code || candidate.industry_code,
+        industry_path: company.industry_code ? company.industry_path : candidate.industry_path,
+        estimated_num_employees:
+            normalizeOptionalNumber(company.estimated_num_employees) ??
+            candidate.estimated_num_employees ??
+            undefined,
+        city: company.city || candidate.city || undefined,
+        state: company.state || candidate.state || undefined,
+        country: company.country || candidate.country || undefined,
+    };
+}
+
+function pickMatchingOrganizationCandidate(
+    candidates: OrganizationCandidate[],
+    target: Pick<OrganizationCandidate, 'id' | 'name' | 'primary_domain'>
+): OrganizationCandidate | null {
+    if (candidates.length === 0) return null;
+
+    const normalizedTargetId = normalizeOptionalString(target.id);
+    const normalizedTargetDomain = normalizeDomain(target.primary_domain || '');
+    const normalizedTargetName = organizationNameKey(target.name || '');
+
+    if (normalizedTargetId) {
+        const exactIdMatch = candidates.find((candidate) => candidate.id === normalizedTargetId);
+        if (exactIdMatch) return exactIdMatch;
+    }
+
+    if (normalizedTargetDomain) {
+        const exactDomainMatch = candidates.find((candidate) => {
+            const primaryDomain = normalizeDomain(candidate.primary_domain || '');
+            const websiteDomain = normalizeDomain(candidate.website_url || '');
+            return primaryDomain === normalizedTargetDomain || websiteDomain === normalizedTargetDomain;
+        });
+        if (exactDomainMatch) return exactDomainMatch;
+    }
+
+    if (normalizedTargetName) {
+        const exactNameMatch = candidates.find(
+            (candidate) => organizationNameKey(candidate.name) === normalizedTargetName
+        );
+        if (exactNameMatch) return exactNameMatch;
+    }
+
+    return candidates[0] || null;
+}
+
+export function toOrganizationCandidate(
+    company: any,
+    companyNameQuery: string,
+    hints: OrganizationMatchHints = { domains: [] }
+): OrganizationCandidate | null {
+    const id = (company?.id || '').toString().trim();
+    const name = (company?.name || '').toString().trim();
+    if (!id || !name) return null;
+
+    const rawPrimaryDomain = typeof company?.primary_domain === 'string' ? company.primary_domain.trim() : null;
+    const rawWebsiteUrl = typeof company?.website_url === 'string' ? company.website_url.trim() : null;
+    const ownerWebsiteUrl =
+        typeof company?.owned_by_organization?.website_url === 'string'
+            ? company.owned_by_organization.website_url.trim()
+            : null;
+    const ownerPrimaryDomain =
+        typeof company?.owned_by_organization?.primary_domain === 'string'
+            ? company.owned_by_organization.primary_domain.trim()
+            : null;
+    const ownerDomain = normalizeDomain(ownerPrimaryDomain || ownerWebsiteUrl || '');
+    const normalizedRawPrimaryDomain = normalizeDomain(rawPrimaryDomain || '');
+    const shouldReplacePrimaryDomain = !normalizedRawPrimaryDomain || isLowSignalOrganizationDomain(normalizedRawPrimaryDomain);
+    const primaryDomain = shouldReplacePrimaryDomain && ownerDomain
+        ? ownerDomain
+        : rawPrimaryDomain;
+    const websiteUrl = (shouldReplacePrimaryDomain && ownerWebsiteUrl) || rawWebsiteUrl;
+    const linkedinUrl = typeof company?.linkedin_url === 'string' ? company.linkedin_url.trim() : null;
+    const apolloIndustry =
+        normalizeOptionalString(company?.industry) ||
+        normalizeOptionalString(company?.owned_by_organization?.industry);
+    const industryClassification = classifyIndustry({
+        naics_codes: company?.naics_codes,
+        sic_codes: company?.sic_codes,
+        industry: apolloIndustry,
+    });
+    const industry = apolloIndustry ||
+        (industryClassification ? industryLabelForApollo(industryClassification.industry_code) : null);
+    const city = typeof company?.city === 'string' ? company.city.trim() : null;
+    const state = typeof company?.state === 'string' ? company.state.trim() : null;
+    const country = typeof company?.country === 'string' ? company.country.trim() : null;
+    const employees =
+        normalizeOptionalNumber(company?.estimated_num_employees) ||
+        normalizeOptionalNumber(company?.owned_by_organization?.estimated_num_employees);
+
+    const matchBreakdown = scoreOrganizationMatch(
+        { name, primary_domain: primaryDomain, website_url: websiteUrl, linkedin_url: linkedinUrl, country },
+        companyNameQuery,
+        hints
+    );
+
+    return {
+        id,
+        name,
+        primary_domain: primaryDomain,
+        website_url: websiteUrl,
+        linkedin_url: linkedinUrl,
+        industry,
+        industry_code: industryClassification?.industry_code || null,
+        industry_path: industryClassification?.industry_path || [],
+        estimated_num_employees: employees,
+        city,
+        state,
+        country,
+        owned_by_organization_id: normalizeOptionalString(
+            company?.owned_by_organization_id || company?.owned_by_organization?.id
+        ),
+        owned_by_organization_name: normalizeOptionalString(company?.owned_by_organization?.name),
+        owned_by_organization_domain: ownerDomain || null,
+        match_score: matchBreakdown.total,
+        match_breakdown: matchBreakdown,
+    };
+}
+
+export function pickBestOrganizationCandidate(
+    candidates: OrganizationCandidate[]
+): { selected: OrganizationCandidate | null; ambiguous: boolean; reason: OrganizationSelectionReason | null } {
+    const { selected, reason } = selectOrganizationMatch(candidates);
+    return { selected, ambiguous: !selected && candidates.length > 0, reason };
+}
+
+export async function fetchOrganizationCandidatesByDomains(
+    apiKey: string,
+    domains: string[],
+    companyName: string,
+    log: (msg: string, data?: any) => void,
+    hints: Omit<OrganizationMatchHints, 'domains'> = {}
+): Promise<OrganizationCandidate[]> {
+    const candidatesMap = new Map<string, OrganizationCandidate>();
+
+    for (const domain of domains) {
+        try {
+            log('Enriching organization by domain', { domain });
+
+            const response = await apolloFetch({
+                apiKey,
+                path: '/organizations/enrich',
+                method: 'GET',
+                params: new URLSearchParams({ domain }),
+                idempotent: true,
+                label: 'organization enrichment',
+                log,
+            });
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                log(`Apollo API Error (Organization Enrichment): ${response.status} - ${errorText}`, { domain });
+                continue;
+            }
+
+            const data = await response.json();
+            const organization = data?.organization || data;
+            const candidate = toOrganizationCandidate(organization, companyName, { ...hints, domains });
+
+            if (candidate) {
+                candidatesMap.set(candidate.id, candidate);
+            }
+        } catch (error: any) {
+            log('Error enriching organization by domain:', {
+                domain,
+                error: error?.message || String(error),
+            });
+        }
+    }
+
+    return Array.from(candidatesMap.values()).sort((a, b) => {
+        if (b.match_score !== a.match_score) return b.match_score - a.match_score;
+        return a.name.localeCompare(b.name);
+    });
+}
+
+export async function fetchOrganizationCandidatesByName(
+    apiKey: string,
+    companyName: string,
+    hints: OrganizationMatchHints,
+    log: (msg: string, data?: any) => void
+): Promise<OrganizationCandidate[]> {
+    try {
+        const params = new URLSearchParams();
+        params.set('q_organization_name', companyName);
+        params.set('page', '1');
+        params.set('per_page', '15');
+
+        log('Searching organizations by company name', {
+            company_name: companyName,
+            per_page: 15,
+        });
+
+        const response = await apolloFetch({
+            apiKey,
+            path: '/mixed_companies/search',
+            params,
+            idempotent: true,
+            label: 'organization search',
+            log,
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            log(`Apollo API Error (Organization Search): ${response.status} - ${errorText}`);
+            return [];
+        }
+
+        const data = await response.json();
+        const organizations = Array.isArray(data?.organizations) ? data.organizations : [];
+
+        const candidates: OrganizationCandidate[] = organizations
+            .map((organization: any) => toOrganizationCandidate(organization, companyName, hints))
+            .filter((candidate: OrganizationCandidate | null): candidate is OrganizationCandidate => Boolean(candidate));
+
+        const dedupedMap = new Map<string, OrganizationCandidate>();
+        for (const candidate of candidates) {
+            if (!dedupedMap.has(candidate.id)) {
+                dedupedMap.set(candidate.id, candidate);
+            }
+        }
+
+        const deduped: OrganizationCandidate[] = Array.from(dedupedMap.values());
+
+        deduped.sort((a, b) => {
+            if (b.match_score !== a.match_score) return b.match_score - a.match_score;
+            if ((b.primary_domain ? 1 : 0) !== (a.primary_domain ? 1 : 0)) {
+                return (b.primary_domain ? 1 : 0) - (a.primary_domain ? 1 : 0);
+            }
+            return a.name.localeCompare(b.name);
+        });
+
+        return deduped;
+    } catch (error: any) {
+        log('Error searching organizations by company name:', error?.message || error);
+        return [];
+    }
+}
+
+async function fetchOrganizationCandidateByDomain(
+    apiKey: string,
+    domain: string,
+    companyName: string,
+    log: (msg: string, data?: any) => void,
+    toStore: OrganizationCandidate[]
+): Promise<OrganizationCandidate | null> {
+    const normalizedDomain = normalizeDomain(domain);
+    if (!normalizedDomain) return null;
+
+    const stored = await loadStoredOrganizationByDomain(normalizedDomain, log);
+    if (stored?.fresh) {
+        log('Using cached organization for domain', { domain: normalizedDomain, organization_id: stored.candidate.id });
+        return stored.candidate;
+    }
+
+    const candidates = await fetchOrganizationCandidatesByDomains(
+        apiKey,
+        [normalizedDomain],
+        companyName,
+        log
+    );
+
+    const fetched = candidates.find((candidate) => candidateMatchesAnyDomain(candidate, [normalizedDomain])) ||
+        candidates[0] ||
+        null;
+    if (fetched) {
+        toStore.push(fetched);
+        return fetched;
+    }
+
+    // Apollo had nothing this time; an expired entry is still better than no metadata.
+    return stored?.candidate || null;
+}
+
+async function loadStoredOrganization(
+    organizationId: string,
+    log: (msg: string, data?: any) => void,
+    cache: OrganizationHydrationCache
+): Promise<StoredOrganization | null> {
+    if (!cache.byId.has(organizationId)) {
+        const stored = await loadStoredOrganizationsById([organizationId], log);
+        cache.byId.set(organizationId, stored.get(organizationId) || null);
+    }
+
+    return cache.byId.get(organizationId) || null;
+}
+
+function isHydrated(candidate: OrganizationCandidate): boolean {
+    return Boolean(candidate.industry && candidate.primary_domain && candidate.estimated_num_employees);
+}
+
+// Hydrates one candidate, adding the organizations fetched from Apollo to `toStore`.
+async function hydrateCandidate(
+    apiKey: string,
+    candidate: OrganizationCandidate,
+    log: (msg: string, data?: any) => void,
+    cache: OrganizationHydrationCache,
+    toStore: OrganizationCandidate[]
+): Promise<OrganizationCandidate> {
+    const stored = await loadStoredOrganization(candidate.id, log, cache);
+    if (stored?.fresh) {
+        // Values from the current Apollo search win; the stored row fills the gaps.
+        return mergeOrganizationCandidate(stored.candidate, candidate);
+    }
+
+    if (isHydrated(candidate)) {
+        toStore.push(candidate);
+        return candidate;
+    }
+
+    let resolvedCandidate = stored ? mergeOrganizationCandidate(stored.candidate, candidate) : candidate;
+    let normalizedDomain = normalizeDomain(resolvedCandidate.primary_domain || resolvedCandidate.website_url || '');
+
+    if (!normalizedDomain && resolvedCandidate.name) {
+        const nameCandidates = await fetchOrganizationCandidatesByName(
+            apiKey,
+            resolvedCandidate.name,
+            { domains: [] },
+            log
+        );
+        const nameMatch = pickMatchingOrganizationCandidate(nameCandidates, resolvedCandidate);
+        if (nameMatch) {
+            resolvedCandidate = mergeOrganizationCandidate(resolvedCandidate, nameMatch);
+            normalizedDomain = normalizeDomain(
+                resolvedCandidate.primary_domain || resolvedCandidate.website_url || ''
+            );
+        }
+    }
+
+    let hydratedCandidate: OrganizationCandidate | null = null;
+
+    if (normalizedDomain) {
+        if (!cache.byDomain.has(normalizedDomain)) {
+            cache.byDomain.set(
+                normalizedDomain,
+                await fetchOrganizationCandidateByDomain(apiKey, normalizedDomain, resolvedCandidate.name, log, toStore)
+            );
+        }
+
+        hydratedCandidate = cache.byDomain.get(normalizedDomain) || null;
+    }
+
+    const needsMoreMetadata = !hydratedCandidate || !hydratedCandidate.industry || !hydratedCandidate.estimated_num_employees;
+
+    if (needsMoreMetadata && resolvedCandidate.name) {
+        const nameCandidates = await fetchOrganizationCandidatesByName(
+            apiKey,
+            resolvedCandidate.name,
+            { domains: normalizedDomain ? [normalizedDomain] : [] },
+            log
+        );
+        const nameMatch = pickMatchingOrganizationCandidate(nameCandidates, resolvedCandidate);
+        if (nameMatch) {
+            hydratedCandidate = hydratedCandidate
+                ? mergeOrganizationCandidate(hydratedCandidate, nameMatch)
+                : nameMatch;
+        }
+    }
+
+    const hydrated = mergeOrganizationCandidate(resolvedCandidate, hydratedCandidate);
+    if (hydrated.id === candidate.id) {
+        toStore.push(hydrated);
+    }
+
+    return hydrated;
+}
+
+/**
+ * Fills in domain, industry and size for a candidate: from the `organizations` table while
+ * the stored row is within ORGANIZATION_CACHE_TTL_HOURS, otherwise from Apollo (by domain,
+ * then by name), storing the result for the next run.
+ */
+export async function hydrateOrganizationCandidate(
+    apiKey: string,
+    candidate: OrganizationCandidate,
+    log: (msg: string, data?: any) => void,
+    cache: OrganizationHydrationCache
+): Promise<OrganizationCandidate> {
+    const toStore: OrganizationCandidate[] = [];
+    const hydrated = await hydrateCandidate(apiKey, candidate, log, cache, toStore);
+    await saveStoredOrganizations(toStore, log);
+    return hydrated;
+}
+
+export async function hydrateOrganizationCandidates(
+    apiKey: string,
+    candidates: OrganizationCandidate[],
+    log: (msg: string, data?: any) => void,
+    cache: OrganizationHydrationCache
+): Promise<OrganizationCandidate[]> {
+    // One query for the stored rows of the whole page instead of one per candidate.
+    const missingIds = candidates.map((candidate) => candidate.id).filter((id) => !cache.byId.has(id));
+    const stored = await loadStoredOrganizationsById(missingIds, log);
+    for (const id of missingIds) cache.byId.set(id, stored.get(id) || null);
+
+    const hydrated: OrganizationCandidate[] = [];
+    // Stored with one upsert once the whole page is hydrated.
+    const toStore: OrganizationCandidate[] = [];
+
+    const concurrency = 5;
+    for (let index = 0; index < candidates.length; index += concurrency) {
+        const slice = candidates.slice(index, index + concurrency);
+        const sliceResults = await Promise.all(
+            slice.map((candidate) => hydrateCandidate(apiKey, candidate, log, cache, toStore))
+        );
+        hydrated.push(...sliceResults);
+    }
+
+    await saveStoredOrganizations(toStore, log);
+    return hydrated;
+}
+
+export function applyOrganizationContextToLeads(
+    leads: ApolloPerson[],
+    organizations: OrganizationCandidate[]
+): ApolloPerson[] {
+    if (leads.length === 0 || organizations.length === 0) return leads;
+
+    const organizationsById = new Map<string, OrganizationCandidate>();
+    const organizationsByDomain = new Map<string, OrganizationCandidate>();
+    const organizationsByName = new Map<string, OrganizationCandidate>();
+
+    for (const organization of organizations) {
+        organizationsById.set(organization.id, organization);
+
+        const primaryDomain = normalizeDomain(organization.primary_domain || '');
+        if (primaryDomain && !organizationsByDomain.has(primaryDomain)) {
+            organizationsByDomain.set(primaryDomain, organization);
+        }
+
+        const websiteDomain = normalizeDomain(organization.website_url || '');
+        if (websiteDomain && !organizationsByDomain.has(websiteDomain)) {
+            organizationsByDomain.set(websiteDomain, organization);
+        }
+
+        const normalizedName = organizationNameKey(organization.name || '');
+        if (normalizedName && !organizationsByName.has(normalizedName)) {
+            organizationsByName.set(normalizedName, organization);
+        }
+    }
+
+    return leads.map((lead) => {
+        const normalizedLeadOrganizationId = normalizeOptionalString(
+            lead.organization?.id || lead.organization_id
+        );
+        const normalizedLeadDomain = normalizeDomain(
+            (lead.organization?.primary_domain || lead.organization_domain || lead.organization?.website_url || lead.organization_website || '')
+        );
+        const normalizedLeadName = organizationNameKey(
+            lead.organization?.name || lead.organization_name || ''
+        );
+
+        const matchedOrganization =
+            (normalizedLeadOrganizationId ? organizationsById.get(normalizedLeadOrganizationId) : null) ||
+            (normalizedLeadDomain ? organizationsByDomain.get(normalizedLeadDomain) : null) ||
+            (normalizedLeadName ? organizationsByName.get(normalizedLeadName) : null) ||
+            (organizations.length === 1 ? organizations[0] : null);
+
+        if (!matchedOrganization) return lead;
+
+        return {
+            ...lead,
+            organization_id:
+                normalizeOptionalString(lead.organization_id || lead.organization?.id) ||
+                matchedOrganization.id,
+            organization_name:
+                normalizeOptionalString(lead.organization_name) ||
+                normalizeOptionalString(lead.organization?.name) ||
+                matchedOrganization.name,
+            organization_domain:
+                normalizeOptionalString(lead.organization_domain) ||
+                normalizeOptionalString(lead.organization?.primary_domain) ||
+                matchedOrganization.primary_domain,
+            organization_website:
+                normalizeOptionalString(lead.organization_website) ||
+                normalizeOptionalString(lead.organization?.website_url) ||
+                matchedOrganization.website_url,
+            organization_industry:
+                normalizeOptionalString(lead.organization_industry) ||
+                normalizeOptionalString(lead.organization?.industry) ||
+                matchedOrganization.industry,
+            organization_size:
+                normalizeOptionalNumber(lead.organization_size) ||
+                normalizeOptionalNumber(lead.organization?.estimated_num_employees) ||
+                matchedOrganization.estimated_num_employees,
+            industry:
+                normalizeOptionalString((lead as any).industry) ||
+                normalizeOptionalString(lead.organization_industry) ||
+                normalizeOptionalString(lead.organization?.industry) ||
+                matchedOrganization.industry,
+            industry_code: lead.industry_code || matchedOrganization.industry_code,
+            industry_path: lead.industry_code ? lead.industry_path : matchedOrganization.industry_path,
+            organization: {
+                ...(lead.organization || {}),
+                id: normalizeOptionalString(lead.organization?.id) || matchedOrganization.id,
+                name: normalizeOptionalString(lead.organization?.name) || matchedOrganization.name,
+                primary_domain:
+                    normalizeOptionalString(lead.organization?.primary_domain) ||
+                    matchedOrganization.primary_domain,
+                website_url:
+                    normalizeOptionalString(lead.organization?.website_url) ||
+                    matchedOrganization.website_url,
+                industry:
+                    normalizeOptionalString(lead.organization?.industry) || matchedOrganization.industry,
+                estimated_num_employees:
+                    normalizeOptionalNumber(lead.organization?.estimated_num_employees) ||
+                    matchedOrganization.estimated_num_employees,
+            },
+        };
+    });
+}
@@ -0,0 +1,512 @@
+import { classifyEmail } from '@/lib/email-quality/classify';
+import { ApolloWebhookTable } from '@/lib/apollo/webhook-signature';
+import { updateRowWithSchemaFallback } from '@/lib/enrich/apollo';
+import { EnrichmentRequest, buildEnrichmentStateUpdates, logEnrichmentTransition } from '@/lib/enrich/state';
+import { scoreLeadAgainstIcp } from '@/lib/icp/scoring';
+import { IcpProfile } from '@/lib/icp/types';
+import { classifyIndustry } from '@/lib/industries/classify';
+import { resolveLeadIdentities } from '@/lib/lead-identity/resolve';
+import { normalizePhoneEntries, selectPrimaryPhone } from '@/lib/phones/normalize';
+import { getServiceSupabase, supabase } from '@/lib/supabase';
+import { ApolloPerson, OrganizationFallback, SparseLeadSummary } from './types';
+import {
+    normalizeEmail,
+    normalizeOptionalNumber,
+    normalizeOptionalString,
+} from './normalize';
+
+export const PEOPLE_SEARCH_LEADS_TABLE = 'people_search_leads' as const;
+
+// Columns added by later migrations. When the table lacks one group, leads are saved without it.
+const OPTIONAL_LEAD_COLUMN_GROUPS = [
+    {
+        pattern: /icp_(score|reasons|profile_id)/,
+        columns: ['icp_score', 'icp_reasons', 'icp_profile_id'],
+        warning: 'Warning: people_search_leads has no ICP columns. Saving leads without scores.',
+    },
+    {
+        pattern: /email_quality/,
+        columns: ['email_quality'],
+        warning: 'Warning: people_search_leads has no email_quality column. Saving leads without email quality.',
+    },
+    {
+        pattern: /industry_(code|path)/,
+        columns: ['industry_code', 'industry_path'],
+        warning: 'Warning: people_search_leads has no industry taxonomy columns. Saving leads without industry_code.',
+    },
+    {
+        pattern: /\borg_id\b/,
+        columns: ['org_id'],
+        warning: 'Warning: people_search_leads has no org_id column. Saving leads without an owner; run 022_add_lead_org_id.sql.',
+    },
+];
+
+// Columns that belong to the org whose search saved the lead. Apollo person ids are shared
+// by every org, so another org finding the same person must not overwrite them.
+const LEAD_OWNER_COLUMNS = ['org_id', 'batch_run_id', 'page', 'icp_score', 'icp_reasons', 'icp_profile_id'];
+
+function omitColumns(record: Record<string, any>, columns: string[]): Record<string, any> {
+    const next = { ...record };
+    for (const column of columns) delete next[column];
+    return next;
+}
+
+/**
+ * Saved leads of `leadIds` that belong to an org other than `orgId`. Empty when the table has
+ * no org_id column yet (before 022_add_lead_org_id.sql).
+ */
+async function listLeadIdsOwnedByOtherOrgs(dbClient: any, leadIds: string[], orgId: string): Promise<Set<string>> {
+    const { data, error } = await dbClient
+        .from(PEOPLE_SEARCH_LEADS_TABLE)
+        .select('id, org_id')
+        .in('id', leadIds)
+        .not('org_id', 'is', null)
+        .neq('org_id', orgId);
+
+    if (error) {
+        if (/\borg_id\b/.test(error.message || '')) return new Set();
+        throw new Error(`Supabase Error: ${error.message}`);
+    }
+
+    return new Set((data || []).map((row: any) => row.id));
+}
+
+export function getServerSupabase(log?: (msg: string, data?: any) => void) {
+    try {
+        return getServiceSupabase();
+    } catch (error: any) {
+        log?.('Warning: Missing service role key. Falling back to anonymous Supabase client.', {
+            error: error?.message || String(error),
+        });
+        return supabase;
+    }
+}
+
+/**
+ * Moves a LinkedIn lead to `pending` once its phone enrichment is queued, saving what the
+ * enrichment sweep needs to queue it again if Apollo never calls back.
+ */
+export async function markLeadAsPendingPhoneEnrichment(
+    recordId: string,
+    request: EnrichmentRequest,
+    log: (msg: string, data?: any) => void
+) {
+    const dbClient = getServerSupabase(log);
+    const { data: existing } = await dbClient
+        .from(PEOPLE_SEARCH_LEADS_TABLE)
+        .select('enrichment_status')
+        .eq('id', recordId)
+        .maybeSingle();
+
+    const { error, removedColumns } = await updateRowWithSchemaFallback(dbClient, PEOPLE_SEARCH_LEADS_TABLE, recordId, {
+        ...buildEnrichmentStateUpdates('pending', { attempts: 1, request }),
+        updated_at: new Date().toISOString(),
+    });
+
+    if (error) {
+        log('Warning: Failed to mark lead as pending phone enrichment.', {
+            record_id: recordId,
+            error: error.message,
+        });
+        return;
+    }
+
+    await logEnrichmentTransition(dbClient, {
+        recordId,
+        tableName: PEOPLE_SEARCH_LEADS_TABLE,
+        from: existing?.enrichment_status ?? null,
+        to: 'pending',
+        source: 'linkedin-phone-enrichment',
+        attempt: 1,
+    });
+
+    log('Marked lead as pending phone enrichment.', { record_id: recordId, removed_columns: removedColumns });
+}
+
+export async function fetchLeadSnapshot(
+    dbClient: any,
+    recordId: string,
+    log?: (msg: string, data?: any) => void
+): Promise<any | null> {
+    const { data, error } = await dbClient
+        .from(PEOPLE_SEARCH_LEADS_TABLE)
+        .select('*')
+        .eq('id', recordId)
+        .maybeSingle();
+
+    if (error) {
+        log?.('Warning: Failed to fetch persisted lead snapshot.', {
+            record_id: recordId,
+            error: error.message,
+        });
+        return null;
+    }
+
+    return data || null;
+}
+
+export function summarizeSparseLeads(leads: any[]): SparseLeadSummary {
+    const summary: SparseLeadSummary = {
+        missing_organization_id_count: 0,
+        missing_organization_domain_count: 0,
+        missing_organization_industry_count: 0,
+        missing_email_count: 0,
+        warnings: [],
+    };
+
+    const total = Array.isArray(leads) ? leads.length : 0;
+    if (total === 0) return summary;
+
+    for (const lead of leads) {
+        if (!normalizeOptionalString(lead?.organization_id)) {
+            summary.missing_organization_id_count++;
+        }
+
+        if (!normalizeOptionalString(lead?.organization_domain || lead?.organization?.primary_domain)) {
+            summary.missing_organization_domain_count++;
+        }
+
+        if (!normalizeOptionalString(lead?.organization_industry || lead?.organization?.industry)) {
+            summary.missing_organization_industry_count++;
+        }
+
+        if (!normalizeEmail(lead?.email)) {
+            summary.missing_email_count++;
+        }
+    }
+
+    const sparseWarnings: Array<[number, string]> = [
+        [summary.missing_organization_id_count, 'organization_id'],
+        [summary.missing_organization_domain_count, 'organization_domain'],
+        [summary.missing_organization_industry_count, 'organization_industry'],
+        [summary.missing_email_count, 'email'],
+    ];
+
+    for (const [count, label] of sparseWarnings) {
+        if (count <= 0) continue;
+        summary.warnings.push(`Sparse lead coverage: ${count}/${total} leads are missing ${label}.`);
+    }
+
+    return summary;
+}
+
+export async function saveToSupabase(
+    dbClient: any,
+    leads: ApolloPerson[],
+    batchRunId: string,
+    log: (msg: string, data?: any) => void,
+    options: {
+        organizationsById?: Map<string, OrganizationFallback>;
+        defaultOrganization?: OrganizationFallback | null;
+        icpProfile?: IcpProfile | null;
+        // Org whose search saved the leads; snapshots and exports are only served to it.
+        orgId?: string | null;
+    } = {}
+) {
+    if (leads.length === 0) return [];
+
+    const leadIds = leads
+        .map((lead: any) => lead?.id)
+        .filter((id: unknown): id is string => typeof id === 'string' && id.trim() !== '');
+
+    const existingById = new Map<string, any>();
+    const foreignLeadIds = options.orgId && leadIds.length > 0
+        ? await listLeadIdsOwnedByOtherOrgs(dbClient, leadIds, options.orgId)
+        : new Set<string>();
+    if (foreignLeadIds.size > 0) {
+        log(`${foreignLeadIds.size} leads are already saved by another org. Keeping their owner and batch run.`);
+    }
+
+    if (leadIds.length > 0) {
+        const { data: existingRows, error: existingError } = await dbClient
+            .from(PEOPLE_SEARCH_LEADS_TABLE)
+            .select('id, email, email_status, linkedin_url, phone_numbers, primary_phone, enrichment_status, org_name, organization_name, organization_id, organization_website, industry, organization_domain, organization_industry, organization_size, country')
+            .in('id', leadIds);
+
+        if (existingError) {
+            log('Warning: Failed to load existing lead snapshots before upsert.', {
+                error: existingError.message,
+            });
+        } else {
+            for (const row of existingRows || []) {
+                if (typeof row?.id === 'string' && row.id.trim() !== '') {
+                    existingById.set(row.id, row);
+                }
+            }
+        }
+    }
+
+    // Remove filter and debug logs
+    // The new API may return sparse data (no linkedin_url, obfuscated last_name).
+    // We map missing required fields to empty strings to satisfy DB constraints.
+
+    const records = leads
+        .filter((lead: any) => Boolean(lead?.id))
+        .map((lead: any) => {
+            const existing = existingById.get(lead.id) || null;
+            const firstName = (lead.first_name || '').toString().trim();
+            const lastName = (lead.last_name || lead.last_name_obfuscated || '').toString().trim();
+            const fullName = `${firstName} ${lastName}`.trim() || null;
+            const leadOrganizationId = normalizeOptionalString(lead.organization?.id || lead.organization_id);
+            const shouldUseDefaultOrganization = Boolean(
+                options.defaultOrganization &&
+                (!leadOrganizationId || leadOrganizationId === options.defaultOrganization.id)
+            );
+            const fallbackOrganization =
+                (leadOrganizationId ? options.organizationsById?.get(leadOrganizationId) : null) ||
+                (shouldUseDefaultOrganization ? options.defaultOrganization || null : null);
+            const existingOrganizationName = normalizeOptionalString(existing?.organization_name || existing?.org_name);
+            const existingOrganizationId = normalizeOptionalString(existing?.organization_id);
+            const existingOrganizationWebsite = normalizeOptionalString(existing?.organization_website);
+            const existingOrganizationDomain = normalizeOptionalString(existing?.organization_domain);
+            const existingOrganizationIndustry = normalizeOptionalString(existing?.organization_industry || existing?.industry);
+            const organizationName =
+                normalizeOptionalString(lead.organization?.name || lead.organization_name) ||
+                fallbackOrganization?.name ||
+                existingOrganizationName;
+            const organizationId = leadOrganizationId || fallbackOrganization?.id || existingOrganizationId;
+            const organizationWebsite =
+                normalizeOptionalString(lead.organization?.website_url || lead.organization_website) ||
+                fallbackOrganization?.website_url ||
+                existingOrganizationWebsite;
+            const organizationDomain =
+                normalizeOptionalString(lead.organization?.primary_domain || lead.organization_domain) ||
+                fallbackOrganization?.primary_domain ||
+                existingOrganizationDomain;
+            const organizationIndustry =
+                normalizeOptionalString(lead.organization?.industry || lead.organization_industry) ||
+                fallbackOrganization?.industry ||
+                existingOrganizationIndustry;
+            // Taxonomy placement: the lead's own, else its organization's, else classified here.
+            const industryClassification = normalizeOptionalString(lead.industry_code)
+                ? { industry_code: lead.industry_code, industry_path: lead.industry_path || [] }
+                : fallbackOrganization?.industry_code
+                    ? fallbackOrganization
+                    : classifyIndustry({
+                        naics_codes: lead.organization?.naics_codes,
+                        sic_codes: lead.organization?.sic_codes,
+                        industry: organizationIndustry,
+                    });
+            const organizationSize =
+                normalizeOptionalNumber(lead.organization?.estimated_num_employees || lead.organization_size) ||
+                fallbackOrganization?.estimated_num_employees ||
+                normalizeOptionalNumber(existing?.organization_size);
+            const nextEmail = normalizeEmail(lead.email);
+            const existingEmail = normalizeEmail(existing?.email);
+            const resolvedEmail = nextEmail || existingEmail;
+            const nextEmailStatus = normalizeOptionalString(lead.email_status);
+            const existingEmailStatus = normalizeOptionalString(existing?.email_status);
+            const phoneCountry = lead.country || existing?.country;
+            const nextPhoneNumbers = normalizePhoneEntries(
+                Array.isArray(lead.phone_numbers) && lead.phone_numbers.length > 0
+                    ? lead.phone_numbers
+                    : [lead.primary_phone],
+                { country: phoneCountry, source: 'apollo_person' }
+            );
+            const existingPhoneNumbers = normalizePhoneEntries(existing?.phone_numbers, { country: phoneCountry, source: 'apollo_person' });
+            const resolvedPhoneNumbers = nextPhoneNumbers.length > 0
+                ? nextPhoneNumbers
+                : existingPhoneNumbers.length > 0 ? existingPhoneNumbers : null;
+            const resolvedPrimaryPhone =
+                selectPrimaryPhone(resolvedPhoneNumbers || []) ||
+                normalizeOptionalString(existing?.primary_phone);
+            const nextLinkedInUrl = normalizeOptionalString(lead.linkedin_url);
+            const existingLinkedInUrl = normalizeOptionalString(existing?.linkedin_url);
+            const existingEnrichmentStatus = normalizeOptionalString(existing?.enrichment_status);
+            const resolvedEnrichmentStatus = resolvedPrimaryPhone || resolvedPhoneNumbers
+                ? 'completed'
+                : existingEnrichmentStatus || 'completed';
+
+            const record: Record<string, any> = {
+                id: lead.id,
+                name: fullName,
+                first_name: firstName,
+                last_name: lastName,
+                email: resolvedEmail,
+                email_status: resolvedEmail ? nextEmailStatus || existingEmailStatus : null,
+                linkedin_url: nextLinkedInUrl || existingLinkedInUrl || '',
+                org_name: organizationName,
+                organization_name: organizationName,
+                organization_id: organizationId,
+                organization_website: organizationWebsite,
+                industry: organizationIndustry || normalizeOptionalString(lead.industry) || existingOrganizationIndustry,
+                industry_code: industryClassification?.industry_code || null,
+                industry_path: industryClassification?.industry_path || [],
+                title: lead.title || null,
+                photo_url: lead.photo_url || null,
+                city: lead.city || null,
+                state: lead.state || null,
+                country: lead.country || null,
+                headline: lead.headline || null,
+                seniority: lead.seniority || null,
+                departments: Array.isArray(lead.departments) && lead.departments.length > 0 ? lead.departments : null,
+                phone_numbers: resolvedPhoneNumbers,
+                primary_phone: resolvedPrimaryPhone,
+                enrichment_status: resolvedEnrichmentStatus,
+                organization_domain: organizationDomain,
+                organization_industry: organizationIndustry,
+                organization_size: organizationSize,
+                email_quality: classifyEmail(resolvedEmail, organizationDomain),
+                page: typeof lead.page === 'number' ? lead.page : 1,
+                batch_run_id: batchRunId,
+                updated_at: new Date().toISOString(),
+            };
+
+            if (options.orgId) record.org_id = options.orgId;
+
+            if (options.icpProfile) {
+                const icp = scoreLeadAgainstIcp(record, options.icpProfile);
+                record.icp_score = icp?.icp_score ?? null;
+                record.icp_reasons = icp?.icp_reasons ?? [];
+                record.icp_profile_id = options.icpProfile.profile_id;
+            }
+
+            return record;
+        });
+
+    if (records.length === 0) {
+        log('No valid leads with id to save into Supabase.');
+        return [];
+    }
+
+    // Perform upsert and select the inserted rows to verify visibility
+    let upsertRecords = records.map((record) =>
+        foreignLeadIds.has(record.id) ? omitColumns(record, LEAD_OWNER_COLUMNS) : record
+    );
+    let { data, error } = await dbClient
+        .from(PEOPLE_SEARCH_LEADS_TABLE)
+        .upsert(upsertRecords, { onConflict: 'id' })
+        .select();
+
+    const droppedGroups = new Set<(typeof OPTIONAL_LEAD_COLUMN_GROUPS)[number]>();
+    while (error) {
+        const group = OPTIONAL_LEAD_COLUMN_GROUPS.find((candidate) =>
+            !droppedGroups.has(candidate) && candidate.pattern.test(error?.message || '')
+        );
+        if (!group) break;
+
+        log(group.warning, { error: error.message });
+        droppedGroups.add(group);
+        upsertRecords = upsertRecords.map((record) => omitColumns(record, group.columns));
+        ({ data, error } = await dbClient
+            .from(PEOPLE_SEARCH_LEADS_TABLE)
+            .upsert(upsertRecords, { onConflict: 'id' })
+            .select());
+    }
+
+    if (error) {
+        log('Error saving to Supabase:', error);
+        throw new Error(`Supabase Error: ${error.message}`);
+    } else {
+        log(`Saved ${records.length} leads to Supabase.`);
+
+        if (data) {
+            log(`Verification: API successfully read back ${data.length} rows.`);
+        } else {
+            log('Verification: API read back 0 rows (RLS might be blocking SELECT).');
+        }
+
+        // Double check count for this batch
+        const { count, error: countError } = await dbClient
+            .from(PEOPLE_SEARCH_LEADS_TABLE)
+            .select('*', { count: 'exact', head: true })
+            .eq('batch_run_id', batchRunId);
+
+        if (countError) {
+            log('Verification Error (Count):', countError);
+        } else {
+            log(`Verification: Total rows in DB for this batch: ${count}`);
+        }
+    }
+
+    let savedLeads: any[] = Array.isArray(data) ? data : records;
+    if (droppedGroups.size > 0 || foreignLeadIds.size > 0) {
+        // Keep ICP scores and email quality on the response even when the table could not store them,
+        // and answer with this search's owner columns, not those of the org that saved the lead first.
+        const droppedColumns = Array.from(droppedGroups).flatMap((group) => group.columns);
+        const recordsById = new Map(records.map((record) => [record.id, record]));
+        savedLeads = savedLeads.map((lead) => {
+            const record = recordsById.get(lead?.id);
+            if (!record) return lead;
+
+            const restored = { ...lead };
+            for (const column of droppedColumns) {
+                if (restored[column] === undefined && record[column] !== undefined) restored[column] = record[column];
+            }
+            if (foreignLeadIds.has(record.id)) {
+                for (const column of LEAD_OWNER_COLUMNS) restored[column] = record[column];
+            }
+            return restored;
+        });
+    }
+    await resolveLeadIdentities(PEOPLE_SEARCH_LEADS_TABLE, savedLeads, log);
+
+    return savedLeads;
+}
+
+/**
+ * Whether a saved lead belongs to `orgId`. Leads saved before 022_add_lead_org_id.sql have
+ * no owner and are not served to any org.
+ */
+export function isLeadOwnedByOrg(lead: any, orgId: string): boolean {
+    return Boolean(orgId) && lead?.org_id === orgId;
+}
+
+/**
+ * Whether row `recordId` of either lead table belongs to `orgId`, checked before an org's key
+ * enriches it. Missing rows belong to no org.
+ */
+export async function isLeadRecordOwnedByOrg(
+    tableName: ApolloWebhookTable,
+    recordId: string,
+    orgId: string
+): Promise<boolean> {
+    const { data, error } = await getServiceSupabase()
+        .from(tableName)
+        .select('id, org_id')
+        .eq('id', recordId)
+        .maybeSingle();
+
+    if (error) {
+        if (/\borg_id\b/.test(error.message || '')) {
+            const migration = tableName === PEOPLE_SEARCH_LEADS_TABLE ? '022_add_lead_org_id.sql' : '025_add_enriched_lead_org_id.sql';
+            throw new Error(`${tableName} has no org_id column. Run ${migration} first.`);
+        }
+        throw error;
+    }
+
+    return isLeadOwnedByOrg(data, orgId);
+}
+
+export async function fetchLeadsByBatchRunId(dbClient: any, batchRunId: string, limit: number): Promise<any[]> {
+    const { data, error } = await dbClient
+        .from(PEOPLE_SEARCH_LEADS_TABLE)
+        .select('*')
+        .eq('batch_run_id', batchRunId)
+        .limit(limit);
+
+    if (error) throw error;
+    return Array.isArray(data) ? data : [];
+}
+
+/**
+ * Reads one page of an org's batch run ordered by id, so consecutive pages never overlap.
+ */
+export async function fetchLeadPageByBatchRunId(
+    dbClient: any,
+    batchRunId: string,
+    orgId: string,
+    offset: number,
+    pageSize: number
+): Promise<any[]> {
+    const { data, error } = await dbClient
+        .from(PEOPLE_SEARCH_LEADS_TABLE)
+        .select('*')
+        .eq('batch_run_id', batchRunId)
+        .eq('org_id', orgId)
+        .order('id', { ascending: true })
+        .range(offset, offset + pageSize - 1);
+
+    if (error) throw error;
+    return Array.isArray(data) ? data : [];
+}
@@ -0,0 +1,212 @@
+import { OrganizationFallback, PeopleSearchCursor } from './types';
+
+const TABLE_NAME = 'search_progress';
+
+// Apollo pages people over the whole set of organizations it was asked about, so a cursor
+// only holds for that exact set. Cursors are keyed by `peopleCursorKey` of their ids.
+export type OrganizationPeopleCursor = PeopleSearchCursor & {
+    organization_ids: string[];
+    organizations: Record<string, OrganizationFallback | null>;
+};
+
+export type SearchProgressState = {
+    last_company_page: number;
+    companies_exhausted: boolean;
+    people_cursors: Record<string, OrganizationPeopleCursor>;
+    exhausted: boolean;
+};
+
+export type SearchProgressSummary = {
+    last_company_page: number;
+    companies_exhausted: boolean;
+    pending_organizations: number;
+    exhausted: boolean;
+};
+
+export function createEmptySearchProgress(): SearchProgressState {
+    return {
+        last_company_page: 0,
+        companies_exhausted: false,
+        people_cursors: {},
+        exhausted: false,
+    };
+}
+
+export function peopleCursorKey(organizationIds: string[]): string {
+    return Array.from(new Set(organizationIds)).sort().join(',');
+}
+
+export function createPeopleCursor(
+    organizationIds: string[],
+    organizationsById: Map<string, OrganizationFallback>
+): OrganizationPeopleCursor {
+    const ids = peopleCursorKey(organizationIds).split(',');
+    return {
+        next_page: 1,
+        offset: 0,
+        exhausted: false,
+        organization_ids: ids,
+        organizations: Object.fromEntries(ids.map((id) => [id, organizationsById.get(id) || null])),
+    };
+}
+
+function normalizePeopleCursors(value: unknown): Record<string, OrganizationPeopleCursor> {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+
+    const cursors: Record<string, OrganizationPeopleCursor> = {};
+    for (const [key, raw] of Object.entries(value as Record<string, any>)) {
+        if (!key || !raw || typeof raw !== 'object') continue;
+
+        // Older rows saved one cursor per organization, copied from the chunk it was searched
+        // in. That position is meaningless for the organization alone, so it starts over.
+        const isLegacy = !Array.isArray(raw.organization_ids);
+        const organizationIds = isLegacy
+            ? [key]
+            : raw.organization_ids.filter((id: unknown): id is string => typeof id === 'string' && id.trim() !== '');
+        if (organizationIds.length === 0) continue;
+
+        const organizations: Record<string, OrganizationFallback | null> = {};
+        for (const organizationId of organizationIds) {
+            const organization = isLegacy ? raw.organization : raw.organizations?.[organizationId];
+            organizations[organizationId] = organization && typeof organization === 'object' ? organization : null;
+        }
+
+        const nextPage = Number(raw.next_page);
+        const offset = Number(raw.offset);
+        const cursorKey = peopleCursorKey(organizationIds);
+        cursors[cursorKey] = {
+            next_page: !isLegacy && Number.isFinite(nextPage) && nextPage >= 1 ? Math.floor(nextPage) : 1,
+            offset: !isLegacy && Number.isFinite(offset) && offset >= 0 ? Math.floor(offset) : 0,
+            exhausted: raw.exhausted === true,
+            organization_ids: cursorKey.split(','),
+            organizations,
+        };
+    }
+
+    return cursors;
+}
+
+/**
+ * A search progress state read back from JSON, such as a job checkpoint. Null when the value
+ * is not one.
+ */
+export function parseSearchProgressState(value: unknown): SearchProgressState | null {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+
+    const raw = value as Record<string, any>;
+    const lastCompanyPage = Number(raw.last_company_page);
+    return {
+        last_company_page: Number.isFinite(lastCompanyPage) && lastCompanyPage > 0 ? Math.floor(lastCompanyPage) : 0,
+        companies_exhausted: raw.companies_exhausted === true,
+        people_cursors: normalizePeopleCursors(raw.people_cursors),
+        exhausted: raw.exhausted === true,
+    };
+}
+
+export function summarizeSearchProgress(state: SearchProgressState): SearchProgressSummary {
+    return {
+        last_company_page: state.last_company_page,
+        companies_exhausted: state.companies_exhausted,
+        pending_organizations: Object.values(state.people_cursors)
+            .filter((cursor) => !cursor.exhausted)
+            .reduce((count, cursor) => count + cursor.organization_ids.length, 0),
+        exhausted: state.exhausted,
+    };
+}
+
+/**
+ * Drops organization sets whose people are exhausted and marks the whole filter hash as
+ * exhausted once no company pages and no pending organizations are left.
+ */
+export function finalizeSearchProgress(state: SearchProgressState): SearchProgressState {
+    const people_cursors = Object.fromEntries(
+        Object.entries(state.people_cursors).filter(([, cursor]) => !cursor.exhausted)
+    );
+
+    return {
+        ...state,
+        people_cursors,
+        exhausted: state.companies_exhausted && Object.keys(people_cursors).length === 0,
+    };
+}
+
+export async function loadSearchProgress(
+    dbClient: any,
+    userId: string,
+    filtersHash: string,
+    log: (msg: string, data?: any) => void
+): Promise<SearchProgressState> {
+    // select('*') keeps this working against tables that predate the people cursor columns.
+    const { data: progressData, error: progressError } = await dbClient
+        .from(TABLE_NAME)
+        .select('*')
+        .eq('user_id', userId)
+        .eq('filters_hash', filtersHash)
+        .maybeSingle();
+
+    if (progressError) {
+        log('Warning: Failed to load previous search progress. Starting from Company Page 1.', {
+            error: progressError.message,
+        });
+        return createEmptySearchProgress();
+    }
+
+    if (!progressData) {
+        log('No previous progress found. Starting from Company Page 1');
+        return createEmptySearchProgress();
+    }
+
+    const lastCompanyPage = Number(progressData.last_company_page);
+    const state: SearchProgressState = {
+        last_company_page: Number.isFinite(lastCompanyPage) && lastCompanyPage > 0 ? lastCompanyPage : 0,
+        companies_exhausted: progressData.companies_exhausted === true,
+        people_cursors: normalizePeopleCursors(progressData.people_cursors),
+        exhausted: progressData.exhausted === true,
+    };
+
+    log(`Found previous progress. Resuming from Company Page ${state.last_company_page + 1}`, summarizeSearchProgress(state));
+    return state;
+}
+
+export async function saveSearchProgress(
+    dbClient: any,
+    userId: string,
+    filtersHash: string,
+    state: SearchProgressState,
+    log: (msg: string, data?: any) => void
+) {
+    const now = new Date().toISOString();
+    const legacyRecord = {
+        user_id: userId,
+        filters_hash: filtersHash,
+        last_company_page: state.last_company_page,
+        updated_at: now,
+    };
+
+    const { error: upsertError } = await dbClient
+        .from(TABLE_NAME)
+        .upsert({
+            ...legacyRecord,
+            companies_exhausted: state.companies_exhausted,
+            people_cursors: state.people_cursors,
+            exhausted: state.exhausted,
+            exhausted_at: state.exhausted ? now : null,
+        });
+
+    if (!upsertError) {
+        log(`Saved search progress. Last Company Page: ${state.last_company_page}`, summarizeSearchProgress(state));
+        return;
+    }
+
+    log('Warning: Failed to save people cursors, retrying with company page only:', upsertError);
+
+    const { error: legacyError } = await dbClient
+        .from(TABLE_NAME)
+        .upsert(legacyRecord);
+
+    if (legacyError) {
+        log('Warning: Failed to save search progress:', legacyError);
+    } else {
+        log(`Saved search progress. Last Company Page: ${state.last_company_page}`);
+    }
+}
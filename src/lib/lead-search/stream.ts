@@ -0,0 +1,97 @@
+import { parseBooleanFlag } from './normalize';
+
+export type LeadSearchStreamFormat = 'ndjson' | 'sse';
+
+export type LeadSearchStreamEvent = {
+    type: 'start' | 'phase' | 'company_page' | 'leads' | 'warning' | 'summary' | 'error';
+    [key: string]: any;
+};
+
+export type LeadSearchStreamEmitter = (event: LeadSearchStreamEvent) => void;
+
+const STREAM_CONTENT_TYPES: Record<LeadSearchStreamFormat, string> = {
+    ndjson: 'application/x-ndjson; charset=utf-8',
+    sse: 'text/event-stream; charset=utf-8',
+};
+
+/**
+ * Streaming is requested with `stream: true | "ndjson" | "sse"` in the body, or through
+ * the Accept header. Returns null for a regular JSON response.
+ */
+export function resolveLeadSearchStreamFormat(req: Request, streamFlag: unknown): LeadSearchStreamFormat | null {
+    if (typeof streamFlag === 'string') {
+        const normalized = streamFlag.trim().toLowerCase();
+        if (normalized === 'ndjson' || normalized === 'sse') return normalized;
+    }
+
+    const accept = req.headers.get('accept')?.toLowerCase() || '';
+    const explicitFlag = parseBooleanFlag(streamFlag);
+    if (explicitFlag === false) return null;
+
+    if (accept.includes('text/event-stream')) return 'sse';
+    if (accept.includes('application/x-ndjson')) return 'ndjson';
+
+    return explicitFlag === true ? 'ndjson' : null;
+}
+
+function encodeEvent(format: LeadSearchStreamFormat, event: LeadSearchStreamEvent): string {
+    const payload = JSON.stringify(event);
+    return format === 'sse'
+        ? `event: ${event.type}\ndata: ${payload}\n\n`
+        : `${payload}\n`;
+}
+
+/**
+ * Runs `producer` and writes every emitted event to the response body as soon as it is
+ * emitted. A thrown error is reported as a final `error` event, since the status code has
+ * already been sent by then.
+ */
+export function createLeadSearchStreamResponse(
+    format: LeadSearchStreamFormat,
+    producer: (emit: LeadSearchStreamEmitter) => Promise<void>
+): Response {
+    const encoder = new TextEncoder();
+
+    const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            let closed = false;
+            const emit: LeadSearchStreamEmitter = (event) => {
+                if (closed) return;
+                try {
+                    controller.enqueue(encoder.encode(encodeEvent(format, event)));
+                } catch {
+                    // Client disconnected; the run keeps going so persisted state stays consistent.
+                    closed = true;
+                }
+            };
+
+            try {
+                await producer(emit);
+            } catch (error: any) {
+                emit({
+                    type: 'error',
+                    fatal: true,
+                    message: error?.message || 'Internal Server Error',
+                });
+            } finally {
+                if (!closed) {
+                    closed = true;
+                    try {
+                        controller.close();
+                    } catch {
+                        // Stream already cancelled by the client.
+                    }
+                }
+            }
+        },
+    });
+
+    return new Response(body, {
+        status: 200,
+        headers: {
+            'Content-Type': STREAM_CONTENT_TYPES[format],
+            'Cache-Control': 'no-cache, no-transform',
+            'X-Accel-Buffering': 'no',
+        },
+    });
+}
@@ -0,0 +1,219 @@
+import type { OrganizationMatchBreakdown } from '@/lib/org-matching/types';
+import type { StoredOrganization } from '@/lib/organizations/persistence';
+
+export type SearchMode = 'batch' | 'linkedin_profile' | 'company_name';
+
+// Types for the request body
+export interface LeadSearchRequest {
+    user_id: string; // Added user_id
+    search_mode?: SearchMode;
+    searchMode?: SearchMode | string;
+    linkedin_url?: string;
+    linkedin_profile_url?: string;
+    linkedinUrl?: string;
+    linkedinProfileUrl?: string;
+    company_name?: string;
+    companyName?: string;
+    organization_domains?: string[] | string;
+    organizationDomains?: string[] | string;
+    organization_domain_list?: string[] | string;
+    organizationDomainList?: string[] | string;
+    organization_domain?: string;
+    organizationDomain?: string;
+    company_domain?: string;
+    companyDomain?: string;
+    company_linkedin_url?: string;
+    companyLinkedinUrl?: string;
+    expand_corporate_family?: boolean | string | number;
+    expandCorporateFamily?: boolean | string | number;
+    selected_organization_id?: string;
+    selectedOrganizationId?: string;
+    selected_organization_name?: string;
+    selectedOrganizationName?: string;
+    selected_organization_domain?: string;
+    selectedOrganizationDomain?: string;
+    selected_organization_website?: string;
+    selectedOrganizationWebsite?: string;
+    selected_organization_industry?: string;
+    selectedOrganizationIndustry?: string;
+    selected_organization_size?: number | string;
+    selectedOrganizationSize?: number | string;
+    include_similar_titles?: boolean | string | number;
+    includeSimilarTitles?: boolean | string | number;
+    reveal_email?: boolean | string | number;
+    reveal_phone?: boolean | string | number;
+    revealEmail?: boolean | string | number;
+    revealPhone?: boolean | string | number;
+    industry_keywords?: string[];
+    company_keyword_tags?: string[];
+    // Industry taxonomy codes; each expands to the Apollo keyword tags of the code and its children.
+    industry_codes?: string[] | string;
+    industryCodes?: string[] | string;
+    company_location?: string[];
+    // Where the people are, as opposed to their company; resolved like company_location.
+    person_locations?: string[] | string;
+    personLocations?: string[] | string;
+    titles?: string[];
+    seniorities?: string[];
+    employee_ranges?: string[];
+    employeeRanges?: string[] | string;
+    employee_range?: string[] | string;
+    employeeRange?: string[] | string;
+    max_results?: number | string;
+    companies_only?: boolean;
+    resume_search_progress?: boolean | string | number;
+    resumeSearchProgress?: boolean | string | number;
+    async?: boolean | string | number;
+    run_async?: boolean | string | number;
+    runAsync?: boolean | string | number;
+    stream?: boolean | string | number;
+    org_id?: string;
+    icp_profile_id?: string;
+    sort_by?: string;
+    sort_order?: string;
+}
+
+// Apollo API Types (Simplified)
+export interface ApolloCompany {
+    id: string;
+    name: string;
+    primary_domain: string;
+    website_url?: string;
+    linkedin_url?: string;
+    industry?: string;
+    estimated_num_employees?: number;
+    city?: string;
+    state?: string;
+    country?: string;
+    naics_codes?: string[];
+    sic_codes?: string[];
+    industry_code?: string | null;
+    industry_path?: string[];
+    owned_by_organization_id?: string;
+    owned_by_organization?: {
+        id?: string;
+        name?: string;
+        website_url?: string;
+        primary_domain?: string;
+        industry?: string;
+        estimated_num_employees?: number;
+    };
+}
+
+export interface ApolloPerson {
+    id: string;
+    first_name?: string;
+    last_name?: string;
+    last_name_obfuscated?: string;
+    email?: string;
+    linkedin_url?: string;
+    organization?: {
+        id?: string | null;
+        name?: string | null;
+        primary_domain?: string | null;
+        website_url?: string | null;
+        industry?: string | null;
+        estimated_num_employees?: number | null;
+        naics_codes?: string[] | null;
+        sic_codes?: string[] | null;
+    };
+    organization_id?: string | null;
+    organization_name?: string | null;
+    organization_domain?: string | null;
+    organization_website?: string | null;
+    organization_industry?: string | null;
+    organization_size?: number | null;
+    industry_code?: string | null;
+    industry_path?: string[] | null;
+    title?: string;
+}
+
+export type LinkedInRevealPreferences = {
+    revealEmail: boolean;
+    revealPhone: boolean;
+};
+
+export type LinkedInLookupResult = {
+    apolloResponse: any | null;
+    error: string | null;
+    details: string | null;
+    appliedReveal: LinkedInRevealPreferences;
+    providerWarnings: string[];
+};
+
+export type PhoneEnrichmentQueueResult = {
+    requested: boolean;
+    queued: boolean;
+    status: 'not_requested' | 'queued' | 'skipped' | 'failed';
+    message: string | null;
+    webhook_url: string | null;
+    provider_status: number | null;
+    provider_details: string | null;
+};
+
+export type OrganizationCandidate = {
+    id: string;
+    name: string;
+    primary_domain: string | null;
+    website_url: string | null;
+    linkedin_url: string | null;
+    industry: string | null;
+    // Place in the bundled industry taxonomy (`src/lib/industries/`), from NAICS/SIC codes or `industry`.
+    industry_code: string | null;
+    industry_path: string[];
+    estimated_num_employees: number | null;
+    city: string | null;
+    state: string | null;
+    country: string | null;
+    // Parent company when Apollo lists one (`owned_by_organization`).
+    owned_by_organization_id: string | null;
+    owned_by_organization_name: string | null;
+    owned_by_organization_domain: string | null;
+    match_score: number;
+    match_breakdown: OrganizationMatchBreakdown | null;
+};
+
+export type OrganizationFallback = {
+    id: string | null;
+    name: string | null;
+    primary_domain: string | null;
+    website_url: string | null;
+    industry: string | null;
+    industry_code: string | null;
+    industry_path: string[];
+    estimated_num_employees: number | null;
+};
+
+export type SparseLeadSummary = {
+    missing_organization_id_count: number;
+    missing_organization_domain_count: number;
+    missing_organization_industry_count: number;
+    missing_email_count: number;
+    warnings: string[];
+};
+
+export type SelectedOrganizationRequest = {
+    id: string;
+    name: string | null;
+    primary_domain: string | null;
+    website_url: string | null;
+    industry: string | null;
+    estimated_num_employees: number | null;
+};
+
+// Per-request memo in front of the `organizations` table and Apollo.
+export type OrganizationHydrationCache = {
+    byDomain: Map<string, OrganizationCandidate | null>;
+    byId: Map<string, StoredOrganization | null>;
+};
+
+export type ApolloSearchPageHooks<T> = {
+    onPage?: (page: number, results: T[]) => Promise<void> | void;
+    onError?: (message: string) => Promise<void> | void;
+};
+
+export type PeopleSearchCursor = {
+    next_page: number;
+    offset: number;
+    exhausted: boolean;
+};
@@ -0,0 +1,155 @@
+import { GazetteerEntry } from './types';
+
+// A bare name resolves to the first entry listing it, so countries come first ("Panamá" is
+// the country, "Panamá, Panamá" the city) and the better-known place comes before its
+// namesakes ("Córdoba" is the Argentine city, "Distrito Federal" is Mexico City).
+export const LOCATION_GAZETTEER: GazetteerEntry[] = [
+    // Countries
+    { kind: 'country', apollo: 'Argentina', country_code: 'AR', aliases: ['argentina', 'arg', 'republica argentina'] },
+    { kind: 'country', apollo: 'Bolivia', country_code: 'BO', aliases: ['bolivia', 'bolívia'] },
+    { kind: 'country', apollo: 'Brazil', country_code: 'BR', aliases: ['brasil', 'brazil', 'bra'] },
+    { kind: 'country', apollo: 'Chile', country_code: 'CL', aliases: ['chile', 'chl'] },
+    { kind: 'country', apollo: 'Colombia', country_code: 'CO', aliases: ['colombia', 'colômbia', 'col'] },
+    { kind: 'country', apollo: 'Costa Rica', country_code: 'CR', aliases: ['costa rica'] },
+    { kind: 'country', apollo: 'Cuba', country_code: 'CU', aliases: ['cuba'] },
+    {
+        kind: 'country',
+        apollo: 'Dominican Republic',
+        country_code: 'DO',
+        aliases: ['dominican republic', 'republica dominicana', 'rep dominicana', 'rep. dominicana'],
+    },
+    { kind: 'country', apollo: 'Ecuador', country_code: 'EC', aliases: ['ecuador', 'equador'] },
+    { kind: 'country', apollo: 'El Salvador', country_code: 'SV', aliases: ['el salvador'] },
+    { kind: 'country', apollo: 'Guatemala', country_code: 'GT', aliases: ['guatemala'] },
+    { kind: 'country', apollo: 'Honduras', country_code: 'HN', aliases: ['honduras'] },
+    { kind: 'country', apollo: 'Mexico', country_code: 'MX', aliases: ['mexico', 'méxico', 'méjico', 'mex'] },
+    { kind: 'country', apollo: 'Nicaragua', country_code: 'NI', aliases: ['nicaragua'] },
+    { kind: 'country', apollo: 'Panama', country_code: 'PA', aliases: ['panama', 'panamá'] },
+    { kind: 'country', apollo: 'Paraguay', country_code: 'PY', aliases: ['paraguay', 'paraguai'] },
+    { kind: 'country', apollo: 'Peru', country_code: 'PE', aliases: ['peru', 'perú'] },
+    { kind: 'country', apollo: 'Puerto Rico', country_code: 'PR', aliases: ['puerto rico', 'porto rico'] },
+    { kind: 'country', apollo: 'Uruguay', country_code: 'UY', aliases: ['uruguay', 'uruguai'] },
+    { kind: 'country', apollo: 'Venezuela', country_code: 'VE', aliases: ['venezuela'] },
+    {
+        kind: 'country',
+        apollo: 'United States',
+        country_code: 'US',
+        aliases: ['united states', 'united states of america', 'usa', 'us', 'eeuu', 'ee uu', 'estados unidos', 'eua', 'estados unidos da america'],
+    },
+    { kind: 'country', apollo: 'Spain', country_code: 'ES', aliases: ['spain', 'españa', 'espanha'] },
+    { kind: 'country', apollo: 'Portugal', country_code: 'PT', aliases: ['portugal'] },
+
+    // Regions
+    {
+        kind: 'region',
+        apollo: 'Santiago Metropolitan Region, Chile',
+        country_code: 'CL',
+        aliases: ['region metropolitana', 'región metropolitana de santiago', 'rm', 'santiago metropolitan region', 'metropolitan region'],
+    },
+    { kind: 'region', apollo: 'Valparaíso Region, Chile', country_code: 'CL', aliases: ['region de valparaiso', 'v region', 'quinta region'] },
+    { kind: 'region', apollo: 'Biobío Region, Chile', country_code: 'CL', aliases: ['region del biobio', 'biobio', 'bio bio', 'viii region'] },
+    { kind: 'region', apollo: 'Antofagasta Region, Chile', country_code: 'CL', aliases: ['region de antofagasta', 'ii region'] },
+    {
+        kind: 'region',
+        apollo: 'Buenos Aires Province, Argentina',
+        country_code: 'AR',
+        aliases: ['provincia de buenos aires', 'buenos aires province', 'pba'],
+    },
+    { kind: 'region', apollo: 'Córdoba Province, Argentina', country_code: 'AR', aliases: ['provincia de cordoba', 'cordoba province'] },
+    { kind: 'region', apollo: 'Santa Fe Province, Argentina', country_code: 'AR', aliases: ['provincia de santa fe', 'santa fe'] },
+    { kind: 'region', apollo: 'Mendoza Province, Argentina', country_code: 'AR', aliases: ['provincia de mendoza', 'mendoza province'] },
+    { kind: 'region', apollo: 'State of São Paulo, Brazil', country_code: 'BR', aliases: ['estado de sao paulo', 'state of sao paulo'] },
+    { kind: 'region', apollo: 'State of Rio de Janeiro, Brazil', country_code: 'BR', aliases: ['estado do rio de janeiro', 'state of rio de janeiro'] },
+    { kind: 'region', apollo: 'State of Minas Gerais, Brazil', country_code: 'BR', aliases: ['minas gerais', 'estado de minas gerais', 'mg'] },
+    { kind: 'region', apollo: 'State of Paraná, Brazil', country_code: 'BR', aliases: ['parana', 'estado do parana'] },
+    { kind: 'region', apollo: 'State of Rio Grande do Sul, Brazil', country_code: 'BR', aliases: ['rio grande do sul', 'rs'] },
+    { kind: 'region', apollo: 'State of Santa Catarina, Brazil', country_code: 'BR', aliases: ['santa catarina', 'sc'] },
+    { kind: 'region', apollo: 'State of Bahia, Brazil', country_code: 'BR', aliases: ['bahia', 'estado da bahia'] },
+    { kind: 'region', apollo: 'Federal District, Brazil', country_code: 'BR', aliases: ['federal district', 'distrito federal do brasil'] },
+    { kind: 'region', apollo: 'State of Mexico, Mexico', country_code: 'MX', aliases: ['estado de mexico', 'edomex', 'state of mexico'] },
+    { kind: 'region', apollo: 'Jalisco, Mexico', country_code: 'MX', aliases: ['jalisco'] },
+    { kind: 'region', apollo: 'Nuevo León, Mexico', country_code: 'MX', aliases: ['nuevo leon'] },
+    { kind: 'region', apollo: 'Baja California, Mexico', country_code: 'MX', aliases: ['baja california', 'bc'] },
+    { kind: 'region', apollo: 'Guanajuato, Mexico', country_code: 'MX', aliases: ['guanajuato'] },
+    { kind: 'region', apollo: 'Quintana Roo, Mexico', country_code: 'MX', aliases: ['quintana roo'] },
+    { kind: 'region', apollo: 'Antioquia, Colombia', country_code: 'CO', aliases: ['antioquia'] },
+    { kind: 'region', apollo: 'Valle del Cauca, Colombia', country_code: 'CO', aliases: ['valle del cauca', 'valle'] },
+    { kind: 'region', apollo: 'Cundinamarca, Colombia', country_code: 'CO', aliases: ['cundinamarca'] },
+
+    // Cities
+    {
+        kind: 'city',
+        apollo: 'Santiago, Chile',
+        country_code: 'CL',
+        aliases: ['santiago', 'santiago de chile', 'stgo', 'gran santiago'],
+    },
+    { kind: 'city', apollo: 'Valparaíso, Chile', country_code: 'CL', aliases: ['valparaiso', 'valpo'] },
+    { kind: 'city', apollo: 'Viña del Mar, Chile', country_code: 'CL', aliases: ['vina del mar', 'vina'] },
+    { kind: 'city', apollo: 'Concepción, Chile', country_code: 'CL', aliases: ['concepcion'] },
+    { kind: 'city', apollo: 'Antofagasta, Chile', country_code: 'CL', aliases: ['antofagasta'] },
+    { kind: 'city', apollo: 'Puerto Montt, Chile', country_code: 'CL', aliases: ['puerto montt'] },
+    {
+        kind: 'city',
+        apollo: 'Buenos Aires, Argentina',
+        country_code: 'AR',
+        aliases: ['buenos aires', 'caba', 'capital federal', 'ciudad de buenos aires', 'ciudad autonoma de buenos aires', 'bs as', 'bsas'],
+    },
+    { kind: 'city', apollo: 'Córdoba, Argentina', country_code: 'AR', aliases: ['cordoba'] },
+    { kind: 'city', apollo: 'Rosario, Argentina', country_code: 'AR', aliases: ['rosario'] },
+    { kind: 'city', apollo: 'Mendoza, Argentina', country_code: 'AR', aliases: ['mendoza'] },
+    { kind: 'city', apollo: 'La Plata, Argentina', country_code: 'AR', aliases: ['la plata'] },
+    { kind: 'city', apollo: 'São Paulo, Brazil', country_code: 'BR', aliases: ['sao paulo', 'sp', 'sampa'] },
+    { kind: 'city', apollo: 'Rio de Janeiro, Brazil', country_code: 'BR', aliases: ['rio de janeiro', 'rio', 'rj'] },
+    { kind: 'city', apollo: 'Belo Horizonte, Brazil', country_code: 'BR', aliases: ['belo horizonte', 'bh'] },
+    { kind: 'city', apollo: 'Brasília, Brazil', country_code: 'BR', aliases: ['brasilia'] },
+    { kind: 'city', apollo: 'Curitiba, Brazil', country_code: 'BR', aliases: ['curitiba'] },
+    { kind: 'city', apollo: 'Porto Alegre, Brazil', country_code: 'BR', aliases: ['porto alegre', 'poa'] },
+    { kind: 'city', apollo: 'Campinas, Brazil', country_code: 'BR', aliases: ['campinas'] },
+    { kind: 'city', apollo: 'Florianópolis, Brazil', country_code: 'BR', aliases: ['florianopolis', 'floripa'] },
+    { kind: 'city', apollo: 'Recife, Brazil', country_code: 'BR', aliases: ['recife'] },
+    { kind: 'city', apollo: 'Salvador, Brazil', country_code: 'BR', aliases: ['salvador', 'salvador de bahia', 'salvador da bahia'] },
+    { kind: 'city', apollo: 'Fortaleza, Brazil', country_code: 'BR', aliases: ['fortaleza'] },
+    {
+        kind: 'city',
+        apollo: 'Mexico City, Mexico',
+        country_code: 'MX',
+        aliases: ['cdmx', 'ciudad de mexico', 'mexico city', 'mexico df', 'df', 'distrito federal', 'cidade do mexico'],
+    },
+    { kind: 'city', apollo: 'Guadalajara, Mexico', country_code: 'MX', aliases: ['guadalajara', 'gdl'] },
+    { kind: 'city', apollo: 'Monterrey, Mexico', country_code: 'MX', aliases: ['monterrey', 'mty'] },
+    { kind: 'city', apollo: 'Puebla, Mexico', country_code: 'MX', aliases: ['puebla'] },
+    { kind: 'city', apollo: 'Tijuana, Mexico', country_code: 'MX', aliases: ['tijuana'] },
+    { kind: 'city', apollo: 'Querétaro, Mexico', country_code: 'MX', aliases: ['queretaro', 'santiago de queretaro'] },
+    { kind: 'city', apollo: 'Mérida, Mexico', country_code: 'MX', aliases: ['merida'] },
+    { kind: 'city', apollo: 'León, Mexico', country_code: 'MX', aliases: ['leon'] },
+    { kind: 'city', apollo: 'Cancún, Mexico', country_code: 'MX', aliases: ['cancun'] },
+    { kind: 'city', apollo: 'Bogotá, Colombia', country_code: 'CO', aliases: ['bogota', 'bogota dc', 'santafe de bogota', 'bogota d c'] },
+    { kind: 'city', apollo: 'Medellín, Colombia', country_code: 'CO', aliases: ['medellin'] },
+    { kind: 'city', apollo: 'Cali, Colombia', country_code: 'CO', aliases: ['cali', 'santiago de cali'] },
+    { kind: 'city', apollo: 'Barranquilla, Colombia', country_code: 'CO', aliases: ['barranquilla'] },
+    { kind: 'city', apollo: 'Cartagena, Colombia', country_code: 'CO', aliases: ['cartagena', 'cartagena de indias'] },
+    { kind: 'city', apollo: 'Bucaramanga, Colombia', country_code: 'CO', aliases: ['bucaramanga'] },
+    { kind: 'city', apollo: 'Lima, Peru', country_code: 'PE', aliases: ['lima', 'lima metropolitana'] },
+    { kind: 'city', apollo: 'Arequipa, Peru', country_code: 'PE', aliases: ['arequipa'] },
+    { kind: 'city', apollo: 'Trujillo, Peru', country_code: 'PE', aliases: ['trujillo'] },
+    { kind: 'city', apollo: 'Cusco, Peru', country_code: 'PE', aliases: ['cusco', 'cuzco'] },
+    { kind: 'city', apollo: 'Montevideo, Uruguay', country_code: 'UY', aliases: ['montevideo'] },
+    { kind: 'city', apollo: 'Asunción, Paraguay', country_code: 'PY', aliases: ['asuncion'] },
+    { kind: 'city', apollo: 'La Paz, Bolivia', country_code: 'BO', aliases: ['la paz'] },
+    { kind: 'city', apollo: 'Santa Cruz de la Sierra, Bolivia', country_code: 'BO', aliases: ['santa cruz de la sierra', 'santa cruz'] },
+    { kind: 'city', apollo: 'Cochabamba, Bolivia', country_code: 'BO', aliases: ['cochabamba'] },
+    { kind: 'city', apollo: 'Quito, Ecuador', country_code: 'EC', aliases: ['quito'] },
+    { kind: 'city', apollo: 'Guayaquil, Ecuador', country_code: 'EC', aliases: ['guayaquil'] },
+    { kind: 'city', apollo: 'Cuenca, Ecuador', country_code: 'EC', aliases: ['cuenca'] },
+    { kind: 'city', apollo: 'Caracas, Venezuela', country_code: 'VE', aliases: ['caracas'] },
+    { kind: 'city', apollo: 'Maracaibo, Venezuela', country_code: 'VE', aliases: ['maracaibo'] },
+    { kind: 'city', apollo: 'San José, Costa Rica', country_code: 'CR', aliases: ['san jose de costa rica', 'san jose'] },
+    { kind: 'city', apollo: 'Panama City, Panama', country_code: 'PA', aliases: ['ciudad de panama', 'panama city', 'cidade do panama', 'panama'] },
+    { kind: 'city', apollo: 'Guatemala City, Guatemala', country_code: 'GT', aliases: ['ciudad de guatemala', 'guatemala city', 'guatemala'] },
+    { kind: 'city', apollo: 'San Salvador, El Salvador', country_code: 'SV', aliases: ['san salvador'] },
+    { kind: 'city', apollo: 'Tegucigalpa, Honduras', country_code: 'HN', aliases: ['tegucigalpa'] },
+    { kind: 'city', apollo: 'San Pedro Sula, Honduras', country_code: 'HN', aliases: ['san pedro sula'] },
+    { kind: 'city', apollo: 'Managua, Nicaragua', country_code: 'NI', aliases: ['managua'] },
+    { kind: 'city', apollo: 'Santo Domingo, Dominican Republic', country_code: 'DO', aliases: ['santo domingo'] },
+    { kind: 'city', apollo: 'San Juan, Puerto Rico', country_code: 'PR', aliases: ['san juan'] },
+];
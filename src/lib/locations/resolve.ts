@@ -0,0 +1,75 @@
+import { foldText } from '@/lib/lead-search/normalize';
+import { LOCATION_GAZETTEER } from './gazetteer';
+import { GazetteerEntry, LocationResolution, ResolvedLocation } from './types';
+
+const ENTRIES_BY_ALIAS = new Map<string, GazetteerEntry[]>();
+for (const entry of LOCATION_GAZETTEER) {
+    for (const alias of [entry.apollo, ...entry.aliases]) {
+        const key = foldText(alias);
+        const entries = ENTRIES_BY_ALIAS.get(key) || [];
+        if (!entries.includes(entry)) entries.push(entry);
+        ENTRIES_BY_ALIAS.set(key, entries);
+    }
+}
+
+function findCountry(value: string): GazetteerEntry | null {
+    return ENTRIES_BY_ALIAS.get(foldText(value))?.find((entry) => entry.kind === 'country') || null;
+}
+
+function toResolved(input: string, entry: GazetteerEntry): ResolvedLocation {
+    return { input, apollo_location: entry.apollo, kind: entry.kind, country_code: entry.country_code };
+}
+
+/**
+ * Maps one location as users type it ("CDMX", "Región Metropolitana", "Brasil", "Lima,
+ * Perú") to the form Apollo expects. "Place, Country" looks the place up within that country;
+ * a place the gazetteer does not know keeps its spelling with the country name normalized.
+ * Anything else is passed through as typed.
+ */
+export function resolveLocation(input: string): ResolvedLocation {
+    const trimmed = input.trim().replace(/\s+/g, ' ');
+
+    const exact = ENTRIES_BY_ALIAS.get(foldText(trimmed))?.[0];
+    if (exact) return toResolved(trimmed, exact);
+
+    const parts = trimmed.split(',').map((part) => part.trim()).filter(Boolean);
+    if (parts.length >= 2) {
+        const country = findCountry(parts[parts.length - 1]);
+        if (country) {
+            const place = ENTRIES_BY_ALIAS.get(foldText(parts[0]))
+                ?.find((entry) => entry.kind !== 'country' && entry.country_code === country.country_code);
+            if (place) return toResolved(trimmed, place);
+
+            return {
+                input: trimmed,
+                apollo_location: [...parts.slice(0, -1), country.apollo].join(', '),
+                kind: null,
+                country_code: country.country_code,
+            };
+        }
+
+        // "Monterrey, NL": the first part alone is enough when the rest is not a country.
+        const place = ENTRIES_BY_ALIAS.get(foldText(parts[0]))?.[0];
+        if (place && place.kind !== 'country') return toResolved(trimmed, place);
+    }
+
+    return { input: trimmed, apollo_location: trimmed, kind: null, country_code: null };
+}
+
+/**
+ * Resolves every location of a request, dropping blanks and duplicates after resolution.
+ */
+export function resolveLocations(inputs: string[]): LocationResolution {
+    const locations: string[] = [];
+    const resolved: ResolvedLocation[] = [];
+
+    for (const input of inputs) {
+        if (!input.trim()) continue;
+
+        const location = resolveLocation(input);
+        resolved.push(location);
+        if (!locations.includes(location.apollo_location)) locations.push(location.apollo_location);
+    }
+
+    return { locations, resolved };
+}
@@ -0,0 +1,27 @@
+export type LocationKind = 'country' | 'region' | 'city';
+
+export type GazetteerEntry = {
+    kind: LocationKind;
+    // The location as Apollo's organization_locations[] and person_locations[] expect it:
+    // English names, "City, Country" or "Region, Country".
+    apollo: string;
+    // ISO 3166-1 alpha-2 code of the country the entry belongs to.
+    country_code: string;
+    // Spanish, Portuguese and English spellings and abbreviations; matched case-, accent- and
+    // punctuation-insensitively.
+    aliases: string[];
+};
+
+export type ResolvedLocation = {
+    input: string;
+    apollo_location: string;
+    // Null when the input is not in the gazetteer and is passed to Apollo as typed.
+    kind: LocationKind | null;
+    country_code: string | null;
+};
+
+export type LocationResolution = {
+    // Deduplicated Apollo locations, in input order.
+    locations: string[];
+    resolved: ResolvedLocation[];
+};
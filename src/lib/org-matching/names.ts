@@ -0,0 +1,199 @@
+import { foldText } from '@/lib/lead-search/normalize';
+
+// Legal forms as they read after foldText ("S.A. de C.V." -> "s a de c v"), longest first so
+// "s a de c v" is removed before "s a".
+const LEGAL_FORMS = [
+    's a de c v',
+    'sa de cv',
+    's de r l de c v',
+    's de rl de cv',
+    's de r l',
+    'sociedad anonima',
+    'sociedad limitada',
+    'sociedad por acciones',
+    's a p i de c v',
+    's a c i',
+    's a s',
+    's a c',
+    's a a',
+    's a',
+    's r l',
+    's l u',
+    's l',
+    's p a',
+    'e i r l',
+    'e i r e l i',
+    'cia ltda',
+    'ltda',
+    'limitada',
+    'spa',
+    'sas',
+    'sac',
+    'saa',
+    'saci',
+    'sa',
+    'srl',
+    'slu',
+    'sl',
+    'eirl',
+    'eireli',
+    'me',
+    'epp',
+    'inc',
+    'incorporated',
+    'llc',
+    'l l c',
+    'ltd',
+    'limited',
+    'corp',
+    'corporation',
+    'co',
+    'company',
+    'plc',
+    'gmbh',
+    'ag',
+    'bv',
+    'nv',
+].map((form) => form.split(' '));
+
+const STOPWORDS = new Set(['cia', 'de', 'del', 'la', 'las', 'los', 'el', 'y', 'e', 'and', 'the', 'of', 'do', 'da', 'dos', 'das']);
+
+export type NormalizedOrganizationName = {
+    tokens: string[];
+    // Tokens without stopwords, compared as a set so word order does not matter.
+    significant: string[];
+    compact: string;
+    legal_forms_removed: string[];
+};
+
+/**
+ * Folds accents and case and strips trailing legal forms ("Falabella S.A." and "FALABELLA SA"
+ * both become "falabella"). A name made only of a legal form is kept as is.
+ */
+export function normalizeOrganizationName(value: string): NormalizedOrganizationName {
+    let tokens = foldText(value).split(' ').filter(Boolean);
+    const removed: string[] = [];
+
+    let stripped = true;
+    while (stripped) {
+        stripped = false;
+        for (const form of LEGAL_FORMS) {
+            if (form.length >= tokens.length) continue;
+
+            const tail = tokens.slice(tokens.length - form.length);
+            if (tail.every((token, index) => token === form[index])) {
+                removed.unshift(form.join(' '));
+                tokens = tokens.slice(0, tokens.length - form.length);
+                stripped = true;
+                break;
+            }
+        }
+    }
+
+    const significant = tokens.filter((token) => !STOPWORDS.has(token));
+    return {
+        tokens,
+        significant: significant.length > 0 ? significant : tokens,
+        compact: tokens.join(''),
+        legal_forms_removed: removed,
+    };
+}
+
+/**
+ * Key under which two spellings of the same company collide: legal forms, accents,
+ * punctuation and word order removed.
+ */
+export function organizationNameKey(value: string): string {
+    const { significant } = normalizeOrganizationName(value);
+    return [...significant].sort().join(' ');
+}
+
+function levenshtein(a: string, b: string): number {
+    if (a === b) return 0;
+    if (!a) return b.length;
+    if (!b) return a.length;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+
+    return previous[b.length];
+}
+
+export function stringSimilarity(a: string, b: string): number {
+    const longest = Math.max(a.length, b.length);
+    if (longest === 0) return 0;
+    return 1 - levenshtein(a, b) / longest;
+}
+
+function bigrams(value: string): string[] {
+    if (value.length < 2) return value ? [value] : [];
+
+    const grams: string[] = [];
+    for (let index = 0; index < value.length - 1; index++) {
+        grams.push(value.slice(index, index + 2));
+    }
+    return grams;
+}
+
+/**
+ * Dice coefficient over character bigrams of the names without spaces, so "Mercado Libre"
+ * and "MercadoLibre" are near-identical.
+ */
+export function characterSimilarity(a: NormalizedOrganizationName, b: NormalizedOrganizationName): number {
+    const left = bigrams(a.compact);
+    const right = bigrams(b.compact);
+    if (left.length === 0 || right.length === 0) return 0;
+
+    const remaining = new Map<string, number>();
+    for (const gram of right) remaining.set(gram, (remaining.get(gram) || 0) + 1);
+
+    let shared = 0;
+    for (const gram of left) {
+        const count = remaining.get(gram) || 0;
+        if (count > 0) {
+            shared++;
+            remaining.set(gram, count - 1);
+        }
+    }
+
+    return (2 * shared) / (left.length + right.length);
+}
+
+/**
+ * Dice coefficient over significant tokens, where tokens count as equal when they are at
+ * least 85% similar (typos such as "Cencosud"/"Censosud").
+ */
+export function tokenSimilarity(a: NormalizedOrganizationName, b: NormalizedOrganizationName): number {
+    if (a.significant.length === 0 || b.significant.length === 0) return 0;
+
+    const unmatched = [...b.significant];
+    let shared = 0;
+    for (const token of a.significant) {
+        let bestIndex = -1;
+        let bestScore = 0;
+        unmatched.forEach((candidate, index) => {
+            const score = stringSimilarity(token, candidate);
+            if (score > bestScore) {
+                bestScore = score;
+                bestIndex = index;
+            }
+        });
+
+        if (bestIndex >= 0 && bestScore >= 0.85) {
+            shared++;
+            unmatched.splice(bestIndex, 1);
+        }
+    }
+
+    return (2 * shared) / (a.significant.length + b.significant.length);
+}
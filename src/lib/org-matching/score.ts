@@ -0,0 +1,157 @@
+import { foldText, normalizeCompanyToken, normalizeDomain } from '@/lib/lead-search/normalize';
+import { characterSimilarity, normalizeOrganizationName, tokenSimilarity } from './names';
+import {
+    OrganizationMatchAgreement,
+    OrganizationMatchBreakdown,
+    OrganizationMatchHints,
+    OrganizationSelectionReason,
+} from './types';
+
+// Names this similar are treated as the same company name.
+export const STRONG_NAME_SIMILARITY = 0.9;
+
+const NAME_POINTS = 100;
+const NAME_IN_DOMAIN_POINTS = 20;
+const DOMAIN_MATCH_POINTS = 500;
+const LINKEDIN_MATCH_POINTS = 300;
+const LINKEDIN_MISMATCH_POINTS = -50;
+const COUNTRY_MATCH_POINTS = 25;
+const COUNTRY_MISMATCH_POINTS = -25;
+
+export type OrganizationMatchInput = {
+    name: string;
+    primary_domain: string | null;
+    website_url: string | null;
+    linkedin_url: string | null;
+    country: string | null;
+};
+
+function roundSimilarity(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
+
+function linkedInCompanySlug(value: string | null | undefined): string | null {
+    if (!value) return null;
+
+    const match = value.toLowerCase().match(/linkedin\.com\/(?:company|school|showcase)\/([^/?#]+)/);
+    return match ? decodeURIComponent(match[1]).replace(/\/+$/, '') : null;
+}
+
+function compareDomains(candidate: OrganizationMatchInput, domains: string[]): OrganizationMatchAgreement {
+    if (domains.length === 0) return 'unknown';
+
+    const candidateDomains = [candidate.primary_domain, candidate.website_url]
+        .map((value) => normalizeDomain(value || ''))
+        .filter(Boolean);
+    if (candidateDomains.length === 0) return 'unknown';
+
+    return candidateDomains.some((domain) => domains.includes(domain)) ? 'match' : 'mismatch';
+}
+
+// Hints come from company_location, so "Santiago, Chile" agrees with a candidate in "Chile".
+function compareCountries(candidate: OrganizationMatchInput, countries: string[]): OrganizationMatchAgreement {
+    const candidateCountry = foldText(candidate.country || '');
+    const hints = countries.map((country) => foldText(country)).filter(Boolean);
+    if (!candidateCountry || hints.length === 0) return 'unknown';
+
+    return hints.some((hint) => hint === candidateCountry || hint.endsWith(` ${candidateCountry}`))
+        ? 'match'
+        : 'mismatch';
+}
+
+function compareLinkedIn(candidate: OrganizationMatchInput, linkedInUrl: string | null | undefined): OrganizationMatchAgreement {
+    const expected = linkedInCompanySlug(linkedInUrl);
+    const actual = linkedInCompanySlug(candidate.linkedin_url);
+    if (!expected || !actual) return 'unknown';
+
+    return expected === actual ? 'match' : 'mismatch';
+}
+
+/**
+ * Scores one Apollo organization against the searched name and hints. Name similarity is
+ * worth up to 100 points; a matching domain or LinkedIn page outweighs any name difference.
+ */
+export function scoreOrganizationMatch(
+    candidate: OrganizationMatchInput,
+    query: string,
+    hints: OrganizationMatchHints
+): OrganizationMatchBreakdown {
+    const queryName = normalizeOrganizationName(query);
+    const candidateName = normalizeOrganizationName(candidate.name);
+
+    const exact = Boolean(queryName.compact) && (
+        queryName.compact === candidateName.compact ||
+        [...queryName.significant].sort().join(' ') === [...candidateName.significant].sort().join(' ')
+    );
+    const tokens = exact ? 1 : tokenSimilarity(queryName, candidateName);
+    const characters = exact ? 1 : characterSimilarity(queryName, candidateName);
+    const similarity = queryName.compact ? (exact ? 1 : 0.5 * tokens + 0.5 * characters) : 0;
+    const namePoints = Math.round(similarity * NAME_POINTS);
+
+    const domainLabel = normalizeCompanyToken(normalizeDomain(candidate.primary_domain || '').split('.')[0] || '');
+    const nameInDomain = queryName.compact.length >= 3 && Boolean(domainLabel) && domainLabel.includes(queryName.compact);
+    const domainAgreement = compareDomains(candidate, hints.domains);
+    const domainPoints = (domainAgreement === 'match' ? DOMAIN_MATCH_POINTS : 0) + (nameInDomain ? NAME_IN_DOMAIN_POINTS : 0);
+
+    const countryAgreement = compareCountries(candidate, hints.countries || []);
+    const countryPoints = countryAgreement === 'match'
+        ? COUNTRY_MATCH_POINTS
+        : countryAgreement === 'mismatch' ? COUNTRY_MISMATCH_POINTS : 0;
+
+    const linkedInAgreement = compareLinkedIn(candidate, hints.linkedin_url);
+    const linkedInPoints = linkedInAgreement === 'match'
+        ? LINKEDIN_MATCH_POINTS
+        : linkedInAgreement === 'mismatch' ? LINKEDIN_MISMATCH_POINTS : 0;
+
+    const completenessPoints = (candidate.primary_domain ? 5 : 0) + (candidate.linkedin_url ? 2 : 0);
+
+    return {
+        name: {
+            query,
+            candidate: candidate.name,
+            legal_forms_removed: candidateName.legal_forms_removed,
+            exact,
+            token_similarity: roundSimilarity(tokens),
+            character_similarity: roundSimilarity(characters),
+            similarity: roundSimilarity(similarity),
+            points: namePoints,
+        },
+        domain: { agreement: domainAgreement, name_in_domain: nameInDomain, points: domainPoints },
+        country: { agreement: countryAgreement, points: countryPoints },
+        linkedin: { agreement: linkedInAgreement, points: linkedInPoints },
+        completeness_points: completenessPoints,
+        total: namePoints + domainPoints + countryPoints + linkedInPoints + completenessPoints,
+    };
+}
+
+/**
+ * Picks a candidate without asking the user when the evidence is unambiguous:
+ *
+ * 1. exactly one candidate agrees with the given domain or LinkedIn page
+ * 2. exactly one candidate's name is at least STRONG_NAME_SIMILARITY similar
+ * 3. several are, but exactly one of them is in the requested country
+ *
+ * Otherwise the caller should ask the user to choose.
+ */
+export function selectOrganizationMatch<T extends { match_breakdown: OrganizationMatchBreakdown | null }>(
+    candidates: T[]
+): { selected: T | null; reason: OrganizationSelectionReason | null } {
+    if (candidates.length === 0) return { selected: null, reason: null };
+    if (candidates.length === 1) return { selected: candidates[0], reason: 'single_candidate' };
+
+    const identityMatches = candidates.filter((candidate) =>
+        candidate.match_breakdown?.domain.agreement === 'match' ||
+        candidate.match_breakdown?.linkedin.agreement === 'match'
+    );
+    if (identityMatches.length === 1) return { selected: identityMatches[0], reason: 'identity_match' };
+
+    const strongNames = candidates.filter((candidate) =>
+        (candidate.match_breakdown?.name.similarity ?? 0) >= STRONG_NAME_SIMILARITY
+    );
+    if (strongNames.length === 1) return { selected: strongNames[0], reason: 'name_match' };
+
+    const inCountry = strongNames.filter((candidate) => candidate.match_breakdown?.country.agreement === 'match');
+    if (inCountry.length === 1) return { selected: inCountry[0], reason: 'name_and_country_match' };
+
+    return { selected: null, reason: null };
+}
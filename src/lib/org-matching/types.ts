@@ -0,0 +1,48 @@
+export type OrganizationMatchAgreement = 'match' | 'mismatch' | 'unknown';
+
+/**
+ * What the caller knows about the company besides its name. Empty hints score `unknown`.
+ */
+export type OrganizationMatchHints = {
+    domains: string[];
+    countries?: string[];
+    linkedin_url?: string | null;
+};
+
+/**
+ * Why a candidate got its `match_score`; `total` equals the score.
+ */
+export type OrganizationMatchBreakdown = {
+    name: {
+        query: string;
+        candidate: string;
+        legal_forms_removed: string[];
+        exact: boolean;
+        token_similarity: number;
+        character_similarity: number;
+        similarity: number;
+        points: number;
+    };
+    domain: {
+        agreement: OrganizationMatchAgreement;
+        // The company name appears in the candidate's domain, e.g. "falabella" in falabella.com.
+        name_in_domain: boolean;
+        points: number;
+    };
+    country: {
+        agreement: OrganizationMatchAgreement;
+        points: number;
+    };
+    linkedin: {
+        agreement: OrganizationMatchAgreement;
+        points: number;
+    };
+    completeness_points: number;
+    total: number;
+};
+
+export type OrganizationSelectionReason =
+    | 'single_candidate'
+    | 'identity_match'
+    | 'name_match'
+    | 'name_and_country_match';
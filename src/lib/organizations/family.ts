@@ -0,0 +1,214 @@
+import { listAccountsByOrganizationIds, listAccountsOwnedBy } from '@/lib/accounts/persistence';
+import { AccountOwner, AccountRecord } from '@/lib/accounts/types';
+import type { OrganizationCandidate } from '@/lib/lead-search/types';
+import { StoredOrganization, listStoredOrganizationsById, listStoredOrganizationsOwnedBy } from './persistence';
+import { CorporateFamily, CorporateFamilyMember, CorporateFamilyRelationship } from './types';
+
+type KnownOrganization = Omit<CorporateFamilyMember, 'relationship' | 'is_account'> & {
+    owned_by_organization_name: string | null;
+    owned_by_organization_domain: string | null;
+};
+
+function fromCandidate(candidate: OrganizationCandidate): KnownOrganization {
+    return {
+        organization_id: candidate.id,
+        name: candidate.name || null,
+        primary_domain: candidate.primary_domain,
+        website_url: candidate.website_url,
+        linkedin_url: candidate.linkedin_url,
+        industry: candidate.industry,
+        industry_code: candidate.industry_code,
+        industry_path: candidate.industry_path,
+        estimated_num_employees: candidate.estimated_num_employees,
+        city: candidate.city,
+        state: candidate.state,
+        country: candidate.country,
+        owned_by_organization_id: candidate.owned_by_organization_id,
+        owned_by_organization_name: candidate.owned_by_organization_name,
+        owned_by_organization_domain: candidate.owned_by_organization_domain,
+    };
+}
+
+function fromAccount(account: AccountRecord): KnownOrganization {
+    return {
+        organization_id: account.organization_id,
+        name: account.name,
+        primary_domain: account.primary_domain,
+        website_url: account.website_url,
+        linkedin_url: account.linkedin_url,
+        industry: account.industry,
+        industry_code: account.industry_code,
+        industry_path: account.industry_path,
+        estimated_num_employees: account.estimated_num_employees,
+        city: account.city,
+        state: account.state,
+        country: account.country,
+        owned_by_organization_id: account.owned_by_organization_id,
+        owned_by_organization_name: account.owned_by_organization_name,
+        owned_by_organization_domain: null,
+    };
+}
+
+/**
+ * The parent, siblings and children of an organization as far as the `organizations` table
+ * and the owner's `accounts` know them: one level up and down, from `owned_by_organization_id`.
+ *
+ * `seed` is used when the organization itself is in neither table (e.g. a candidate Apollo
+ * just returned). Returns null when nothing is known about the organization. Throws on
+ * storage errors.
+ */
+export async function loadCorporateFamily(params: {
+    organizationId: string;
+    owner?: AccountOwner | null;
+    seed?: OrganizationCandidate | null;
+}): Promise<CorporateFamily | null> {
+    const { organizationId, owner } = params;
+    const known = new Map<string, KnownOrganization>();
+    const accountIds = new Set<string>();
+
+    // Stored organizations come first; accounts and the seed only fill gaps.
+    const remember = (organization: KnownOrganization) => {
+        const existing = known.get(organization.organization_id);
+        if (!existing) {
+            known.set(organization.organization_id, organization);
+            return;
+        }
+
+        for (const key of Object.keys(organization) as Array<keyof KnownOrganization>) {
+            if (existing[key] === null || existing[key] === undefined) {
+                (existing as Record<string, unknown>)[key] = organization[key];
+            }
+        }
+    };
+    const rememberAll = (stored: StoredOrganization[], accounts: AccountRecord[]) => {
+        for (const organization of stored) remember(fromCandidate(organization.candidate));
+        for (const account of accounts) {
+            accountIds.add(account.organization_id);
+            remember(fromAccount(account));
+        }
+    };
+
+    const [storedSubject, accountSubject] = await Promise.all([
+        listStoredOrganizationsById([organizationId]),
+        owner ? listAccountsByOrganizationIds(owner, [organizationId]) : Promise.resolve([]),
+    ]);
+    rememberAll(storedSubject, accountSubject);
+    if (params.seed?.id === organizationId) remember(fromCandidate(params.seed));
+
+    const subject = known.get(organizationId);
+    if (!subject) return null;
+
+    const parentId = subject.owned_by_organization_id && subject.owned_by_organization_id !== organizationId
+        ? subject.owned_by_organization_id
+        : null;
+    const familyParentIds = parentId ? [organizationId, parentId] : [organizationId];
+
+    const [storedParent, storedRelatives, accountParent, accountRelatives] = await Promise.all([
+        parentId ? listStoredOrganizationsById([parentId]) : Promise.resolve([]),
+        listStoredOrganizationsOwnedBy(familyParentIds),
+        owner && parentId ? listAccountsByOrganizationIds(owner, [parentId]) : Promise.resolve([]),
+        owner ? listAccountsOwnedBy(owner, familyParentIds) : Promise.resolve([]),
+    ]);
+    rememberAll([...storedParent, ...storedRelatives], [...accountParent, ...accountRelatives]);
+
+    // Organizations found only in the `organizations` table may still be accounts.
+    const unmatchedIds = Array.from(known.keys()).filter((id) => !accountIds.has(id));
+    if (owner && unmatchedIds.length > 0) {
+        for (const account of await listAccountsByOrganizationIds(owner, unmatchedIds)) {
+            accountIds.add(account.organization_id);
+        }
+    }
+
+    const toMember = (organization: KnownOrganization, relationship: CorporateFamilyRelationship): CorporateFamilyMember => ({
+        organization_id: organization.organization_id,
+        name: organization.name,
+        primary_domain: organization.primary_domain,
+        website_url: organization.website_url,
+        linkedin_url: organization.linkedin_url,
+        industry: organization.industry,
+        industry_code: organization.industry_code,
+        industry_path: organization.industry_path,
+        estimated_num_employees: organization.estimated_num_employees,
+        city: organization.city,
+        state: organization.state,
+        country: organization.country,
+        owned_by_organization_id: organization.owned_by_organization_id,
+        relationship,
+        is_account: accountIds.has(organization.organization_id),
+    });
+    const byName = (left: CorporateFamilyMember, right: CorporateFamilyMember) =>
+        (left.name || '').localeCompare(right.name || '');
+
+    // A parent never stored itself is still known by the id, name and domain its subsidiary lists.
+    const parent = parentId
+        ? known.get(parentId) || {
+            organization_id: parentId,
+            name: subject.owned_by_organization_name,
+            primary_domain: subject.owned_by_organization_domain,
+            website_url: null,
+            linkedin_url: null,
+            industry: null,
+            industry_code: null,
+            industry_path: [],
+            estimated_num_employees: null,
+            city: null,
+            state: null,
+            country: null,
+            owned_by_organization_id: null,
+            owned_by_organization_name: null,
+            owned_by_organization_domain: null,
+        }
+        : null;
+
+    const relatives = Array.from(known.values())
+        .filter((organization) => organization.organization_id !== organizationId && organization.organization_id !== parentId);
+
+    return {
+        organization: toMember(subject, 'self'),
+        parent: parent ? toMember(parent, 'parent') : null,
+        siblings: parentId
+            ? relatives
+                .filter((organization) => organization.owned_by_organization_id === parentId)
+                .map((organization) => toMember(organization, 'sibling'))
+                .sort(byName)
+            : [],
+        children: relatives
+            .filter((organization) => organization.owned_by_organization_id === organizationId)
+            .map((organization) => toMember(organization, 'child'))
+            .sort(byName),
+    };
+}
+
+/**
+ * Every organization of the family, the organization itself first.
+ */
+export function listCorporateFamilyMembers(family: CorporateFamily): CorporateFamilyMember[] {
+    return [
+        family.organization,
+        ...(family.parent ? [family.parent] : []),
+        ...family.siblings,
+        ...family.children,
+    ];
+}
+
+export function toOrganizationCandidateFromFamilyMember(member: CorporateFamilyMember): OrganizationCandidate {
+    return {
+        id: member.organization_id,
+        name: member.name || '',
+        primary_domain: member.primary_domain,
+        website_url: member.website_url,
+        linkedin_url: member.linkedin_url,
+        industry: member.industry,
+        industry_code: member.industry_code,
+        industry_path: member.industry_path,
+        estimated_num_employees: member.estimated_num_employees,
+        city: member.city,
+        state: member.state,
+        country: member.country,
+        owned_by_organization_id: member.owned_by_organization_id,
+        owned_by_organization_name: null,
+        owned_by_organization_domain: null,
+        match_score: 0,
+        match_breakdown: null,
+    };
+}
@@ -0,0 +1,205 @@
+import { getServiceSupabase } from '@/lib/supabase';
+import type { OrganizationCandidate } from '@/lib/lead-search/types';
+import { normalizeDomain, normalizeOptionalNumber, normalizeOptionalString } from '@/lib/lead-search/normalize';
+
+const TABLE_NAME = 'organizations';
+
+export const DEFAULT_ORGANIZATION_CACHE_TTL_HOURS = 168;
+
+type OrganizationRow = Record<string, any>;
+
+/**
+ * A hydrated organization from the `organizations` table. `fresh` is false once it is older
+ * than ORGANIZATION_CACHE_TTL_HOURS; stale rows are refreshed from Apollo but still used when
+ * Apollo returns nothing.
+ */
+export type StoredOrganization = {
+    candidate: OrganizationCandidate;
+    hydrated_at: string;
+    fresh: boolean;
+};
+
+let storageWarningLogged = false;
+
+export function isMissingOrganizationStorageError(error: any): boolean {
+    const text = [error?.message, error?.details, error?.hint].filter(Boolean).join(' ').toLowerCase();
+    if (text.includes('supabase_service_role_key')) return true;
+
+    return text.includes(TABLE_NAME) && (
+        text.includes('does not exist') ||
+        text.includes('not found') ||
+        text.includes('schema cache') ||
+        text.includes('could not find the table')
+    );
+}
+
+export function resolveOrganizationCacheTtlMs(): number {
+    const hours = Number(process.env.ORGANIZATION_CACHE_TTL_HOURS);
+    return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_ORGANIZATION_CACHE_TTL_HOURS) * 60 * 60 * 1000;
+}
+
+// The cache is an optimization: without the table, or on any storage error, hydration just calls Apollo.
+function handleStorageError(error: any, log: (msg: string, data?: any) => void) {
+    if (isMissingOrganizationStorageError(error)) {
+        if (!storageWarningLogged) {
+            storageWarningLogged = true;
+            log('Warning: organizations table unavailable. Run 015_create_organizations.sql to cache hydrated organizations.');
+        }
+        return;
+    }
+
+    log('Warning: organizations cache request failed.', { error: error?.message || String(error) });
+}
+
+function mapRow(row: OrganizationRow, ttlMs: number): StoredOrganization {
+    const hydratedAt = row.hydrated_at || row.updated_at;
+
+    return {
+        candidate: {
+            id: row.organization_id,
+            name: row.name,
+            primary_domain: row.primary_domain ?? null,
+            website_url: row.website_url ?? null,
+            linkedin_url: row.linkedin_url ?? null,
+            industry: row.industry ?? null,
+            industry_code: row.industry_code ?? null,
+            industry_path: Array.isArray(row.industry_path) ? row.industry_path : [],
+            estimated_num_employees: normalizeOptionalNumber(row.estimated_num_employees),
+            city: row.city ?? null,
+            state: row.state ?? null,
+            country: row.country ?? null,
+            owned_by_organization_id: row.owned_by_organization_id ?? null,
+            owned_by_organization_name: row.owned_by_organization_name ?? null,
+            owned_by_organization_domain: row.owned_by_organization_domain ?? null,
+            match_score: 0,
+            match_breakdown: null,
+        },
+        hydrated_at: hydratedAt,
+        fresh: Date.now() - new Date(hydratedAt).getTime() < ttlMs,
+    };
+}
+
+function toRow(candidate: OrganizationCandidate, now: string): OrganizationRow {
+    return {
+        organization_id: candidate.id,
+        name: candidate.name,
+        primary_domain: normalizeDomain(candidate.primary_domain || candidate.website_url || '') || null,
+        website_url: normalizeOptionalString(candidate.website_url),
+        linkedin_url: normalizeOptionalString(candidate.linkedin_url),
+        industry: normalizeOptionalString(candidate.industry),
+        industry_code: candidate.industry_code,
+        industry_path: candidate.industry_path,
+        estimated_num_employees: normalizeOptionalNumber(candidate.estimated_num_employees),
+        city: normalizeOptionalString(candidate.city),
+        state: normalizeOptionalString(candidate.state),
+        country: normalizeOptionalString(candidate.country),
+        owned_by_organization_id: normalizeOptionalString(candidate.owned_by_organization_id),
+        owned_by_organization_name: normalizeOptionalString(candidate.owned_by_organization_name),
+        owned_by_organization_domain: normalizeOptionalString(candidate.owned_by_organization_domain),
+        hydrated_at: now,
+        updated_at: now,
+    };
+}
+
+/**
+ * Stored organizations by Apollo id. Unlike the `load*` helpers this throws on storage
+ * errors, for callers that report them.
+ */
+export async function listStoredOrganizationsById(organizationIds: string[]): Promise<StoredOrganization[]> {
+    const ids = Array.from(new Set(organizationIds.filter(Boolean)));
+    if (ids.length === 0) return [];
+
+    const { data, error } = await getServiceSupabase()
+        .from(TABLE_NAME)
+        .select('*')
+        .in('organization_id', ids);
+
+    if (error) throw error;
+    const ttlMs = resolveOrganizationCacheTtlMs();
+    return (data || []).map((row) => mapRow(row, ttlMs));
+}
+
+/**
+ * Stored organizations whose `owned_by_organization_id` is one of `parentIds`. Throws on
+ * storage errors.
+ */
+export async function listStoredOrganizationsOwnedBy(parentIds: string[]): Promise<StoredOrganization[]> {
+    const ids = Array.from(new Set(parentIds.filter(Boolean)));
+    if (ids.length === 0) return [];
+
+    const { data, error } = await getServiceSupabase()
+        .from(TABLE_NAME)
+        .select('*')
+        .in('owned_by_organization_id', ids)
+        .order('name', { ascending: true });
+
+    if (error) throw error;
+    const ttlMs = resolveOrganizationCacheTtlMs();
+    return (data || []).map((row) => mapRow(row, ttlMs));
+}
+
+export async function loadStoredOrganizationsById(
+    organizationIds: string[],
+    log: (msg: string, data?: any) => void
+): Promise<Map<string, StoredOrganization>> {
+    const stored = new Map<string, StoredOrganization>();
+
+    try {
+        for (const organization of await listStoredOrganizationsById(organizationIds)) {
+            stored.set(organization.candidate.id, organization);
+        }
+    } catch (error: any) {
+        handleStorageError(error, log);
+    }
+
+    return stored;
+}
+
+/**
+ * The most recently hydrated organization for a domain.
+ */
+export async function loadStoredOrganizationByDomain(
+    domain: string,
+    log: (msg: string, data?: any) => void
+): Promise<StoredOrganization | null> {
+    const normalizedDomain = normalizeDomain(domain);
+    if (!normalizedDomain) return null;
+
+    try {
+        const { data, error } = await getServiceSupabase()
+            .from(TABLE_NAME)
+            .select('*')
+            .eq('primary_domain', normalizedDomain)
+            .order('hydrated_at', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data ? mapRow(data, resolveOrganizationCacheTtlMs()) : null;
+    } catch (error: any) {
+        handleStorageError(error, log);
+        return null;
+    }
+}
+
+export async function saveStoredOrganizations(
+    candidates: OrganizationCandidate[],
+    log: (msg: string, data?: any) => void
+): Promise<void> {
+    const now = new Date().toISOString();
+    const rows = new Map<string, OrganizationRow>();
+    for (const candidate of candidates) {
+        if (candidate.id && candidate.name) rows.set(candidate.id, toRow(candidate, now));
+    }
+    if (rows.size === 0) return;
+
+    try {
+        const { error } = await getServiceSupabase()
+            .from(TABLE_NAME)
+            .upsert(Array.from(rows.values()), { onConflict: 'organization_id' });
+
+        if (error) throw error;
+    } catch (error: any) {
+        handleStorageError(error, log);
+    }
+}
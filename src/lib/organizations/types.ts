@@ -0,0 +1,27 @@
+export type CorporateFamilyRelationship = 'self' | 'parent' | 'sibling' | 'child';
+
+export type CorporateFamilyMember = {
+    organization_id: string;
+    name: string | null;
+    primary_domain: string | null;
+    website_url: string | null;
+    linkedin_url: string | null;
+    industry: string | null;
+    industry_code: string | null;
+    industry_path: string[];
+    estimated_num_employees: number | null;
+    city: string | null;
+    state: string | null;
+    country: string | null;
+    owned_by_organization_id: string | null;
+    relationship: CorporateFamilyRelationship;
+    // One of the caller's accounts (see `GET /api/accounts`).
+    is_account: boolean;
+};
+
+export type CorporateFamily = {
+    organization: CorporateFamilyMember;
+    parent: CorporateFamilyMember | null;
+    siblings: CorporateFamilyMember[];
+    children: CorporateFamilyMember[];
+};
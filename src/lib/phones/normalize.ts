@@ -0,0 +1,225 @@
+import { PhoneRegion, resolvePhoneRegion, resolveRegionForInternationalNumber } from './regions';
+import { NormalizedPhone, PHONE_SOURCES, PHONE_TYPES, PhoneSource, PhoneType } from './types';
+
+export const DEFAULT_PRIMARY_PHONE_PRIORITY: PhoneType[] = ['mobile', 'direct', 'hq', 'unknown'];
+
+const EXTENSION_PATTERN = /\s*(?:ext\.?|extension|x|anexo|int\.?)\s*\d+\s*$/i;
+
+export type ParsedPhone = {
+    e164: string;
+    region: PhoneRegion | null;
+    nationalNumber: string;
+};
+
+function isPhoneSource(value: unknown): value is PhoneSource {
+    return typeof value === 'string' && (PHONE_SOURCES as string[]).includes(value);
+}
+
+function isPhoneType(value: unknown): value is PhoneType {
+    return typeof value === 'string' && (PHONE_TYPES as string[]).includes(value);
+}
+
+function parseInternational(digits: string, preferred: PhoneRegion | null): ParsedPhone | null {
+    if (digits.length < 8 || digits.length > 15) return null;
+
+    const region = resolveRegionForInternationalNumber(digits, preferred);
+    if (!region) return { e164: `+${digits}`, region: null, nationalNumber: digits };
+
+    let nationalNumber = digits.slice(region.callingCode.length);
+    // Mexican mobiles were dialled as +52 1 XX until 2019; the 1 is no longer part of the number.
+    if (region.iso2 === 'MX' && nationalNumber.length === 11 && nationalNumber.startsWith('1')) {
+        nationalNumber = nationalNumber.slice(1);
+    }
+
+    return { e164: `+${region.callingCode}${nationalNumber}`, region, nationalNumber };
+}
+
+// Argentine mobiles are written nationally as area code + 15 + number, e.g. 011 15 1234-5678,
+// and as +54 9 + area code + number internationally.
+function argentineMobileFromNational(digits: string): string | null {
+    for (const areaLength of [2, 3, 4]) {
+        if (digits.slice(areaLength, areaLength + 2) === '15') {
+            return `9${digits.slice(0, areaLength)}${digits.slice(areaLength + 2)}`;
+        }
+    }
+    return null;
+}
+
+function parseNational(digits: string, region: PhoneRegion): ParsedPhone | null {
+    // Drop the trunk prefix (0 in most of LATAM and Europe, 1 in the +1 plan). Italy, San Marino
+    // and the Vatican dial the 0 internationally too, so it stays.
+    let nationalNumber = region.keepsTrunkZero ? digits : digits.replace(/^0+/, '');
+    if (region.callingCode === '1' && nationalNumber.length === 11 && nationalNumber.startsWith('1')) {
+        nationalNumber = nationalNumber.slice(1);
+    }
+    if (region.iso2 === 'AR' && nationalNumber.length === 12) {
+        nationalNumber = argentineMobileFromNational(nationalNumber) || nationalNumber;
+    }
+
+    if (!region.nationalLengths.includes(nationalNumber.length)) return null;
+    return { e164: `+${region.callingCode}${nationalNumber}`, region, nationalNumber };
+}
+
+/**
+ * Parses a phone as written by Apollo or a CSV into E.164. Numbers without an international
+ * prefix are read as national numbers of `defaultCountry` (the lead's country); returns null
+ * when that is unknown or the digits do not fit it.
+ */
+export function parsePhoneNumber(value: unknown, defaultCountry?: unknown): ParsedPhone | null {
+    if (typeof value !== 'string' && typeof value !== 'number') return null;
+
+    const text = String(value).trim().replace(EXTENSION_PATTERN, '');
+    const digits = text.replace(/\D/g, '');
+    if (!digits) return null;
+
+    const region = resolvePhoneRegion(defaultCountry);
+    if (text.startsWith('+')) return parseInternational(digits, region);
+    if (digits.startsWith('00')) return parseInternational(digits.slice(2), region);
+    if (region?.callingCode === '1' && digits.startsWith('011')) return parseInternational(digits.slice(3), region);
+    if (!region) return null;
+
+    const national = parseNational(digits, region);
+    if (national) return national;
+
+    // Written with the calling code but no "+", e.g. "56 9 1234 5678".
+    if (digits.startsWith(region.callingCode)) {
+        const international = parseInternational(digits, region);
+        if (international?.region && international.region.nationalLengths.includes(international.nationalNumber.length)) {
+            return international;
+        }
+    }
+
+    return null;
+}
+
+function classifyPhoneType(apolloType: string | null, source: PhoneSource, parsed: ParsedPhone | null): PhoneType {
+    if (source === 'apollo_organization') return 'hq';
+
+    const type = (apolloType || '').toLowerCase();
+    if (type.includes('mobile')) return 'mobile';
+    if (type.includes('hq') || type.includes('headquarters')) return 'hq';
+    if (type.includes('direct') || type.includes('work')) return 'direct';
+
+    // Apollo's `home` / `other` and untyped CSV numbers: fall back to the region's mobile ranges.
+    if (parsed?.region?.mobilePattern?.test(parsed.nationalNumber)) return 'mobile';
+    return 'unknown';
+}
+
+function normalizePhoneEntry(
+    entry: unknown,
+    options: { country?: unknown; source: PhoneSource }
+): NormalizedPhone | null {
+    const value: Record<string, any> = typeof entry === 'string' || typeof entry === 'number'
+        ? { raw_number: String(entry) }
+        : entry && typeof entry === 'object' ? entry as Record<string, any> : {};
+
+    const candidates = [value.e164, value.sanitized_number, value.number, value.raw_number]
+        .filter((candidate) => typeof candidate === 'string' && candidate.trim())
+        .map((candidate: string) => candidate.trim());
+    if (candidates.length === 0) return null;
+
+    let parsed: ParsedPhone | null = null;
+    for (const candidate of candidates) {
+        parsed = parsePhoneNumber(candidate, options.country);
+        if (parsed) break;
+    }
+
+    // Entries written by this module keep their source and Apollo type when re-normalized.
+    const alreadyNormalized = isPhoneSource(value.source);
+    const source = alreadyNormalized ? value.source : options.source;
+    const apolloTypeValue = alreadyNormalized ? value.apollo_type : value.type || value.type_cd;
+    const apolloType = typeof apolloTypeValue === 'string' && apolloTypeValue.trim() ? apolloTypeValue.trim() : null;
+    const rawNumber = [value.raw_number, value.number, value.sanitized_number]
+        .find((candidate) => typeof candidate === 'string' && candidate.trim()) || candidates[0];
+
+    return {
+        e164: parsed?.e164 || null,
+        sanitized_number: parsed?.e164 || candidates[0].replace(/[^\d+]/g, ''),
+        raw_number: rawNumber.trim(),
+        type: alreadyNormalized && isPhoneType(value.type) && value.type !== 'unknown'
+            ? value.type
+            : classifyPhoneType(apolloType, source, parsed),
+        apollo_type: apolloType,
+        source,
+        country: parsed?.region?.iso2 || null,
+    };
+}
+
+/**
+ * Normalizes a list of phones in any of Apollo's shapes (or plain strings) to E.164,
+ * classifies each one and drops duplicates and entries without digits.
+ */
+export function normalizePhoneEntries(
+    entries: unknown,
+    options: { country?: unknown; source: PhoneSource }
+): NormalizedPhone[] {
+    if (!Array.isArray(entries)) return [];
+
+    const seen = new Set<string>();
+    const phones: NormalizedPhone[] = [];
+    for (const entry of entries) {
+        const phone = normalizePhoneEntry(entry, options);
+        if (!phone || !phone.sanitized_number) continue;
+
+        const key = phone.e164 || phone.sanitized_number;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        phones.push(phone);
+    }
+
+    return phones;
+}
+
+/**
+ * PRIMARY_PHONE_PRIORITY, e.g. `mobile,direct,hq,unknown`. Types left out are never picked
+ * as `primary_phone`.
+ */
+export function resolvePrimaryPhonePriority(): PhoneType[] {
+    const configured = (process.env.PRIMARY_PHONE_PRIORITY || '')
+        .split(',')
+        .map((entry) => entry.trim().toLowerCase())
+        .filter(isPhoneType);
+
+    return configured.length > 0 ? Array.from(new Set(configured)) : DEFAULT_PRIMARY_PHONE_PRIORITY;
+}
+
+/**
+ * The first phone of the highest-priority type, preferring numbers that normalized to E.164.
+ */
+export function selectPrimaryPhone(
+    phones: NormalizedPhone[],
+    priority: PhoneType[] = resolvePrimaryPhonePriority()
+): string | null {
+    for (const type of priority) {
+        const ofType = phones.filter((phone) => phone.type === type);
+        const selected = ofType.find((phone) => phone.e164) || ofType[0];
+        if (selected) return selected.e164 || selected.sanitized_number;
+    }
+
+    return null;
+}
+
+/**
+ * Phones for an Apollo person: their own numbers, else the company HQ number. Null when
+ * Apollo returned neither.
+ */
+export function resolveApolloPersonPhones(
+    person: any,
+    country?: unknown
+): { phone_numbers: NormalizedPhone[]; primary_phone: string | null } | null {
+    const personPhones = normalizePhoneEntries(person?.phone_numbers, { country, source: 'apollo_person' });
+    if (personPhones.length > 0) {
+        return { phone_numbers: personPhones, primary_phone: selectPrimaryPhone(personPhones) };
+    }
+
+    const organization = person?.organization;
+    if (!organization?.sanitized_phone && !organization?.phone) return null;
+
+    const hqPhones = normalizePhoneEntries(
+        [{ sanitized_number: organization.sanitized_phone, number: organization.phone }],
+        { country: organization.country || country, source: 'apollo_organization' }
+    );
+    if (hqPhones.length === 0) return null;
+
+    return { phone_numbers: hqPhones, primary_phone: selectPrimaryPhone(hqPhones) };
+}
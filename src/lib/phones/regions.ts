@@ -0,0 +1,81 @@
+import { foldText } from '@/lib/lead-search/normalize';
+
+export type PhoneRegion = {
+    iso2: string;
+    callingCode: string;
+    // Country names as Apollo (English) and CSV imports (Spanish/Portuguese) write them, folded.
+    names: string[];
+    // Digits after the calling code (national significant number).
+    nationalLengths: number[];
+    // Matches mobile national numbers. Left out where mobiles and landlines share ranges (MX, NANP).
+    mobilePattern?: RegExp;
+    // The leading 0 is part of the number rather than a trunk prefix (Italian numbering plan).
+    keepsTrunkZero?: boolean;
+};
+
+export const PHONE_REGIONS: PhoneRegion[] = [
+    { iso2: 'AR', callingCode: '54', names: ['argentina'], nationalLengths: [10, 11], mobilePattern: /^9\d{10}$/ },
+    { iso2: 'BO', callingCode: '591', names: ['bolivia'], nationalLengths: [8], mobilePattern: /^[67]\d{7}$/ },
+    { iso2: 'BR', callingCode: '55', names: ['brazil', 'brasil'], nationalLengths: [10, 11], mobilePattern: /^\d{2}9\d{8}$/ },
+    { iso2: 'CL', callingCode: '56', names: ['chile'], nationalLengths: [9], mobilePattern: /^9\d{8}$/ },
+    { iso2: 'CO', callingCode: '57', names: ['colombia'], nationalLengths: [10], mobilePattern: /^3\d{9}$/ },
+    { iso2: 'CR', callingCode: '506', names: ['costa rica'], nationalLengths: [8], mobilePattern: /^[5-8]\d{7}$/ },
+    { iso2: 'DO', callingCode: '1', names: ['dominican republic', 'republica dominicana'], nationalLengths: [10] },
+    { iso2: 'EC', callingCode: '593', names: ['ecuador'], nationalLengths: [8, 9], mobilePattern: /^9\d{8}$/ },
+    { iso2: 'SV', callingCode: '503', names: ['el salvador'], nationalLengths: [8], mobilePattern: /^[67]\d{7}$/ },
+    { iso2: 'GT', callingCode: '502', names: ['guatemala'], nationalLengths: [8], mobilePattern: /^[345]\d{7}$/ },
+    { iso2: 'HN', callingCode: '504', names: ['honduras'], nationalLengths: [8], mobilePattern: /^[3789]\d{7}$/ },
+    { iso2: 'MX', callingCode: '52', names: ['mexico'], nationalLengths: [10] },
+    { iso2: 'NI', callingCode: '505', names: ['nicaragua'], nationalLengths: [8], mobilePattern: /^[578]\d{7}$/ },
+    { iso2: 'PA', callingCode: '507', names: ['panama'], nationalLengths: [7, 8], mobilePattern: /^6\d{7}$/ },
+    { iso2: 'PY', callingCode: '595', names: ['paraguay'], nationalLengths: [8, 9], mobilePattern: /^9\d{8}$/ },
+    { iso2: 'PE', callingCode: '51', names: ['peru'], nationalLengths: [8, 9], mobilePattern: /^9\d{8}$/ },
+    { iso2: 'PR', callingCode: '1', names: ['puerto rico'], nationalLengths: [10] },
+    { iso2: 'UY', callingCode: '598', names: ['uruguay'], nationalLengths: [8], mobilePattern: /^9\d{7}$/ },
+    { iso2: 'VE', callingCode: '58', names: ['venezuela'], nationalLengths: [10], mobilePattern: /^4(12|14|16|24|26)\d{7}$/ },
+    { iso2: 'ES', callingCode: '34', names: ['spain', 'espana'], nationalLengths: [9], mobilePattern: /^[67]\d{8}$/ },
+    { iso2: 'PT', callingCode: '351', names: ['portugal'], nationalLengths: [9], mobilePattern: /^9\d{8}$/ },
+    { iso2: 'US', callingCode: '1', names: ['united states', 'united states of america', 'usa', 'estados unidos', 'eeuu'], nationalLengths: [10] },
+    { iso2: 'CA', callingCode: '1', names: ['canada'], nationalLengths: [10] },
+    { iso2: 'GB', callingCode: '44', names: ['united kingdom', 'uk', 'reino unido', 'england'], nationalLengths: [10], mobilePattern: /^7\d{9}$/ },
+    { iso2: 'DE', callingCode: '49', names: ['germany', 'alemania'], nationalLengths: [10, 11], mobilePattern: /^1[5-7]\d{8,9}$/ },
+    { iso2: 'FR', callingCode: '33', names: ['france', 'francia'], nationalLengths: [9], mobilePattern: /^[67]\d{8}$/ },
+    { iso2: 'IT', callingCode: '39', names: ['italy', 'italia'], nationalLengths: [6, 7, 8, 9, 10, 11], mobilePattern: /^3\d{8,9}$/, keepsTrunkZero: true },
+    { iso2: 'SM', callingCode: '378', names: ['san marino'], nationalLengths: [6, 7, 8, 9, 10], mobilePattern: /^6[16]\d{6}$/, keepsTrunkZero: true },
+    { iso2: 'VA', callingCode: '39', names: ['vatican city', 'vatican', 'holy see', 'ciudad del vaticano', 'vaticano'], nationalLengths: [6, 7, 8, 9, 10, 11], mobilePattern: /^3\d{8,9}$/, keepsTrunkZero: true },
+];
+
+const REGIONS_BY_KEY = new Map<string, PhoneRegion>();
+const REGIONS_BY_CALLING_CODE = new Map<string, PhoneRegion>();
+for (const region of PHONE_REGIONS) {
+    REGIONS_BY_KEY.set(region.iso2.toLowerCase(), region);
+    for (const name of region.names) REGIONS_BY_KEY.set(name, region);
+    if (!REGIONS_BY_CALLING_CODE.has(region.callingCode)) REGIONS_BY_CALLING_CODE.set(region.callingCode, region);
+}
+REGIONS_BY_CALLING_CODE.set('1', REGIONS_BY_KEY.get('us') as PhoneRegion);
+
+/**
+ * Region for a lead's `country`, by ISO code or English/Spanish name.
+ */
+export function resolvePhoneRegion(country: unknown): PhoneRegion | null {
+    if (typeof country !== 'string') return null;
+
+    const key = foldText(country);
+    return key ? REGIONS_BY_KEY.get(key) || null : null;
+}
+
+/**
+ * Region for an international number (digits without `+`), by longest calling code. Numbers
+ * in the shared +1 plan resolve to `preferred` when it is a +1 region, else to the US.
+ */
+export function resolveRegionForInternationalNumber(digits: string, preferred: PhoneRegion | null): PhoneRegion | null {
+    for (const length of [3, 2, 1]) {
+        const code = digits.slice(0, length);
+        if (preferred?.callingCode === code) return preferred;
+
+        const region = REGIONS_BY_CALLING_CODE.get(code);
+        if (region) return region;
+    }
+
+    return null;
+}
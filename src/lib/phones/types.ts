@@ -0,0 +1,30 @@
+export type PhoneType = 'mobile' | 'direct' | 'hq' | 'unknown';
+
+export const PHONE_TYPES: PhoneType[] = ['mobile', 'direct', 'hq', 'unknown'];
+
+/**
+ * Where a stored number came from:
+ *
+ * - `apollo_person`: the person's own `phone_numbers` (search, enrich or webhook)
+ * - `apollo_organization`: the company HQ number used when Apollo has none for the person
+ * - `csv_import`: the `phone` column of a bulk enrichment import
+ */
+export type PhoneSource = 'apollo_person' | 'apollo_organization' | 'csv_import';
+
+export const PHONE_SOURCES: PhoneSource[] = ['apollo_person', 'apollo_organization', 'csv_import'];
+
+/**
+ * One entry of a lead's `phone_numbers`. `sanitized_number` repeats `e164` so readers of
+ * the older Apollo shape keep working; it holds the bare digits when the number could not
+ * be normalized.
+ */
+export type NormalizedPhone = {
+    e164: string | null;
+    sanitized_number: string;
+    raw_number: string;
+    type: PhoneType;
+    apollo_type: string | null;
+    source: PhoneSource;
+    // ISO 3166-1 alpha-2 region of the number, when known.
+    country: string | null;
+};
@@ -0,0 +1,264 @@
+import { getServiceSupabase } from '@/lib/supabase';
+import { SavedSearchRecord, SavedSearchRunDiff, SavedSearchRunRecord } from './types';
+
+const SEARCHES_TABLE = 'saved_searches';
+const RUNS_TABLE = 'saved_search_runs';
+
+type Row = Record<string, any>;
+
+export function isMissingSavedSearchStorageError(error: any): boolean {
+    const text = [error?.message, error?.details, error?.hint].filter(Boolean).join(' ').toLowerCase();
+    if (text.includes('supabase_service_role_key')) return true;
+
+    return (text.includes(SEARCHES_TABLE) || text.includes(RUNS_TABLE)) && (
+        text.includes('does not exist') ||
+        text.includes('not found') ||
+        text.includes('schema cache') ||
+        text.includes('could not find the table')
+    );
+}
+
+function mapSearchRow(row: Row): SavedSearchRecord {
+    return {
+        saved_search_id: row.saved_search_id,
+        user_id: row.user_id,
+        org_id: row.org_id ?? null,
+        name: row.name,
+        filters: row.filters || {},
+        filters_hash: row.filters_hash,
+        max_results: Number(row.max_results) || 0,
+        schedule: row.schedule,
+        is_active: Boolean(row.is_active),
+        next_run_at: row.next_run_at ?? null,
+        last_run_at: row.last_run_at ?? null,
+        last_run_id: row.last_run_id ?? null,
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+    };
+}
+
+function mapRunRow(row: Row): SavedSearchRunRecord {
+    return {
+        run_id: row.run_id,
+        saved_search_id: row.saved_search_id,
+        batch_run_id: row.batch_run_id,
+        status: row.status,
+        trigger: row.trigger,
+        leads_count: Number(row.leads_count) || 0,
+        new_count: Number(row.new_count) || 0,
+        changed_count: Number(row.changed_count) || 0,
+        unchanged_count: Number(row.unchanged_count) || 0,
+        new_lead_ids: Array.isArray(row.new_lead_ids) ? row.new_lead_ids : [],
+        changed_lead_ids: Array.isArray(row.changed_lead_ids) ? row.changed_lead_ids : [],
+        lead_fingerprints: row.lead_fingerprints || {},
+        previous_run_id: row.previous_run_id ?? null,
+        error: row.error ?? null,
+        started_at: row.started_at,
+        completed_at: row.completed_at ?? null,
+    };
+}
+
+export async function createSavedSearch(
+    record: Omit<SavedSearchRecord, 'created_at' | 'updated_at' | 'last_run_at' | 'last_run_id'>
+): Promise<SavedSearchRecord> {
+    const supabase = getServiceSupabase();
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+        .from(SEARCHES_TABLE)
+        .insert({
+            ...record,
+            last_run_at: null,
+            last_run_id: null,
+            created_at: now,
+            updated_at: now,
+        })
+        .select('*')
+        .single();
+
+    if (error) throw error;
+    return mapSearchRow(data);
+}
+
+export async function getSavedSearch(savedSearchId: string): Promise<SavedSearchRecord | null> {
+    const supabase = getServiceSupabase();
+    const { data, error } = await supabase
+        .from(SEARCHES_TABLE)
+        .select('*')
+        .eq('saved_search_id', savedSearchId)
+        .maybeSingle();
+
+    if (error) throw error;
+    return data ? mapSearchRow(data) : null;
+}
+
+export async function listSavedSearches(userId: string): Promise<SavedSearchRecord[]> {
+    const supabase = getServiceSupabase();
+    const { data, error } = await supabase
+        .from(SEARCHES_TABLE)
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(mapSearchRow);
+}
+
+export async function listDueSavedSearches(limit: number): Promise<SavedSearchRecord[]> {
+    const supabase = getServiceSupabase();
+    const { data, error } = await supabase
+        .from(SEARCHES_TABLE)
+        .select('*')
+        .eq('is_active', true)
+        .neq('schedule', 'manual')
+        .lte('next_run_at', new Date().toISOString())
+        .order('next_run_at', { ascending: true })
+        .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(mapSearchRow);
+}
+
+/**
+ * Moves `next_run_at` forward only if nobody else did, so concurrent schedulers do not run
+ * the same search twice. Returns false when another scheduler claimed it.
+ */
+export async function claimSavedSearchRun(
+    search: SavedSearchRecord,
+    nextRunAt: string | null
+): Promise<boolean> {
+    const supabase = getServiceSupabase();
+    let query = supabase
+        .from(SEARCHES_TABLE)
+        .update({
+            next_run_at: nextRunAt,
+            updated_at: new Date().toISOString(),
+        })
+        .eq('saved_search_id', search.saved_search_id);
+
+    query = search.next_run_at
+        ? query.eq('next_run_at', search.next_run_at)
+        : query.is('next_run_at', null);
+
+    const { data, error } = await query.select('saved_search_id');
+
+    if (error) throw error;
+    return Array.isArray(data) && data.length > 0;
+}
+
+export async function markSavedSearchRun(savedSearchId: string, runId: string, ranAt: string): Promise<void> {
+    const supabase = getServiceSupabase();
+    const { error } = await supabase
+        .from(SEARCHES_TABLE)
+        .update({
+            last_run_at: ranAt,
+            last_run_id: runId,
+            updated_at: new Date().toISOString(),
+        })
+        .eq('saved_search_id', savedSearchId);
+
+    if (error) throw error;
+}
+
+export async function createSavedSearchRun(params: {
+    runId: string;
+    savedSearchId: string;
+    batchRunId: string;
+    trigger: SavedSearchRunRecord['trigger'];
+}): Promise<SavedSearchRunRecord> {
+    const supabase = getServiceSupabase();
+    const { data, error } = await supabase
+        .from(RUNS_TABLE)
+        .insert({
+            run_id: params.runId,
+            saved_search_id: params.savedSearchId,
+            batch_run_id: params.batchRunId,
+            status: 'in_progress',
+            trigger: params.trigger,
+            leads_count: 0,
+            new_count: 0,
+            changed_count: 0,
+            unchanged_count: 0,
+            new_lead_ids: [],
+            changed_lead_ids: [],
+            lead_fingerprints: {},
+            previous_run_id: null,
+            error: null,
+            started_at: new Date().toISOString(),
+            completed_at: null,
+        })
+        .select('*')
+        .single();
+
+    if (error) throw error;
+    return mapRunRow(data);
+}
+
+export async function getLatestCompletedSavedSearchRun(savedSearchId: string): Promise<SavedSearchRunRecord | null> {
+    const supabase = getServiceSupabase();
+    const { data, error } = await supabase
+        .from(RUNS_TABLE)
+        .select('*')
+        .eq('saved_search_id', savedSearchId)
+        .eq('status', 'completed')
+        .order('started_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    if (error) throw error;
+    return data ? mapRunRow(data) : null;
+}
+
+export async function completeSavedSearchRun(
+    runId: string,
+    diff: SavedSearchRunDiff,
+    previousRunId: string | null
+): Promise<SavedSearchRunRecord> {
+    const supabase = getServiceSupabase();
+    const { data, error } = await supabase
+        .from(RUNS_TABLE)
+        .update({
+            status: 'completed',
+            leads_count: Object.keys(diff.lead_fingerprints).length,
+            new_count: diff.new_lead_ids.length,
+            changed_count: diff.changed_lead_ids.length,
+            unchanged_count: diff.unchanged_lead_ids.length,
+            new_lead_ids: diff.new_lead_ids,
+            changed_lead_ids: diff.changed_lead_ids,
+            lead_fingerprints: diff.lead_fingerprints,
+            previous_run_id: previousRunId,
+            completed_at: new Date().toISOString(),
+        })
+        .eq('run_id', runId)
+        .select('*')
+        .single();
+
+    if (error) throw error;
+    return mapRunRow(data);
+}
+
+export async function failSavedSearchRun(runId: string, message: string): Promise<void> {
+    const supabase = getServiceSupabase();
+    const { error } = await supabase
+        .from(RUNS_TABLE)
+        .update({
+            status: 'failed',
+            error: message,
+            completed_at: new Date().toISOString(),
+        })
+        .eq('run_id', runId);
+
+    if (error) throw error;
+}
+
+export async function listSavedSearchRuns(savedSearchId: string, limit: number): Promise<SavedSearchRunRecord[]> {
+    const supabase = getServiceSupabase();
+    const { data, error } = await supabase
+        .from(RUNS_TABLE)
+        .select('*')
+        .eq('saved_search_id', savedSearchId)
+        .order('started_at', { ascending: false })
+        .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(mapRunRow);
+}
@@ -0,0 +1,175 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { resolveIcpProfile } from '@/lib/icp/persistence';
+import { runBatchLeadSearch } from '@/lib/lead-search/batch';
+import { getServerSupabase } from '@/lib/lead-search/persistence';
+import { withApolloUsageContext } from '@/lib/usage/ledger';
+import { resolveSearchPageLimit } from '@/lib/usage/quotas';
+import {
+    claimSavedSearchRun,
+    completeSavedSearchRun,
+    createSavedSearchRun,
+    failSavedSearchRun,
+    getLatestCompletedSavedSearchRun,
+    markSavedSearchRun,
+} from './persistence';
+import { SavedSearchRecord, SavedSearchRunDiff, SavedSearchRunRecord, SavedSearchSchedule } from './types';
+
+export const SAVED_SEARCH_SCHEDULES: SavedSearchSchedule[] = ['manual', 'daily', 'weekly', 'monthly'];
+
+// Fields whose change marks a lead as "changed" between two runs.
+const FINGERPRINT_FIELDS = [
+    'title',
+    'seniority',
+    'email',
+    'email_status',
+    'primary_phone',
+    'linkedin_url',
+    'organization_id',
+    'organization_name',
+    'organization_domain',
+    'city',
+    'state',
+    'country',
+];
+
+export function isSavedSearchSchedule(value: unknown): value is SavedSearchSchedule {
+    return typeof value === 'string' && (SAVED_SEARCH_SCHEDULES as string[]).includes(value);
+}
+
+export function computeNextRunAt(schedule: SavedSearchSchedule, from: Date = new Date()): string | null {
+    const next = new Date(from.getTime());
+
+    switch (schedule) {
+        case 'daily':
+            next.setUTCDate(next.getUTCDate() + 1);
+            break;
+        case 'weekly':
+            next.setUTCDate(next.getUTCDate() + 7);
+            break;
+        case 'monthly':
+            next.setUTCMonth(next.getUTCMonth() + 1);
+            break;
+        default:
+            return null;
+    }
+
+    return next.toISOString();
+}
+
+function fingerprintLead(lead: Record<string, any>): string {
+    const values = FINGERPRINT_FIELDS.map((field) => {
+        const value = lead?.[field];
+        return value === null || value === undefined ? '' : String(value).trim().toLowerCase();
+    });
+
+    return crypto.createHash('md5').update(values.join('|')).digest('hex');
+}
+
+export function diffSavedSearchLeads(
+    leads: Array<Record<string, any>>,
+    previous: SavedSearchRunRecord | null
+): SavedSearchRunDiff {
+    const diff: SavedSearchRunDiff = {
+        new_lead_ids: [],
+        changed_lead_ids: [],
+        unchanged_lead_ids: [],
+        lead_fingerprints: {},
+    };
+    const previousFingerprints = previous?.lead_fingerprints || {};
+
+    for (const lead of leads) {
+        const id = typeof lead?.id === 'string' ? lead.id : '';
+        if (!id || diff.lead_fingerprints[id]) continue;
+
+        const fingerprint = fingerprintLead(lead);
+        diff.lead_fingerprints[id] = fingerprint;
+
+        if (!previousFingerprints[id]) {
+            diff.new_lead_ids.push(id);
+        } else if (previousFingerprints[id] !== fingerprint) {
+            diff.changed_lead_ids.push(id);
+        } else {
+            diff.unchanged_lead_ids.push(id);
+        }
+    }
+
+    return diff;
+}
+
+/**
+ * Re-runs a saved search from the first company page and diffs its leads against the
+ * previous completed run. Resume state is not used: the point is to see the same result
+ * set again and tell what is new or changed in it.
+ */
+export async function runSavedSearch(
+    search: SavedSearchRecord,
+    params: {
+        apiKey: string;
+        trigger: SavedSearchRunRecord['trigger'];
+        log: (msg: string, data?: any) => void;
+    }
+): Promise<SavedSearchRunRecord> {
+    const batchRunId = uuidv4();
+    const run = await createSavedSearchRun({
+        runId: uuidv4(),
+        savedSearchId: search.saved_search_id,
+        batchRunId,
+        trigger: params.trigger,
+    });
+
+    try {
+        const icpProfile = await resolveIcpProfile({ userId: search.user_id, orgId: search.org_id });
+        const maxSearchPages = await resolveSearchPageLimit({ userId: search.user_id, orgId: search.org_id });
+        const usageOwner = { userId: search.user_id, orgId: search.org_id, source: 'saved-search' };
+        const result = await withApolloUsageContext(usageOwner, () => runBatchLeadSearch({
+            apiKey: params.apiKey,
+            dbClient: getServerSupabase(params.log),
+            userId: search.user_id,
+            orgId: search.org_id,
+            batchRunId,
+            filters: search.filters,
+            maxResults: search.max_results,
+            companiesOnly: false,
+            resumeSearchProgress: false,
+            icpProfile,
+            maxSearchPages,
+            log: params.log,
+        }));
+
+        const previous = await getLatestCompletedSavedSearchRun(search.saved_search_id);
+        const diff = diffSavedSearchLeads(result.leads, previous);
+        const completed = await completeSavedSearchRun(run.run_id, diff, previous?.run_id || null);
+        await markSavedSearchRun(search.saved_search_id, run.run_id, run.started_at);
+
+        params.log(`Saved search ${search.saved_search_id} run completed`, {
+            run_id: run.run_id,
+            new_count: completed.new_count,
+            changed_count: completed.changed_count,
+            unchanged_count: completed.unchanged_count,
+        });
+
+        return completed;
+    } catch (error: any) {
+        const message = error?.message || 'Saved search run failed';
+        await failSavedSearchRun(run.run_id, message);
+        return { ...run, status: 'failed', error: message, completed_at: new Date().toISOString() };
+    }
+}
+
+/**
+ * Claims a due saved search by moving its next run forward, then runs it. Returns null
+ * when another scheduler claimed it first.
+ */
+export async function runDueSavedSearch(
+    search: SavedSearchRecord,
+    params: {
+        apiKey: string;
+        log: (msg: string, data?: any) => void;
+    }
+): Promise<SavedSearchRunRecord | null> {
+    const claimed = await claimSavedSearchRun(search, computeNextRunAt(search.schedule));
+    if (!claimed) return null;
+
+    return runSavedSearch(search, { ...params, trigger: 'schedule' });
+}
@@ -0,0 +1,48 @@
+import { BatchLeadSearchFilters } from '@/lib/lead-search/batch';
+
+export type SavedSearchSchedule = 'manual' | 'daily' | 'weekly' | 'monthly';
+
+export type SavedSearchRunStatus = 'in_progress' | 'completed' | 'failed';
+
+export type SavedSearchRecord = {
+    saved_search_id: string;
+    user_id: string;
+    org_id: string | null;
+    name: string;
+    filters: BatchLeadSearchFilters;
+    filters_hash: string;
+    max_results: number;
+    schedule: SavedSearchSchedule;
+    is_active: boolean;
+    next_run_at: string | null;
+    last_run_at: string | null;
+    last_run_id: string | null;
+    created_at: string;
+    updated_at: string;
+};
+
+export type SavedSearchRunRecord = {
+    run_id: string;
+    saved_search_id: string;
+    batch_run_id: string;
+    status: SavedSearchRunStatus;
+    trigger: 'schedule' | 'manual';
+    leads_count: number;
+    new_count: number;
+    changed_count: number;
+    unchanged_count: number;
+    new_lead_ids: string[];
+    changed_lead_ids: string[];
+    lead_fingerprints: Record<string, string>;
+    previous_run_id: string | null;
+    error: string | null;
+    started_at: string;
+    completed_at: string | null;
+};
+
+export type SavedSearchRunDiff = {
+    new_lead_ids: string[];
+    changed_lead_ids: string[];
+    unchanged_lead_ids: string[];
+    lead_fingerprints: Record<string, string>;
+};
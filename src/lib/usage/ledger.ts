@@ -0,0 +1,213 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { normalizeEmail } from '@/lib/lead-search/normalize';
+import { insertApolloUsageEntry, isMissingUsageStorageError } from './persistence';
+import { ApolloCreditCosts, ApolloUsageContext, ApolloUsageEntry } from './types';
+
+// Apollo does not report credits per call, so these are estimates based on the plan's
+// published prices. Override with APOLLO_CREDIT_COSTS, e.g. {"phone_reveal":9}.
+const DEFAULT_CREDIT_COSTS: ApolloCreditCosts = {
+    person_match: 1,
+    phone_reveal: 8,
+    organization_enrich: 1,
+    organization_search_page: 1,
+    people_search_page: 0,
+};
+
+// Phones Apollo delivers later through the webhook are recorded under this endpoint. They
+// are not Apollo calls and cost no credits beyond the match that requested them.
+export const APOLLO_PHONE_WEBHOOK_ENDPOINT = 'webhook/phone';
+
+const usageStorage = new AsyncLocalStorage<ApolloUsageContext>();
+let missingStorageWarned = false;
+
+/**
+ * Runs `fn` with every Apollo call inside it attributed to the given user and org.
+ */
+export function withApolloUsageContext<T>(
+    context: { userId?: string | null; orgId?: string | null; source: string },
+    fn: () => Promise<T>
+): Promise<T> {
+    return usageStorage.run(
+        {
+            user_id: context.userId || null,
+            org_id: context.orgId || null,
+            source: context.source,
+        },
+        fn
+    );
+}
+
+/**
+ * Sets the owner of the current usage context once a route has parsed its body. Calls
+ * made before this (or outside any context) stay unattributed.
+ */
+export function attributeApolloUsage(owner: { userId?: string | null; orgId?: string | null }) {
+    const context = usageStorage.getStore();
+    if (!context) return;
+
+    if (owner.userId !== undefined) context.user_id = owner.userId || null;
+    if (owner.orgId !== undefined) context.org_id = owner.orgId || null;
+}
+
+export function resolveApolloCreditCosts(): ApolloCreditCosts {
+    const raw = process.env.APOLLO_CREDIT_COSTS?.trim();
+    if (!raw) return DEFAULT_CREDIT_COSTS;
+
+    try {
+        const parsed = JSON.parse(raw);
+        const costs = { ...DEFAULT_CREDIT_COSTS };
+        for (const key of Object.keys(costs) as (keyof ApolloCreditCosts)[]) {
+            const value = Number(parsed?.[key]);
+            if (Number.isFinite(value) && value >= 0) costs[key] = value;
+        }
+        return costs;
+    } catch {
+        console.warn('[apollo-usage] Ignoring invalid APOLLO_CREDIT_COSTS; using defaults.');
+        return DEFAULT_CREDIT_COSTS;
+    }
+}
+
+function countMatches(path: string, payload: any): number {
+    if (!payload || typeof payload !== 'object') return 0;
+
+    switch (path) {
+        case '/people/match':
+            return payload.person ? 1 : 0;
+        case '/people/bulk_match':
+            return Array.isArray(payload.matches) ? payload.matches.filter(Boolean).length : 0;
+        case '/organizations/enrich':
+            return payload.organization ? 1 : 0;
+        case '/mixed_companies/search':
+            return (Array.isArray(payload.organizations) ? payload.organizations.length : 0)
+                + (Array.isArray(payload.accounts) ? payload.accounts.length : 0);
+        case '/mixed_people/api_search':
+            return Array.isArray(payload.people) ? payload.people.length : 0;
+        default:
+            return 0;
+    }
+}
+
+function countRevealedEmails(path: string, payload: any): number {
+    const people = path === '/people/match'
+        ? [payload?.person]
+        : path === '/people/bulk_match' && Array.isArray(payload?.matches) ? payload.matches : [];
+
+    return people.filter((person: any) => normalizeEmail(person?.email)).length;
+}
+
+function estimateCredits(
+    path: string,
+    matchedCount: number,
+    revealPhone: boolean,
+    ok: boolean,
+    costs: ApolloCreditCosts
+): number {
+    if (!ok) return 0;
+
+    switch (path) {
+        case '/people/match':
+        case '/people/bulk_match':
+            return matchedCount * (costs.person_match + (revealPhone ? costs.phone_reveal : 0));
+        case '/organizations/enrich':
+            return matchedCount > 0 ? costs.organization_enrich : 0;
+        case '/mixed_companies/search':
+            return costs.organization_search_page;
+        case '/mixed_people/api_search':
+            return costs.people_search_page;
+        default:
+            return 0;
+    }
+}
+
+/**
+ * Writes one ledger entry for a finished Apollo call. `response` is null when the request
+ * never got one (network failure). Ledger failures are logged and never reach the caller.
+ */
+export async function recordApolloUsage(
+    request: { path: string; label: string; params?: URLSearchParams },
+    response: Response | null
+): Promise<void> {
+    try {
+        const context = usageStorage.getStore();
+        const ok = Boolean(response?.ok);
+        const payload = ok && response
+            ? await response.clone().json().catch(() => null)
+            : null;
+
+        const revealEmail = request.params?.get('reveal_personal_emails') === 'true';
+        const revealPhone = request.params?.get('reveal_phone_number') === 'true';
+        const matchedCount = countMatches(request.path, payload);
+
+        const entry: ApolloUsageEntry = {
+            entry_id: randomUUID(),
+            user_id: context?.user_id ?? null,
+            org_id: context?.org_id ?? null,
+            source: context?.source || 'unattributed',
+            endpoint: request.path,
+            label: request.label,
+            reveal_email: revealEmail,
+            reveal_phone: revealPhone,
+            status_code: response ? response.status : null,
+            matched: matchedCount > 0,
+            matched_count: matchedCount,
+            emails_revealed: revealEmail ? countRevealedEmails(request.path, payload) : 0,
+            // Requested phones only arrive through the webhook; see recordApolloPhoneReveal.
+            phones_revealed: 0,
+            estimated_credits: estimateCredits(request.path, matchedCount, revealPhone, ok, resolveApolloCreditCosts()),
+            created_at: new Date().toISOString(),
+        };
+
+        await insertApolloUsageEntry(entry);
+    } catch (error: any) {
+        warnUsageNotRecorded(error);
+    }
+}
+
+/**
+ * Records a phone reveal when an Apollo webhook wrote the person's own phones (the company HQ
+ * fallback does not count). `owner` is the lead's `enrichment_request`. Only delivered phones
+ * count towards phone reveal quotas.
+ */
+export async function recordApolloPhoneReveal(
+    phoneNumbers: unknown,
+    owner: { user_id?: string | null; org_id?: string | null } | null | undefined,
+    source: string
+): Promise<void> {
+    const phones = Array.isArray(phoneNumbers) ? phoneNumbers : [];
+    if (!phones.some((phone: any) => phone?.source === 'apollo_person')) return;
+
+    try {
+        await insertApolloUsageEntry({
+            entry_id: randomUUID(),
+            user_id: owner?.user_id ?? null,
+            org_id: owner?.org_id ?? null,
+            source,
+            endpoint: APOLLO_PHONE_WEBHOOK_ENDPOINT,
+            label: 'phone reveal delivered',
+            reveal_email: false,
+            reveal_phone: true,
+            status_code: null,
+            matched: false,
+            matched_count: 0,
+            emails_revealed: 0,
+            phones_revealed: 1,
+            estimated_credits: 0,
+            created_at: new Date().toISOString(),
+        });
+    } catch (error: any) {
+        warnUsageNotRecorded(error);
+    }
+}
+
+function warnUsageNotRecorded(error: any) {
+    if (isMissingUsageStorageError(error)) {
+        if (!missingStorageWarned) {
+            missingStorageWarned = true;
+            console.warn('[apollo-usage] apollo_usage_ledger is unavailable; Apollo usage is not being recorded.');
+        }
+        return;
+    }
+
+    console.warn('[apollo-usage] Failed to record Apollo usage', error?.message || error);
+}
@@ -0,0 +1,200 @@
+import { getServiceSupabase } from '@/lib/supabase';
+import { ApolloQuota, ApolloQuotaLimits, ApolloQuotaOwnerType, ApolloUsageEntry } from './types';
+
+const LEDGER_TABLE = 'apollo_usage_ledger';
+const QUOTAS_TABLE = 'apollo_quotas';
+const PAGE_SIZE = 1000;
+const REVEAL_COUNT_COLUMNS = ['emails_revealed', 'phones_revealed'] as const;
+let missingRevealCountsWarned = false;
+
+type Row = Record<string, any>;
+
+export function isMissingUsageStorageError(error: any): boolean {
+    const text = [error?.message, error?.details, error?.hint].filter(Boolean).join(' ').toLowerCase();
+    if (text.includes('supabase_service_role_key')) return true;
+
+    return (text.includes(LEDGER_TABLE) || text.includes(QUOTAS_TABLE)) && (
+        text.includes('does not exist') ||
+        text.includes('not found') ||
+        text.includes('schema cache') ||
+        text.includes('could not find the table')
+    );
+}
+
+// Ledgers created before 024_add_usage_ledger_reveal_counts.sql have no reveal counts.
+export function isMissingRevealCountColumnError(error: any): boolean {
+    const text = [error?.message, error?.details, error?.hint].filter(Boolean).join(' ').toLowerCase();
+    return REVEAL_COUNT_COLUMNS.some((column) => text.includes(column)) && (
+        text.includes('does not exist') ||
+        text.includes('schema cache') ||
+        text.includes('could not find')
+    );
+}
+
+function warnMissingRevealCounts() {
+    if (missingRevealCountsWarned) return;
+    missingRevealCountsWarned = true;
+    console.warn('[apollo-usage] apollo_usage_ledger has no reveal counts; quotas count matched reveal calls. Run 024_add_usage_ledger_reveal_counts.sql.');
+}
+
+function parseLimit(value: unknown): number | null {
+    if (value === null || value === undefined) return null;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed >= 0 ? Math.floor(parsed) : null;
+}
+
+function mapQuotaRow(row: Row): ApolloQuota {
+    return {
+        owner_type: row.owner_type,
+        owner_id: row.owner_id,
+        max_email_reveals_per_day: parseLimit(row.max_email_reveals_per_day),
+        max_phone_reveals_per_month: parseLimit(row.max_phone_reveals_per_month),
+        max_search_pages_per_run: parseLimit(row.max_search_pages_per_run),
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+    };
+}
+
+function mapLedgerRow(row: Row): ApolloUsageEntry {
+    return {
+        entry_id: row.entry_id,
+        user_id: row.user_id ?? null,
+        org_id: row.org_id ?? null,
+        source: row.source,
+        endpoint: row.endpoint,
+        label: row.label,
+        reveal_email: Boolean(row.reveal_email),
+        reveal_phone: Boolean(row.reveal_phone),
+        status_code: typeof row.status_code === 'number' ? row.status_code : null,
+        matched: Boolean(row.matched),
+        matched_count: Number(row.matched_count) || 0,
+        // Without the columns, a matched reveal call stands in for one reveal.
+        emails_revealed: row.emails_revealed === undefined
+            ? Number(Boolean(row.reveal_email && row.matched))
+            : Number(row.emails_revealed) || 0,
+        phones_revealed: row.phones_revealed === undefined
+            ? Number(Boolean(row.reveal_phone && row.matched))
+            : Number(row.phones_revealed) || 0,
+        estimated_credits: Number(row.estimated_credits) || 0,
+        created_at: row.created_at,
+    };
+}
+
+export async function insertApolloUsageEntry(entry: ApolloUsageEntry): Promise<void> {
+    const supabase = getServiceSupabase();
+    let { error } = await supabase.from(LEDGER_TABLE).insert(entry);
+
+    if (error && isMissingRevealCountColumnError(error)) {
+        warnMissingRevealCounts();
+        const { emails_revealed: _emails, phones_revealed: _phones, ...legacyEntry } = entry;
+        ({ error } = await supabase.from(LEDGER_TABLE).insert(legacyEntry));
+    }
+
+    if (error) throw error;
+}
+
+/**
+ * Reads every ledger entry in `[from, to)` for the given owner filters, oldest first.
+ */
+export async function listApolloUsageEntries(params: {
+    from: string;
+    to: string;
+    userId?: string | null;
+    orgId?: string | null;
+}): Promise<ApolloUsageEntry[]> {
+    const supabase = getServiceSupabase();
+    const entries: ApolloUsageEntry[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+        let query = supabase
+            .from(LEDGER_TABLE)
+            .select('*')
+            .gte('created_at', params.from)
+            .lt('created_at', params.to);
+
+        if (params.userId) query = query.eq('user_id', params.userId);
+        if (params.orgId) query = query.eq('org_id', params.orgId);
+
+        const { data, error } = await query
+            .order('created_at', { ascending: true })
+            .order('entry_id', { ascending: true })
+            .range(offset, offset + PAGE_SIZE - 1);
+
+        if (error) throw error;
+
+        const page = (data || []).map(mapLedgerRow);
+        entries.push(...page);
+        if (page.length < PAGE_SIZE) return entries;
+    }
+}
+
+/**
+ * Counts successful reveals since `from`: ledger entries where Apollo returned an email, or
+ * whose webhook delivered phones. Each reveal call enriches one person, so an entry is one
+ * reveal. Ledgers without reveal counts fall back to matched reveal calls.
+ */
+export async function countApolloReveals(params: {
+    reveal: 'email' | 'phone';
+    from: string;
+    userId?: string | null;
+    orgId?: string | null;
+}): Promise<number> {
+    const supabase = getServiceSupabase();
+    const buildQuery = (legacy: boolean) => {
+        let query = supabase
+            .from(LEDGER_TABLE)
+            .select('entry_id', { count: 'exact', head: true })
+            .gte('created_at', params.from);
+
+        query = legacy
+            ? query.eq(params.reveal === 'email' ? 'reveal_email' : 'reveal_phone', true).eq('matched', true)
+            : query.gt(params.reveal === 'email' ? 'emails_revealed' : 'phones_revealed', 0);
+
+        if (params.userId) query = query.eq('user_id', params.userId);
+        if (params.orgId) query = query.eq('org_id', params.orgId);
+        return query;
+    };
+
+    let { count, error } = await buildQuery(false);
+    if (error && isMissingRevealCountColumnError(error)) {
+        warnMissingRevealCounts();
+        ({ count, error } = await buildQuery(true));
+    }
+    if (error) throw error;
+
+    return count || 0;
+}
+
+export async function getApolloQuota(ownerType: ApolloQuotaOwnerType, ownerId: string): Promise<ApolloQuota | null> {
+    const supabase = getServiceSupabase();
+    const { data, error } = await supabase
+        .from(QUOTAS_TABLE)
+        .select('*')
+        .eq('owner_type', ownerType)
+        .eq('owner_id', ownerId)
+        .maybeSingle();
+
+    if (error) throw error;
+    return data ? mapQuotaRow(data) : null;
+}
+
+export async function saveApolloQuota(
+    ownerType: ApolloQuotaOwnerType,
+    ownerId: string,
+    limits: ApolloQuotaLimits
+): Promise<ApolloQuota> {
+    const supabase = getServiceSupabase();
+    const { data, error } = await supabase
+        .from(QUOTAS_TABLE)
+        .upsert({
+            owner_type: ownerType,
+            owner_id: ownerId,
+            ...limits,
+            updated_at: new Date().toISOString(),
+        }, { onConflict: 'owner_type,owner_id' })
+        .select('*')
+        .single();
+
+    if (error) throw error;
+    return mapQuotaRow(data);
+}
@@ -0,0 +1,196 @@
+import {
+    countApolloReveals,
+    getApolloQuota,
+    isMissingUsageStorageError,
+} from './persistence';
+import {
+    ApolloQuotaExceeded,
+    ApolloQuotaLimits,
+    ApolloQuotaName,
+    ApolloQuotaOwnerType,
+} from './types';
+
+export const APOLLO_QUOTA_FIELDS: (keyof ApolloQuotaLimits)[] = [
+    'max_email_reveals_per_day',
+    'max_phone_reveals_per_month',
+    'max_search_pages_per_run',
+];
+
+const EMPTY_LIMITS: ApolloQuotaLimits = {
+    max_email_reveals_per_day: null,
+    max_phone_reveals_per_month: null,
+    max_search_pages_per_run: null,
+};
+
+type OwnerLimits = {
+    owner_type: ApolloQuotaOwnerType;
+    owner_id: string;
+    limits: ApolloQuotaLimits;
+};
+
+/**
+ * Reads quota limits from a request body or JSON env value. Missing fields and `null`
+ * mean unlimited; anything else must be a non-negative integer.
+ */
+export function normalizeApolloQuotaLimits(input: any): ApolloQuotaLimits {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+        throw new Error('Quota limits must be an object');
+    }
+
+    const limits: ApolloQuotaLimits = { ...EMPTY_LIMITS };
+    for (const field of APOLLO_QUOTA_FIELDS) {
+        const value = input[field];
+        if (value === undefined || value === null || value === '') continue;
+
+        const parsed = Number(value);
+        if (!Number.isInteger(parsed) || parsed < 0) {
+            throw new Error(`${field} must be a non-negative integer or null`);
+        }
+        limits[field] = parsed;
+    }
+
+    return limits;
+}
+
+// Applied to users without their own apollo_quotas row.
+function resolveDefaultUserLimits(): ApolloQuotaLimits {
+    const raw = process.env.APOLLO_DEFAULT_USER_QUOTAS?.trim();
+    if (!raw) return EMPTY_LIMITS;
+
+    try {
+        return normalizeApolloQuotaLimits(JSON.parse(raw));
+    } catch (error: any) {
+        console.warn(`[apollo-quotas] Ignoring invalid APOLLO_DEFAULT_USER_QUOTAS: ${error?.message || error}`);
+        return EMPTY_LIMITS;
+    }
+}
+
+async function resolveOwnerLimits(owner: { userId?: string | null; orgId?: string | null }): Promise<OwnerLimits[]> {
+    const owners: OwnerLimits[] = [];
+
+    try {
+        if (owner.userId) {
+            const quota = await getApolloQuota('user', owner.userId);
+            owners.push({ owner_type: 'user', owner_id: owner.userId, limits: quota || resolveDefaultUserLimits() });
+        }
+        if (owner.orgId) {
+            const quota = await getApolloQuota('org', owner.orgId);
+            if (quota) owners.push({ owner_type: 'org', owner_id: owner.orgId, limits: quota });
+        }
+    } catch (error: any) {
+        if (!isMissingUsageStorageError(error)) throw error;
+        if (owner.userId) {
+            return [{ owner_type: 'user', owner_id: owner.userId, limits: resolveDefaultUserLimits() }];
+        }
+        return [];
+    }
+
+    return owners;
+}
+
+function startOfUtcDay(now: Date): Date {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+function startOfUtcMonth(now: Date): Date {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+async function countRevealsSafely(params: Parameters<typeof countApolloReveals>[0]): Promise<number> {
+    try {
+        return await countApolloReveals(params);
+    } catch (error: any) {
+        // Without the ledger there is nothing to count against, so reveals are not blocked.
+        if (isMissingUsageStorageError(error)) return 0;
+        throw error;
+    }
+}
+
+export async function getApolloRevealUsage(
+    ownerType: ApolloQuotaOwnerType,
+    ownerId: string,
+    now = new Date()
+): Promise<{ email_reveals_today: number; phone_reveals_this_month: number }> {
+    const owner = ownerType === 'user' ? { userId: ownerId } : { orgId: ownerId };
+    const [emailRevealsToday, phoneRevealsThisMonth] = await Promise.all([
+        countRevealsSafely({ reveal: 'email', from: startOfUtcDay(now).toISOString(), ...owner }),
+        countRevealsSafely({ reveal: 'phone', from: startOfUtcMonth(now).toISOString(), ...owner }),
+    ]);
+
+    return { email_reveals_today: emailRevealsToday, phone_reveals_this_month: phoneRevealsThisMonth };
+}
+
+function buildQuotaExceeded(
+    owner: OwnerLimits,
+    quota: ApolloQuotaName,
+    limit: number,
+    used: number,
+    resetsAt: Date | null
+): ApolloQuotaExceeded {
+    const labels: Record<ApolloQuotaName, string> = {
+        email_reveals_per_day: 'daily email reveal',
+        phone_reveals_per_month: 'monthly phone reveal',
+        search_pages_per_run: 'search pages per run',
+    };
+
+    return {
+        error: 'QUOTA_EXCEEDED',
+        message: `The ${owner.owner_type} ${owner.owner_id} reached its ${labels[quota]} quota (${used}/${limit}). Retry without reveals or after the quota resets.`,
+        quota,
+        owner_type: owner.owner_type,
+        owner_id: owner.owner_id,
+        limit,
+        used,
+        resets_at: resetsAt ? resetsAt.toISOString() : null,
+    };
+}
+
+/**
+ * Returns the first reveal quota (user before org) that the requested reveals would
+ * exceed, or null when the request may spend credits. Non-revealing requests always pass.
+ */
+export async function checkRevealQuota(params: {
+    userId?: string | null;
+    orgId?: string | null;
+    revealEmail: boolean;
+    revealPhone: boolean;
+}): Promise<ApolloQuotaExceeded | null> {
+    if (!params.revealEmail && !params.revealPhone) return null;
+
+    const now = new Date();
+    const owners = await resolveOwnerLimits(params);
+
+    for (const owner of owners) {
+        const { max_email_reveals_per_day: emailLimit, max_phone_reveals_per_month: phoneLimit } = owner.limits;
+        const needsEmail = params.revealEmail && emailLimit !== null;
+        const needsPhone = params.revealPhone && phoneLimit !== null;
+        if (!needsEmail && !needsPhone) continue;
+
+        const usage = await getApolloRevealUsage(owner.owner_type, owner.owner_id, now);
+
+        if (needsEmail && usage.email_reveals_today >= emailLimit!) {
+            const resetsAt = startOfUtcDay(now);
+            resetsAt.setUTCDate(resetsAt.getUTCDate() + 1);
+            return buildQuotaExceeded(owner, 'email_reveals_per_day', emailLimit!, usage.email_reveals_today, resetsAt);
+        }
+
+        if (needsPhone && usage.phone_reveals_this_month >= phoneLimit!) {
+            const resetsAt = startOfUtcMonth(now);
+            resetsAt.setUTCMonth(resetsAt.getUTCMonth() + 1);
+            return buildQuotaExceeded(owner, 'phone_reveals_per_month', phoneLimit!, usage.phone_reveals_this_month, resetsAt);
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Smallest `max_search_pages_per_run` of the user and org, or null when neither sets one.
+ */
+export async function resolveSearchPageLimit(owner: { userId?: string | null; orgId?: string | null }): Promise<number | null> {
+    const limits = (await resolveOwnerLimits(owner))
+        .map((entry) => entry.limits.max_search_pages_per_run)
+        .filter((limit): limit is number => limit !== null);
+
+    return limits.length > 0 ? Math.min(...limits) : null;
+}
@@ -0,0 +1,88 @@
+import { APOLLO_PHONE_WEBHOOK_ENDPOINT } from './ledger';
+import { ApolloUsageEntry, ApolloUsageRollup, UsagePeriod } from './types';
+
+export const USAGE_PERIODS: UsagePeriod[] = ['daily', 'weekly', 'monthly'];
+
+export function isUsagePeriod(value: unknown): value is UsagePeriod {
+    return typeof value === 'string' && (USAGE_PERIODS as string[]).includes(value);
+}
+
+/**
+ * Start of the UTC day, ISO week (Monday) or month that `timestamp` falls in.
+ */
+export function resolvePeriodStart(timestamp: string, period: UsagePeriod): string {
+    const date = new Date(timestamp);
+    const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+    if (period === 'weekly') {
+        const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+        start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+    } else if (period === 'monthly') {
+        start.setUTCDate(1);
+    }
+
+    return start.toISOString().slice(0, 10);
+}
+
+/**
+ * Groups ledger entries by period, user and org. Rollups come back oldest period first,
+ * then by user and org id.
+ */
+export function buildUsageRollups(entries: ApolloUsageEntry[], period: UsagePeriod): ApolloUsageRollup[] {
+    const rollups = new Map<string, ApolloUsageRollup>();
+
+    for (const entry of entries) {
+        const periodStart = resolvePeriodStart(entry.created_at, period);
+        const key = JSON.stringify([periodStart, entry.user_id, entry.org_id]);
+
+        let rollup = rollups.get(key);
+        if (!rollup) {
+            rollup = {
+                period_start: periodStart,
+                user_id: entry.user_id,
+                org_id: entry.org_id,
+                calls: 0,
+                matched_calls: 0,
+                email_reveals: 0,
+                phone_reveals: 0,
+                estimated_credits: 0,
+                by_endpoint: {},
+            };
+            rollups.set(key, rollup);
+        }
+
+        // Reveals count what Apollo returned; webhook phone deliveries are not calls.
+        rollup.email_reveals += entry.emails_revealed;
+        rollup.phone_reveals += entry.phones_revealed;
+        if (entry.endpoint === APOLLO_PHONE_WEBHOOK_ENDPOINT) continue;
+
+        rollup.calls++;
+        if (entry.matched) rollup.matched_calls++;
+        rollup.estimated_credits += entry.estimated_credits;
+
+        const endpoint = rollup.by_endpoint[entry.endpoint] || { calls: 0, estimated_credits: 0 };
+        endpoint.calls++;
+        endpoint.estimated_credits += entry.estimated_credits;
+        rollup.by_endpoint[entry.endpoint] = endpoint;
+    }
+
+    return Array.from(rollups.values()).sort((a, b) =>
+        a.period_start.localeCompare(b.period_start)
+        || (a.user_id || '').localeCompare(b.user_id || '')
+        || (a.org_id || '').localeCompare(b.org_id || '')
+    );
+}
+
+export function summarizeUsage(rollups: ApolloUsageRollup[]) {
+    return rollups.reduce(
+        (totals, rollup) => {
+            totals.calls += rollup.calls;
+            totals.matched_calls += rollup.matched_calls;
+            totals.email_reveals += rollup.email_reveals;
+            totals.phone_reveals += rollup.phone_reveals;
+            totals.estimated_credits += rollup.estimated_credits;
+            return totals;
+        },
+        { calls: 0, matched_calls: 0, email_reveals: 0, phone_reveals: 0, estimated_credits: 0 }
+    );
+}
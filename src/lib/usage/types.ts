@@ -0,0 +1,77 @@
+export type UsagePeriod = 'daily' | 'weekly' | 'monthly';
+
+export type ApolloCreditCosts = {
+    // Per matched person on people/match and people/bulk_match.
+    person_match: number;
+    // Added per matched person when reveal_phone_number is requested.
+    phone_reveal: number;
+    organization_enrich: number;
+    organization_search_page: number;
+    people_search_page: number;
+};
+
+export type ApolloUsageContext = {
+    user_id: string | null;
+    org_id: string | null;
+    source: string;
+};
+
+export type ApolloUsageEntry = {
+    entry_id: string;
+    user_id: string | null;
+    org_id: string | null;
+    source: string;
+    endpoint: string;
+    label: string;
+    reveal_email: boolean;
+    reveal_phone: boolean;
+    status_code: number | null;
+    matched: boolean;
+    matched_count: number;
+    // Emails Apollo returned for a reveal request, and phones its webhook delivered.
+    emails_revealed: number;
+    phones_revealed: number;
+    estimated_credits: number;
+    created_at: string;
+};
+
+export type ApolloUsageRollup = {
+    period_start: string;
+    user_id: string | null;
+    org_id: string | null;
+    calls: number;
+    matched_calls: number;
+    email_reveals: number;
+    phone_reveals: number;
+    estimated_credits: number;
+    by_endpoint: Record<string, { calls: number; estimated_credits: number }>;
+};
+
+export type ApolloQuotaOwnerType = 'user' | 'org';
+
+export type ApolloQuotaName = 'email_reveals_per_day' | 'phone_reveals_per_month' | 'search_pages_per_run';
+
+// null means unlimited.
+export type ApolloQuotaLimits = {
+    max_email_reveals_per_day: number | null;
+    max_phone_reveals_per_month: number | null;
+    max_search_pages_per_run: number | null;
+};
+
+export type ApolloQuota = ApolloQuotaLimits & {
+    owner_type: ApolloQuotaOwnerType;
+    owner_id: string;
+    created_at: string;
+    updated_at: string;
+};
+
+export type ApolloQuotaExceeded = {
+    error: 'QUOTA_EXCEEDED';
+    message: string;
+    quota: ApolloQuotaName;
+    owner_type: ApolloQuotaOwnerType;
+    owner_id: string;
+    limit: number;
+    used: number;
+    resets_at: string | null;
+};